@@ -12,7 +12,17 @@ export const mockSubscriptions = [
     frequency_days: 30,
     last_ordered_at: '2024-01-01T00:00:00Z',
     next_reminder_at: '2024-01-31T00:00:00Z',
-    created_at: '2024-01-01T00:00:00Z'
+    created_at: '2024-01-01T00:00:00Z',
+    frequency_locked: false,
+    estimated_frequency_days: null,
+    cadence_confidence: null,
+    pack_size: 1,
+    quantity: 1,
+    consumption_rate: null,
+    lead_time_days: 0,
+    updated_at: '2024-01-01T00:00:00Z',
+    typical_price: null,
+    sku: null
   }
 ]
 
@@ -1,29 +1,71 @@
-import { getLLMProvider } from '@/lib/llm'
+import { getLLMSettings, createLLMProvider, getAnalysisVariant } from '@/lib/llm'
+import { getOrderHistory, getPriceHistory, recordObservedPrice } from '@/lib/subscriptions'
 import {
-  createSubscription,
-  updateSubscription,
-  deleteSubscription,
-  getSubscriptions,
-  markAsOrdered,
-  snoozeReminder
-} from '@/lib/subscriptions'
+  initializeSubscriptionStore,
+  listSubscriptions,
+  refreshSubscriptions,
+  createSubscriptionLocally,
+  updateSubscriptionLocally,
+  deleteSubscriptionLocally,
+  markAsOrderedLocally,
+  snoozeReminderLocally,
+  mergeSubscriptionsLocally
+} from '@/lib/subscription-store'
 import {
   initializeReminderSystem,
-  checkDueReminders,
-  handleNotificationClick
+  checkDueReminders
 } from '@/lib/reminders'
+import { syncPreferences, isPreferenceKey } from '@/lib/preferences'
+import { initializeRealtimeSync } from '@/lib/realtime-sync'
+import { migrateLocalData } from '@/lib/storage-backend'
+import { normalizeProductUrl, findSubscriptionForPage } from '@/lib/product-identity'
+import { parsePrice } from '@/lib/currency'
+import { getAnalysisFingerprint, getCachedAnalysis, cacheAnalysis } from '@/lib/analysis-cache'
 import type {
   ExtensionMessage,
   CreateSubscriptionPayload,
   UpdateSubscriptionPayload,
   DeleteSubscriptionPayload,
   MarkAsOrderedPayload,
-  SnoozeReminderPayload
+  SnoozeReminderPayload,
+  GetOrderHistoryPayload,
+  GetPriceHistoryPayload,
+  PriceObservedPayload,
+  GetPageSubscriptionPayload,
+  MergeSubscriptionsPayload,
+  OrderAnalysis
 } from '@/types'
 
 // Initialize reminder system on service worker start
 initializeReminderSystem()
 
+// Serve subscriptions from the local cache and replay offline changes
+initializeSubscriptionStore()
+
+// Keep the cache and notifications in step with changes made on other devices
+initializeRealtimeSync()
+
+// Reconcile preferences with the server, and push changes made on this device
+// (or arriving via Chrome sync) as they happen
+syncPreferences()
+chrome.storage.onChanged.addListener((changes, areaName) => {
+  if (areaName === 'sync' && Object.keys(changes).some(isPreferenceKey)) {
+    syncPreferences()
+  }
+})
+
+// Single-page stores navigate with history.pushState, which doesn't reload
+// the content script; tell it a new page started
+chrome.webNavigation.onHistoryStateUpdated.addListener((details) => {
+  if (details.frameId !== 0) return
+  chrome.tabs.sendMessage(details.tabId, {
+    type: 'PAGE_NAVIGATED',
+    payload: { url: details.url }
+  }).catch(() => {
+    // No content script in this tab
+  })
+})
+
 // Log service worker start
 console.log('[Subscribe Any] Service worker started')
 
@@ -60,45 +102,69 @@ async function handleMessage(
       if ('htmlContent' in payload) {
         return analyzePageContent(
           { htmlContent: payload.htmlContent, textContent: payload.textContent },
-          payload.heuristicConfidence
+          payload.heuristicConfidence,
+          payload.url
         )
       } else {
-        return analyzePageContent(payload.content, payload.heuristicConfidence)
+        return analyzePageContent(payload.content, payload.heuristicConfidence, payload.url)
       }
     }
 
     case 'CREATE_SUBSCRIPTION': {
       const { subscription } = message.payload as CreateSubscriptionPayload
-      const result = await createSubscription(subscription)
+      const result = await createSubscriptionLocally(subscription)
       return { success: !!result, subscription: result }
     }
 
     case 'GET_SUBSCRIPTIONS': {
-      const subscriptions = await getSubscriptions()
+      const subscriptions = await listSubscriptions()
       return { subscriptions }
     }
 
     case 'UPDATE_SUBSCRIPTION': {
       const { id, updates } = message.payload as UpdateSubscriptionPayload
-      const result = await updateSubscription(id, updates)
+      const result = await updateSubscriptionLocally(id, updates)
       return { success: !!result, subscription: result }
     }
 
     case 'DELETE_SUBSCRIPTION': {
       const { id } = message.payload as DeleteSubscriptionPayload
-      const success = await deleteSubscription(id)
+      const success = await deleteSubscriptionLocally(id)
       return { success }
     }
 
     case 'MARK_AS_ORDERED': {
-      const { id } = message.payload as MarkAsOrderedPayload
-      const result = await markAsOrdered(id)
+      const { id, order } = message.payload as MarkAsOrderedPayload
+      const result = await markAsOrderedLocally(id, order)
+      return { success: !!result, subscription: result }
+    }
+
+    case 'MERGE_SUBSCRIPTIONS': {
+      const { keepId, duplicateId } = message.payload as MergeSubscriptionsPayload
+      const result = await mergeSubscriptionsLocally(keepId, duplicateId)
       return { success: !!result, subscription: result }
     }
 
+    case 'GET_ORDER_HISTORY': {
+      const { subscriptionId } = message.payload as GetOrderHistoryPayload
+      const orders = await getOrderHistory(subscriptionId)
+      return { orders }
+    }
+
+    case 'GET_PRICE_HISTORY': {
+      const { subscriptionId } = message.payload as GetPriceHistoryPayload
+      const prices = await getPriceHistory(subscriptionId)
+      return { prices }
+    }
+
+    case 'PRICE_OBSERVED': {
+      const recorded = await handlePriceObserved(message.payload as PriceObservedPayload)
+      return { success: true, recorded }
+    }
+
     case 'SNOOZE_REMINDER': {
       const { id, days } = message.payload as SnoozeReminderPayload
-      const result = await snoozeReminder(id, days)
+      const result = await snoozeReminderLocally(id, days)
       return { success: !!result, subscription: result }
     }
 
@@ -107,6 +173,20 @@ async function handleMessage(
       return { success: true }
     }
 
+    case 'GET_PAGE_SUBSCRIPTION': {
+      const { url, productName } = message.payload as GetPageSubscriptionPayload
+      const subscription = findSubscriptionForPage(await listSubscriptions(), { url, productName })
+      return { subscription }
+    }
+
+    case 'MIGRATE_LOCAL_DATA': {
+      const success = await migrateLocalData()
+      if (success) {
+        await refreshSubscriptions()
+      }
+      return { success }
+    }
+
     default:
       console.warn('[Subscribe Any] Unknown message type:', message.type)
       return { error: 'Unknown message type' }
@@ -114,15 +194,57 @@ async function handleMessage(
 }
 
 /**
- * Analyze page content using LLM
+ * Log a price seen by the content script against the subscription it names,
+ * or every subscription for the product page it was seen on (by product_url,
+ * else the best match for the page's product)
+ */
+async function handlePriceObserved(payload: PriceObservedPayload): Promise<number> {
+  let ids: string[] = []
+  if (payload.subscriptionId) {
+    ids = [payload.subscriptionId]
+  } else if (payload.productUrl) {
+    const page = normalizeProductUrl(payload.productUrl)
+    const subscriptions = await listSubscriptions()
+    ids = subscriptions
+      .filter((s) => s.product_url && normalizeProductUrl(s.product_url) === page)
+      .map((s) => s.id)
+
+    if (ids.length === 0) {
+      const match = findSubscriptionForPage(subscriptions, {
+        url: payload.productUrl,
+        productName: payload.productName ?? null
+      })
+      if (match) ids = [match.id]
+    }
+  }
+
+  let recorded = 0
+  for (const id of ids) {
+    if (await recordObservedPrice(id, payload.price, payload.source, payload.currency)) {
+      recorded++
+    }
+  }
+
+  if (recorded > 0) {
+    // Writes above skip the offline cache, so bring it up to date
+    await refreshSubscriptions()
+  }
+  return recorded
+}
+
+/**
+ * Analyze page content using LLM. Results are cached by page fingerprint,
+ * so reloading or revisiting a page already analyzed skips the LLM call.
  */
 async function analyzePageContent(
   contentOrHtml: string | { htmlContent: string; textContent: string },
-  heuristicConfidence = 0
+  heuristicConfidence = 0,
+  url = ''
 ) {
   try {
     console.log('[Subscribe Any BG] Getting LLM provider...')
-    const provider = await getLLMProvider()
+    const settings = await getLLMSettings()
+    const provider = createLLMProvider(settings)
 
     // Normalize content to string for fallback
     const contentString = typeof contentOrHtml === 'string'
@@ -141,9 +263,24 @@ async function analyzePageContent(
       return { analysis: fallback }
     }
 
-    console.log('[Subscribe Any BG] Calling LLM analyzeOrderPage...')
-    const analysis = await provider.analyzeOrderPage(contentOrHtml)
-    console.log('[Subscribe Any BG] LLM analysis result:', analysis)
+    const fingerprint = await getAnalysisFingerprint(
+      url,
+      typeof contentOrHtml === 'string' ? contentOrHtml : contentOrHtml.textContent,
+      getAnalysisVariant(settings)
+    )
+    const cached = await getCachedAnalysis(fingerprint)
+    let analysis: OrderAnalysis
+    if (cached) {
+      console.log('[Subscribe Any BG] Using cached analysis for this page')
+      analysis = cached
+    } else {
+      console.log('[Subscribe Any BG] Calling LLM analyzeOrderPage...')
+      analysis = await provider.analyzeOrderPage(contentOrHtml, fingerprint)
+      console.log('[Subscribe Any BG] LLM analysis result:', analysis)
+      if (!analysis.fallback) {
+        await cacheAnalysis(fingerprint, url, analysis)
+      }
+    }
 
     // If LLM says no but heuristics were very confident, trust heuristics
     if (!analysis.isOrderConfirmation && heuristicConfidence >= 0.9) {
@@ -202,6 +339,7 @@ function createFallbackAnalysis(content: string) {
   const products: Array<{
     name: string
     price: number | null
+    currency: string | null
     quantity: number
     isRecurring: boolean
     category: string | null
@@ -211,8 +349,8 @@ function createFallbackAnalysis(content: string) {
   // Look for product patterns - lines that have product-like descriptions
   const lines = content.split(/\n|\r/).filter(line => line.length > 5 && line.length < 200)
 
-  // Pattern 1: Look for lines that look like "Product Name ... $XX.XX"
-  const productPricePattern = /([A-Z][A-Za-z0-9\s\-&()\.]{5,80})\s*(?:\$?(\d+\.?\d*))/
+  // Pattern 1: Look for lines that look like "Product Name ... $XX.XX" (or €, £, ¥, ₹)
+  const productPricePattern = /([A-Z][A-Za-z0-9\s\-&()\.]{5,80})\s*(?:[A-Z]{0,3}[$€£¥₹]\s?)?\d/
   for (const line of lines.slice(0, 100)) { // Check first 100 lines
     // Skip if it's clearly not a product line
     if (/subtotal|total|tax|shipping|delivery|discount|promo/i.test(line)) continue
@@ -220,7 +358,7 @@ function createFallbackAnalysis(content: string) {
     const match = line.match(productPricePattern)
     if (match) {
       const name = match[1].trim()
-      const price = match[2] ? parseFloat(match[2]) : null
+      const price = parsePrice(line)
 
       // Only add if it looks like a real product name
       if (name.length > 5 && name.length < 80 && !/^(your|order|thank|confirmation|item|quantity)/i.test(name)) {
@@ -228,11 +366,12 @@ function createFallbackAnalysis(content: string) {
         if (!products.some(p => p.name === name)) {
           products.push({
             name,
-            price: price && price > 0 && price < 10000 ? price : null,
+            price: price?.amount ?? null,
+            currency: price?.currency ?? null,
             quantity: 1,
             isRecurring: true,
             category: null,
-            suggestedFrequencyDays: 30
+            suggestedFrequencyDays: null
           })
         }
       }
@@ -241,18 +380,16 @@ function createFallbackAnalysis(content: string) {
 
   // If no products found, create a generic one
   if (products.length === 0) {
-    const priceMatches = content.match(/\$[\d,]+\.?\d*/g) || []
-    const prices = priceMatches
-      .map((p) => parseFloat(p.replace(/[$,]/g, '')))
-      .filter((p) => p > 0 && p < 10000)
+    const price = parsePrice(content)
 
     products.push({
       name: 'Items from this order',
-      price: prices[0] || null,
+      price: price?.amount ?? null,
+      currency: price?.currency ?? null,
       quantity: 1,
       isRecurring: true,
       category: null,
-      suggestedFrequencyDays: 30
+      suggestedFrequencyDays: null
     })
   }
 
@@ -265,15 +402,9 @@ function createFallbackAnalysis(content: string) {
   }
 }
 
-// Handle notification button clicks
-chrome.notifications.onButtonClicked.addListener(handleNotificationClick)
+// Notification clicks and reminder alarms are handled by initializeReminderSystem -
+// registering them here too would mark orders and send reminders twice
 
-// Handle alarm triggers
-chrome.alarms.onAlarm.addListener((alarm) => {
-  if (alarm.name === 'check-reminders') {
-    checkDueReminders()
-  }
-})
 
 // Handle extension install/update
 chrome.runtime.onInstalled.addListener((details) => {
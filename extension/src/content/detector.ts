@@ -3,31 +3,58 @@ import {
   extractPageContent,
   shouldAnalyzeWithLLM,
   detectStore,
-  isOrderDetailsPage
+  isOrderDetailsPage,
+  isOrderRelatedUrl
 } from '@/lib/detector'
-import type { OrderDetectedPayload, PageDetectionResult } from '@/types'
-
-// Debounce time to avoid multiple detections on same page
-const DETECTION_DEBOUNCE_MS = 2000
-
-// Track if we've already processed this page
-let lastProcessedUrl = ''
-let lastProcessedTime = 0
+import {
+  extractStructuredOrder,
+  extractProductPrice,
+  extractProductName,
+  extractPriceCurrency
+} from '@/lib/structured-data'
+import { findAdapter } from '@/lib/adapters'
+import { parsePackSize, projectRunOutDate } from '@/lib/consumption'
+import { getPriceIncrease, formatPriceIncrease, DEFAULT_PRICE_ALERT_PERCENT } from '@/lib/price-history'
+import { matchOrderedProducts, wasOrderedRecently } from '@/lib/product-identity'
+import { createPageNavigator, delay } from '@/lib/page-navigation'
+import { mountInjectedUI, makeModal } from '@/lib/injected-ui'
+import { parsePrice, formatPrice, getCurrencyForHost, detectCurrency, resolveCurrency } from '@/lib/currency'
+import type {
+  ExtensionMessage,
+  OrderDetectedPayload,
+  PageDetectionResult,
+  PageNavigatedPayload,
+  ProductInfo,
+  Subscription
+} from '@/types'
+
+// Time for a single-page store to render the route it just navigated to
+const NAVIGATION_SETTLE_MS = 500
+
+// How long the "marked as ordered" toast offers undo before saving
+const REORDER_UNDO_MS = 8000
 
 /**
  * Wait for dynamic content to load (React, Vue, etc.)
- * Always waits a minimum time, then watches for DOM stability
+ * Always waits a minimum time, then watches for DOM stability.
+ * Finishes early if the user moves on to another page.
  */
-async function waitForDynamicContent(minWaitMs = 3000, maxWaitMs = 8000): Promise<void> {
+async function waitForDynamicContent(
+  signal: AbortSignal,
+  minWaitMs = 3000,
+  maxWaitMs = 8000
+): Promise<void> {
   console.log(`[Subscribe Any] Waiting ${minWaitMs}ms for dynamic content to load...`)
 
   // Always wait minimum time for React/Vue to hydrate and render
-  await new Promise(r => setTimeout(r, minWaitMs))
+  await delay(minWaitMs, signal)
+  if (signal.aborted) return
 
   return new Promise((resolve) => {
     let lastChangeTime = Date.now()
     let checkCount = 0
     const maxChecks = 50  // 50 * 100ms = 5 seconds additional max
+    let checkTimer: ReturnType<typeof setTimeout>
 
     const observer = new MutationObserver(() => {
       lastChangeTime = Date.now()
@@ -39,47 +66,46 @@ async function waitForDynamicContent(minWaitMs = 3000, maxWaitMs = 8000): Promis
       characterData: true
     })
 
+    const finish = (reason: string) => {
+      observer.disconnect()
+      clearTimeout(checkTimer)
+      clearTimeout(safetyTimer)
+      signal.removeEventListener('abort', onAbort)
+      console.log(`[Subscribe Any] ${reason}`)
+      resolve()
+    }
+    const onAbort = () => finish('Left the page, stopped waiting')
+
     const checkStable = () => {
       checkCount++
       const timeSinceLastChange = Date.now() - lastChangeTime
 
       // Page is stable if no changes for 800ms
       if (timeSinceLastChange > 800 || checkCount >= maxChecks) {
-        observer.disconnect()
-        console.log(`[Subscribe Any] Content stabilized after ${minWaitMs + checkCount * 100}ms total`)
-        resolve()
+        finish(`Content stabilized after ${minWaitMs + checkCount * 100}ms total`)
       } else {
-        setTimeout(checkStable, 100)
+        checkTimer = setTimeout(checkStable, 100)
       }
     }
 
     // Start checking
-    setTimeout(checkStable, 100)
+    checkTimer = setTimeout(checkStable, 100)
 
     // Safety timeout
-    setTimeout(() => {
-      observer.disconnect()
-      console.log(`[Subscribe Any] Max wait reached (${maxWaitMs}ms)`)
-      resolve()
+    const safetyTimer = setTimeout(() => {
+      finish(`Max wait reached (${maxWaitMs}ms)`)
     }, maxWaitMs - minWaitMs)
+
+    signal.addEventListener('abort', onAbort, { once: true })
   })
 }
 
 /**
- * Main detection logic - runs when page loads
+ * Main detection logic - runs once per page (including pages a single-page
+ * store navigates to). Stops if `signal` aborts because the user moved on.
  */
-async function detectOrderConfirmation(): Promise<void> {
+async function detectOrderConfirmation(signal: AbortSignal): Promise<void> {
   const url = window.location.href
-  const now = Date.now()
-
-  // Debounce to avoid processing same page multiple times
-  if (url === lastProcessedUrl && now - lastProcessedTime < DETECTION_DEBOUNCE_MS) {
-    console.log('[Subscribe Any] Skipping - already processed this URL recently')
-    return
-  }
-
-  lastProcessedUrl = url
-  lastProcessedTime = now
 
   // Get the setting for showing on order details pages
   const settings = await chrome.storage.sync.get(['showOnOrderDetails'])
@@ -94,14 +120,15 @@ async function detectOrderConfirmation(): Promise<void> {
     isOrderDetails,
     orderDetailsConfidence: orderDetailsResult.confidence,
     orderDetailsTriggers: orderDetailsResult.triggers,
-    urlPatternMatch: /order|checkout|confirmation|receipt/i.test(url)
+    urlPatternMatch: isOrderRelatedUrl(url)
   })
 
   // If it looks like an order page, wait for dynamic content to load
-  const shouldWait = isOrderDetails || /order|checkout|confirmation|receipt/i.test(url)
+  const shouldWait = isOrderDetails || isOrderRelatedUrl(url)
   if (shouldWait) {
     console.log('[Subscribe Any] URL matches order pattern, waiting for dynamic content...')
-    await waitForDynamicContent()
+    await waitForDynamicContent(signal)
+    if (signal.aborted) return
     console.log('[Subscribe Any] Wait complete, proceeding with detection...')
   } else {
     console.log('[Subscribe Any] URL does not match order pattern, skipping wait')
@@ -124,7 +151,7 @@ async function detectOrderConfirmation(): Promise<void> {
   }
 
   // Check with heuristics
-  const pageInfo = { url, title, bodyText }
+  const pageInfo = { url, title, bodyText, lang: document.documentElement.lang }
   let heuristicResult: PageDetectionResult
   try {
     heuristicResult = isLikelyOrderConfirmationPage(pageInfo)
@@ -150,8 +177,15 @@ async function detectOrderConfirmation(): Promise<void> {
     bodyTextPreview: bodyText.substring(0, 200)
   })
 
+  // schema.org Order data (JSON-LD / microdata) gives exact products without an LLM call.
+  // Read from the live DOM since extractPageContent strips <script> tags
+  const structuredAnalysis = extractStructuredOrder(document.documentElement.outerHTML)
+  if (structuredAnalysis) {
+    console.log('[Subscribe Any] Found structured order data:', structuredAnalysis)
+  }
+
   // Determine if we should analyze this page
-  const shouldAnalyze = isOrderDetails || shouldAnalyzeWithLLM(pageInfo)
+  const shouldAnalyze = isOrderDetails || !!structuredAnalysis || shouldAnalyzeWithLLM(pageInfo)
 
   console.log('[Subscribe Any] Analysis decision:', {
     shouldAnalyze,
@@ -171,6 +205,12 @@ async function detectOrderConfirmation(): Promise<void> {
     return
   }
 
+  if (structuredAnalysis) {
+    console.log('[Subscribe Any] Using structured data, skipping LLM analysis')
+    await showSubscriptionPrompt(structuredAnalysis, url, title, isOrderDetails)
+    return
+  }
+
   console.log('[Subscribe Any] Proceeding with LLM analysis...')
 
   // Send to background script for LLM analysis
@@ -193,6 +233,11 @@ async function detectOrderConfirmation(): Promise<void> {
 
     console.log('[Subscribe Any] LLM response:', response)
 
+    if (signal.aborted) {
+      console.log('[Subscribe Any] Left the page during analysis, not showing prompt')
+      return
+    }
+
     const finalAnalysis = response?.analysis
 
     console.log('[Subscribe Any] Analysis details:', {
@@ -206,17 +251,18 @@ async function detectOrderConfirmation(): Promise<void> {
 
     if (finalAnalysis?.isOrderConfirmation && finalAnalysis.products?.length > 0) {
       console.log('[Subscribe Any] Order detected with products! Showing prompt...')
-      await showSubscriptionPrompt(finalAnalysis, url, title)
+      await showSubscriptionPrompt(finalAnalysis, url, title, isOrderDetails)
     } else if (isOrderDetails || (heuristicResult.isLikelyOrderConfirmation && heuristicResult.confidence >= 0.7)) {
-      // It's an order page but LLM didn't find products - try DOM extraction
+      // It's an order page but LLM didn't find products - try adapter/DOM extraction
       console.log('[Subscribe Any] Order page detected, but no LLM products. Trying DOM extraction...')
+      const adapter = findAdapter(url, document)
       await showSubscriptionPrompt({
         isOrderConfirmation: true,
         confidence: Math.max(heuristicResult.confidence, orderDetailsResult.confidence),
         products: [], // Will extract from DOM in showSubscriptionPrompt
-        retailer: finalAnalysis?.retailer || new URL(url).hostname.replace('www.', ''),
-        orderNumber: finalAnalysis?.orderNumber || null
-      }, url, title)
+        retailer: finalAnalysis?.retailer || adapter?.extractRetailer?.(document) || new URL(url).hostname.replace('www.', ''),
+        orderNumber: finalAnalysis?.orderNumber || adapter?.extractOrderNumber(document) || null
+      }, url, title, isOrderDetails)
     } else {
       console.log('[Subscribe Any] Not an order page according to LLM and heuristics')
     }
@@ -226,25 +272,20 @@ async function detectOrderConfirmation(): Promise<void> {
 }
 
 /**
- * Extract price from text
+ * Extract price from text ($29.99, £29.99, 29,99 €, ¥1,500, 29.99 USD...).
+ * Its currency is the page's, applied when the prompt is shown.
  */
 function extractPrice(text: string): number | null {
-  // Match various price formats: $29.99, $29, £29.99, €29.99, 29.99
-  const pricePatterns = [
-    /[\$£€]\s*(\d{1,5}(?:[.,]\d{2})?)/,  // $29.99 or $29
-    /(\d{1,5}[.,]\d{2})\s*(?:USD|AUD|EUR|GBP)?/i,  // 29.99 USD
-  ]
+  return parsePrice(text)?.amount ?? null
+}
 
-  for (const pattern of pricePatterns) {
-    const match = text.match(pattern)
-    if (match) {
-      const price = parseFloat(match[1].replace(',', '.'))
-      if (price > 0 && price < 10000) {
-        return price
-      }
-    }
-  }
-  return null
+/**
+ * Currency this store charges in: from the page's structured data, else the
+ * first price on the page, else the store's country domain
+ */
+function getPageCurrency(): string {
+  return extractPriceCurrency(document) ||
+    detectCurrency(document.body.innerText || '', getCurrencyForHost(location.hostname))
 }
 
 /**
@@ -258,7 +299,7 @@ function isLikelyProductName(text: string): boolean {
     /^(your|order|thank|confirmation|item|quantity|price|total|subtotal|shipping|tax|discount|delivery|fee|promo|coupon|save|free|qty|sku|#)$/i,
     /^(product|description|name|details|summary|receipt|invoice|billing|payment|method|address|email|phone|date|time|status|tracking)$/i,
     /^[\d\s\-\.\,\#\:]+$/,  // Only numbers/punctuation
-    /^\$[\d\.\,]+$/,  // Just a price
+    /^(?:[A-Z]{0,3}[$€£¥₹]|Rs\.)\s?[\d.,\s]+$|^[\d.,\s]+(?:[€£]|[A-Z]{3})$/,  // Just a price
   ]
 
   return !skipPatterns.some(p => p.test(text.trim()))
@@ -294,7 +335,7 @@ async function extractProductsFromDOM(): Promise<Array<{
         quantity: 1,
         isRecurring: true,
         category: null,
-        suggestedFrequencyDays: 30
+        suggestedFrequencyDays: null
       })
     }
   }
@@ -304,75 +345,35 @@ async function extractProductsFromDOM(): Promise<Array<{
 
   console.log('[Subscribe Any] Extracting products from DOM (fallback)')
 
-  // Strategy 1: Parse from plain text using "N x Product Name" or "N.NN kg Product Name" pattern
-  // This handles sites like Bunnings, grocery delivery, etc.
+  // Strategy 1: Parse from plain text using "N.NN kg Product Name" pattern
+  // This handles grocery delivery and similar sites
   // First normalize the text - replace newlines with spaces for easier matching
   const bodyText = (document.body.textContent || '').replace(/\s+/g, ' ')
   console.log('[Subscribe Any] Normalized bodyText (first 500 chars):', bodyText.substring(0, 500))
 
-  // Look for the "What's in order" section and extract items from there
-  const whatsInOrderMatch = bodyText.match(/What'?s in order \d+([^\[]+)/i)
-  if (whatsInOrderMatch) {
-    console.log('[Subscribe Any] Found "What\'s in order" section')
-    const orderSection = whatsInOrderMatch[1]
-
-    // Pattern for "N.NN x Product Name" or "N x Product Name"
-    const quantityProductPattern = /(\d+(?:\.\d+)?)\s*x\s*([A-Z][^]*?)(?=\s*\d+\s*(?:x|kg|$))/gi
-
-    let match
-    while ((match = quantityProductPattern.exec(orderSection)) !== null) {
-      const quantity = parseFloat(match[1])
-      let productName = match[2]?.trim() || ''
-
-      // Clean up the product name - remove trailing measurements and noise
-      productName = productName
-        .replace(/\s+\d+\s*(?:g|kg|ml|l|pcs?|pack|bunch).*$/i, '') // Remove trailing measurements
-        .replace(/\s*(?:minimum|about|approx).*$/i, '') // Remove extra words
-        .replace(/\s+/g, ' ')
-        .trim()
-
-      console.log('[Subscribe Any] Extracted product:', { productName, quantity, original: match[0] })
-
-      if (productName.length > 5 && isLikelyProductName(productName)) {
-        if (!products.some(p => p.name === productName)) {
-          products.push({
-            name: productName,
-            price: null,
-            quantity: Math.round(quantity),
-            isRecurring: true,
-            category: null,
-            suggestedFrequencyDays: 30
-          })
-        }
-      }
-    }
-  }
-
-  // If no products found with "What's in order", try other patterns
-  if (products.length === 0) {
-    // Pattern for "N.NN kg Product Name"
-    const kgPattern = /(\d+(?:\.\d+)?)\s*kg\s+([A-Z][^]*?)(?=\s*\d+\s*(?:x|kg|$)|\s*$)/gi
-    let match
-    while ((match = kgPattern.exec(bodyText)) !== null) {
-      const quantity = parseFloat(match[1])
-      let productName = match[2]?.trim() || ''
-
-      productName = productName
-        .replace(/\s+\d+\s*(?:g|kg|ml|l|pcs?|pack|bunch).*$/i, '')
-        .replace(/\s+/g, ' ')
-        .trim()
-
-      if (productName.length > 5 && isLikelyProductName(productName)) {
-        if (!products.some(p => p.name === productName)) {
-          products.push({
-            name: productName,
-            price: null,
-            quantity: Math.round(quantity),
-            isRecurring: true,
-            category: null,
-            suggestedFrequencyDays: 30
-          })
-        }
+  // Site-specific text formats (e.g. Bunnings "What's in order") live in retailer adapters
+  // Pattern for "N.NN kg Product Name"
+  const kgPattern = /(\d+(?:\.\d+)?)\s*kg\s+([A-Z][^]*?)(?=\s*\d+\s*(?:x|kg|$)|\s*$)/gi
+  let match
+  while ((match = kgPattern.exec(bodyText)) !== null) {
+    const quantity = parseFloat(match[1])
+    let productName = match[2]?.trim() || ''
+
+    productName = productName
+      .replace(/\s+\d+\s*(?:g|kg|ml|l|pcs?|pack|bunch).*$/i, '')
+      .replace(/\s+/g, ' ')
+      .trim()
+
+    if (productName.length > 5 && isLikelyProductName(productName)) {
+      if (!products.some(p => p.name === productName)) {
+        products.push({
+          name: productName,
+          price: null,
+          quantity: Math.round(quantity),
+          isRecurring: true,
+          category: null,
+          suggestedFrequencyDays: null
+        })
       }
     }
   }
@@ -538,7 +539,8 @@ async function extractProductsFromDOM(): Promise<Array<{
 async function showSubscriptionPrompt(
   analysis: OrderDetectedPayload['analysis'],
   pageUrl: string,
-  _pageTitle: string
+  _pageTitle: string,
+  isOrderDetails = false
 ): Promise<void> {
   // Check if prompt already exists
   if (document.getElementById('subscribe-any-prompt')) {
@@ -550,22 +552,60 @@ async function showSubscriptionPrompt(
 
   // Get existing subscriptions to filter out already subscribed items
   const existingSubsResponse = await chrome.runtime.sendMessage({ type: 'GET_SUBSCRIPTIONS' })
-  const existingSubscriptions = existingSubsResponse?.subscriptions || []
+  const existingSubscriptions: Subscription[] = existingSubsResponse?.subscriptions || []
+
+  // Frequency for products we can't suggest one for
+  const { defaultFrequencyDays = 30 } = await chrome.storage.sync.get(['defaultFrequencyDays'])
+
+  // Retailer adapter for this site/platform, if any (generic heuristics otherwise)
+  const adapter = findAdapter(pageUrl, document)
+  const retailer = analysis.retailer || adapter?.extractRetailer?.(document) || new URL(pageUrl).hostname
 
   // Use all products, not just recurring ones - user can decide
   let productsToShow = analysis.products
+  if (productsToShow.length === 0 && adapter) {
+    console.log(`[Subscribe Any] No products from analysis, using ${adapter.id} adapter...`)
+    productsToShow = adapter.extractProducts(document)
+  }
   if (productsToShow.length === 0) {
     console.log('[Subscribe Any] No products from analysis, extracting from DOM...')
     productsToShow = await extractProductsFromDOM()
     if (productsToShow.length === 0) {
-      productsToShow = [{ name: 'Items from this order', price: null, quantity: 1, isRecurring: true, category: null, suggestedFrequencyDays: 30 }]
+      productsToShow = [{ name: 'Items from this order', price: null, quantity: 1, isRecurring: true, category: null, suggestedFrequencyDays: null }]
+    }
+  }
+
+  // Prices are in the store's currency unless the page said otherwise
+  const storeCurrency = getPageCurrency()
+  productsToShow = productsToShow.map((p) => ({ ...p, currency: resolveCurrency(p.currency, storeCurrency) }))
+
+  // Products already subscribed to. A fresh confirmation page means they were
+  // reordered through the store, so their reminders are reset (with undo);
+  // viewing an old order only adds the price paid to their history
+  const matches = matchOrderedProducts(existingSubscriptions, productsToShow, pageUrl)
+  const reorders = isOrderDetails ? [] : matches.filter((m) => !wasOrderedRecently(m.subscription))
+  for (const { subscription, product } of matches) {
+    if (!reorders.some((r) => r.subscription === subscription) && product.price) {
+      chrome.runtime.sendMessage({
+        type: 'PRICE_OBSERVED',
+        payload: { subscriptionId: subscription.id, price: product.price, currency: product.currency, source: 'order' }
+      }).catch(() => {})
     }
   }
+  if (reorders.length > 0) {
+    showReorderToast(reorders, analysis.orderNumber)
+  }
 
-  // Create prompt container
-  const container = document.createElement('div')
-  container.id = 'subscribe-any-prompt'
-  container.innerHTML = `
+  // Only recurring items (not durables) that aren't already subscribed
+  const subscribableProducts = productsToShow.filter(
+    (p) => p.isRecurring !== false && !matches.some((m) => m.product === p)
+  )
+  if (subscribableProducts.length === 0 && reorders.length > 0) {
+    return
+  }
+
+  // Prompt and backdrop live in a shadow root, away from the store's CSS
+  const ui = mountInjectedUI('subscribe-any-prompt', `
     <style>
       #subscribe-any-backdrop {
         position: fixed;
@@ -754,6 +794,30 @@ async function showSubscriptionPrompt(
         cursor: pointer;
       }
 
+      .sa-product-supply {
+        margin-top: 8px;
+        display: flex;
+        gap: 8px;
+      }
+
+      .sa-product-supply label {
+        flex: 1;
+        display: flex;
+        flex-direction: column;
+        gap: 4px;
+        font-size: 11px;
+        color: #666;
+      }
+
+      .sa-product-supply input {
+        width: 100%;
+        box-sizing: border-box;
+        padding: 6px 8px;
+        border: 1px solid #ddd;
+        border-radius: 6px;
+        font-size: 13px;
+      }
+
       .sa-footer {
         padding: 20px;
         border-top: 1px solid #e5e5e5;
@@ -791,56 +855,50 @@ async function showSubscriptionPrompt(
       }
     </style>
 
-    <div class="sa-header">
-      <h3 class="sa-title">
-        <span class="sa-logo">SA</span>
-        We recommend you buy this again
-      </h3>
-      <button class="sa-close" id="sa-close">&times;</button>
-    </div>
+    <div id="subscribe-any-backdrop"></div>
+    <div id="subscribe-any-prompt">
+      <div class="sa-header">
+        <h3 class="sa-title">
+          <span class="sa-logo">SA</span>
+          We recommend you buy this again
+        </h3>
+        <button class="sa-close" id="sa-close" aria-label="Close">&times;</button>
+      </div>
 
-    <div class="sa-body">
-      <div id="sa-products"></div>
-    </div>
+      <div class="sa-body">
+        <div id="sa-products"></div>
+      </div>
 
-    <div class="sa-footer">
-      <button class="sa-subscribe-btn" id="sa-subscribe" disabled>
-        Please help us remind you
-      </button>
+      <div class="sa-footer">
+        <button class="sa-subscribe-btn" id="sa-subscribe" disabled>
+          Please help us remind you
+        </button>
+      </div>
     </div>
-  `
-
-  // Create backdrop
-  const backdrop = document.createElement('div')
-  backdrop.id = 'subscribe-any-backdrop'
+  `)
+  const container = ui.root.getElementById('subscribe-any-prompt')!
+  const backdrop = ui.root.getElementById('subscribe-any-backdrop')!
 
-  // Close on backdrop click
-  backdrop.addEventListener('click', () => {
+  const closePrompt = () => {
+    releaseFocus()
     container.classList.add('closing')
     backdrop.style.opacity = '0'
-    setTimeout(() => {
-      container.remove()
-      backdrop.remove()
-    }, 250)
+    setTimeout(() => ui.remove(), 250)
+  }
+  const releaseFocus = makeModal(ui.root, container, {
+    label: 'Get reminders for items from this order',
+    onClose: closePrompt
   })
 
-  document.body.appendChild(backdrop)
-  document.body.appendChild(container)
+  // Close on backdrop click
+  backdrop.addEventListener('click', closePrompt)
 
   // Populate products - ONLY show subscribable items (isRecurring: true)
   // and NOT already subscribed
-  const productsContainer = document.getElementById('sa-products')!
+  const productsContainer = ui.root.getElementById('sa-products')!
   const selectedProducts = new Set<number>()
   const productFrequencies = new Map<number, number>() // Store frequency for each product
-
-  // Filter to only subscribable products that aren't already subscribed
-  const subscribableProducts = productsToShow.filter(p => {
-    if (p.isRecurring === false) return false // Exclude durables
-    // Check if already subscribed to this product
-    return !existingSubscriptions.some((sub: any) =>
-      sub.product_name.toLowerCase() === p.name.toLowerCase()
-    )
-  })
+  const productSupply = new Map<number, { quantity: number; packSize: number; leadTimeDays: number }>()
 
   if (subscribableProducts.length === 0) {
     productsContainer.innerHTML = `
@@ -853,7 +911,9 @@ async function showSubscriptionPrompt(
   }
 
   subscribableProducts.forEach((product, index) => {
-    const suggestedDays = product.suggestedFrequencyDays || 30
+    const suggestedDays = product.suggestedFrequencyDays || defaultFrequencyDays
+    const quantity = Math.max(Math.round(product.quantity) || 1, 1)
+    const packSize = parsePackSize(product.name) || 1
 
     const productEl = document.createElement('div')
     productEl.className = 'sa-product'
@@ -862,7 +922,7 @@ async function showSubscriptionPrompt(
       <div class="sa-product-info">
         <div class="sa-product-name">${escapeHtml(product.name)}</div>
         <div class="sa-product-price">
-          ${product.price ? `$${product.price.toFixed(2)}` : ''}
+          ${product.price ? escapeHtml(formatPrice(product.price, product.currency)) : ''}
           ${product.category ? `• ${escapeHtml(product.category)}` : ''}
         </div>
         <div class="sa-product-frequency">
@@ -875,11 +935,23 @@ async function showSubscriptionPrompt(
             <option value="90" ${suggestedDays === 90 ? 'selected' : ''}>Quarterly</option>
           </select>
         </div>
+        <div class="sa-product-supply">
+          <label>Packs bought
+            <input type="number" class="sa-supply-input" data-field="quantity" min="1" step="1" value="${quantity}">
+          </label>
+          <label>Units per pack
+            <input type="number" class="sa-supply-input" data-field="packSize" min="1" step="1" value="${packSize}">
+          </label>
+          <label>Shipping days
+            <input type="number" class="sa-supply-input" data-field="leadTimeDays" min="0" step="1" value="0">
+          </label>
+        </div>
       </div>
     `
 
     // Initialize frequency with suggested value
     productFrequencies.set(index, suggestedDays)
+    productSupply.set(index, { quantity, packSize, leadTimeDays: 0 })
 
     const checkbox = productEl.querySelector('.sa-checkbox')! as HTMLInputElement
     const frequencySelect = productEl.querySelector('.sa-product-frequency-select')! as HTMLSelectElement
@@ -900,8 +972,17 @@ async function showSubscriptionPrompt(
       productFrequencies.set(index, value)
     })
 
+    productEl.querySelectorAll<HTMLInputElement>('.sa-supply-input').forEach((input) => {
+      input.addEventListener('change', () => {
+        const supply = productSupply.get(index)!
+        const field = input.dataset.field as keyof typeof supply
+        const min = field === 'leadTimeDays' ? 0 : 1
+        supply[field] = Math.max(parseInt(input.value) || min, min)
+      })
+    })
+
     productEl.addEventListener('click', (e) => {
-      if ((e.target as HTMLElement).tagName !== 'INPUT' && (e.target as HTMLElement).tagName !== 'SELECT') {
+      if (!(e.target as HTMLElement).closest('input, select, label')) {
         checkbox.checked = !checkbox.checked
         checkbox.dispatchEvent(new Event('change'))
       }
@@ -912,7 +993,7 @@ async function showSubscriptionPrompt(
 
   // Update subscribe button state
   function updateSubscribeButton() {
-    const btn = document.getElementById('sa-subscribe') as HTMLButtonElement
+    const btn = ui.root.getElementById('sa-subscribe') as HTMLButtonElement
     btn.disabled = selectedProducts.size === 0
     btn.textContent =
       selectedProducts.size === 0
@@ -921,32 +1002,35 @@ async function showSubscriptionPrompt(
   }
 
   // Close button
-  document.getElementById('sa-close')!.addEventListener('click', () => {
-    container.classList.add('closing')
-    if (backdrop) backdrop.style.opacity = '0'
-    setTimeout(() => {
-      container.remove()
-      backdrop.remove()
-    }, 250)
-  })
+  ui.root.getElementById('sa-close')!.addEventListener('click', closePrompt)
 
   // Subscribe button
-  document.getElementById('sa-subscribe')!.addEventListener('click', async () => {
+  ui.root.getElementById('sa-subscribe')!.addEventListener('click', async () => {
     // Send subscription request to background (each with its own frequency)
     try {
       for (const idx of selectedProducts) {
         const product = subscribableProducts[idx]
-        const frequency = productFrequencies.get(idx) || 30
+        const frequency = productFrequencies.get(idx) || defaultFrequencyDays
+        const supply = productSupply.get(idx)!
 
         await chrome.runtime.sendMessage({
           type: 'CREATE_SUBSCRIPTION',
           payload: {
             subscription: {
               product_name: product.name,
-              product_url: pageUrl,
-              retailer: analysis.retailer || new URL(pageUrl).hostname,
+              // This is the confirmation page, not the product's; product
+              // pages find the subscription by retailer and name instead
+              product_url: null,
+              retailer,
               price: product.price,
-              frequency_days: frequency
+              currency: product.currency,
+              sku: product.sku || null,
+              frequency_days: frequency,
+              quantity: supply.quantity,
+              pack_size: supply.packSize,
+              lead_time_days: supply.leadTimeDays,
+              order_number: analysis.orderNumber,
+              source: 'detected'
             }
           }
         })
@@ -954,7 +1038,8 @@ async function showSubscriptionPrompt(
 
       // Show success and close
       showSuccessMessage(selectedProducts.size)
-      container.remove()
+      releaseFocus()
+      ui.remove()
     } catch (error) {
       console.error('[Subscribe Any] Error creating subscription:', error)
       alert('Failed to create subscription. Please try again.')
@@ -966,9 +1051,7 @@ async function showSubscriptionPrompt(
  * Show success message after subscribing
  */
 function showSuccessMessage(count: number): void {
-  const toast = document.createElement('div')
-  toast.id = 'subscribe-any-toast'
-  toast.innerHTML = `
+  const toast = mountInjectedUI('subscribe-any-toast', `
     <style>
       #subscribe-any-toast {
         position: fixed;
@@ -990,16 +1073,113 @@ function showSuccessMessage(count: number): void {
         to { opacity: 1; transform: translateY(0); }
       }
     </style>
-    Subscribed to ${count} item${count > 1 ? 's' : ''}! You'll receive reminders.
-  `
 
-  document.body.appendChild(toast)
+    <div id="subscribe-any-toast" role="status">
+      Subscribed to ${count} item${count > 1 ? 's' : ''}! You'll receive reminders.
+    </div>
+  `)
 
   setTimeout(() => {
     toast.remove()
   }, 3000)
 }
 
+/**
+ * Tell the user which subscriptions this order reorders, and mark them as
+ * ordered once the undo window passes (or straight away if the page is left)
+ */
+function showReorderToast(
+  reorders: Array<{ subscription: Subscription; product: ProductInfo }>,
+  orderNumber: string | null
+): void {
+  document.getElementById('sa-reorder-toast')?.remove()
+
+  const names = reorders.map((r) => r.subscription.product_name).join(', ')
+  const toast = mountInjectedUI('sa-reorder-toast', `
+    <style>
+      #sa-reorder-toast {
+        position: fixed;
+        bottom: 20px;
+        left: 20px;
+        max-width: 360px;
+        padding: 14px 18px;
+        background: #1f2937;
+        color: white;
+        border-radius: 8px;
+        font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
+        font-size: 14px;
+        z-index: 999999;
+        display: flex;
+        align-items: center;
+        gap: 14px;
+        animation: fadeIn 0.3s ease-out;
+      }
+
+      @keyframes fadeIn {
+        from { opacity: 0; transform: translateY(10px); }
+        to { opacity: 1; transform: translateY(0); }
+      }
+
+      #sa-reorder-toast .sa-reorder-undo {
+        background: none;
+        border: none;
+        color: #a5b4fc;
+        font-size: 14px;
+        font-weight: 600;
+        cursor: pointer;
+        padding: 0;
+      }
+    </style>
+
+    <div id="sa-reorder-toast" role="status">
+      <span id="sa-reorder-message">
+        Reorder spotted: ${escapeHtml(names)}. Reminders reset.
+      </span>
+      <button class="sa-reorder-undo" id="sa-reorder-undo">Undo</button>
+    </div>
+  `)
+
+  let settled = false
+  const markOrdered = () => {
+    if (settled) return
+    settled = true
+    clearTimeout(timer)
+    window.removeEventListener('pagehide', markOrdered)
+    toast.remove()
+
+    for (const { subscription, product } of reorders) {
+      chrome.runtime.sendMessage({
+        type: 'MARK_AS_ORDERED',
+        payload: {
+          id: subscription.id,
+          order: {
+            quantity: Math.max(Math.round(product.quantity) || 1, 1),
+            unit_price: product.price,
+            currency: product.currency,
+            order_number: orderNumber,
+            source: 'detected'
+          }
+        }
+      }).catch((error) => {
+        console.error('[Subscribe Any] Error marking as ordered:', error)
+      })
+    }
+  }
+
+  const timer = setTimeout(markOrdered, REORDER_UNDO_MS)
+  window.addEventListener('pagehide', markOrdered)
+
+  const undoBtn = toast.root.getElementById('sa-reorder-undo')!
+  undoBtn.addEventListener('click', () => {
+    settled = true
+    clearTimeout(timer)
+    window.removeEventListener('pagehide', markOrdered)
+    undoBtn.remove()
+    toast.root.getElementById('sa-reorder-message')!.textContent = 'Reminders left unchanged.'
+    setTimeout(() => toast.remove(), 2000)
+  })
+}
+
 /**
  * Escape HTML to prevent XSS
  */
@@ -1021,9 +1201,8 @@ function showFloatingButton(): void {
   const store = detectStore(window.location.href)
   if (!store) return
 
-  const button = document.createElement('div')
-  button.id = 'sa-floating-btn'
-  button.innerHTML = `
+  const label = `Subscribe Any - ${escapeHtml(store.name)}`
+  const ui = mountInjectedUI('sa-floating-btn', `
     <style>
       #sa-floating-btn {
         position: fixed;
@@ -1034,6 +1213,8 @@ function showFloatingButton(): void {
         background: linear-gradient(135deg, #6366f1 0%, #8b5cf6 100%);
         border-radius: 16px;
         box-shadow: 0 4px 16px rgba(99, 102, 241, 0.4);
+        border: none;
+        padding: 0;
         cursor: pointer;
         z-index: 999997;
         display: flex;
@@ -1107,18 +1288,21 @@ function showFloatingButton(): void {
         font-weight: 600;
       }
     </style>
-    <span class="sa-btn-icon">SA</span>
-    <span class="sa-btn-tooltip">Subscribe Any - ${escapeHtml(store.name)}</span>
-  `
+    <button id="sa-floating-btn" aria-label="${label}">
+      <span class="sa-btn-icon" aria-hidden="true">SA</span>
+      <span class="sa-btn-tooltip" aria-hidden="true">${label}</span>
+    </button>
+  `)
 
   // Click handler - open sidebar
-  button.addEventListener('click', () => {
+  ui.root.getElementById('sa-floating-btn')!.addEventListener('click', () => {
     showMainSidebar(store)
   })
-
-  document.body.appendChild(button)
 }
 
+// Subscription list of the open sidebar, kept current as subscriptions change
+let sidebarList: HTMLElement | null = null
+
 /**
  * Show the main sidebar when clicking the floating button
  */
@@ -1139,9 +1323,7 @@ async function showMainSidebar(store: { name: string; logo: string }): Promise<v
     console.log('Could not fetch subscriptions')
   }
 
-  const container = document.createElement('div')
-  container.id = 'sa-main-sidebar'
-  container.innerHTML = `
+  const ui = mountInjectedUI('sa-main-sidebar', `
     <style>
       #sa-backdrop {
         position: fixed;
@@ -1314,6 +1496,13 @@ async function showMainSidebar(store: { name: string; logo: string }): Promise<v
         color: #6b7280;
       }
 
+      .sa-price-alert {
+        margin-top: 4px;
+        font-size: 12px;
+        font-weight: 500;
+        color: #b45309;
+      }
+
       .sa-empty-state {
         text-align: center;
         padding: 30px 20px;
@@ -1352,57 +1541,81 @@ async function showMainSidebar(store: { name: string; logo: string }): Promise<v
       }
     </style>
 
-    <div class="sa-header">
-      <h3 class="sa-title">
-        <span class="sa-logo">SA</span>
-        Subscribe Any
-      </h3>
-      <button class="sa-close" id="sa-close">&times;</button>
-    </div>
+    <div id="sa-backdrop"></div>
+    <div id="sa-main-sidebar">
+      <div class="sa-header">
+        <h3 class="sa-title">
+          <span class="sa-logo">SA</span>
+          Subscribe Any
+        </h3>
+        <button class="sa-close" id="sa-close" aria-label="Close">&times;</button>
+      </div>
 
-    <div class="sa-store-banner">
-      <div class="sa-store-icon">${escapeHtml(store.logo || store.name[0])}</div>
-      <div class="sa-store-info">
-        <h4>${escapeHtml(store.name)}</h4>
-        <p>Browsing on this store</p>
+      <div class="sa-store-banner">
+        <div class="sa-store-icon">${escapeHtml(store.logo || store.name[0])}</div>
+        <div class="sa-store-info">
+          <h4>${escapeHtml(store.name)}</h4>
+          <p>Browsing on this store</p>
+        </div>
       </div>
-    </div>
 
-    <div class="sa-body">
-      <h3 class="sa-section-title">Your Subscriptions</h3>
-      <div id="sa-subscriptions-list"></div>
-    </div>
+      <div class="sa-body">
+        <h3 class="sa-section-title">Your Subscriptions</h3>
+        <div id="sa-subscriptions-list"></div>
+      </div>
 
-    <div class="sa-footer">
-      <button class="sa-btn-secondary" id="sa-manage-btn">
-        Manage All Subscriptions
-      </button>
+      <div class="sa-footer">
+        <button class="sa-btn-secondary" id="sa-manage-btn">
+          Manage All Subscriptions
+        </button>
+      </div>
     </div>
-  `
-
-  // Create backdrop
-  const backdrop = document.createElement('div')
-  backdrop.id = 'sa-backdrop'
+  `)
+  const container = ui.root.getElementById('sa-main-sidebar')!
+  const backdrop = ui.root.getElementById('sa-backdrop')!
+  sidebarList = ui.root.getElementById('sa-subscriptions-list')
 
   const closeSidebar = () => {
+    releaseFocus()
+    sidebarList = null
     container.classList.add('closing')
     backdrop.style.opacity = '0'
-    setTimeout(() => {
-      container.remove()
-      backdrop.remove()
-    }, 250)
+    setTimeout(() => ui.remove(), 250)
   }
+  const releaseFocus = makeModal(ui.root, container, {
+    label: 'Subscribe Any',
+    onClose: closeSidebar
+  })
 
   backdrop.addEventListener('click', closeSidebar)
-  document.body.appendChild(backdrop)
-  document.body.appendChild(container)
 
   // Close button
-  document.getElementById('sa-close')!.addEventListener('click', closeSidebar)
+  ui.root.getElementById('sa-close')!.addEventListener('click', closeSidebar)
 
   // Populate subscriptions
-  const listEl = document.getElementById('sa-subscriptions-list')!
+  renderSidebarSubscriptions(sidebarList!, subscriptions, await getPriceAlertPercent())
 
+  // Manage button - opens extension popup
+  ui.root.getElementById('sa-manage-btn')!.addEventListener('click', () => {
+    closeSidebar()
+    // Open extension popup programmatically
+    chrome.runtime.sendMessage({ type: 'OPEN_POPUP' })
+  })
+}
+
+async function getPriceAlertPercent(): Promise<number> {
+  const { priceAlertPercent } = await chrome.storage.sync.get(['priceAlertPercent'])
+  return priceAlertPercent ?? DEFAULT_PRICE_ALERT_PERCENT
+}
+
+/**
+ * Fill the main sidebar's subscription list
+ */
+function renderSidebarSubscriptions(
+  listEl: HTMLElement,
+  subscriptions: Subscription[],
+  priceAlertPercent: number
+): void {
   if (subscriptions.length === 0) {
     listEl.innerHTML = `
       <div class="sa-empty-state">
@@ -1413,48 +1626,229 @@ async function showMainSidebar(store: { name: string; logo: string }): Promise<v
         <p style="font-size: 12px;">Complete a purchase to get started</p>
       </div>
     `
-  } else {
-    subscriptions.forEach(sub => {
-      const card = document.createElement('div')
-      card.className = 'sa-subscription-card'
-      card.innerHTML = `
-        <div class="sa-subscription-name">${escapeHtml(sub.product_name)}</div>
-        <div class="sa-subscription-meta">
-          ${escapeHtml(sub.retailer)} • Every ${sub.frequency_days} days
-          ${sub.price ? ` • $${sub.price}` : ''}
-        </div>
-      `
-      listEl.appendChild(card)
+    return
+  }
+
+  listEl.innerHTML = ''
+  subscriptions.forEach(sub => {
+    const card = document.createElement('div')
+    card.className = 'sa-subscription-card'
+    card.innerHTML = `
+      <div class="sa-subscription-name">${escapeHtml(sub.product_name)}</div>
+      <div class="sa-subscription-meta">
+        ${escapeHtml(sub.retailer)} • Every ${sub.frequency_days} days
+        ${sub.price ? ` • ${escapeHtml(formatPrice(sub.price, sub.currency))}` : ''}
+        ${sub.last_ordered_at ? ` • Runs out ${new Date(projectRunOutDate(sub.last_ordered_at, sub)).toLocaleDateString(undefined, { month: 'short', day: 'numeric' })}` : ''}
+      </div>
+    `
+    const increase = getPriceIncrease(sub, priceAlertPercent)
+    if (increase) {
+      const alert = document.createElement('div')
+      alert.className = 'sa-price-alert'
+      alert.textContent = formatPriceIncrease(increase, sub.currency)
+      card.appendChild(alert)
+    }
+    listEl.appendChild(card)
+  })
+}
+
+// Keep an open sidebar current when subscriptions change (here or on another device)
+chrome.runtime.onMessage.addListener((message) => {
+  if (message?.type === 'SUBSCRIPTIONS_UPDATED') {
+    const listEl = sidebarList
+    if (listEl) {
+      getPriceAlertPercent().then((percent) => {
+        renderSidebarSubscriptions(listEl, message.payload.subscriptions, percent)
+      })
+    }
+  }
+})
+
+/**
+ * Report the price on product pages; the service worker logs it for the
+ * subscriptions this page is for and ignores the rest
+ */
+function reportProductPagePrice(): void {
+  const price = extractProductPrice(document)
+  if (price === null) return
+
+  chrome.runtime.sendMessage({
+    type: 'PRICE_OBSERVED',
+    payload: {
+      productUrl: location.href,
+      productName: extractProductName(document),
+      price,
+      currency: getPageCurrency(),
+      source: 'page'
+    }
+  }).catch(() => {})
+}
+
+/**
+ * On a product page for something already subscribed to, show a badge with
+ * the next reminder and last price, so a reorder made outside a reminder can
+ * still reset the cycle
+ */
+async function showProductPageBadge(signal: AbortSignal): Promise<void> {
+  document.getElementById('sa-product-badge')?.remove()
+
+  const productName = extractProductName(document)
+  if (!productName && extractProductPrice(document) === null) return
+
+  let subscription: Subscription | null = null
+  try {
+    const response = await chrome.runtime.sendMessage({
+      type: 'GET_PAGE_SUBSCRIPTION',
+      payload: { url: location.href, productName }
     })
+    subscription = response?.subscription || null
+  } catch (e) {
+    console.log('[Subscribe Any] Could not look up subscription for this page')
   }
+  if (signal.aborted || !subscription || document.getElementById('sa-product-badge')) return
 
-  // Manage button - opens extension popup
-  document.getElementById('sa-manage-btn')!.addEventListener('click', () => {
-    closeSidebar()
-    // Open extension popup programmatically
-    chrome.runtime.sendMessage({ type: 'OPEN_POPUP' })
+  const formatDate = (date: string) =>
+    new Date(date).toLocaleDateString(undefined, { month: 'short', day: 'numeric' })
+  const details = [
+    subscription.next_reminder_at ? `Next reminder ${formatDate(subscription.next_reminder_at)}` : null,
+    subscription.price !== null ? `Last paid ${formatPrice(subscription.price, subscription.currency)}` : null
+  ].filter(Boolean).join(' • ')
+
+  const badge = mountInjectedUI('sa-product-badge', `
+    <style>
+      #sa-product-badge {
+        position: fixed;
+        bottom: 92px;
+        right: 24px;
+        max-width: 280px;
+        padding: 12px 14px;
+        background: white;
+        border: 1px solid #e5e7eb;
+        border-left: 4px solid #6366f1;
+        border-radius: 10px;
+        box-shadow: 0 4px 16px rgba(0, 0, 0, 0.12);
+        font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
+        font-size: 13px;
+        color: #374151;
+        z-index: 999996;
+        animation: fadeIn 0.3s ease-out;
+      }
+
+      @keyframes fadeIn {
+        from { opacity: 0; transform: translateY(10px); }
+        to { opacity: 1; transform: translateY(0); }
+      }
+
+      #sa-product-badge .sa-badge-title {
+        font-weight: 600;
+        color: #1f2937;
+        padding-right: 20px;
+      }
+
+      #sa-product-badge .sa-badge-details {
+        margin-top: 2px;
+        font-size: 12px;
+        color: #6b7280;
+      }
+
+      #sa-product-badge .sa-badge-close {
+        position: absolute;
+        top: 6px;
+        right: 8px;
+        background: none;
+        border: none;
+        font-size: 18px;
+        line-height: 1;
+        color: #9ca3af;
+        cursor: pointer;
+        padding: 0;
+      }
+
+      #sa-product-badge .sa-badge-reorder {
+        margin-top: 8px;
+        padding: 6px 10px;
+        background: #6366f1;
+        color: white;
+        border: none;
+        border-radius: 6px;
+        font-size: 12px;
+        font-weight: 600;
+        cursor: pointer;
+      }
+
+      #sa-product-badge .sa-badge-reorder:disabled {
+        opacity: 0.6;
+        cursor: default;
+      }
+    </style>
+
+    <div id="sa-product-badge" role="region" aria-label="Subscribe Any">
+      <button class="sa-badge-close" id="sa-badge-close" aria-label="Dismiss">&times;</button>
+      <div class="sa-badge-title">You're subscribed to this</div>
+      <div class="sa-badge-details" id="sa-badge-details" aria-live="polite">${escapeHtml(details)}</div>
+      <button class="sa-badge-reorder" id="sa-badge-reorder">I just reordered</button>
+    </div>
+  `)
+
+  badge.root.getElementById('sa-badge-close')!.addEventListener('click', () => badge.remove())
+
+  const reorderBtn = badge.root.getElementById('sa-badge-reorder') as HTMLButtonElement
+  const detailsEl = badge.root.getElementById('sa-badge-details')!
+  reorderBtn.addEventListener('click', async () => {
+    reorderBtn.disabled = true
+    try {
+      const response = await chrome.runtime.sendMessage({
+        type: 'MARK_AS_ORDERED',
+        payload: { id: subscription!.id, order: { source: 'manual' } }
+      })
+      if (!response?.success) throw new Error('Mark as ordered failed')
+
+      const next = response.subscription?.next_reminder_at
+      detailsEl.textContent = next ? `Reminder reset to ${formatDate(next)}` : 'Marked as ordered'
+      reorderBtn.remove()
+      setTimeout(() => badge.remove(), 3000)
+    } catch (e) {
+      console.error('[Subscribe Any] Error marking as ordered:', e)
+      detailsEl.textContent = 'Could not update. Please try again.'
+      reorderBtn.disabled = false
+    }
   })
 }
 
+/**
+ * Everything the content script does for a page
+ */
+async function handlePage(_url: string, signal: AbortSignal): Promise<void> {
+  await delay(NAVIGATION_SETTLE_MS, signal)
+  if (signal.aborted) return
+
+  detectOrderConfirmation(signal)
+  showFloatingButton()
+  reportProductPagePrice()
+  showProductPageBadge(signal)
+}
+
+const pageNavigator = createPageNavigator(handlePage)
+
 // Run detection when page loads
 if (document.readyState === 'loading') {
-  document.addEventListener('DOMContentLoaded', () => {
-    detectOrderConfirmation()
-    showFloatingButton()
-  })
+  document.addEventListener('DOMContentLoaded', () => pageNavigator.navigate(location.href))
 } else {
-  detectOrderConfirmation()
-  showFloatingButton()
+  pageNavigator.navigate(location.href)
 }
 
-// Also run on SPA navigation (history changes)
-let lastUrl = location.href
-new MutationObserver(() => {
-  if (location.href !== lastUrl) {
-    lastUrl = location.href
-    setTimeout(() => {
-      detectOrderConfirmation()
-      showFloatingButton()
-    }, 500) // Wait for page to settle
+// Single-page navigation: pushState/replaceState reported by the service
+// worker (webNavigation), and back/forward here
+chrome.runtime.onMessage.addListener((message: ExtensionMessage) => {
+  if (message?.type === 'PAGE_NAVIGATED') {
+    pageNavigator.navigate((message.payload as PageNavigatedPayload).url)
+  }
+})
+window.addEventListener('popstate', () => pageNavigator.navigate(location.href))
+
+// The page text Settings previews as "what will be sent" (masked there)
+chrome.runtime.onMessage.addListener((message: ExtensionMessage, _sender, sendResponse) => {
+  if (message?.type === 'GET_ANALYSIS_PREVIEW') {
+    sendResponse({ textContent: extractPageContent(document.body.innerHTML).text })
   }
-}).observe(document, { subtree: true, childList: true })
+})
@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest'
+import { amazonAdapter } from './amazon'
+import { findAdapter } from './index'
+
+const ORDER_DETAILS_PAGE = `
+  <html>
+    <body>
+      <div data-component="orderId"><span>Order # <bdi>112-1234567-8901234</bdi></span></div>
+      <div data-component="purchasedItems">
+        <div data-component="purchasedItemsRightGrid">
+          <div data-component="itemTitle">
+            <a class="a-link-normal" href="/dp/B0001">Purina Pro Plan Adult Dog Food, 35 lb</a>
+          </div>
+          <div data-component="unitPrice"><span class="a-price"><span class="a-offscreen">$59.99</span></span></div>
+        </div>
+        <div data-component="purchasedItemsRightGrid">
+          <div data-component="itemTitle">
+            <a class="a-link-normal" href="/dp/B0002">Milk-Bone Dog Treats</a>
+          </div>
+          <div data-component="unitPrice"><span class="a-price"><span class="a-offscreen">$12.49</span></span></div>
+        </div>
+      </div>
+    </body>
+  </html>
+`
+
+function parse(html: string): Document {
+  return new DOMParser().parseFromString(html, 'text/html')
+}
+
+describe('Amazon adapter', () => {
+  it('is found by hostname on any marketplace', () => {
+    const doc = parse('<html><body></body></html>')
+    expect(findAdapter('https://www.amazon.com/gp/your-account/order-details?orderID=1', doc)?.id).toBe('amazon')
+    expect(findAdapter('https://www.amazon.co.uk/your-orders/order-details', doc)?.id).toBe('amazon')
+    expect(findAdapter('https://www.amazon.com.au/gp/buy/thankyou', doc)?.id).toBe('amazon')
+  })
+
+  it('does not claim look-alike domains', () => {
+    expect(findAdapter('https://amazon-deals.example.com/', parse('<html></html>'))).toBeNull()
+  })
+
+  it('extracts purchased items from order details', () => {
+    const products = amazonAdapter.extractProducts(parse(ORDER_DETAILS_PAGE))
+
+    expect(products).toEqual([
+      expect.objectContaining({ name: 'Purina Pro Plan Adult Dog Food, 35 lb', price: 59.99, quantity: 1 }),
+      expect.objectContaining({ name: 'Milk-Bone Dog Treats', price: 12.49 })
+    ])
+  })
+
+  it('extracts the order ID', () => {
+    expect(amazonAdapter.extractOrderNumber(parse(ORDER_DETAILS_PAGE))).toBe('112-1234567-8901234')
+  })
+
+  it('falls back to item titles on the thank-you page', () => {
+    const products = amazonAdapter.extractProducts(parse(`
+      <div class="checkout-item-title">Cascade Dishwasher Pods, 62 Count</div>
+    `))
+    expect(products[0].name).toBe('Cascade Dishwasher Pods, 62 Count')
+    expect(products[0].price).toBeNull()
+  })
+})
@@ -0,0 +1,57 @@
+import type { ProductInfo, RetailerAdapter } from '@/types'
+import { cleanText, makeProduct, parsePrice, parseQuantity, pushUnique } from './helpers'
+
+// Amazon order IDs look like 112-1234567-8901234
+const ORDER_ID_PATTERN = /\b(\d{3}-\d{7}-\d{7})\b/
+
+/**
+ * Amazon (all marketplaces). The thank-you page rarely lists items, so
+ * order details pages are the main source of products.
+ */
+export const amazonAdapter: RetailerAdapter = {
+  id: 'amazon',
+  store: { name: 'Amazon', logo: 'A' },
+  hostnames: [/(^|\.)amazon\.[a-z.]+$/i],
+  urlPatterns: [
+    { pattern: /\/gp\/buy\/thankyou/i, trigger: 'amazon-thankyou', confidence: 0.95 },
+    { pattern: /\/checkout\/.*thankyou/i, trigger: 'amazon-thankyou', confidence: 0.9 },
+    { pattern: /\/gp\/your-account\/order-details/i, trigger: 'amazon-order-details', confidence: 0.9 },
+    { pattern: /\/your-orders\/order-details/i, trigger: 'amazon-order-details', confidence: 0.9 }
+  ],
+
+  extractProducts(doc) {
+    const products: ProductInfo[] = []
+
+    // Order details: one shipment item per block, title link + price
+    doc.querySelectorAll('[data-component="purchasedItems"] [data-component="itemTitle"], .yohtmlc-item').forEach((item) => {
+      const container = item.closest('[data-component="purchasedItemsRightGrid"], .a-fixed-left-grid-inner') || item
+      const name = cleanText(item.querySelector('a')?.textContent || item.textContent)
+      const price = parsePrice(cleanText(
+        container.querySelector('[data-component="unitPrice"] .a-offscreen, .a-color-price')?.textContent
+      ))
+      const quantity = parseQuantity(cleanText(container.querySelector('.product-image__qty, .item-view-qty')?.textContent) || '1')
+      pushUnique(products, makeProduct(name, price, quantity))
+    })
+
+    // Thank-you page: item titles only
+    if (products.length === 0) {
+      doc.querySelectorAll('.checkout-item-title, [data-testid="item-title"]').forEach((item) => {
+        pushUnique(products, makeProduct(cleanText(item.textContent), null))
+      })
+    }
+
+    return products
+  },
+
+  extractOrderNumber(doc) {
+    const bdi = Array.from(doc.querySelectorAll('bdi, [data-component="orderId"]'))
+      .map((el) => cleanText(el.textContent))
+      .find((text) => ORDER_ID_PATTERN.test(text))
+    const match = (bdi || doc.body?.textContent || '').match(ORDER_ID_PATTERN)
+    return match ? match[1] : null
+  },
+
+  extractRetailer() {
+    return 'Amazon'
+  }
+}
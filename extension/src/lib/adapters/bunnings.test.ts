@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest'
+import { bunningsAdapter } from './bunnings'
+import { findAdapter } from './index'
+
+const ORDER_PAGE = `
+  <html>
+    <body>
+      <h1>Thanks for your order</h1>
+      <section>
+        <h2>What's in order 4567890</h2>
+        <ul>
+          <li>2 x Pine Bark Mulch 50L</li>
+          <li>1 x Richgro Black Marvel Potting Mix 25L</li>
+          <li>3 x Ozito Garden Hose Fitting 12mm</li>
+        </ul>
+      </section>
+      <footer>[Back to top]</footer>
+    </body>
+  </html>
+`
+
+function parse(html: string): Document {
+  return new DOMParser().parseFromString(html, 'text/html')
+}
+
+describe('Bunnings adapter', () => {
+  it('is found by hostname', () => {
+    expect(findAdapter('https://www.bunnings.com.au/order-confirmation', parse(ORDER_PAGE))?.id).toBe('bunnings')
+    expect(findAdapter('https://www.bunnings.co.nz/my-account/orders/123', parse(ORDER_PAGE))?.id).toBe('bunnings')
+  })
+
+  it('parses "N x Product" lines from the What\'s in order section', () => {
+    const products = bunningsAdapter.extractProducts(parse(ORDER_PAGE))
+
+    expect(products.map((p) => [p.name, p.quantity])).toEqual([
+      ['Pine Bark Mulch', 2],
+      ['Richgro Black Marvel Potting Mix', 1],
+      ['Ozito Garden Hose Fitting 12mm', 3]
+    ])
+  })
+
+  it('extracts the order number', () => {
+    expect(bunningsAdapter.extractOrderNumber(parse(ORDER_PAGE))).toBe('4567890')
+  })
+
+  it('returns no products without a What\'s in order section', () => {
+    expect(bunningsAdapter.extractProducts(parse('<body><p>2 x Something Else</p></body>'))).toEqual([])
+  })
+})
@@ -0,0 +1,58 @@
+import type { ProductInfo, RetailerAdapter } from '@/types'
+import { makeProduct, pushUnique } from './helpers'
+
+/**
+ * Bunnings Warehouse. Order pages render items as plain text
+ * ("What's in order 123456 ... 2 x Product Name"), so we parse the text.
+ */
+export const bunningsAdapter: RetailerAdapter = {
+  id: 'bunnings',
+  store: { name: 'Bunnings', logo: 'B' },
+  hostnames: [/(^|\.)bunnings\.(com\.au|co\.nz)$/i],
+  urlPatterns: [
+    { pattern: /\/order-confirmation/i, trigger: 'bunnings-order-confirmation', confidence: 0.95 },
+    { pattern: /\/my-account\/orders\/[\w-]+/i, trigger: 'bunnings-order-details', confidence: 0.9 }
+  ],
+
+  extractProducts(doc) {
+    const products: ProductInfo[] = []
+    const bodyText = (doc.body?.textContent || '').replace(/\s+/g, ' ')
+
+    // Look for the "What's in order" section and extract items from there
+    const whatsInOrderMatch = bodyText.match(/What'?s in order \d+([^[]+)/i)
+    if (!whatsInOrderMatch) {
+      return products
+    }
+
+    // Pattern for "N.NN x Product Name" or "N x Product Name", up to the next item or the end
+    const quantityProductPattern = /(\d+(?:\.\d+)?)\s*x\s*([A-Z][^]*?)(?=\s+\d+(?:\.\d+)?\s*(?:x|kg)\s|\s*$)/gi
+
+    let match
+    while ((match = quantityProductPattern.exec(whatsInOrderMatch[1])) !== null) {
+      const quantity = parseFloat(match[1])
+
+      // Clean up the product name - remove trailing measurements and noise
+      const productName = (match[2] || '')
+        .replace(/\s+\d+\s*(?:g|kg|ml|l|pcs?|pack|bunch).*$/i, '') // Remove trailing measurements
+        .replace(/\s*(?:minimum|about|approx).*$/i, '') // Remove extra words
+        .replace(/\s+/g, ' ')
+        .trim()
+
+      if (productName.length > 5) {
+        pushUnique(products, makeProduct(productName, null, Math.max(1, Math.round(quantity))))
+      }
+    }
+
+    return products
+  },
+
+  extractOrderNumber(doc) {
+    const bodyText = (doc.body?.textContent || '').replace(/\s+/g, ' ')
+    const match = bodyText.match(/(?:What'?s in order|Order (?:number|no\.?|#))\s*:?\s*(\d{5,})/i)
+    return match ? match[1] : null
+  },
+
+  extractRetailer() {
+    return 'Bunnings'
+  }
+}
@@ -0,0 +1,70 @@
+import { parseAmount, parsePrice as parseCurrencyPrice } from '../currency'
+import type { ProductInfo } from '@/types'
+
+/**
+ * Collapse whitespace in element text
+ */
+export function cleanText(text: string | null | undefined): string {
+  return (text || '').replace(/\s+/g, ' ').trim()
+}
+
+/**
+ * Text content of the first element matching a selector
+ */
+export function textOf(root: ParentNode, selector: string): string {
+  return cleanText(root.querySelector(selector)?.textContent)
+}
+
+/**
+ * Parse a price like "$29.99", "AU$1,299.00", "29.99 USD" or "1.234,56 €".
+ * The currency is left to the caller, which knows the store's.
+ */
+export function parsePrice(text: string): number | null {
+  const parsed = parseCurrencyPrice(text)
+  if (parsed) return parsed.amount
+
+  // Price cells sometimes hold just the number
+  const match = text.match(/\d[\d.,]*/)
+  const price = match ? parseAmount(match[0]) : null
+  return price !== null && price > 0 && price < 10000 ? price : null
+}
+
+/**
+ * Parse a quantity like "× 2", "Qty: 3" or "3"
+ */
+export function parseQuantity(text: string): number {
+  const match = text.match(/(\d+(?:\.\d+)?)/)
+  const quantity = match ? Math.round(parseFloat(match[1])) : 1
+  return quantity > 0 ? quantity : 1
+}
+
+/**
+ * Build a ProductInfo with the same defaults as the generic DOM extractor
+ */
+export function makeProduct(name: string, price: number | null, quantity = 1): ProductInfo {
+  return {
+    name: cleanText(name),
+    price,
+    quantity,
+    isRecurring: true,
+    category: null,
+    suggestedFrequencyDays: null
+  }
+}
+
+/**
+ * Append a product unless one with the same name is already present
+ */
+export function pushUnique(products: ProductInfo[], product: ProductInfo): void {
+  if (product.name.length > 1 && !products.some((p) => p.name === product.name)) {
+    products.push(product)
+  }
+}
+
+/**
+ * Store name from Open Graph / application-name meta tags
+ */
+export function siteNameFromMeta(doc: Document): string | null {
+  const meta = doc.querySelector('meta[property="og:site_name"], meta[name="application-name"]')
+  return cleanText(meta?.getAttribute('content')) || null
+}
@@ -0,0 +1,76 @@
+import type { RetailerAdapter, UrlPattern } from '@/types'
+import { amazonAdapter } from './amazon'
+import { bunningsAdapter } from './bunnings'
+import { shopifyAdapter } from './shopify'
+import { wooCommerceAdapter } from './woocommerce'
+
+// Hostname-specific adapters first so they win over platform fingerprints
+const adapters: RetailerAdapter[] = [
+  amazonAdapter,
+  bunningsAdapter,
+  shopifyAdapter,
+  wooCommerceAdapter
+]
+
+/**
+ * Register an additional adapter. Later registrations take priority.
+ */
+export function registerAdapter(adapter: RetailerAdapter): void {
+  const existing = adapters.findIndex((a) => a.id === adapter.id)
+  if (existing !== -1) {
+    adapters.splice(existing, 1)
+  }
+  adapters.unshift(adapter)
+}
+
+/**
+ * All registered adapters, in priority order
+ */
+export function getAdapters(): readonly RetailerAdapter[] {
+  return adapters
+}
+
+function getHostname(url: string): string | null {
+  try {
+    return new URL(url).hostname
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Check if an adapter owns the URL's hostname
+ */
+export function matchesHostname(adapter: RetailerAdapter, url: string): boolean {
+  const hostname = getHostname(url)
+  return !!hostname && adapter.hostnames.some((pattern) => pattern.test(hostname))
+}
+
+/**
+ * URL patterns that apply to a URL: site adapters only contribute on their
+ * own hostnames, platform adapters (with a fingerprint) contribute everywhere
+ */
+export function getAdapterUrlPatterns(url: string): UrlPattern[] {
+  return adapters
+    .filter((adapter) => adapter.fingerprint || matchesHostname(adapter, url))
+    .flatMap((adapter) => adapter.urlPatterns)
+}
+
+/**
+ * Find the adapter for a page: by hostname first, then by platform fingerprint.
+ * Returns null when only the generic heuristics apply.
+ */
+export function findAdapter(url: string, doc: Document): RetailerAdapter | null {
+  const byHostname = adapters.find((adapter) => matchesHostname(adapter, url))
+  if (byHostname) {
+    return byHostname
+  }
+
+  return adapters.find((adapter) => {
+    try {
+      return adapter.fingerprint?.(doc) ?? false
+    } catch {
+      return false
+    }
+  }) || null
+}
@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest'
+import { shopifyAdapter } from './shopify'
+import { findAdapter } from './index'
+import { isLikelyOrderConfirmationUrl } from '../detector'
+
+const THANK_YOU_PAGE = `
+  <html>
+    <head>
+      <meta property="og:site_name" content="Bean Brothers Coffee">
+      <link rel="stylesheet" href="https://cdn.shopify.com/s/files/checkout.css">
+    </head>
+    <body>
+      <span class="os-order-number">Order #1042</span>
+      <table class="product-table">
+        <tbody>
+          <tr class="product" data-product-id="111">
+            <td class="product__description">
+              <span class="product__description__name">House Blend Whole Beans</span>
+              <span class="product__description__variant">1kg</span>
+            </td>
+            <td class="product__quantity">2</td>
+            <td class="product__price"><span>$64.00</span></td>
+          </tr>
+          <tr class="product" data-product-id="222">
+            <td class="product__description">
+              <span class="product__description__name">Paper Filters</span>
+            </td>
+            <td class="product__quantity">1</td>
+            <td class="product__price"><span>$1,005.50</span></td>
+          </tr>
+        </tbody>
+      </table>
+    </body>
+  </html>
+`
+
+function parse(html: string): Document {
+  return new DOMParser().parseFromString(html, 'text/html')
+}
+
+describe('Shopify adapter', () => {
+  it('is found by fingerprint on a custom domain', () => {
+    const adapter = findAdapter('https://beanbrothers.com/checkouts/c/abc123/thank_you', parse(THANK_YOU_PAGE))
+    expect(adapter?.id).toBe('shopify')
+  })
+
+  it('contributes thank-you URL patterns on any domain', () => {
+    const result = isLikelyOrderConfirmationUrl('https://beanbrothers.com/checkouts/c/abc123/thank_you')
+    expect(result.isLikelyOrderConfirmation).toBe(true)
+    expect(result.triggers).toContain('shopify-thank-you')
+  })
+
+  it('extracts line items with unit prices', () => {
+    const products = shopifyAdapter.extractProducts(parse(THANK_YOU_PAGE))
+
+    expect(products).toHaveLength(2)
+    expect(products[0]).toMatchObject({ name: 'House Blend Whole Beans - 1kg', price: 32, quantity: 2 })
+    expect(products[1]).toMatchObject({ name: 'Paper Filters', price: 1005.5, quantity: 1 })
+  })
+
+  it('extracts the order number and store name', () => {
+    const doc = parse(THANK_YOU_PAGE)
+    expect(shopifyAdapter.extractOrderNumber(doc)).toBe('1042')
+    expect(shopifyAdapter.extractRetailer?.(doc)).toBe('Bean Brothers Coffee')
+  })
+
+  it('does not match non-Shopify pages', () => {
+    expect(shopifyAdapter.fingerprint?.(parse('<html><body><p>Hello</p></body></html>'))).toBe(false)
+  })
+})
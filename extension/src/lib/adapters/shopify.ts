@@ -0,0 +1,51 @@
+import type { ProductInfo, RetailerAdapter } from '@/types'
+import { cleanText, makeProduct, parsePrice, parseQuantity, pushUnique, siteNameFromMeta, textOf } from './helpers'
+
+/**
+ * Shopify storefronts (any domain). Covers the classic checkout "thank you"
+ * page and the customer account order status page.
+ */
+export const shopifyAdapter: RetailerAdapter = {
+  id: 'shopify',
+  store: { name: 'Shopify', logo: 'S' },
+  hostnames: [/\.myshopify\.com$/i],
+  urlPatterns: [
+    { pattern: /\/checkouts\/[^/]+\/thank[_-]you/i, trigger: 'shopify-thank-you', confidence: 0.95 },
+    { pattern: /\/checkouts\/[^/]+\/[^/]+\/thank[_-]you/i, trigger: 'shopify-thank-you', confidence: 0.95 },
+    { pattern: /\/\d+\/orders\/[a-f0-9]+/i, trigger: 'shopify-order-status', confidence: 0.9 }
+  ],
+
+  fingerprint(doc) {
+    return !!doc.querySelector(
+      'link[href*="cdn.shopify.com"], script[src*="cdn.shopify.com"], meta[name="shopify-checkout-api-token"], meta[name="shopify-digital-wallet"]'
+    )
+  },
+
+  extractProducts(doc) {
+    const products: ProductInfo[] = []
+
+    // Classic checkout: <table class="product-table"> with one tr.product per line item
+    doc.querySelectorAll('.product-table .product, tr.product[data-product-id]').forEach((row) => {
+      const name = textOf(row, '.product__description__name')
+      if (!name) return
+      const variant = textOf(row, '.product__description__variant')
+      const quantity = parseQuantity(textOf(row, '.product__quantity, .product-thumbnail__quantity') || '1')
+      const total = parsePrice(textOf(row, '.product__price'))
+      // Line price is the row total - divide back to a unit price
+      const price = total !== null ? Math.round((total / quantity) * 100) / 100 : null
+      pushUnique(products, makeProduct(variant ? `${name} - ${variant}` : name, price, quantity))
+    })
+
+    return products
+  },
+
+  extractOrderNumber(doc) {
+    const text = textOf(doc, '.os-order-number, [data-order-number]')
+    const match = text.match(/#?\s*([A-Z0-9-]+)\s*$/i)
+    return match ? match[1] : null
+  },
+
+  extractRetailer(doc) {
+    return siteNameFromMeta(doc) || cleanText(doc.querySelector('.logo__text, .logo')?.textContent) || null
+  }
+}
@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest'
+import { wooCommerceAdapter } from './woocommerce'
+import { findAdapter } from './index'
+import { isLikelyOrderConfirmationUrl } from '../detector'
+
+const ORDER_RECEIVED_PAGE = `
+  <html>
+    <head><meta property="og:site_name" content="Happy Paws Supplies"></head>
+    <body class="woocommerce-order-received woocommerce-page">
+      <ul class="woocommerce-order-overview">
+        <li class="woocommerce-order-overview__order">Order number: <strong>8812</strong></li>
+      </ul>
+      <table class="woocommerce-table woocommerce-table--order-details shop_table order_details">
+        <tbody>
+          <tr class="woocommerce-table__line-item order_item">
+            <td class="woocommerce-table__product-name product-name">
+              <a href="/product/grain-free-kibble">Grain Free Kibble 12kg</a>
+              <strong class="product-quantity">&times;&nbsp;2</strong>
+            </td>
+            <td class="woocommerce-table__product-total product-total">
+              <span class="woocommerce-Price-amount amount">$179.80</span>
+            </td>
+          </tr>
+          <tr class="woocommerce-table__line-item order_item">
+            <td class="product-name">
+              <a href="/product/poop-bags">Compostable Poop Bags</a>
+              <strong class="product-quantity">&times;&nbsp;1</strong>
+            </td>
+            <td class="product-total"><span class="amount">$12.95</span></td>
+          </tr>
+        </tbody>
+      </table>
+    </body>
+  </html>
+`
+
+function parse(html: string): Document {
+  return new DOMParser().parseFromString(html, 'text/html')
+}
+
+describe('WooCommerce adapter', () => {
+  it('is found by body class fingerprint', () => {
+    const adapter = findAdapter('https://happypaws.example/checkout/order-received/8812/?key=wc_order_x', parse(ORDER_RECEIVED_PAGE))
+    expect(adapter?.id).toBe('woocommerce')
+  })
+
+  it('contributes order-received URL patterns', () => {
+    const result = isLikelyOrderConfirmationUrl('https://happypaws.example/checkout/order-received/8812/?key=wc_order_x')
+    expect(result.triggers).toContain('woocommerce-order-received')
+    expect(result.confidence).toBeGreaterThanOrEqual(0.95)
+  })
+
+  it('extracts products with quantity and unit price', () => {
+    const products = wooCommerceAdapter.extractProducts(parse(ORDER_RECEIVED_PAGE))
+
+    expect(products).toEqual([
+      expect.objectContaining({ name: 'Grain Free Kibble 12kg', price: 89.9, quantity: 2 }),
+      expect.objectContaining({ name: 'Compostable Poop Bags', price: 12.95, quantity: 1 })
+    ])
+  })
+
+  it('extracts the order number and store name', () => {
+    const doc = parse(ORDER_RECEIVED_PAGE)
+    expect(wooCommerceAdapter.extractOrderNumber(doc)).toBe('8812')
+    expect(wooCommerceAdapter.extractRetailer?.(doc)).toBe('Happy Paws Supplies')
+  })
+})
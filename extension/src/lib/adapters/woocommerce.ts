@@ -0,0 +1,50 @@
+import type { ProductInfo, RetailerAdapter } from '@/types'
+import { cleanText, makeProduct, parsePrice, parseQuantity, pushUnique, siteNameFromMeta, textOf } from './helpers'
+
+/**
+ * WooCommerce stores (any domain). The "order received" page and the
+ * My Account > Orders > View order page share the same order details table.
+ */
+export const wooCommerceAdapter: RetailerAdapter = {
+  id: 'woocommerce',
+  store: { name: 'WooCommerce', logo: 'W' },
+  hostnames: [],
+  urlPatterns: [
+    { pattern: /\/checkout\/order-received\/\d+/i, trigger: 'woocommerce-order-received', confidence: 0.95 },
+    { pattern: /[?&]order-received=\d+/i, trigger: 'woocommerce-order-received', confidence: 0.95 },
+    { pattern: /\/my-account\/view-order\/\d+/i, trigger: 'woocommerce-view-order', confidence: 0.9 }
+  ],
+
+  fingerprint(doc) {
+    return !!doc.querySelector(
+      'body.woocommerce-order-received, body.woocommerce-page, body.woocommerce, .woocommerce-order, link[href*="/wp-content/plugins/woocommerce/"]'
+    )
+  },
+
+  extractProducts(doc) {
+    const products: ProductInfo[] = []
+
+    doc.querySelectorAll('.woocommerce-table--order-details tr.order_item, .order_details tr.order_item').forEach((row) => {
+      const nameCell = row.querySelector('.product-name')
+      if (!nameCell) return
+
+      // Product name is the link text; the cell also holds "× 2" and variation meta
+      const name = textOf(nameCell, 'a') || cleanText(nameCell.childNodes[0]?.textContent)
+      const quantity = parseQuantity(textOf(nameCell, '.product-quantity') || '1')
+      const total = parsePrice(textOf(row, '.product-total .amount, .product-total'))
+      const price = total !== null ? Math.round((total / quantity) * 100) / 100 : null
+      pushUnique(products, makeProduct(name, price, quantity))
+    })
+
+    return products
+  },
+
+  extractOrderNumber(doc) {
+    const text = textOf(doc, '.woocommerce-order-overview__order strong, .order-number, mark.order-number')
+    return text.replace(/^#/, '') || null
+  },
+
+  extractRetailer(doc) {
+    return siteNameFromMeta(doc) || cleanText(doc.querySelector('.site-title')?.textContent) || null
+  }
+}
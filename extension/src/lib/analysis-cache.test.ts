@@ -0,0 +1,89 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import {
+  normalizeCacheUrl,
+  getAnalysisFingerprint,
+  getCachedAnalysis,
+  cacheAnalysis,
+  listCachedAnalyses,
+  clearAnalysisCache,
+  ANALYSIS_CACHE_TTL_MS,
+  MAX_CACHED_ANALYSES
+} from './analysis-cache'
+import type { OrderAnalysis } from '@/types'
+
+const analysis: OrderAnalysis = {
+  isOrderConfirmation: true,
+  confidence: 0.9,
+  products: [{ name: 'Dog Food', price: 59.99, quantity: 1, isRecurring: true, category: 'pet', suggestedFrequencyDays: 30 }],
+  retailer: 'Amazon',
+  orderNumber: '123'
+}
+
+describe('Analysis Cache', () => {
+  let storage: Record<string, unknown>
+
+  beforeEach(() => {
+    storage = {}
+    vi.mocked(chrome.storage.local.get).mockImplementation(
+      (async (key: string) => ({ [key]: storage[key] })) as never
+    )
+    vi.mocked(chrome.storage.local.set).mockImplementation(
+      (async (items: Record<string, unknown>) => { Object.assign(storage, items) }) as never
+    )
+    vi.mocked(chrome.storage.local.remove).mockImplementation(
+      (async (key: string) => { delete storage[key] }) as never
+    )
+  })
+
+  it('normalizes away fragments, tracking parameters and query order', () => {
+    expect(normalizeCacheUrl('https://shop.com/orders/42/?utm_source=email&b=2&a=1#details')).toBe(
+      'https://shop.com/orders/42?a=1&b=2'
+    )
+    expect(normalizeCacheUrl('https://shop.com/order?orderId=9&gclid=x')).toBe('https://shop.com/order?orderId=9')
+  })
+
+  it('fingerprints the same page the same way and different text differently', async () => {
+    const first = await getAnalysisFingerprint('https://shop.com/thanks?utm_medium=x', 'Order  #123\n Dog Food', 'openai:standard')
+    const reload = await getAnalysisFingerprint('https://shop.com/thanks', 'Order #123\n Dog Food', 'openai:standard')
+    const changed = await getAnalysisFingerprint('https://shop.com/thanks', 'Order #124 Dog Food', 'openai:standard')
+
+    expect(first).toMatch(/^[0-9a-f]{64}$/)
+    expect(reload).toBe(first)
+    expect(changed).not.toBe(first)
+  })
+
+  it('fingerprints the same page differently for other analysis settings', async () => {
+    const page = ['https://shop.com/thanks', 'Order #123 Dog Food'] as const
+    const first = await getAnalysisFingerprint(...page, 'openai:standard')
+
+    expect(await getAnalysisFingerprint(...page, 'anthropic:standard')).not.toBe(first)
+    expect(await getAnalysisFingerprint(...page, 'openai:strict')).not.toBe(first)
+  })
+
+  it('returns cached results until they expire', async () => {
+    const now = Date.parse('2024-03-01T00:00:00Z')
+    await cacheAnalysis('abc', 'https://shop.com/thanks', analysis, now)
+
+    expect(await getCachedAnalysis('abc', now + 1000)).toEqual(analysis)
+    expect(await getCachedAnalysis('other', now + 1000)).toBeNull()
+    expect(await getCachedAnalysis('abc', now + ANALYSIS_CACHE_TTL_MS)).toBeNull()
+  })
+
+  it('keeps only the newest entries', async () => {
+    const now = Date.now()
+    for (let i = 0; i <= MAX_CACHED_ANALYSES; i++) {
+      await cacheAnalysis(`page-${i}`, `https://shop.com/orders/${i}`, analysis, now + i)
+    }
+
+    const entries = await listCachedAnalyses(now + MAX_CACHED_ANALYSES)
+    expect(entries).toHaveLength(MAX_CACHED_ANALYSES)
+    expect(entries[0].fingerprint).toBe(`page-${MAX_CACHED_ANALYSES}`)
+    expect(await getCachedAnalysis('page-0', now + MAX_CACHED_ANALYSES)).toBeNull()
+  })
+
+  it('clears everything', async () => {
+    await cacheAnalysis('abc', 'https://shop.com/thanks', analysis)
+    await clearAnalysisCache()
+    expect(await listCachedAnalyses()).toEqual([])
+  })
+})
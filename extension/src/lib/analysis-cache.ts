@@ -0,0 +1,92 @@
+import type { CachedAnalysis, OrderAnalysis } from '@/types'
+
+/**
+ * LLM results for pages already analyzed, in chrome.storage.local so they
+ * outlive service worker restarts. Reloading an order page or revisiting
+ * order details from history reuses the result instead of calling the LLM.
+ */
+
+const CACHE_KEY = 'analysisCache'
+export const ANALYSIS_CACHE_TTL_MS = 1000 * 60 * 60 * 24 * 7
+export const MAX_CACHED_ANALYSES = 50
+
+// Query parameters that change between visits without changing the page
+const TRACKING_PARAM_PATTERN = /^(utm_\w+|fbclid|gclid|msclkid|mc_cid|mc_eid|_ga|ref_?)$/i
+
+// Read-modify-writes are chained so concurrent analyses don't drop entries
+let pending: Promise<unknown> = Promise.resolve()
+
+async function readCache(): Promise<CachedAnalysis[]> {
+  const result = await chrome.storage.local.get(CACHE_KEY)
+  return (result[CACHE_KEY] as CachedAnalysis[] | undefined) || []
+}
+
+function isFresh(entry: CachedAnalysis, now: number): boolean {
+  return now - new Date(entry.cachedAt).getTime() < ANALYSIS_CACHE_TTL_MS
+}
+
+/**
+ * URL without its fragment or tracking parameters, query sorted, so the
+ * same page reached from an email link or a reload gives the same key
+ */
+export function normalizeCacheUrl(url: string): string {
+  try {
+    const parsed = new URL(url)
+    const params = [...parsed.searchParams.entries()]
+      .filter(([name]) => !TRACKING_PARAM_PATTERN.test(name))
+      .sort(([a], [b]) => a.localeCompare(b))
+    const query = new URLSearchParams(params).toString()
+    const path = parsed.pathname.replace(/\/+$/, '') || '/'
+    return `${parsed.origin}${path}${query ? `?${query}` : ''}`
+  } catch {
+    return url
+  }
+}
+
+/**
+ * SHA-256 (hex) of the normalized URL, the page text and `variant`, the
+ * settings that change the result (see getAnalysisVariant). Only the hash
+ * is sent to the analyze-order function, never the URL.
+ */
+export async function getAnalysisFingerprint(url: string, text: string, variant: string): Promise<string> {
+  const input = `${variant}\n${normalizeCacheUrl(url)}\n${text.replace(/\s+/g, ' ').trim()}`
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(input))
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('')
+}
+
+/**
+ * Cached result for a fingerprint, or null if there is none or it expired
+ */
+export async function getCachedAnalysis(fingerprint: string, now = Date.now()): Promise<OrderAnalysis | null> {
+  const entry = (await readCache()).find((e) => e.fingerprint === fingerprint)
+  return entry && isFresh(entry, now) ? entry.analysis : null
+}
+
+/**
+ * Keep a result, dropping expired entries and the oldest past MAX_CACHED_ANALYSES
+ */
+export function cacheAnalysis(
+  fingerprint: string,
+  url: string,
+  analysis: OrderAnalysis,
+  now = Date.now()
+): Promise<void> {
+  const run = pending.then(async () => {
+    const entries = (await readCache()).filter((e) => e.fingerprint !== fingerprint && isFresh(e, now))
+    entries.unshift({ fingerprint, url, analysis, cachedAt: new Date(now).toISOString() })
+    await chrome.storage.local.set({ [CACHE_KEY]: entries.slice(0, MAX_CACHED_ANALYSES) })
+  })
+  pending = run.catch(() => undefined)
+  return run
+}
+
+/**
+ * Unexpired entries, newest first, for Settings
+ */
+export async function listCachedAnalyses(now = Date.now()): Promise<CachedAnalysis[]> {
+  return (await readCache()).filter((e) => isFresh(e, now))
+}
+
+export async function clearAnalysisCache(): Promise<void> {
+  await chrome.storage.local.remove(CACHE_KEY)
+}
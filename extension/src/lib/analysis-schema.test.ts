@@ -0,0 +1,103 @@
+import { describe, it, expect } from 'vitest'
+import { parseAnalysisResponse, validateOrderAnalysis } from './analysis-schema'
+
+const product = {
+  name: 'Dog Food 30lb',
+  price: 59.99,
+  currency: 'USD',
+  quantity: 1,
+  isRecurring: true,
+  category: 'Pet',
+  suggestedFrequencyDays: 30
+}
+
+const analysis = {
+  isOrderConfirmation: true,
+  confidence: 0.9,
+  products: [product],
+  retailer: 'Chewy',
+  orderNumber: '123-456'
+}
+
+describe('Analysis schema', () => {
+  it('accepts a well-formed reply unchanged', () => {
+    expect(validateOrderAnalysis(analysis)).toEqual({ analysis, errors: [] })
+  })
+
+  it('coerces numeric strings, booleans and ids', () => {
+    const { analysis: result } = validateOrderAnalysis({
+      ...analysis,
+      isOrderConfirmation: 'true',
+      confidence: '90%',
+      orderNumber: 112233,
+      products: [
+        { ...product, price: '29,99 €', currency: null, quantity: 'x2', isRecurring: 'yes', suggestedFrequencyDays: '14 days' },
+        { ...product, price: '1.234,56', quantity: '3' }
+      ]
+    })
+
+    expect(result?.isOrderConfirmation).toBe(true)
+    expect(result?.confidence).toBe(0.9)
+    expect(result?.orderNumber).toBe('112233')
+    expect(result?.products[0]).toMatchObject({ price: 29.99, currency: 'EUR', quantity: 2, isRecurring: true, suggestedFrequencyDays: 14 })
+    expect(result?.products[1]).toMatchObject({ price: 1234.56, currency: 'USD', quantity: 3 })
+  })
+
+  it('clamps confidence and reorder intervals', () => {
+    const { analysis: result } = validateOrderAnalysis({
+      ...analysis,
+      confidence: 1.4,
+      products: [{ ...product, suggestedFrequencyDays: 900 }, { ...product, quantity: 0 }]
+    })
+
+    expect(result?.confidence).toBe(1)
+    expect(result?.products[0].suggestedFrequencyDays).toBe(365)
+    expect(result?.products[1].quantity).toBe(1)
+    expect(validateOrderAnalysis({ ...analysis, confidence: -0.2 }).analysis?.confidence).toBe(0)
+  })
+
+  it('defaults optional product fields', () => {
+    const { analysis: result } = validateOrderAnalysis({
+      ...analysis,
+      products: [{ name: 'Coffee Beans 1kg', suggestedFrequencyDays: 'monthly' }]
+    })
+
+    expect(result?.products[0]).toEqual({
+      name: 'Coffee Beans 1kg',
+      price: null,
+      currency: null,
+      quantity: 1,
+      isRecurring: false,
+      category: null,
+      suggestedFrequencyDays: null
+    })
+  })
+
+  it('reports missing and unusable fields with their path', () => {
+    const result = validateOrderAnalysis({
+      confidence: 'high',
+      products: [{ ...product, name: '' }, { ...product, price: 'free shipping' }]
+    })
+
+    expect(result.analysis).toBeNull()
+    expect(result.errors).toEqual([
+      'isOrderConfirmation: expected true or false',
+      'confidence: expected a number between 0 and 1',
+      'products[0].name: expected a non-empty string',
+      'products[1].price: expected a number or null'
+    ])
+    expect(validateOrderAnalysis([analysis]).errors).toEqual(['Expected a JSON object'])
+  })
+
+  it('reads JSON from code blocks and surrounding prose', () => {
+    const reply = `Here is the result:\n\`\`\`json\n${JSON.stringify(analysis)}\n\`\`\``
+    expect(parseAnalysisResponse(reply).analysis).toEqual(analysis)
+    expect(parseAnalysisResponse(`Sure! ${JSON.stringify(analysis)} Let me know.`).analysis).toEqual(analysis)
+  })
+
+  it('reports cut-off replies', () => {
+    const truncated = JSON.stringify(analysis).slice(0, 60)
+    expect(parseAnalysisResponse(truncated).errors[0]).toMatch(/No JSON object found/)
+    expect(parseAnalysisResponse(`${truncated}}`).errors[0]).toMatch(/^Invalid JSON/)
+  })
+})
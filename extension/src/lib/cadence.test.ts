@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest'
+import { estimateCadence, getOrderIntervals, shouldAutoApplyCadence } from './cadence'
+
+// Build orders from day offsets relative to 2024-01-01
+function ordersAt(...days: number[]) {
+  return days.map((day) => ({
+    ordered_at: new Date(Date.UTC(2024, 0, 1) + day * 24 * 60 * 60 * 1000).toISOString()
+  }))
+}
+
+describe('Adaptive Cadence', () => {
+  describe('getOrderIntervals', () => {
+    it('returns day gaps between orders regardless of input order', () => {
+      expect(getOrderIntervals(ordersAt(46, 0, 23))).toEqual([23, 23])
+    })
+
+    it('merges orders placed within a day of each other into one purchase', () => {
+      // Two single-pack orders on day 0 lasted 30 days, i.e. 15 days per pack
+      expect(getOrderIntervals(ordersAt(0, 0.2, 30))).toEqual([15])
+    })
+
+    it('normalizes intervals to days per pack', () => {
+      // Two packs on day 0, then one pack each on days 60 and 90
+      const orders = [{ ...ordersAt(0)[0], quantity: 2 }, ...ordersAt(60, 90)]
+
+      expect(getOrderIntervals(orders)).toEqual([30, 30])
+    })
+  })
+
+  describe('estimateCadence', () => {
+    it('needs at least three orders', () => {
+      expect(estimateCadence([])).toBeNull()
+      expect(estimateCadence(ordersAt(0, 30))).toBeNull()
+    })
+
+    it('estimates a steady interval with high confidence', () => {
+      const estimate = estimateCadence(ordersAt(0, 23, 46, 69, 92, 115))
+
+      expect(estimate?.intervalDays).toBe(23)
+      expect(estimate?.confidence).toBe(1)
+      expect(estimate?.sampleSize).toBe(5)
+    })
+
+    it('rejects outliers such as a skipped cycle', () => {
+      // 21, 22, 60 (forgot to reorder), 20, 21
+      const estimate = estimateCadence(ordersAt(0, 21, 43, 103, 123, 144))
+
+      expect(estimate?.intervalDays).toBe(21)
+      expect(estimate?.sampleSize).toBe(4)
+    })
+
+    it('weights recent intervals more heavily', () => {
+      // Habit changed from monthly to every two weeks
+      const estimate = estimateCadence(ordersAt(0, 30, 60, 74, 88, 102))
+
+      expect(estimate?.intervalDays).toBe(14)
+    })
+
+    it('reports lower confidence for few or noisy samples', () => {
+      const few = estimateCadence(ordersAt(0, 30, 60))
+      const noisy = estimateCadence(ordersAt(0, 20, 45, 60, 90, 105))
+
+      expect(few?.confidence).toBeLessThan(0.7)
+      expect(noisy?.confidence).toBeLessThan(0.7)
+    })
+  })
+
+  describe('shouldAutoApplyCadence', () => {
+    const confident = { intervalDays: 23, confidence: 0.9, sampleSize: 5 }
+
+    it('applies confident estimates that differ from the current frequency', () => {
+      expect(shouldAutoApplyCadence(confident, 30, false)).toBe(true)
+    })
+
+    it('never changes a locked frequency', () => {
+      expect(shouldAutoApplyCadence(confident, 30, true)).toBe(false)
+    })
+
+    it('ignores low-confidence estimates and tiny changes', () => {
+      expect(shouldAutoApplyCadence({ ...confident, confidence: 0.4 }, 30, false)).toBe(false)
+      expect(shouldAutoApplyCadence(confident, 24, false)).toBe(false)
+    })
+  })
+})
@@ -0,0 +1,131 @@
+import type { Order } from '@/types'
+
+const MS_PER_DAY = 1000 * 60 * 60 * 24
+
+// Orders closer together than this are treated as one purchase (split shipments, double clicks)
+const MIN_INTERVAL_DAYS = 1
+// Need at least this many intervals (3 orders) before suggesting a cadence
+const MIN_INTERVALS = 2
+// Intervals needed for full sample-size confidence
+const FULL_CONFIDENCE_INTERVALS = 5
+// Each older interval counts this much less than the next newer one
+const RECENCY_DECAY = 0.8
+// Modified z-score cutoff for outlier rejection (Iglewicz & Hoaglin)
+const OUTLIER_Z = 3.5
+
+// Auto-apply an estimate only when we're fairly sure and it actually differs
+export const AUTO_APPLY_MIN_CONFIDENCE = 0.7
+const AUTO_APPLY_MIN_CHANGE_DAYS = 2
+
+type CadenceOrder = Pick<Order, 'ordered_at'> & Partial<Pick<Order, 'quantity'>>
+
+export interface CadenceEstimate {
+  intervalDays: number
+  confidence: number  // 0-1
+  sampleSize: number  // intervals used after outlier rejection
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b)
+  const mid = Math.floor(sorted.length / 2)
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2
+}
+
+/**
+ * Weighted median: the value where cumulative weight first reaches half the total
+ */
+function weightedMedian(values: Array<{ value: number; weight: number }>): number {
+  const sorted = [...values].sort((a, b) => a.value - b.value)
+  const half = sorted.reduce((sum, v) => sum + v.weight, 0) / 2
+  let cumulative = 0
+  for (const { value, weight } of sorted) {
+    cumulative += weight
+    if (cumulative >= half) return value
+  }
+  return sorted[sorted.length - 1].value
+}
+
+/**
+ * Days each pack lasted between consecutive orders, oldest first.
+ * An order of N packs is expected to last N times as long, so its
+ * interval is divided by its quantity.
+ */
+export function getOrderIntervals(orders: CadenceOrder[]): number[] {
+  const purchases = orders
+    .map((o) => ({ time: new Date(o.ordered_at).getTime(), quantity: Math.max(o.quantity ?? 1, 1) }))
+    .filter((p) => !isNaN(p.time))
+    .sort((a, b) => a.time - b.time)
+
+  const intervals: number[] = []
+  let previous: { time: number; quantity: number } | null = null
+  for (const purchase of purchases) {
+    if (previous !== null) {
+      const days = (purchase.time - previous.time) / MS_PER_DAY
+      if (days < MIN_INTERVAL_DAYS) {
+        // Same purchase split into several orders - pool the quantities
+        previous.quantity += purchase.quantity
+        continue
+      }
+      intervals.push(days / previous.quantity)
+    }
+    previous = { ...purchase }
+  }
+  return intervals
+}
+
+/**
+ * Estimate how long one pack actually lasts from the order history.
+ * Uses a recency-weighted median of purchase intervals after rejecting
+ * outliers (e.g. a missed month, or a top-up order a few days later).
+ * Returns null until there are enough orders to say anything.
+ */
+export function estimateCadence(orders: CadenceOrder[]): CadenceEstimate | null {
+  const intervals = getOrderIntervals(orders)
+  if (intervals.length < MIN_INTERVALS) {
+    return null
+  }
+
+  // Outlier rejection using median absolute deviation
+  const med = median(intervals)
+  const mad = median(intervals.map((d) => Math.abs(d - med)))
+  const kept = intervals
+    .map((value, index) => ({ value, index }))
+    .filter(({ value }) => mad === 0 ? Math.abs(value - med) <= med * 0.5 : (0.6745 * Math.abs(value - med)) / mad <= OUTLIER_Z)
+
+  if (kept.length < MIN_INTERVALS) {
+    return null
+  }
+
+  // Newer intervals reflect current habits better
+  const newestIndex = intervals.length - 1
+  const intervalDays = Math.round(weightedMedian(
+    kept.map(({ value, index }) => ({ value, weight: Math.pow(RECENCY_DECAY, newestIndex - index) }))
+  ))
+
+  // Confidence grows with sample size and shrinks with spread
+  const keptValues = kept.map((k) => k.value)
+  const keptMedian = median(keptValues)
+  const spread = median(keptValues.map((d) => Math.abs(d - keptMedian))) / Math.max(keptMedian, 1)
+  const sampleFactor = Math.min(1, kept.length / FULL_CONFIDENCE_INTERVALS)
+  const consistency = Math.max(0, 1 - spread * 2)
+  const confidence = Math.round(sampleFactor * consistency * 100) / 100
+
+  return {
+    intervalDays: Math.max(1, intervalDays),
+    confidence,
+    sampleSize: kept.length
+  }
+}
+
+/**
+ * Whether an estimate should replace the user's current frequency automatically
+ */
+export function shouldAutoApplyCadence(
+  estimate: CadenceEstimate,
+  currentFrequencyDays: number,
+  frequencyLocked: boolean
+): boolean {
+  return !frequencyLocked &&
+    estimate.confidence >= AUTO_APPLY_MIN_CONFIDENCE &&
+    Math.abs(estimate.intervalDays - currentFrequencyDays) >= AUTO_APPLY_MIN_CHANGE_DAYS
+}
@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest'
+import {
+  getDailyUsage,
+  getDaysOfSupply,
+  projectRunOutDate,
+  calculateReminderFromSupply,
+  parsePackSize
+} from './consumption'
+
+const monthlyPack = {
+  frequency_days: 30,
+  pack_size: 1,
+  quantity: 1,
+  consumption_rate: null,
+  lead_time_days: 0
+}
+
+describe('Consumption Model', () => {
+  describe('getDaysOfSupply', () => {
+    it('lasts one frequency period per pack by default', () => {
+      expect(getDaysOfSupply(monthlyPack)).toBe(30)
+    })
+
+    it('scales with the quantity bought', () => {
+      expect(getDaysOfSupply({ ...monthlyPack, quantity: 2 })).toBe(60)
+      expect(getDaysOfSupply({ ...monthlyPack, quantity: 3 })).toBe(90)
+    })
+
+    it('uses an explicit consumption rate', () => {
+      // 60 capsules at 2 a day
+      const capsules = { ...monthlyPack, pack_size: 60, consumption_rate: 2 }
+
+      expect(getDailyUsage(capsules)).toBe(2)
+      expect(getDaysOfSupply(capsules)).toBe(30)
+      expect(getDaysOfSupply({ ...capsules, quantity: 2 })).toBe(60)
+    })
+  })
+
+  describe('projectRunOutDate', () => {
+    it('adds the days of supply to the order date', () => {
+      expect(projectRunOutDate('2024-01-01T12:00:00Z', { ...monthlyPack, quantity: 2 }))
+        .toBe('2024-03-01T12:00:00.000Z')
+    })
+  })
+
+  describe('calculateReminderFromSupply', () => {
+    it('matches the frequency when there is no lead time', () => {
+      expect(calculateReminderFromSupply('2024-01-01T12:00:00Z', monthlyPack))
+        .toBe('2024-01-31T12:00:00.000Z')
+    })
+
+    it('subtracts the shipping lead time from the run-out date', () => {
+      expect(calculateReminderFromSupply('2024-01-01T12:00:00Z', { ...monthlyPack, lead_time_days: 5 }))
+        .toBe('2024-01-26T12:00:00.000Z')
+    })
+
+    it('never reminds before the order was placed', () => {
+      expect(calculateReminderFromSupply('2024-01-01T12:00:00Z', { ...monthlyPack, frequency_days: 3, lead_time_days: 7 }))
+        .toBe('2024-01-01T12:00:00.000Z')
+    })
+  })
+
+  describe('parsePackSize', () => {
+    it('reads common pack size formats', () => {
+      expect(parsePackSize('Coffee Pods Pack of 12')).toBe(12)
+      expect(parsePackSize('Vitamin D 60 Capsules')).toBe(60)
+      expect(parsePackSize('Paper Towels 6-Pack')).toBe(6)
+      expect(parsePackSize('Sparkling Water 24 x 375ml')).toBe(24)
+      expect(parsePackSize('Dishwasher Tablets 100ct')).toBe(100)
+    })
+
+    it('returns null when there is no pack size', () => {
+      expect(parsePackSize('Dog Food 15kg')).toBeNull()
+      expect(parsePackSize('Shampoo 1 Pack')).toBeNull()
+    })
+  })
+})
@@ -0,0 +1,69 @@
+import type { Subscription } from '@/types'
+
+const MS_PER_DAY = 1000 * 60 * 60 * 24
+
+export type ConsumptionFields = Pick<
+  Subscription,
+  'frequency_days' | 'pack_size' | 'quantity' | 'consumption_rate' | 'lead_time_days'
+>
+
+/**
+ * Units used per day. An explicit consumption rate wins; otherwise one pack
+ * is assumed to last frequency_days.
+ */
+export function getDailyUsage(fields: ConsumptionFields): number {
+  if (fields.consumption_rate && fields.consumption_rate > 0) {
+    return fields.consumption_rate
+  }
+  return Math.max(fields.pack_size, 1) / Math.max(fields.frequency_days, 1)
+}
+
+/**
+ * How many days the last purchase lasts (pack size x quantity bought / daily usage)
+ */
+export function getDaysOfSupply(fields: ConsumptionFields): number {
+  const units = Math.max(fields.pack_size, 1) * Math.max(fields.quantity, 1)
+  return units / getDailyUsage(fields)
+}
+
+/**
+ * Projected date the last purchase runs out
+ */
+export function projectRunOutDate(
+  lastOrderedAt: string | null,
+  fields: ConsumptionFields
+): string {
+  const baseDate = lastOrderedAt ? new Date(lastOrderedAt) : new Date()
+  return new Date(baseDate.getTime() + getDaysOfSupply(fields) * MS_PER_DAY).toISOString()
+}
+
+/**
+ * Reminder date: projected run-out minus the shipping lead time, so the
+ * reorder arrives before the product is gone. Never earlier than the order itself.
+ */
+export function calculateReminderFromSupply(
+  lastOrderedAt: string | null,
+  fields: ConsumptionFields
+): string {
+  const baseDate = lastOrderedAt ? new Date(lastOrderedAt) : new Date()
+  const runOut = new Date(projectRunOutDate(lastOrderedAt, fields))
+  const reminder = runOut.getTime() - Math.max(fields.lead_time_days, 0) * MS_PER_DAY
+  return new Date(Math.max(reminder, baseDate.getTime())).toISOString()
+}
+
+/**
+ * Guess units per pack from a product name ("Pack of 12", "30 Count", "6pk", "24 x 375ml")
+ */
+export function parsePackSize(productName: string): number | null {
+  const patterns = [
+    /\bpack of (\d+)\b/i,
+    /\b(\d+)\s*[- ]?(?:pack|pk|count|ct|capsules|tablets|pods|rolls)\b/i,
+    /\b(\d+)\s*x\s*\d/i
+  ]
+  for (const pattern of patterns) {
+    const match = productName.match(pattern)
+    const size = match ? parseInt(match[1]) : NaN
+    if (size > 1 && size <= 1000) return size
+  }
+  return null
+}
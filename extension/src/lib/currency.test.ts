@@ -0,0 +1,130 @@
+import { describe, it, expect } from 'vitest'
+import {
+  parseAmount,
+  parsePrice,
+  getCurrencyForHost,
+  formatPrice,
+  convertToHomeCurrency,
+  getMonthlySpend,
+  normalizeCurrency,
+  resolveCurrency
+} from './currency'
+import type { Subscription } from '@/types'
+
+const subscription = (overrides: Partial<Subscription>): Subscription => ({
+  id: 'sub-1',
+  user_id: 'user-1',
+  product_name: 'Coffee Beans 1kg',
+  product_url: null,
+  retailer: 'Store',
+  price: 30,
+  frequency_days: 30,
+  last_ordered_at: null,
+  next_reminder_at: null,
+  created_at: '2024-01-01T00:00:00Z',
+  frequency_locked: false,
+  estimated_frequency_days: null,
+  cadence_confidence: null,
+  pack_size: 1,
+  quantity: 1,
+  consumption_rate: null,
+  lead_time_days: 0,
+  updated_at: '2024-01-01T00:00:00Z',
+  typical_price: 30,
+  sku: null,
+  currency: 'USD',
+  ...overrides
+})
+
+describe('Currency', () => {
+  describe('parseAmount', () => {
+    it('reads either decimal separator', () => {
+      expect(parseAmount('29.99')).toBe(29.99)
+      expect(parseAmount('29,99')).toBe(29.99)
+      expect(parseAmount('1,234.56')).toBe(1234.56)
+      expect(parseAmount('1.234,56')).toBe(1234.56)
+      expect(parseAmount('1 234,56')).toBe(1234.56)
+      expect(parseAmount("1'234.50")).toBe(1234.5)
+    })
+
+    it('treats a single separator before three digits as grouping', () => {
+      expect(parseAmount('1,500')).toBe(1500)
+      expect(parseAmount('1.500')).toBe(1500)
+      expect(parseAmount('1.234.567')).toBe(1234567)
+    })
+  })
+
+  describe('parsePrice', () => {
+    it('recognises symbols and codes before or after the amount', () => {
+      expect(parsePrice('Total: €29.99')).toEqual({ amount: 29.99, currency: 'EUR' })
+      expect(parsePrice('Gesamt 1.234,56 €')).toEqual({ amount: 1234.56, currency: 'EUR' })
+      expect(parsePrice('£12.50 each')).toEqual({ amount: 12.5, currency: 'GBP' })
+      expect(parsePrice('¥1,500')).toEqual({ amount: 1500, currency: 'JPY' })
+      expect(parsePrice('₹1,299.00')).toEqual({ amount: 1299, currency: 'INR' })
+      expect(parsePrice('29.99 USD')).toEqual({ amount: 29.99, currency: 'USD' })
+      expect(parsePrice('AU$45.00')).toEqual({ amount: 45, currency: 'AUD' })
+    })
+
+    it('resolves a bare dollar sign from the store', () => {
+      expect(parsePrice('$59.99', 'AUD')).toEqual({ amount: 59.99, currency: 'AUD' })
+      expect(parsePrice('$59.99', 'EUR')).toEqual({ amount: 59.99, currency: 'USD' })
+    })
+
+    it('skips quantities next to a price', () => {
+      expect(parsePrice('Qty 2 $59.99')).toEqual({ amount: 59.99, currency: 'USD' })
+    })
+
+    it('only takes unmarked amounts with cents', () => {
+      expect(parsePrice('Dog Food 30lb 59.99', 'CAD')).toEqual({ amount: 59.99, currency: 'CAD' })
+      expect(parsePrice('Order 12345')).toBeNull()
+    })
+
+    it('rejects implausible amounts for the currency', () => {
+      expect(parsePrice('$25000')).toBeNull()
+      expect(parsePrice('¥25,000')).toEqual({ amount: 25000, currency: 'JPY' })
+    })
+  })
+
+  it('guesses the currency from the store domain', () => {
+    expect(getCurrencyForHost('www.bunnings.com.au')).toBe('AUD')
+    expect(getCurrencyForHost('www.amazon.de')).toBe('EUR')
+    expect(getCurrencyForHost('www.target.com')).toBe('USD')
+  })
+
+  it('resolves stated currencies against the store', () => {
+    expect(resolveCurrency(null, 'AUD')).toBe('AUD')
+    expect(resolveCurrency('USD', 'AUD')).toBe('AUD')
+    expect(resolveCurrency('USD', 'EUR')).toBe('USD')
+    expect(resolveCurrency('gbp', 'AUD')).toBe('GBP')
+  })
+
+  it('formats with Intl, treating a missing currency as dollars', () => {
+    expect(formatPrice(29.99, 'USD', 'en-US')).toBe('$29.99')
+    expect(formatPrice(1500, 'JPY', 'en-US')).toBe('¥1,500')
+    expect(formatPrice(29.99, 'EUR', 'de-DE')).toBe('29,99\u00a0€')
+    expect(formatPrice(29.99, null, 'en-US')).toBe('$29.99')
+    expect(normalizeCurrency('eur')).toBe('EUR')
+    expect(normalizeCurrency('euro')).toBe('USD')
+  })
+
+  it('converts to the home currency when a rate is set', () => {
+    const settings = { homeCurrency: 'AUD', exchangeRates: { USD: 1.5 } }
+    expect(convertToHomeCurrency(10, 'AUD', settings)).toBe(10)
+    expect(convertToHomeCurrency(10, 'USD', settings)).toBe(15)
+    expect(convertToHomeCurrency(10, 'EUR', settings)).toBeNull()
+  })
+
+  it('totals monthly spend and lists currencies without a rate', () => {
+    const spend = getMonthlySpend(
+      [
+        subscription({ price: 20, frequency_days: 15, currency: 'AUD' }),
+        subscription({ price: 10, quantity: 2, currency: 'USD' }),
+        subscription({ price: 5, currency: 'EUR' }),
+        subscription({ price: null })
+      ],
+      { homeCurrency: 'AUD', exchangeRates: { USD: 1.5 } }
+    )
+
+    expect(spend).toEqual({ amount: 70, currency: 'AUD', unconverted: ['EUR'] })
+  })
+})
@@ -0,0 +1,266 @@
+import type { CurrencySettings, MonthlySpend, ParsedPrice, Subscription } from '@/types'
+
+/**
+ * Prices in any currency: reading them from page text ("$29.99", "29,99 €",
+ * "¥1,500", "₹1,299.00", "1.234,56"), formatting them for display and
+ * converting totals to the user's home currency with rates they set.
+ */
+
+export const DEFAULT_CURRENCY = 'USD'
+
+// Currencies offered in Settings and recognised by their ISO code in page text
+export const CURRENCY_OPTIONS = [
+  'USD', 'EUR', 'GBP', 'JPY', 'INR', 'AUD', 'CAD', 'NZD', 'CNY', 'CHF', 'SGD', 'HKD'
+]
+
+export const DEFAULT_CURRENCY_SETTINGS: CurrencySettings = {
+  homeCurrency: DEFAULT_CURRENCY,
+  exchangeRates: {}
+}
+
+// Symbols before or after an amount. A bare "$" (or "¥") means the store's
+// local dollar (or yen), resolved from its hostname.
+const CURRENCY_SYMBOLS: Record<string, string | null> = {
+  'US$': 'USD',
+  'AU$': 'AUD',
+  'A$': 'AUD',
+  'CA$': 'CAD',
+  'C$': 'CAD',
+  'NZ$': 'NZD',
+  'HK$': 'HKD',
+  'S$': 'SGD',
+  'CN¥': 'CNY',
+  '€': 'EUR',
+  '£': 'GBP',
+  '₹': 'INR',
+  'Rs.': 'INR',
+  '¥': null,
+  '￥': null,
+  '$': null
+}
+
+const DOLLAR_CURRENCIES = ['USD', 'AUD', 'CAD', 'NZD', 'SGD', 'HKD']
+
+// Country-code top-level domains and the currency their stores charge in
+const HOST_CURRENCIES: Record<string, string> = {
+  au: 'AUD',
+  ca: 'CAD',
+  nz: 'NZD',
+  uk: 'GBP',
+  in: 'INR',
+  jp: 'JPY',
+  cn: 'CNY',
+  ch: 'CHF',
+  sg: 'SGD',
+  hk: 'HKD',
+  de: 'EUR',
+  fr: 'EUR',
+  es: 'EUR',
+  it: 'EUR',
+  nl: 'EUR',
+  be: 'EUR',
+  at: 'EUR',
+  ie: 'EUR',
+  fi: 'EUR',
+  pt: 'EUR'
+}
+
+// Amounts are sanity-checked against this, scaled for currencies with small units
+const MAX_PRICE = 10000
+const PRICE_SCALE: Record<string, number> = { JPY: 100, INR: 100, CNY: 10 }
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+const SYMBOL_PATTERN = Object.keys(CURRENCY_SYMBOLS)
+  .sort((a, b) => b.length - a.length)
+  .map(escapeRegExp)
+  .join('|')
+const CODE_PATTERN = `(?<![A-Za-z])(?:${CURRENCY_OPTIONS.join('|')})(?![A-Za-z])`
+// Grouped ("1,234.56", "1.234,56", "1 234,56") or plain ("29.99", "29,99", "1500")
+const AMOUNT_PATTERN = "\\d{1,3}(?:[.,'\\u00a0\\u202f ]\\d{3})+(?:[.,]\\d{1,2})?(?!\\d)|\\d+(?:[.,]\\d{1,2})?(?!\\d)"
+const MARKER_PATTERN = `${CODE_PATTERN}\\s?(?:${SYMBOL_PATTERN})?|${SYMBOL_PATTERN}`
+// A marker between two numbers ("Qty 2 $59.99") belongs to the second
+const PRICE_PATTERN = new RegExp(
+  `(${MARKER_PATTERN})\\s?(${AMOUNT_PATTERN})|(${AMOUNT_PATTERN})\\s?(${MARKER_PATTERN})(?!\\s?\\d)`,
+  'g'
+)
+const BARE_AMOUNT_PATTERN = /(?:^|[^\d.,])(\d{1,3}(?:[.,]\d{3})*[.,]\d{2}|\d+[.,]\d{2})(?![\d.,]*\d)/
+
+/**
+ * An ISO 4217 code, or the default currency for anything that isn't one
+ */
+export function normalizeCurrency(code: string | null | undefined): string {
+  const upper = code?.trim().toUpperCase()
+  return upper && /^[A-Z]{3}$/.test(upper) ? upper : DEFAULT_CURRENCY
+}
+
+/**
+ * Currency stores on this hostname charge in, from its country domain
+ * ("www.bunnings.com.au" is AUD). Defaults to USD for .com and unknown ones.
+ */
+export function getCurrencyForHost(hostname: string): string {
+  const tld = hostname.toLowerCase().split('.').pop() || ''
+  return HOST_CURRENCIES[tld] || DEFAULT_CURRENCY
+}
+
+/**
+ * Parse a number written with either decimal separator. A single "." or ","
+ * followed by exactly three digits groups thousands ("1.234" is 1234);
+ * when both appear the last one is the decimal point.
+ */
+export function parseAmount(text: string): number | null {
+  const digits = text.replace(/[\s']/g, '')
+  if (!/^\d[\d.,]*$/.test(digits)) {
+    return null
+  }
+
+  const decimalAt = Math.max(digits.lastIndexOf('.'), digits.lastIndexOf(','))
+  let normalized = digits
+  if (decimalAt !== -1) {
+    const separator = digits[decimalAt]
+    const isDecimal = digits.includes('.') && digits.includes(',')
+      ? true
+      : digits.indexOf(separator) === decimalAt && digits.length - decimalAt - 1 !== 3
+    normalized = isDecimal
+      ? `${digits.slice(0, decimalAt).replace(/[.,]/g, '')}.${digits.slice(decimalAt + 1)}`
+      : digits.replace(/[.,]/g, '')
+  }
+
+  const amount = parseFloat(normalized)
+  return Number.isFinite(amount) ? amount : null
+}
+
+function getMarkerCurrency(marker: string, fallback: string): string {
+  const code = marker.match(new RegExp(CODE_PATTERN))
+  if (code) {
+    return code[0]
+  }
+
+  const symbol = CURRENCY_SYMBOLS[marker]
+  if (symbol) {
+    return symbol
+  }
+  if (marker.includes('$')) {
+    return DOLLAR_CURRENCIES.includes(fallback) ? fallback : DEFAULT_CURRENCY
+  }
+  // ¥ is yen unless the store is Chinese
+  return fallback === 'CNY' ? 'CNY' : 'JPY'
+}
+
+function isPlausiblePrice(amount: number, currency: string): boolean {
+  return amount > 0 && amount < MAX_PRICE * (PRICE_SCALE[currency] || 1)
+}
+
+/**
+ * The first price in `text` with its currency. Amounts without a currency
+ * symbol or code only count when they have cents ("29.99"), and take
+ * `fallbackCurrency`, as does a bare "$".
+ */
+export function parsePrice(text: string, fallbackCurrency: string = DEFAULT_CURRENCY): ParsedPrice | null {
+  for (const match of text.matchAll(PRICE_PATTERN)) {
+    const amount = parseAmount(match[2] ?? match[3])
+    const currency = getMarkerCurrency(match[1] ?? match[4], fallbackCurrency)
+    if (amount !== null && isPlausiblePrice(amount, currency)) {
+      return { amount, currency }
+    }
+  }
+
+  const bare = text.match(BARE_AMOUNT_PATTERN)
+  const amount = bare ? parseAmount(bare[1]) : null
+  return amount !== null && isPlausiblePrice(amount, fallbackCurrency)
+    ? { amount, currency: fallbackCurrency }
+    : null
+}
+
+/**
+ * Currency of an amount given the one stated for it (by page text, the LLM
+ * or structured data) and the store's own. Amounts with none are in the
+ * store's, and so are amounts read as US dollars or yen at stores charging
+ * in another dollar or yuan, since a bare "$" or "¥" was read that way.
+ */
+export function resolveCurrency(stated: string | null | undefined, storeCurrency: string): string {
+  if (!stated) {
+    return normalizeCurrency(storeCurrency)
+  }
+
+  const code = normalizeCurrency(stated)
+  if (code === 'USD' && DOLLAR_CURRENCIES.includes(storeCurrency)) return storeCurrency
+  if (code === 'JPY' && storeCurrency === 'CNY') return storeCurrency
+  return code
+}
+
+/**
+ * Currency of the first price in `text`, or `fallbackCurrency` if none
+ */
+export function detectCurrency(text: string, fallbackCurrency: string = DEFAULT_CURRENCY): string {
+  return parsePrice(text, fallbackCurrency)?.currency || fallbackCurrency
+}
+
+/**
+ * Format an amount for display in the browser's locale, e.g. "$29.99",
+ * "€29.99" or "¥1,500". Rows saved before currencies existed are dollars.
+ */
+export function formatPrice(amount: number, currency?: string | null, locale?: string): string {
+  const code = normalizeCurrency(currency)
+  try {
+    return new Intl.NumberFormat(locale, { style: 'currency', currency: code }).format(amount)
+  } catch {
+    return `${amount.toFixed(2)} ${code}`
+  }
+}
+
+/**
+ * `amount` in the home currency, or null when there's no rate for `currency`
+ */
+export function convertToHomeCurrency(
+  amount: number,
+  currency: string | null | undefined,
+  settings: CurrencySettings
+): number | null {
+  const code = normalizeCurrency(currency)
+  if (code === settings.homeCurrency) {
+    return amount
+  }
+
+  const rate = settings.exchangeRates[code]
+  return rate && rate > 0 ? amount * rate : null
+}
+
+/**
+ * Estimated spend per 30 days on priced subscriptions, in the home currency
+ */
+export function getMonthlySpend(subscriptions: Subscription[], settings: CurrencySettings): MonthlySpend {
+  let amount = 0
+  const unconverted = new Set<string>()
+
+  for (const subscription of subscriptions) {
+    if (!subscription.price || subscription.frequency_days <= 0) continue
+
+    const perMonth = (subscription.price * (subscription.quantity || 1) * 30) / subscription.frequency_days
+    const converted = convertToHomeCurrency(perMonth, subscription.currency, settings)
+    if (converted === null) {
+      unconverted.add(normalizeCurrency(subscription.currency))
+    } else {
+      amount += converted
+    }
+  }
+
+  return {
+    amount: Math.round(amount * 100) / 100,
+    currency: settings.homeCurrency,
+    unconverted: [...unconverted].sort()
+  }
+}
+
+/**
+ * Load the home currency and exchange rates (kept on this device only)
+ */
+export async function getCurrencySettings(): Promise<CurrencySettings> {
+  const result = await chrome.storage.local.get(Object.keys(DEFAULT_CURRENCY_SETTINGS))
+  return {
+    homeCurrency: normalizeCurrency(result.homeCurrency),
+    exchangeRates: result.exchangeRates || {}
+  }
+}
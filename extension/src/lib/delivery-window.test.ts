@@ -0,0 +1,129 @@
+import { describe, it, expect } from 'vitest'
+import {
+  zonedTimeToUtc,
+  getNextDeliveryTime,
+  isDeliverable,
+  isInQuietHours,
+  getLocalDateKey,
+  parseTimeOfDay
+} from './delivery-window'
+import type { DeliveryPreferences } from '@/types'
+
+const newYork: DeliveryPreferences = {
+  timezone: 'America/New_York',
+  preferred_reminder_time: '09:00',
+  quiet_hours_start: '22:00',
+  quiet_hours_end: '07:00'
+}
+
+const utc = (iso: string) => new Date(iso)
+
+describe('Reminder Delivery Window', () => {
+  describe('parseTimeOfDay', () => {
+    it('parses HH:MM and Postgres HH:MM:SS', () => {
+      expect(parseTimeOfDay('09:30')).toBe(570)
+      expect(parseTimeOfDay('22:00:00')).toBe(1320)
+      expect(parseTimeOfDay('25:00')).toBeNull()
+      expect(parseTimeOfDay(null)).toBeNull()
+    })
+  })
+
+  describe('zonedTimeToUtc', () => {
+    it('converts local wall-clock time using the offset in effect that day', () => {
+      // EST (UTC-5) in winter, EDT (UTC-4) in summer
+      expect(zonedTimeToUtc({ year: 2024, month: 1, day: 15 }, 9 * 60, 'America/New_York').toISOString())
+        .toBe('2024-01-15T14:00:00.000Z')
+      expect(zonedTimeToUtc({ year: 2024, month: 7, day: 15 }, 9 * 60, 'America/New_York').toISOString())
+        .toBe('2024-07-15T13:00:00.000Z')
+    })
+
+    it('handles the day of the spring-forward transition', () => {
+      // Clocks jump from 02:00 to 03:00 on 2024-03-10
+      expect(zonedTimeToUtc({ year: 2024, month: 3, day: 10 }, 9 * 60, 'America/New_York').toISOString())
+        .toBe('2024-03-10T13:00:00.000Z')
+    })
+
+    it('moves times skipped by spring-forward past the gap', () => {
+      expect(zonedTimeToUtc({ year: 2024, month: 3, day: 10 }, 2 * 60 + 30, 'America/New_York').toISOString())
+        .toBe('2024-03-10T07:30:00.000Z') // 03:30 EDT
+    })
+
+    it('resolves times repeated by fall-back to the first occurrence', () => {
+      // 01:00-02:00 happens twice on 2024-11-03
+      expect(zonedTimeToUtc({ year: 2024, month: 11, day: 3 }, 60 + 30, 'America/New_York').toISOString())
+        .toBe('2024-11-03T05:30:00.000Z') // 01:30 EDT
+    })
+
+    it('handles southern hemisphere and half-hour zones', () => {
+      // Sydney DST ends 2024-04-07 (AEDT +11 -> AEST +10)
+      expect(zonedTimeToUtc({ year: 2024, month: 4, day: 7 }, 9 * 60, 'Australia/Sydney').toISOString())
+        .toBe('2024-04-06T23:00:00.000Z')
+      expect(zonedTimeToUtc({ year: 2024, month: 1, day: 1 }, 9 * 60, 'Asia/Kolkata').toISOString())
+        .toBe('2024-01-01T03:30:00.000Z')
+    })
+  })
+
+  describe('isInQuietHours', () => {
+    it('handles quiet hours spanning midnight', () => {
+      expect(isInQuietHours(utc('2024-01-15T08:00:00Z'), newYork)).toBe(true) // 03:00 local
+      expect(isInQuietHours(utc('2024-01-15T04:00:00Z'), newYork)).toBe(true) // 23:00 local
+      expect(isInQuietHours(utc('2024-01-15T17:00:00Z'), newYork)).toBe(false) // 12:00 local
+    })
+
+    it('is off when quiet hours are not set', () => {
+      expect(isInQuietHours(utc('2024-01-15T08:00:00Z'), { ...newYork, quiet_hours_start: null })).toBe(false)
+    })
+  })
+
+  describe('getNextDeliveryTime', () => {
+    it('delivers at the preferred local time on the due date', () => {
+      // Due at 20:00 UTC = 15:00 local; preferred 09:00 local = 14:00 UTC
+      const delivery = getNextDeliveryTime('2024-01-15T20:00:00Z', utc('2024-01-15T06:00:00Z'), newYork)
+      expect(delivery.toISOString()).toBe('2024-01-15T14:00:00.000Z')
+    })
+
+    it('uses the local due date, not the UTC one', () => {
+      // 03:00 UTC on the 16th is still the 15th in New York
+      const delivery = getNextDeliveryTime('2024-01-16T03:00:00Z', utc('2024-01-15T06:00:00Z'), newYork)
+      expect(delivery.toISOString()).toBe('2024-01-15T14:00:00.000Z')
+    })
+
+    it('keeps the same local time across a DST transition', () => {
+      const before = getNextDeliveryTime('2024-03-09T17:00:00Z', utc('2024-03-09T00:00:00Z'), newYork)
+      const after = getNextDeliveryTime('2024-03-11T17:00:00Z', utc('2024-03-09T00:00:00Z'), newYork)
+
+      expect(before.toISOString()).toBe('2024-03-09T14:00:00.000Z') // 09:00 EST
+      expect(after.toISOString()).toBe('2024-03-11T13:00:00.000Z') // 09:00 EDT
+    })
+
+    it('delivers overdue reminders now unless it is quiet time', () => {
+      const afternoon = utc('2024-01-20T19:00:00Z') // 14:00 local
+      expect(getNextDeliveryTime('2024-01-15T20:00:00Z', afternoon, newYork)).toEqual(afternoon)
+
+      const night = utc('2024-01-21T08:00:00Z') // 03:00 local
+      expect(getNextDeliveryTime('2024-01-15T20:00:00Z', night, newYork).toISOString())
+        .toBe('2024-01-21T12:00:00.000Z') // 07:00 local
+    })
+
+    it('ends quiet hours at the right instant on a DST night', () => {
+      // 01:30 EST on 2024-11-03 (after fall-back); quiet hours end 07:00 EST
+      const night = utc('2024-11-03T06:30:00Z')
+      const prefs = { ...newYork, preferred_reminder_time: null }
+      expect(getNextDeliveryTime('2024-11-02T12:00:00Z', night, prefs).toISOString())
+        .toBe('2024-11-03T12:00:00.000Z')
+    })
+
+    it('delivers when due without preferences', () => {
+      const prefs = { timezone: 'UTC', preferred_reminder_time: null, quiet_hours_start: null, quiet_hours_end: null }
+      expect(isDeliverable('2024-01-15T03:00:00Z', utc('2024-01-15T03:00:00Z'), prefs)).toBe(true)
+      expect(isDeliverable('2024-01-15T03:00:00Z', utc('2024-01-15T02:59:00Z'), prefs)).toBe(false)
+    })
+  })
+
+  describe('getLocalDateKey', () => {
+    it('returns the calendar date in the user timezone', () => {
+      expect(getLocalDateKey(utc('2024-01-16T03:00:00Z'), 'America/New_York')).toBe('2024-01-15')
+      expect(getLocalDateKey(utc('2024-01-15T20:00:00Z'), 'Asia/Tokyo')).toBe('2024-01-16')
+    })
+  })
+})
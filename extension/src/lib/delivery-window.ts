@@ -0,0 +1,189 @@
+import type { DeliveryPreferences } from '@/types'
+
+/**
+ * Timezone-aware reminder delivery: preferred time of day and quiet hours.
+ * All wall-clock maths goes through Intl so DST transitions are handled by
+ * the platform's tz database rather than fixed UTC offsets.
+ *
+ * Keep in sync with supabase/functions/_shared/delivery-window.ts
+ */
+
+const MS_PER_DAY = 1000 * 60 * 60 * 24
+
+interface LocalDate {
+  year: number
+  month: number  // 1-12
+  day: number
+}
+
+/**
+ * Preferences used until the user sets their own: the browser's timezone,
+ * deliver as soon as due, no quiet hours
+ */
+export function getDefaultDeliveryPreferences(): DeliveryPreferences {
+  return {
+    timezone: Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC',
+    preferred_reminder_time: null,
+    quiet_hours_start: null,
+    quiet_hours_end: null
+  }
+}
+
+/**
+ * Check a string is an IANA timezone the runtime knows about
+ */
+export function isValidTimezone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone })
+    return true
+  } catch {
+    return false
+  }
+}
+
+/**
+ * IANA timezones offered in Settings (falls back to just the current one on
+ * runtimes without Intl.supportedValuesOf)
+ */
+export function getTimezoneOptions(current: string): string[] {
+  const intl = Intl as { supportedValuesOf?: (key: 'timeZone') => string[] }
+  const zones = intl.supportedValuesOf?.('timeZone') || []
+  return zones.includes(current) ? zones : [current, ...zones]
+}
+
+/**
+ * Parse "HH:MM" or Postgres "HH:MM:SS" into minutes since midnight
+ */
+export function parseTimeOfDay(value: string | null): number | null {
+  if (!value) return null
+  const match = value.match(/^(\d{1,2}):(\d{2})/)
+  if (!match) return null
+  const hours = parseInt(match[1])
+  const minutes = parseInt(match[2])
+  if (hours > 23 || minutes > 59) return null
+  return hours * 60 + minutes
+}
+
+/**
+ * Wall-clock date and time of an instant in a timezone
+ */
+export function getZonedParts(date: Date, timeZone: string): LocalDate & { minutes: number } {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric'
+  }).formatToParts(date)
+
+  const get = (type: string) => parseInt(parts.find((p) => p.type === type)?.value || '0')
+  return {
+    year: get('year'),
+    month: get('month'),
+    day: get('day'),
+    minutes: get('hour') * 60 + get('minute')
+  }
+}
+
+/**
+ * Local calendar date of an instant as "YYYY-MM-DD"
+ */
+export function getLocalDateKey(date: Date, timeZone: string): string {
+  const { year, month, day } = getZonedParts(date, timeZone)
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`
+}
+
+/**
+ * UTC offset of a timezone at an instant, in ms (negative west of UTC)
+ */
+function getOffsetMs(timestamp: number, timeZone: string): number {
+  const local = getZonedParts(new Date(timestamp), timeZone)
+  const localAsUtc = Date.UTC(local.year, local.month - 1, local.day, 0, local.minutes)
+  // Compare at minute precision - the formatter drops seconds
+  return localAsUtc - Math.floor(timestamp / 60000) * 60000
+}
+
+/**
+ * Convert a wall-clock time in a timezone to a UTC instant.
+ * Times skipped by a spring-forward transition move forward by the gap
+ * (02:30 becomes 03:30); repeated times resolve to the first occurrence.
+ */
+export function zonedTimeToUtc(date: LocalDate, minutesOfDay: number, timeZone: string): Date {
+  const localAsUtc = Date.UTC(date.year, date.month - 1, date.day, 0, minutesOfDay)
+
+  // Offsets either side of any transition on this day
+  const before = getOffsetMs(localAsUtc - MS_PER_DAY, timeZone)
+  const after = getOffsetMs(localAsUtc + MS_PER_DAY, timeZone)
+
+  const valid = [localAsUtc - before, localAsUtc - after]
+    .filter((candidate) => getOffsetMs(candidate, timeZone) === localAsUtc - candidate)
+    .sort((a, b) => a - b)
+
+  return new Date(valid.length > 0 ? valid[0] : localAsUtc - before)
+}
+
+function addDays(date: LocalDate, days: number): LocalDate {
+  const shifted = new Date(Date.UTC(date.year, date.month - 1, date.day + days))
+  return { year: shifted.getUTCFullYear(), month: shifted.getUTCMonth() + 1, day: shifted.getUTCDate() }
+}
+
+/**
+ * Whether an instant falls inside the user's quiet hours (which may span midnight)
+ */
+export function isInQuietHours(date: Date, prefs: DeliveryPreferences): boolean {
+  const start = parseTimeOfDay(prefs.quiet_hours_start)
+  const end = parseTimeOfDay(prefs.quiet_hours_end)
+  if (start === null || end === null || start === end) return false
+
+  const { minutes } = getZonedParts(date, prefs.timezone)
+  return start < end
+    ? minutes >= start && minutes < end
+    : minutes >= start || minutes < end
+}
+
+/**
+ * First instant at or after `date` that is outside quiet hours
+ */
+function skipQuietHours(date: Date, prefs: DeliveryPreferences): Date {
+  if (!isInQuietHours(date, prefs)) return date
+
+  const end = parseTimeOfDay(prefs.quiet_hours_end)!
+  const local = getZonedParts(date, prefs.timezone)
+  let quietEnd = zonedTimeToUtc(local, end, prefs.timezone)
+  if (quietEnd <= date) {
+    quietEnd = zonedTimeToUtc(addDays(local, 1), end, prefs.timezone)
+  }
+  return quietEnd
+}
+
+/**
+ * When a reminder due at `dueAt` should be delivered, no earlier than `now`.
+ * With a preferred time the reminder waits for that time on its local due
+ * date; either way it is pushed past quiet hours.
+ */
+export function getNextDeliveryTime(
+  dueAt: string | Date,
+  now: Date,
+  prefs: DeliveryPreferences
+): Date {
+  const due = new Date(dueAt)
+  const preferred = parseTimeOfDay(prefs.preferred_reminder_time)
+
+  let delivery = preferred === null
+    ? due
+    : zonedTimeToUtc(getZonedParts(due, prefs.timezone), preferred, prefs.timezone)
+
+  if (delivery < now) {
+    delivery = now
+  }
+  return skipQuietHours(delivery, prefs)
+}
+
+/**
+ * Whether a reminder due at `dueAt` may be delivered right now
+ */
+export function isDeliverable(dueAt: string | Date, now: Date, prefs: DeliveryPreferences): boolean {
+  return getNextDeliveryTime(dueAt, now, prefs).getTime() <= now.getTime()
+}
@@ -3,7 +3,9 @@ import {
   isLikelyOrderConfirmationUrl,
   isLikelyOrderConfirmationPage,
   extractPageContent,
-  getUrlConfidenceScore
+  getUrlConfidenceScore,
+  isOrderDetailsPage,
+  isOrderRelatedUrl
 } from './detector'
 
 describe('URL Detection Heuristics', () => {
@@ -165,6 +167,137 @@ describe('URL Detection Heuristics', () => {
     })
   })
 
+  describe('other languages', () => {
+    it('detects German confirmations', () => {
+      const result = isLikelyOrderConfirmationPage({
+        url: 'https://www.shop.de/kasse/abschluss',
+        title: 'Bestellbestätigung',
+        bodyText: 'Vielen Dank für Ihre Bestellung! Ihre Bestellnummer: 100234. Eine Bestätigungs-E-Mail ist unterwegs.',
+        lang: 'de-DE'
+      })
+      expect(result.isLikelyOrderConfirmation).toBe(true)
+      expect(result.triggers).toEqual(expect.arrayContaining([
+        'title-de-order-confirmation',
+        'content-de-order-number',
+        'content-de-thank-you'
+      ]))
+    })
+
+    it('detects French confirmations', () => {
+      const result = isLikelyOrderConfirmationPage({
+        url: 'https://www.boutique.fr/commande/fin',
+        title: 'Merci pour votre commande',
+        bodyText: 'Votre commande a été confirmée. Numéro de commande : FR-5512. Un e-mail de confirmation vous a été envoyé.',
+        lang: 'fr'
+      })
+      expect(result.isLikelyOrderConfirmation).toBe(true)
+      expect(result.triggers).toEqual(expect.arrayContaining([
+        'title-fr-thank-you-order',
+        'content-fr-order-confirmed',
+        'content-fr-order-number'
+      ]))
+    })
+
+    it('detects Spanish confirmations', () => {
+      const result = isLikelyOrderConfirmationPage({
+        url: 'https://www.tienda.es/checkout/fin',
+        title: 'Pedido realizado',
+        bodyText: '¡Gracias por tu compra! Tu pedido ha sido confirmado. Número de pedido: 88412.',
+        lang: 'es-ES'
+      })
+      expect(result.isLikelyOrderConfirmation).toBe(true)
+      expect(result.triggers).toEqual(expect.arrayContaining([
+        'title-es-order-complete',
+        'content-es-thank-you',
+        'content-es-order-number'
+      ]))
+    })
+
+    it('detects Italian confirmations', () => {
+      const result = isLikelyOrderConfirmationPage({
+        url: 'https://www.negozio.it/checkout/fine',
+        title: 'Conferma ordine',
+        bodyText: 'Grazie per il tuo ordine! Il tuo ordine è stato confermato. Numero ordine: IT-2231.',
+        lang: 'it'
+      })
+      expect(result.isLikelyOrderConfirmation).toBe(true)
+      expect(result.triggers).toEqual(expect.arrayContaining([
+        'title-it-order-confirmation',
+        'content-it-order-confirmed',
+        'content-it-order-number'
+      ]))
+    })
+
+    it('detects Japanese confirmations', () => {
+      const result = isLikelyOrderConfirmationPage({
+        url: 'https://www.shop.co.jp/cart/done',
+        title: 'ご注文完了',
+        bodyText: 'ご注文ありがとうございました。ご注文番号：250-1234567。確認メールをお送りしました。',
+        lang: 'ja'
+      })
+      expect(result.isLikelyOrderConfirmation).toBe(true)
+      expect(result.triggers).toEqual(expect.arrayContaining([
+        'title-ja-order-complete',
+        'content-ja-thank-you',
+        'content-ja-order-number',
+        'content-ja-email-sent'
+      ]))
+    })
+
+    it('does not mistake the Japanese order review step for a confirmation', () => {
+      const result = isLikelyOrderConfirmationPage({
+        url: 'https://www.shop.co.jp/cart/step2',
+        title: 'ご注文内容の確認',
+        bodyText: 'お届け先とお支払い方法をご確認ください。',
+        lang: 'ja'
+      })
+      expect(result.isLikelyOrderConfirmation).toBe(false)
+    })
+
+    it('guesses the language when the page does not declare one', () => {
+      const result = isLikelyOrderConfirmationPage({
+        url: 'https://www.shop.de/abschluss',
+        title: 'Bestellung abgeschlossen',
+        bodyText: 'Vielen Dank für Ihre Bestellung. Die Bestellung wurde an das Lager übergeben und wir melden uns mit der Sendungsnummer.'
+      })
+      expect(result.isLikelyOrderConfirmation).toBe(true)
+      expect(result.triggers).toContain('title-de-order-complete')
+    })
+
+    it('only checks the declared language alongside English', () => {
+      const result = isLikelyOrderConfirmationPage({
+        url: 'https://www.shop.fr/page',
+        title: 'Bestellbestätigung',
+        bodyText: 'Bienvenue',
+        lang: 'fr'
+      })
+      expect(result.triggers).not.toContain('title-de-order-confirmation')
+    })
+
+    it('still reads English text on a page in another language', () => {
+      const result = isLikelyOrderConfirmationPage({
+        url: 'https://www.shop.de/checkout/done',
+        title: 'Order Confirmation',
+        bodyText: 'Thank you for your order',
+        lang: 'de'
+      })
+      expect(result.isLikelyOrderConfirmation).toBe(true)
+      expect(result.triggers).toContain('title-order-confirmation')
+    })
+
+    it('matches localized URLs and skips localized carts', () => {
+      expect(isLikelyOrderConfirmationUrl('https://www.shop.de/bestellbestaetigung').triggers)
+        .toContain('url-de-order-confirmation')
+      expect(isLikelyOrderConfirmationUrl('https://www.boutique.fr/confirmation-commande?id=9').isLikelyOrderConfirmation)
+        .toBe(true)
+      expect(isLikelyOrderConfirmationUrl('https://www.tienda.es/pedido/gracias').isLikelyOrderConfirmation).toBe(true)
+      expect(isLikelyOrderConfirmationUrl('https://www.negozio.it/carrello').isLikelyOrderConfirmation).toBe(false)
+      expect(isOrderDetailsPage('https://www.boutique.fr/mon-compte/mes-commandes').triggers).toContain('fr-order-history')
+      expect(isOrderRelatedUrl('https://www.shop.de/bestellbestaetigung')).toBe(true)
+      expect(isOrderRelatedUrl('https://www.shop.de/angebote')).toBe(false)
+    })
+  })
+
   describe('extractPageContent', () => {
     it('extracts clean text from HTML', () => {
       const html = `
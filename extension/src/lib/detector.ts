@@ -1,3 +1,5 @@
+import { getAdapterUrlPatterns } from './adapters'
+import { LOCALE_PACKS, getLocalePacksForPage } from './locale-packs'
 import type { PageDetectionResult } from '@/types'
 
 /**
@@ -17,86 +19,16 @@ export function detectStore(url: string): { name: string; logo: string } | null
   }
 }
 
-// Generic URL patterns that indicate order confirmation pages (works for ANY store)
-const ORDER_CONFIRMATION_PATTERNS = [
-  // Generic order confirmation patterns
-  { pattern: /\/checkout\/order-confirmation/i, trigger: 'checkout-order-confirmation', confidence: 0.9 },
-  { pattern: /\/order-confirmation/i, trigger: 'url-order-confirmation', confidence: 0.85 },
-  { pattern: /\/order\/confirm/i, trigger: 'url-order-confirm', confidence: 0.8 },
-  { pattern: /\/order\/success/i, trigger: 'url-order-success', confidence: 0.8 },
-  { pattern: /\/checkout\/complete/i, trigger: 'url-checkout-complete', confidence: 0.8 },
-  { pattern: /\/checkout\/thank-?you/i, trigger: 'url-checkout-thank-you', confidence: 0.75 },
-  { pattern: /\/order\/thank-?you/i, trigger: 'url-order-thank-you', confidence: 0.85 },
-  { pattern: /\/thank-?you.*order/i, trigger: 'url-thank-you-order', confidence: 0.75 },
-  { pattern: /\/purchase\/complete/i, trigger: 'url-purchase-complete', confidence: 0.8 },
-  { pattern: /\/receipt/i, trigger: 'url-receipt', confidence: 0.7 },
-  { pattern: /\/confirmation\/?$/i, trigger: 'url-confirmation', confidence: 0.6 },
-  // Generic order view patterns (Shopify, WooCommerce, etc.)
-  { pattern: /\/orders\/\d+/i, trigger: 'url-order-view', confidence: 0.7 },
-  { pattern: /\/order\/\d+/i, trigger: 'url-order-id', confidence: 0.7 }
-]
-
-// URL patterns that indicate order details/history pages (for viewing past orders)
-const ORDER_DETAILS_PATTERNS = [
-  // Specific order detail pages (high confidence)
-  { pattern: /\/order-details/i, trigger: 'order-details', confidence: 0.9 },
-  { pattern: /\/order\/details/i, trigger: 'order-slash-details', confidence: 0.9 },
-  { pattern: /\/previous-orders.*order/i, trigger: 'previous-order-details', confidence: 0.9 },
-  { pattern: /\/my-account.*order/i, trigger: 'account-order', confidence: 0.85 },
-  { pattern: /\/account.*order-details/i, trigger: 'account-order-details', confidence: 0.9 },
-  { pattern: /\/orders\/\d+/i, trigger: 'order-details-id', confidence: 0.85 },
-  { pattern: /\/order\/\d+/i, trigger: 'order-detailed-id', confidence: 0.85 },
-  { pattern: /orderId=/i, trigger: 'order-id-param', confidence: 0.85 },
-  { pattern: /order_id=/i, trigger: 'order-id-param-underscore', confidence: 0.85 },
-  { pattern: /\/order\/view/i, trigger: 'order-view', confidence: 0.85 },
-  { pattern: /\/view-order/i, trigger: 'view-order', confidence: 0.85 },
-  // Order history pages (lower confidence - might be list not detail)
-  { pattern: /\/order-history/i, trigger: 'order-history', confidence: 0.7 },
-  { pattern: /\/your-orders/i, trigger: 'your-orders', confidence: 0.7 },
-  { pattern: /\/purchase-history/i, trigger: 'purchase-history', confidence: 0.7 },
-]
-
-// URL patterns that indicate NOT an order confirmation
-const EXCLUDE_PATTERNS = [
-  /\/cart\/?$/i,
-  /\/cart\?/i,
-  /\/checkout\/?$/i,
-  /\/dp\//i,  // Amazon product pages
-  /\/product\/[^\/]+\/?$/i,  // Product detail pages (but not /product/order)
-  /\/login/i,
-  /\/signin/i,
-  /\/register/i,
-  /\/password/i,
-]
-
-// Title patterns that indicate order confirmation
-const TITLE_CONFIRMATION_PATTERNS = [
-  { pattern: /order\s*confirm/i, trigger: 'title-order-confirmation', confidence: 0.8 },
-  { pattern: /thank\s*you.*order/i, trigger: 'title-thank-you-order', confidence: 0.8 },
-  { pattern: /order\s*placed/i, trigger: 'title-order-placed', confidence: 0.85 },
-  { pattern: /purchase\s*confirm/i, trigger: 'title-purchase-confirm', confidence: 0.8 },
-  { pattern: /order\s*complete/i, trigger: 'title-order-complete', confidence: 0.85 }
-]
-
-// Content patterns that indicate order confirmation
-const CONTENT_CONFIRMATION_PATTERNS = [
-  { pattern: /order\s*(#|number|no\.?)\s*[:\s]?\s*[\w-]+/i, trigger: 'content-order-number', confidence: 0.7 },
-  { pattern: /confirmation\s*(#|number|no\.?)\s*[:\s]?\s*[\w-]+/i, trigger: 'content-confirmation-number', confidence: 0.7 },
-  { pattern: /your\s*order\s*(has\s*been\s*)?(confirmed|placed|received)/i, trigger: 'content-order-confirmed', confidence: 0.75 },
-  { pattern: /thank\s*you\s*for\s*(your\s*)?(order|purchase)/i, trigger: 'content-thank-you', confidence: 0.65 },
-  { pattern: /confirmation\s*email\s*(has\s*been\s*)?sent/i, trigger: 'content-email-sent', confidence: 0.6 },
-  { pattern: /we('ve|.*have)\s*received\s*your\s*order/i, trigger: 'content-order-received', confidence: 0.75 }
-]
-
 /**
- * Check if a URL is likely an order confirmation page based on URL patterns
+ * Check if a URL is likely an order confirmation page based on URL patterns.
+ * With only a URL to go on, every language's patterns apply.
  */
 export function isLikelyOrderConfirmationUrl(url: string): PageDetectionResult {
   const triggers: string[] = []
   let maxConfidence = 0
 
   // First check exclusion patterns
-  for (const pattern of EXCLUDE_PATTERNS) {
+  for (const pattern of LOCALE_PACKS.flatMap((pack) => pack.excludePatterns)) {
     if (pattern.test(url)) {
       return {
         isLikelyOrderConfirmation: false,
@@ -106,8 +38,9 @@ export function isLikelyOrderConfirmationUrl(url: string): PageDetectionResult {
     }
   }
 
-  // Check confirmation patterns
-  for (const { pattern, trigger, confidence } of ORDER_CONFIRMATION_PATTERNS) {
+  // Check confirmation patterns, plus any retailer adapter patterns for this URL
+  const urlPatterns = [...LOCALE_PACKS.flatMap((pack) => pack.urlPatterns), ...getAdapterUrlPatterns(url)]
+  for (const { pattern, trigger, confidence } of urlPatterns) {
     if (pattern.test(url)) {
       triggers.push(trigger)
       maxConfidence = Math.max(maxConfidence, confidence)
@@ -121,6 +54,14 @@ export function isLikelyOrderConfirmationUrl(url: string): PageDetectionResult {
   }
 }
 
+/**
+ * Whether a URL is worth waiting on for dynamic content: it mentions an
+ * order or checkout, or matches a confirmation pattern in any language
+ */
+export function isOrderRelatedUrl(url: string): boolean {
+  return /order|checkout|confirmation|receipt/i.test(url) || isLikelyOrderConfirmationUrl(url).triggers.length > 0
+}
+
 /**
  * Get a confidence score for URL being an order confirmation
  */
@@ -136,7 +77,7 @@ export function isOrderDetailsPage(url: string): PageDetectionResult {
   const triggers: string[] = []
   let maxConfidence = 0
 
-  for (const { pattern, trigger, confidence } of ORDER_DETAILS_PATTERNS) {
+  for (const { pattern, trigger, confidence } of LOCALE_PACKS.flatMap((pack) => pack.orderDetailsPatterns)) {
     if (pattern.test(url)) {
       triggers.push(trigger)
       maxConfidence = Math.max(maxConfidence, confidence)
@@ -151,15 +92,19 @@ export function isOrderDetailsPage(url: string): PageDetectionResult {
 }
 
 /**
- * Check if a page is likely an order confirmation based on URL, title, and content
+ * Check if a page is likely an order confirmation based on URL, title, and content.
+ * Title and content are checked in English and the page's language (`lang`
+ * from <html lang>, or guessed from the text).
  */
 export function isLikelyOrderConfirmationPage(page: {
   url: string
   title: string
   bodyText: string
+  lang?: string | null
 }): PageDetectionResult {
   const triggers: string[] = []
   let totalConfidence = 0
+  const packs = getLocalePacksForPage(page.lang, `${page.title} ${page.bodyText}`)
 
   // Check URL
   const urlResult = isLikelyOrderConfirmationUrl(page.url)
@@ -169,7 +114,7 @@ export function isLikelyOrderConfirmationPage(page: {
   }
 
   // Check title
-  for (const { pattern, trigger, confidence } of TITLE_CONFIRMATION_PATTERNS) {
+  for (const { pattern, trigger, confidence } of packs.flatMap((pack) => pack.titlePatterns)) {
     if (pattern.test(page.title)) {
       triggers.push(trigger)
       totalConfidence += confidence
@@ -177,7 +122,7 @@ export function isLikelyOrderConfirmationPage(page: {
   }
 
   // Check content
-  for (const { pattern, trigger, confidence } of CONTENT_CONFIRMATION_PATTERNS) {
+  for (const { pattern, trigger, confidence } of packs.flatMap((pack) => pack.contentPatterns)) {
     if (pattern.test(page.bodyText)) {
       triggers.push(trigger)
       totalConfidence += confidence
@@ -316,6 +261,7 @@ export function shouldAnalyzeWithLLM(page: {
   url: string
   title: string
   bodyText: string
+  lang?: string | null
 }): boolean {
   const result = isLikelyOrderConfirmationPage(page)
   // Low threshold - let LLM make the final determination
@@ -0,0 +1,60 @@
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import { mountInjectedUI, makeModal } from './injected-ui'
+
+function pressKey(key: string, shiftKey = false) {
+  document.dispatchEvent(new KeyboardEvent('keydown', { key, shiftKey, bubbles: true, cancelable: true }))
+}
+
+describe('Injected UI', () => {
+  afterEach(() => {
+    document.body.innerHTML = ''
+  })
+
+  it('mounts content in a closed shadow root the page cannot reach', () => {
+    const ui = mountInjectedUI('sa-test', '<div id="sa-test-inner">Hello</div>')
+
+    expect(document.getElementById('sa-test')).toBe(ui.host)
+    expect(ui.host.shadowRoot).toBeNull()
+    expect(document.getElementById('sa-test-inner')).toBeNull()
+    expect(ui.root.getElementById('sa-test-inner')!.textContent).toBe('Hello')
+
+    ui.remove()
+    expect(document.getElementById('sa-test')).toBeNull()
+  })
+
+  it('labels the dialog, focuses it and closes on Escape', () => {
+    const ui = mountInjectedUI('sa-test', '<div id="dialog"><button id="first">A</button></div>')
+    const dialog = ui.root.getElementById('dialog')!
+    const onClose = vi.fn()
+
+    const release = makeModal(ui.root, dialog, { label: 'Test dialog', onClose })
+    expect(dialog.getAttribute('role')).toBe('dialog')
+    expect(dialog.getAttribute('aria-modal')).toBe('true')
+    expect(dialog.getAttribute('aria-label')).toBe('Test dialog')
+    expect(ui.root.activeElement).toBe(ui.root.getElementById('first'))
+
+    pressKey('Escape')
+    expect(onClose).toHaveBeenCalledTimes(1)
+
+    release()
+    pressKey('Escape')
+    expect(onClose).toHaveBeenCalledTimes(1)
+  })
+
+  it('keeps Tab focus inside the dialog', () => {
+    const ui = mountInjectedUI(
+      'sa-test',
+      '<div id="dialog"><button id="first">A</button><input id="middle"><button id="last">B</button></div>'
+    )
+    const dialog = ui.root.getElementById('dialog')!
+    const release = makeModal(ui.root, dialog, { label: 'Test dialog', onClose: () => {} })
+
+    ui.root.getElementById('last')!.focus()
+    pressKey('Tab')
+    expect(ui.root.activeElement).toBe(ui.root.getElementById('first'))
+
+    pressKey('Tab', true)
+    expect(ui.root.activeElement).toBe(ui.root.getElementById('last'))
+    release()
+  })
+})
@@ -0,0 +1,101 @@
+import type { InjectedUI } from '@/types'
+
+/**
+ * UI the content script adds to store pages (prompt, sidebar, floating
+ * button, badges and toasts). Each piece is mounted in a closed shadow root
+ * on its own host element, so the store's CSS can't restyle it and its CSS
+ * can't leak onto the store.
+ */
+
+const FOCUSABLE_SELECTOR = [
+  'button:not([disabled])',
+  'a[href]',
+  'input:not([disabled])',
+  'select:not([disabled])',
+  'textarea:not([disabled])',
+  '[tabindex]:not([tabindex="-1"])'
+].join(', ')
+
+/**
+ * Add `html` to the page inside a closed shadow root. The host element gets
+ * `id`, so `document.getElementById(id)` still tells whether it's showing;
+ * elements inside are only reachable through the returned root.
+ */
+export function mountInjectedUI(id: string, html: string): InjectedUI {
+  const host = document.createElement('div')
+  host.id = id
+  // Don't inherit the page's fonts, colours or spacing
+  host.setAttribute('style', 'all: initial')
+
+  const root = host.attachShadow({ mode: 'closed' })
+  root.innerHTML = html
+  document.body.appendChild(host)
+
+  return {
+    host,
+    root,
+    remove: () => host.remove()
+  }
+}
+
+export function getFocusableElements(container: ParentNode): HTMLElement[] {
+  return Array.from(container.querySelectorAll<HTMLElement>(FOCUSABLE_SELECTOR))
+}
+
+/**
+ * Make `dialog` (inside `root`) behave as a modal dialog: labelled for
+ * screen readers, focus moved into it and kept there with Tab/Shift+Tab,
+ * and Escape calls `onClose`. Returns a cleanup function that stops the
+ * trap and gives focus back to where it was.
+ */
+export function makeModal(
+  root: ShadowRoot,
+  dialog: HTMLElement,
+  options: { label: string; onClose: () => void }
+): () => void {
+  const previousFocus = document.activeElement as HTMLElement | null
+
+  dialog.setAttribute('role', 'dialog')
+  dialog.setAttribute('aria-modal', 'true')
+  dialog.setAttribute('aria-label', options.label)
+  dialog.tabIndex = -1
+
+  const onKeyDown = (event: KeyboardEvent) => {
+    if (event.key === 'Escape') {
+      event.preventDefault()
+      event.stopPropagation()
+      options.onClose()
+      return
+    }
+    if (event.key !== 'Tab') return
+
+    const focusable = getFocusableElements(dialog)
+    const active = root.activeElement
+    if (focusable.length === 0) {
+      event.preventDefault()
+      dialog.focus()
+      return
+    }
+
+    const first = focusable[0]
+    const last = focusable[focusable.length - 1]
+    const outside = !active || !dialog.contains(active)
+    if (event.shiftKey && (outside || active === first)) {
+      event.preventDefault()
+      last.focus()
+    } else if (!event.shiftKey && (outside || active === last)) {
+      event.preventDefault()
+      first.focus()
+    }
+  }
+
+  // Capture on the document so Escape and Tab work wherever focus is
+  document.addEventListener('keydown', onKeyDown, true)
+  const initialFocus = getFocusableElements(dialog)[0] || dialog
+  initialFocus.focus()
+
+  return () => {
+    document.removeEventListener('keydown', onKeyDown, true)
+    previousFocus?.focus?.()
+  }
+}
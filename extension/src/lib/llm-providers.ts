@@ -0,0 +1,260 @@
+import { supabase } from './supabase'
+import type { EdgeLLMProvider, OrderAnalysis } from '@/types'
+
+/**
+ * JSON Schema the reply must follow, for providers with a native
+ * structured output mode. The reply is still returned as JSON text.
+ */
+export interface ResponseSchema {
+  name: string
+  schema: Record<string, unknown>
+}
+
+/**
+ * A single chat-style completion: system prompt + user prompt in, raw model text out.
+ * Providers throw on transport/API errors so the caller can fall back.
+ */
+export type CompletionFn = (
+  systemPrompt: string,
+  userPrompt: string,
+  responseSchema?: ResponseSchema
+) => Promise<string>
+
+export const DEFAULT_GEMINI_MODEL = 'gemini-2.0-flash-exp'
+export const DEFAULT_OPENAI_MODEL = 'gpt-4o-mini'
+export const DEFAULT_ANTHROPIC_MODEL = 'claude-3-5-haiku-latest'
+export const DEFAULT_LOCAL_BASE_URL = 'http://localhost:11434/v1'
+export const DEFAULT_LOCAL_MODEL = 'llama3.1'
+
+const OPENAI_BASE_URL = 'https://api.openai.com/v1'
+const ANTHROPIC_API_URL = 'https://api.anthropic.com/v1/messages'
+const ANTHROPIC_VERSION = '2023-06-01'
+
+const TEMPERATURE = 0.1
+const MAX_OUTPUT_TOKENS = 2000
+
+/**
+ * Throw a descriptive error for a failed API response
+ */
+async function throwForStatus(response: Response, label: string): Promise<void> {
+  if (response.ok) return
+  const errorText = await response.text().catch(() => '')
+  throw new Error(`${label} API error: ${response.status} ${errorText}`)
+}
+
+/**
+ * Gemini's responseSchema is an OpenAPI subset: nullable instead of
+ * ["type", "null"], and no additionalProperties
+ */
+function toGeminiSchema(schema: Record<string, unknown>): Record<string, unknown> {
+  const result: Record<string, unknown> = {}
+
+  for (const [key, value] of Object.entries(schema)) {
+    if (key === 'additionalProperties') continue
+
+    if (key === 'type' && Array.isArray(value)) {
+      result.type = value.find((type) => type !== 'null')
+      if (value.includes('null')) result.nullable = true
+    } else if (key === 'properties' && value && typeof value === 'object') {
+      result.properties = Object.fromEntries(
+        Object.entries(value).map(([name, property]) => [name, toGeminiSchema(property as Record<string, unknown>)])
+      )
+    } else if (key === 'items' && value && typeof value === 'object') {
+      result.items = toGeminiSchema(value as Record<string, unknown>)
+    } else {
+      result[key] = value
+    }
+  }
+
+  return result
+}
+
+/**
+ * Google Gemini (generateContent). Gemini takes a single prompt, so the
+ * system prompt is prepended to the user prompt.
+ */
+export function createGeminiCompletion(apiKey: string, model = DEFAULT_GEMINI_MODEL): CompletionFn {
+  return async (systemPrompt, userPrompt, responseSchema) => {
+    const response = await fetch(
+      `https://generativelanguage.googleapis.com/v1beta/models/${model}:generateContent?key=${apiKey}`,
+      {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({
+          contents: [{
+            parts: [{ text: `${systemPrompt}\n\n${userPrompt}` }]
+          }],
+          generationConfig: {
+            temperature: TEMPERATURE,
+            maxOutputTokens: MAX_OUTPUT_TOKENS,
+            ...(responseSchema && {
+              responseMimeType: 'application/json',
+              responseSchema: toGeminiSchema(responseSchema.schema)
+            })
+          }
+        })
+      }
+    )
+
+    await throwForStatus(response, 'Gemini')
+
+    const data = await response.json()
+    return data.candidates?.[0]?.content?.parts?.[0]?.text || ''
+  }
+}
+
+/**
+ * POST to an OpenAI-compatible chat completions endpoint, with structured
+ * output when a response schema is given
+ */
+function postChatCompletion(
+  baseUrl: string,
+  apiKey: string,
+  model: string,
+  systemPrompt: string,
+  userPrompt: string,
+  responseSchema?: ResponseSchema
+): Promise<Response> {
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/json'
+  }
+  // Local servers usually run without auth
+  if (apiKey) {
+    headers.Authorization = `Bearer ${apiKey}`
+  }
+
+  return fetch(`${baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+    method: 'POST',
+    headers,
+    body: JSON.stringify({
+      model,
+      messages: [
+        { role: 'system', content: systemPrompt },
+        { role: 'user', content: userPrompt }
+      ],
+      temperature: TEMPERATURE,
+      max_tokens: MAX_OUTPUT_TOKENS,
+      ...(responseSchema && {
+        response_format: {
+          type: 'json_schema',
+          json_schema: { name: responseSchema.name, strict: true, schema: responseSchema.schema }
+        }
+      })
+    })
+  })
+}
+
+async function readChatCompletion(response: Response, label: string): Promise<string> {
+  await throwForStatus(response, label)
+
+  const data = await response.json()
+  return data.choices?.[0]?.message?.content || ''
+}
+
+/**
+ * OpenAI chat completions
+ */
+export function createOpenAICompletion(
+  apiKey: string,
+  model = DEFAULT_OPENAI_MODEL,
+  baseUrl = OPENAI_BASE_URL
+): CompletionFn {
+  return async (systemPrompt, userPrompt, responseSchema) => {
+    const response = await postChatCompletion(baseUrl, apiKey, model, systemPrompt, userPrompt, responseSchema)
+    return readChatCompletion(response, 'OpenAI')
+  }
+}
+
+/**
+ * Local OpenAI-compatible endpoint (Ollama, llama.cpp server, LM Studio).
+ * Older builds reject json_schema response_format with a 400, so the request
+ * is sent once more without it and the reply is left to the prompt and the
+ * schema validation.
+ */
+export function createLocalCompletion(
+  baseUrl = DEFAULT_LOCAL_BASE_URL,
+  model = DEFAULT_LOCAL_MODEL,
+  apiKey = ''
+): CompletionFn {
+  return async (systemPrompt, userPrompt, responseSchema) => {
+    let response = await postChatCompletion(baseUrl, apiKey, model, systemPrompt, userPrompt, responseSchema)
+    if (response.status === 400 && responseSchema) {
+      console.warn('[LLM] Local LLM rejected structured output, retrying without it')
+      response = await postChatCompletion(baseUrl, apiKey, model, systemPrompt, userPrompt)
+    }
+    return readChatCompletion(response, 'Local LLM')
+  }
+}
+
+/**
+ * Anthropic Messages API. Calling from an extension requires the
+ * direct-browser-access opt-in header. Structured output is a forced call
+ * to a tool whose input schema is the response schema.
+ */
+export function createAnthropicCompletion(apiKey: string, model = DEFAULT_ANTHROPIC_MODEL): CompletionFn {
+  return async (systemPrompt, userPrompt, responseSchema) => {
+    const response = await fetch(ANTHROPIC_API_URL, {
+      method: 'POST',
+      headers: {
+        'x-api-key': apiKey,
+        'Content-Type': 'application/json',
+        'anthropic-version': ANTHROPIC_VERSION,
+        'anthropic-dangerous-direct-browser-access': 'true'
+      },
+      body: JSON.stringify({
+        model,
+        max_tokens: MAX_OUTPUT_TOKENS,
+        temperature: TEMPERATURE,
+        system: systemPrompt,
+        messages: [
+          { role: 'user', content: userPrompt }
+        ],
+        ...(responseSchema && {
+          tools: [{
+            name: responseSchema.name,
+            description: 'Record the result in this format',
+            input_schema: responseSchema.schema
+          }],
+          tool_choice: { type: 'tool', name: responseSchema.name }
+        })
+      })
+    })
+
+    await throwForStatus(response, 'Anthropic')
+
+    const data = await response.json()
+    const blocks: Array<{ type: string; text?: string; input?: unknown }> = data.content || []
+    const toolUse = blocks.find((block) => block.type === 'tool_use')
+    if (toolUse) {
+      return JSON.stringify(toolUse.input)
+    }
+    return blocks.find((block) => block.type === 'text')?.text || ''
+  }
+}
+
+/**
+ * Proxy analysis through the analyze-order edge function, which holds the
+ * API keys server-side. Returns the parsed analysis directly; with a page
+ * `fingerprint` the function can return its logged result for that page.
+ */
+export async function analyzeViaEdgeFunction(
+  pageContent: string,
+  provider: EdgeLLMProvider,
+  fingerprint?: string
+): Promise<OrderAnalysis> {
+  const { data, error } = await supabase.functions.invoke('analyze-order', {
+    body: { pageContent, provider, fingerprint }
+  })
+
+  if (error) {
+    throw new Error(`Edge function error: ${error.message}`)
+  }
+  // The function couldn't get a usable answer; its placeholder result must not be cached
+  if (data?.fallback || data?.error) {
+    throw new Error(`Edge function error: ${data.error || 'no analysis'}`)
+  }
+
+  return data as OrderAnalysis
+}
@@ -1,5 +1,32 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest'
-import { analyzeOrderWithHeuristics } from './llm'
+import { analyzeOrderWithHeuristics, createLLMProvider, getAnalysisVariant, DEFAULT_LLM_SETTINGS } from './llm'
+
+vi.mock('./supabase', () => ({
+  supabase: {
+    functions: {
+      invoke: vi.fn(() =>
+        Promise.resolve({
+          data: {
+            isOrderConfirmation: true,
+            confidence: 0.9,
+            products: [],
+            retailer: 'Edge Store',
+            orderNumber: null
+          },
+          error: null
+        })
+      )
+    }
+  }
+}))
+
+const orderJson = JSON.stringify({
+  isOrderConfirmation: true,
+  confidence: 0.9,
+  products: [{ name: 'Dog Food', price: 59.99, quantity: 1, isRecurring: true, category: 'Pet', suggestedFrequencyDays: 30 }],
+  retailer: 'Test Store',
+  orderNumber: '123'
+})
 
 describe('LLM Integration', () => {
   describe('analyzeOrderWithHeuristics', () => {
@@ -142,4 +169,285 @@ describe('LLM Integration', () => {
       expect(result.isOrderConfirmation).toBe(false)
     })
   })
+
+  describe('createLLMProvider', () => {
+    beforeEach(() => {
+      vi.resetAllMocks()
+    })
+
+    it('returns null when no provider is selected', () => {
+      expect(createLLMProvider(DEFAULT_LLM_SETTINGS)).toBeNull()
+    })
+
+    it('returns null when the selected provider has no API key', () => {
+      expect(createLLMProvider({ ...DEFAULT_LLM_SETTINGS, llmProvider: 'openai' })).toBeNull()
+      expect(createLLMProvider({ ...DEFAULT_LLM_SETTINGS, llmProvider: 'anthropic' })).toBeNull()
+      expect(createLLMProvider({ ...DEFAULT_LLM_SETTINGS, llmProvider: 'gemini' })).toBeNull()
+    })
+
+    it('calls OpenAI chat completions with bearer auth', async () => {
+      const mockFetch = vi.fn().mockResolvedValue({
+        ok: true,
+        json: () => Promise.resolve({ choices: [{ message: { content: orderJson } }] })
+      })
+      global.fetch = mockFetch
+
+      const provider = createLLMProvider({ ...DEFAULT_LLM_SETTINGS, llmProvider: 'openai', openaiApiKey: 'sk-test' })
+      const result = await provider!.analyzeOrderPage('Order #123')
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        'https://api.openai.com/v1/chat/completions',
+        expect.objectContaining({
+          headers: expect.objectContaining({ Authorization: 'Bearer sk-test' })
+        })
+      )
+      expect(result.isOrderConfirmation).toBe(true)
+      expect(result.products[0].name).toBe('Dog Food')
+    })
+
+    it('calls the Anthropic messages API with the system prompt', async () => {
+      const mockFetch = vi.fn().mockResolvedValue({
+        ok: true,
+        json: () => Promise.resolve({ content: [{ type: 'text', text: orderJson }] })
+      })
+      global.fetch = mockFetch
+
+      const provider = createLLMProvider({ ...DEFAULT_LLM_SETTINGS, llmProvider: 'anthropic', anthropicApiKey: 'sk-ant' })
+      const result = await provider!.analyzeOrderPage('Order #123')
+
+      const [url, init] = mockFetch.mock.calls[0]
+      expect(url).toBe('https://api.anthropic.com/v1/messages')
+      expect(init.headers['x-api-key']).toBe('sk-ant')
+      expect(JSON.parse(init.body).system).toContain('order confirmation')
+      expect(result.retailer).toBe('Test Store')
+    })
+
+    it('calls a local OpenAI-compatible server without auth', async () => {
+      const mockFetch = vi.fn().mockResolvedValue({
+        ok: true,
+        json: () => Promise.resolve({ choices: [{ message: { content: orderJson } }] })
+      })
+      global.fetch = mockFetch
+
+      const provider = createLLMProvider({
+        ...DEFAULT_LLM_SETTINGS,
+        llmProvider: 'local',
+        localLlmBaseUrl: 'http://localhost:8080/v1/',
+        localLlmModel: 'qwen2.5'
+      })
+      await provider!.analyzeOrderPage('Order #123')
+
+      const [url, init] = mockFetch.mock.calls[0]
+      expect(url).toBe('http://localhost:8080/v1/chat/completions')
+      expect(init.headers.Authorization).toBeUndefined()
+      expect(JSON.parse(init.body).model).toBe('qwen2.5')
+    })
+
+    it('retries a local server without structured output when it is rejected', async () => {
+      const mockFetch = vi.fn()
+        .mockResolvedValueOnce({
+          ok: false,
+          status: 400,
+          text: () => Promise.resolve("invalid 'response_format'")
+        })
+        .mockResolvedValueOnce({
+          ok: true,
+          status: 200,
+          json: () => Promise.resolve({ choices: [{ message: { content: orderJson } }] })
+        })
+      global.fetch = mockFetch
+
+      const provider = createLLMProvider({ ...DEFAULT_LLM_SETTINGS, llmProvider: 'local' })
+      const result = await provider!.analyzeOrderPage('Order #123')
+
+      expect(mockFetch).toHaveBeenCalledTimes(2)
+      expect(JSON.parse(mockFetch.mock.calls[0][1].body).response_format).toBeDefined()
+      expect(JSON.parse(mockFetch.mock.calls[1][1].body).response_format).toBeUndefined()
+      expect(result.retailer).toBe('Test Store')
+      expect(result.fallback).toBeUndefined()
+    })
+
+    it('proxies through the edge function', async () => {
+      const { supabase } = await import('./supabase')
+      vi.mocked(supabase.functions.invoke).mockResolvedValueOnce({
+        data: JSON.parse(orderJson),
+        error: null
+      } as never)
+
+      const provider = createLLMProvider({ ...DEFAULT_LLM_SETTINGS, llmProvider: 'edge', edgeLlmProvider: 'claude' })
+      const result = await provider!.analyzeOrderPage('Order #123')
+
+      expect(supabase.functions.invoke).toHaveBeenCalledWith('analyze-order', {
+        body: { pageContent: 'Order #123', provider: 'claude' }
+      })
+      expect(result.isOrderConfirmation).toBe(true)
+    })
+
+    it('passes the page fingerprint to the edge function', async () => {
+      const { supabase } = await import('./supabase')
+      vi.mocked(supabase.functions.invoke).mockResolvedValueOnce({
+        data: JSON.parse(orderJson),
+        error: null
+      } as never)
+
+      const provider = createLLMProvider({ ...DEFAULT_LLM_SETTINGS, llmProvider: 'edge' })
+      await provider!.analyzeOrderPage('Order #123', 'a'.repeat(64))
+
+      expect(supabase.functions.invoke).toHaveBeenCalledWith('analyze-order', {
+        body: { pageContent: 'Order #123', provider: 'openai', fingerprint: 'a'.repeat(64) }
+      })
+    })
+
+    it('treats an edge function failure as a fallback so it is not cached', async () => {
+      const { supabase } = await import('./supabase')
+      vi.mocked(supabase.functions.invoke).mockResolvedValueOnce({
+        data: {
+          error: 'Could not parse the AI response',
+          fallback: true,
+          isOrderConfirmation: false,
+          confidence: 0,
+          products: [],
+          retailer: null,
+          orderNumber: null
+        },
+        error: null
+      } as never)
+
+      const provider = createLLMProvider({ ...DEFAULT_LLM_SETTINGS, llmProvider: 'edge' })
+      const result = await provider!.analyzeOrderPage('Thank you for your order')
+
+      expect(result.fallback).toBe(true)
+      expect(result.isOrderConfirmation).toBe(true)
+    })
+
+    it('masks personal details before the page text leaves the browser', async () => {
+      const mockFetch = vi.fn().mockResolvedValue({
+        ok: true,
+        json: () => Promise.resolve({ choices: [{ message: { content: orderJson } }] })
+      })
+      global.fetch = mockFetch
+
+      const provider = createLLMProvider({ ...DEFAULT_LLM_SETTINGS, llmProvider: 'openai', openaiApiKey: 'sk-test' })
+      await provider!.analyzeOrderPage('Order #123 Ship to: Jane Doe 742 Evergreen Terrace jane@example.com Dog Food $59.99')
+
+      const body = mockFetch.mock.calls[0][1].body
+      expect(body).not.toContain('jane@example.com')
+      expect(body).not.toContain('Jane Doe')
+      expect(body).toContain('Ship to: [NAME] [ADDRESS] [EMAIL] Dog Food $59.99')
+    })
+
+    it('asks for OpenAI structured output with the analysis schema', async () => {
+      const mockFetch = vi.fn().mockResolvedValue({
+        ok: true,
+        json: () => Promise.resolve({ choices: [{ message: { content: orderJson } }] })
+      })
+      global.fetch = mockFetch
+
+      const provider = createLLMProvider({ ...DEFAULT_LLM_SETTINGS, llmProvider: 'openai', openaiApiKey: 'sk-test' })
+      await provider!.analyzeOrderPage('Order #123')
+
+      const { response_format } = JSON.parse(mockFetch.mock.calls[0][1].body)
+      expect(response_format.type).toBe('json_schema')
+      expect(response_format.json_schema).toMatchObject({ name: 'order_analysis', strict: true })
+      expect(response_format.json_schema.schema.required).toContain('products')
+    })
+
+    it('converts the schema for Gemini', async () => {
+      const mockFetch = vi.fn().mockResolvedValue({
+        ok: true,
+        json: () => Promise.resolve({ candidates: [{ content: { parts: [{ text: orderJson }] } }] })
+      })
+      global.fetch = mockFetch
+
+      const provider = createLLMProvider({ ...DEFAULT_LLM_SETTINGS, llmProvider: 'gemini', geminiApiKey: 'gm-test' })
+      const result = await provider!.analyzeOrderPage('Order #123')
+
+      const { generationConfig } = JSON.parse(mockFetch.mock.calls[0][1].body)
+      expect(generationConfig.responseMimeType).toBe('application/json')
+      expect(generationConfig.responseSchema.properties.retailer).toEqual({ type: 'string', nullable: true })
+      expect(generationConfig.responseSchema.additionalProperties).toBeUndefined()
+      expect(result.retailer).toBe('Test Store')
+    })
+
+    it('reads Anthropic structured output from a forced tool call', async () => {
+      const mockFetch = vi.fn().mockResolvedValue({
+        ok: true,
+        json: () => Promise.resolve({
+          content: [{ type: 'tool_use', name: 'order_analysis', input: JSON.parse(orderJson) }]
+        })
+      })
+      global.fetch = mockFetch
+
+      const provider = createLLMProvider({ ...DEFAULT_LLM_SETTINGS, llmProvider: 'anthropic', anthropicApiKey: 'sk-ant' })
+      const result = await provider!.analyzeOrderPage('Order #123')
+
+      const body = JSON.parse(mockFetch.mock.calls[0][1].body)
+      expect(body.tool_choice).toEqual({ type: 'tool', name: 'order_analysis' })
+      expect(body.tools[0].input_schema.required).toContain('isOrderConfirmation')
+      expect(result.products[0].name).toBe('Dog Food')
+    })
+
+    it('asks the model to repair a reply that fails validation', async () => {
+      const invalid = JSON.stringify({ isOrderConfirmation: 'maybe', confidence: 0.9, products: [] })
+      const mockFetch = vi.fn()
+        .mockResolvedValueOnce({
+          ok: true,
+          json: () => Promise.resolve({ choices: [{ message: { content: invalid } }] })
+        })
+        .mockResolvedValueOnce({
+          ok: true,
+          json: () => Promise.resolve({ choices: [{ message: { content: orderJson } }] })
+        })
+      global.fetch = mockFetch
+
+      const provider = createLLMProvider({ ...DEFAULT_LLM_SETTINGS, llmProvider: 'openai', openaiApiKey: 'sk-test' })
+      const result = await provider!.analyzeOrderPage('Order #123')
+
+      expect(mockFetch).toHaveBeenCalledTimes(2)
+      const repairPrompt = JSON.parse(mockFetch.mock.calls[1][1].body).messages[1].content
+      expect(repairPrompt).toContain('Order #123')
+      expect(repairPrompt).toContain('- isOrderConfirmation: expected true or false')
+      expect(repairPrompt).toContain(invalid)
+      expect(result.isOrderConfirmation).toBe(true)
+      expect(result.fallback).toBeUndefined()
+    })
+
+    it('falls back to heuristics when the repaired reply is still invalid', async () => {
+      const mockFetch = vi.fn().mockResolvedValue({
+        ok: true,
+        json: () => Promise.resolve({ choices: [{ message: { content: '{"isOrderConfirmation": true, "confidence": 0.9, "prod' } }] })
+      })
+      global.fetch = mockFetch
+
+      const provider = createLLMProvider({ ...DEFAULT_LLM_SETTINGS, llmProvider: 'openai', openaiApiKey: 'sk-test' })
+      const result = await provider!.analyzeOrderPage('Thank you for your order')
+
+      expect(mockFetch).toHaveBeenCalledTimes(2)
+      expect(result.isOrderConfirmation).toBe(true)
+      expect(result.fallback).toBe(true)
+    })
+
+    it('falls back to heuristics when the API call fails', async () => {
+      global.fetch = vi.fn().mockResolvedValue({
+        ok: false,
+        status: 500,
+        text: () => Promise.resolve('boom')
+      })
+
+      const provider = createLLMProvider({ ...DEFAULT_LLM_SETTINGS, llmProvider: 'openai', openaiApiKey: 'sk-test' })
+      const result = await provider!.analyzeOrderPage('Thank you for your order')
+
+      expect(result.isOrderConfirmation).toBe(true)
+      expect(result.confidence).toBe(0.6)
+      expect(result.fallback).toBe(true)
+    })
+  })
+
+  describe('getAnalysisVariant', () => {
+    it('names the provider, the edge function\'s provider and the redaction level', () => {
+      expect(getAnalysisVariant({ ...DEFAULT_LLM_SETTINGS, llmProvider: 'openai', redactionLevel: 'strict' })).toBe('openai:strict')
+      expect(getAnalysisVariant({ ...DEFAULT_LLM_SETTINGS, llmProvider: 'edge', edgeLlmProvider: 'claude', redactionLevel: 'standard' }))
+        .toBe('edge:claude:standard')
+    })
+  })
 })
@@ -1,4 +1,58 @@
-import type { LLMProvider, OrderAnalysis, PageContent } from '@/types'
+import {
+  createGeminiCompletion,
+  createOpenAICompletion,
+  createAnthropicCompletion,
+  createLocalCompletion,
+  analyzeViaEdgeFunction,
+  DEFAULT_GEMINI_MODEL,
+  DEFAULT_OPENAI_MODEL,
+  DEFAULT_ANTHROPIC_MODEL,
+  DEFAULT_LOCAL_BASE_URL,
+  DEFAULT_LOCAL_MODEL,
+  type CompletionFn,
+  type ResponseSchema
+} from './llm-providers'
+import { parsePrice } from './currency'
+import { redactText, DEFAULT_REDACTION_LEVEL } from './redaction'
+import {
+  buildRepairPrompt,
+  parseAnalysisResponse,
+  validateOrderAnalysis,
+  ORDER_ANALYSIS_JSON_SCHEMA,
+  ORDER_ANALYSIS_SCHEMA_NAME
+} from './analysis-schema'
+import type {
+  EdgeLLMProvider,
+  LLMProvider,
+  LLMSettings,
+  OrderAnalysis,
+  PageContent,
+  RedactionLevel,
+  RedactionResult
+} from '@/types'
+
+export const DEFAULT_LLM_SETTINGS: LLMSettings = {
+  llmProvider: 'none',
+  geminiApiKey: '',
+  geminiModel: DEFAULT_GEMINI_MODEL,
+  openaiApiKey: '',
+  openaiModel: DEFAULT_OPENAI_MODEL,
+  anthropicApiKey: '',
+  anthropicModel: DEFAULT_ANTHROPIC_MODEL,
+  localLlmBaseUrl: DEFAULT_LOCAL_BASE_URL,
+  localLlmModel: DEFAULT_LOCAL_MODEL,
+  localLlmApiKey: '',
+  edgeLlmProvider: 'openai',
+  redactionLevel: DEFAULT_REDACTION_LEVEL
+}
+
+// Most page text sent with one request
+const MAX_PAGE_TEXT_LENGTH = 50000
+
+const ORDER_ANALYSIS_RESPONSE_SCHEMA: ResponseSchema = {
+  name: ORDER_ANALYSIS_SCHEMA_NAME,
+  schema: ORDER_ANALYSIS_JSON_SCHEMA
+}
 
 const DEFAULT_RESULT: OrderAnalysis = {
   isOrderConfirmation: false,
@@ -25,8 +79,10 @@ For each repeated element, extract:
 1. **name**: The longest descriptive text (usually brand + product + variant/size)
    - Include: brand, product name, size, color, quantity (e.g., "3 Pack", "x2")
 
-2. **price**: Look for currency symbols ($ € £) near the name
-   - Formats: $29.99, $29, AU$29.99, 29.99 USD
+2. **price**: Look for currency symbols ($ € £ ¥ ₹) near the name
+   - Formats: $29.99, $29, AU$29.99, 29.99 USD, 29,99 €, 1.234,56 €, ¥1,500
+   - Return the amount as a plain number (1.234,56 € is 1234.56)
+   - **currency**: its ISO 4217 code (USD, EUR, GBP, JPY, INR, AUD...), or null if unclear
 
 3. **quantity**: Can be explicit or embedded
    - Explicit: separate element saying "Qty: 3" or "x3"
@@ -55,6 +111,7 @@ Return ONLY valid JSON. No explanations, no markdown blocks.
     {
       "name": string,
       "price": number | null,
+      "currency": string | null,
       "quantity": number,
       "isRecurring": boolean,
       "category": string | null,
@@ -66,122 +123,143 @@ Return ONLY valid JSON. No explanations, no markdown blocks.
 }`
 
 /**
- * Analyze an order page using Gemini API
+ * Normalize page content to plain text for the LLM
  */
-export async function analyzeOrderWithAI(pageContent: string | PageContent): Promise<OrderAnalysis> {
-  try {
-    // Get Gemini API key from storage
-    const result = await chrome.storage.local.get('geminiApiKey')
-    const apiKey = result.geminiApiKey
-
-    if (!apiKey) {
-      console.log('[LLM] No Gemini API key configured, using fallback')
-      const fallbackContent = typeof pageContent === 'string' ? pageContent : pageContent.textContent
-      return analyzeOrderWithHeuristics(fallbackContent)
-    }
+function toPlainText(pageContent: string | PageContent): string {
+  return typeof pageContent === 'string'
+    ? pageContent.replace(/<[^>]+>/g, ' ').replace(/\s+/g, ' ')
+    : pageContent.textContent
+}
 
-    // Normalize content for API call - use text content for LLM
-    const textContent = typeof pageContent === 'string'
-      ? pageContent.replace(/<[^>]+>/g, ' ').replace(/\s+/g, ' ')
-      : pageContent.textContent
+/**
+ * The page text an LLM is sent: plain text with personal details masked,
+ * cut to MAX_PAGE_TEXT_LENGTH. Settings shows this as a preview.
+ */
+export function getContentForLLM(
+  pageContent: string | PageContent,
+  redactionLevel: RedactionLevel = DEFAULT_REDACTION_LEVEL
+): RedactionResult {
+  const redacted = redactText(toPlainText(pageContent), redactionLevel)
+  return { ...redacted, text: redacted.text.substring(0, MAX_PAGE_TEXT_LENGTH) }
+}
 
-    console.log('[LLM] Calling Gemini API...')
+/**
+ * Content used by the heuristic fallback when the LLM call fails
+ */
+function toFallbackContent(pageContent: string | PageContent): string {
+  return typeof pageContent === 'string' ? pageContent : pageContent.textContent
+}
 
-    const prompt = `${SYSTEM_PROMPT}
+/**
+ * Heuristic result standing in for an LLM call that failed or couldn't be made
+ */
+function analyzeWithFallback(pageContent: string | PageContent): OrderAnalysis {
+  return { ...analyzeOrderWithHeuristics(toFallbackContent(pageContent)), fallback: true }
+}
 
-Analyze this e-commerce order page and extract all products.
+/**
+ * Build the user prompt sent alongside SYSTEM_PROMPT
+ */
+function buildUserPrompt(textContent: string): string {
+  return `Analyze this e-commerce order page and extract all products.
 
 PAGE CONTENT:
-${textContent?.substring(0, 50000)}
+${textContent}
 
 Extract ALL products and return ONLY the JSON object.`
+}
 
-    const response = await fetch(`https://generativelanguage.googleapis.com/v1beta/models/gemini-2.0-flash-exp:generateContent?key=${apiKey}`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json'
-      },
-      body: JSON.stringify({
-        contents: [{
-          parts: [{ text: prompt }]
-        }],
-        generationConfig: {
-          temperature: 0.1,
-          maxOutputTokens: 2000
-        }
-      })
-    })
+/**
+ * Analyze an order page with any chat completion backend. A reply that
+ * fails schema validation gets one repair round-trip; heuristics are used
+ * if the call fails or the repaired reply is still invalid.
+ */
+export async function analyzeWithCompletion(
+  complete: CompletionFn,
+  pageContent: string | PageContent,
+  label = 'LLM',
+  redactionLevel: RedactionLevel = DEFAULT_REDACTION_LEVEL
+): Promise<OrderAnalysis> {
+  try {
+    console.log(`[LLM] Calling ${label}...`)
+
+    const { text } = getContentForLLM(pageContent, redactionLevel)
+    const userPrompt = buildUserPrompt(text)
+    const content = await complete(SYSTEM_PROMPT, userPrompt, ORDER_ANALYSIS_RESPONSE_SCHEMA)
+
+    console.log(`[LLM] Raw ${label} response:`, content.substring(0, 500))
+
+    let result = parseAnalysisResponse(content)
+    if (!result.analysis) {
+      console.warn(`[LLM] ${label} response failed validation, asking for a repair:`, result.errors)
+      const repaired = await complete(
+        SYSTEM_PROMPT,
+        buildRepairPrompt(userPrompt, content, result.errors),
+        ORDER_ANALYSIS_RESPONSE_SCHEMA
+      )
+      result = parseAnalysisResponse(repaired)
+    }
 
-    if (!response.ok) {
-      const errorText = await response.text()
-      console.error(`[LLM] Gemini API error: ${response.status} ${errorText}`)
-      const fallbackContent = typeof pageContent === 'string' ? pageContent : pageContent.textContent
-      return analyzeOrderWithHeuristics(fallbackContent)
+    if (!result.analysis) {
+      console.error(`[LLM] ${label} response still invalid after repair:`, result.errors)
+      return analyzeWithFallback(pageContent)
     }
 
-    const data = await response.json()
-    let content = data.candidates?.[0]?.content?.parts?.[0]?.text || ''
+    console.log('[LLM] Parsed analysis:', result.analysis)
+    return result.analysis
+  } catch (error) {
+    console.error(`[LLM] ${label} analysis error:`, error)
+    return analyzeWithFallback(pageContent)
+  }
+}
 
-    // Remove markdown code blocks if present
-    content = content.replace(/```json\n?/g, '').replace(/```\n?/g, '').trim()
+/**
+ * Analyze an order page using Gemini API
+ */
+export async function analyzeOrderWithAI(pageContent: string | PageContent): Promise<OrderAnalysis> {
+  try {
+    // Get Gemini API key from storage
+    const result = await chrome.storage.local.get(['geminiApiKey', 'geminiModel', 'redactionLevel'])
+    const apiKey = result.geminiApiKey
 
-    console.log('[LLM] Raw Gemini response:', content.substring(0, 500))
+    if (!apiKey) {
+      console.log('[LLM] No Gemini API key configured, using fallback')
+      return analyzeWithFallback(pageContent)
+    }
 
-    const analysis = parseOrderAnalysis(content)
-    console.log('[LLM] Parsed analysis:', analysis)
-    return analysis
+    return analyzeWithCompletion(
+      createGeminiCompletion(apiKey, result.geminiModel || DEFAULT_GEMINI_MODEL),
+      pageContent,
+      'Gemini',
+      result.redactionLevel || DEFAULT_REDACTION_LEVEL
+    )
   } catch (error) {
     console.error('[LLM] AI analysis error:', error)
-    const fallbackContent = typeof pageContent === 'string' ? pageContent : pageContent.textContent
-    return analyzeOrderWithHeuristics(fallbackContent)
+    return analyzeWithFallback(pageContent)
   }
 }
 
 /**
- * Parse LLM response into OrderAnalysis
+ * Analyze via the analyze-order edge function (keys held server-side)
  */
-function parseOrderAnalysis(response: string): OrderAnalysis {
-  const defaultResult: OrderAnalysis = {
-    isOrderConfirmation: false,
-    confidence: 0,
-    products: [],
-    retailer: null,
-    orderNumber: null
-  }
-
+async function analyzeWithEdgeFunction(
+  pageContent: string | PageContent,
+  provider: EdgeLLMProvider,
+  redactionLevel: RedactionLevel,
+  fingerprint?: string
+): Promise<OrderAnalysis> {
   try {
-    let jsonStr = response
-    const codeBlockMatch = response.match(/```(?:json)?\s*([\s\S]*?)```/)
-    if (codeBlockMatch) {
-      jsonStr = codeBlockMatch[1].trim()
-    }
-
-    const jsonMatch = jsonStr.match(/\{[\s\S]*\}/)
-    if (!jsonMatch) {
-      return defaultResult
-    }
-
-    const parsed = JSON.parse(jsonMatch[0])
-
-    return {
-      isOrderConfirmation: parsed.isOrderConfirmation ?? false,
-      confidence: parsed.confidence ?? 0,
-      products: Array.isArray(parsed.products)
-        ? parsed.products.map((p: any) => ({
-            name: p.name || 'Unknown Product',
-            price: typeof p.price === 'number' ? p.price : null,
-            quantity: typeof p.quantity === 'number' ? p.quantity : 1,
-            isRecurring: typeof p.isRecurring === 'boolean' ? p.isRecurring : false,
-            category: p.category || null,
-            suggestedFrequencyDays: typeof p.suggestedFrequencyDays === 'number' ? p.suggestedFrequencyDays : null
-          }))
-        : [],
-      retailer: parsed.retailer || null,
-      orderNumber: parsed.orderNumber || null
+    console.log(`[LLM] Calling analyze-order edge function (${provider})...`)
+    const data = await analyzeViaEdgeFunction(getContentForLLM(pageContent, redactionLevel).text, provider, fingerprint)
+    const { analysis, errors } = validateOrderAnalysis(data)
+    if (!analysis) {
+      console.error('[LLM] Edge function returned an invalid analysis:', errors)
+      return analyzeWithFallback(pageContent)
     }
-  } catch (e) {
-    console.error('[LLM] Parse error:', e)
-    return defaultResult
+    return analysis
+  } catch (error) {
+    console.error('[LLM] Edge function analysis error:', error)
+    return analyzeWithFallback(pageContent)
   }
 }
 
@@ -239,6 +317,7 @@ export function analyzeOrderWithHeuristics(pageContent: string): OrderAnalysis {
   const products: Array<{
     name: string
     price: number | null
+    currency: string | null
     quantity: number
     isRecurring: boolean
     category: string | null
@@ -247,14 +326,15 @@ export function analyzeOrderWithHeuristics(pageContent: string): OrderAnalysis {
 
   const productLines = pageContent.split(/\n|\r/).filter(line =>
     line.length > 10 && line.length < 200 &&
-    (line.includes('$') || /\d+\s*(x|pcs|items|qty)/i.test(line))
+    (/[$€£¥₹]/.test(line) || /\d+\s*(x|pcs|items|qty)/i.test(line))
   )
 
   for (const line of productLines.slice(0, 5)) {
-    const priceMatch = line.match(/\$(\d+\.?\d*)/)
+    const price = parsePrice(line)
     products.push({
       name: line.trim().substring(0, 50),
-      price: priceMatch ? parseFloat(priceMatch[1]) : null,
+      price: price?.amount ?? null,
+      currency: price?.currency ?? null,
       quantity: 1,
       isRecurring: false,
       category: null,
@@ -272,12 +352,103 @@ export function analyzeOrderWithHeuristics(pageContent: string): OrderAnalysis {
 }
 
 /**
- * Get the configured LLM provider
+ * Load LLM provider settings from local storage (API keys never sync)
  */
-export async function getLLMProvider(): Promise<LLMProvider | null> {
-  return {
-    async analyzeOrderPage(pageContent: string | PageContent): Promise<OrderAnalysis> {
-      return analyzeOrderWithAI(pageContent)
+export async function getLLMSettings(): Promise<LLMSettings> {
+  const result = await chrome.storage.local.get(Object.keys(DEFAULT_LLM_SETTINGS))
+  const settings: LLMSettings = { ...DEFAULT_LLM_SETTINGS, ...result }
+
+  // Installs from before provider selection only stored a Gemini key
+  if (!result.llmProvider && settings.geminiApiKey) {
+    settings.llmProvider = 'gemini'
+  }
+
+  return settings
+}
+
+/**
+ * The settings an analysis depends on besides the page: the provider (and
+ * the one the edge function uses) and how much of the page is redacted.
+ * Part of the analysis cache key, so changing either skips cached results.
+ */
+export function getAnalysisVariant(settings: LLMSettings): string {
+  const provider = settings.llmProvider === 'edge'
+    ? `edge:${settings.edgeLlmProvider}`
+    : settings.llmProvider
+  return `${provider}:${settings.redactionLevel}`
+}
+
+/**
+ * Build an LLM provider from settings.
+ * Returns null if the selected provider is missing required configuration.
+ */
+export function createLLMProvider(settings: LLMSettings): LLMProvider | null {
+  let analyze: LLMProvider['analyzeOrderPage'] | null = null
+
+  switch (settings.llmProvider) {
+    case 'gemini':
+      if (settings.geminiApiKey) {
+        const complete = createGeminiCompletion(
+          settings.geminiApiKey,
+          settings.geminiModel || DEFAULT_GEMINI_MODEL
+        )
+        analyze = (pageContent) => analyzeWithCompletion(complete, pageContent, 'Gemini', settings.redactionLevel)
+      }
+      break
+
+    case 'openai':
+      if (settings.openaiApiKey) {
+        const complete = createOpenAICompletion(
+          settings.openaiApiKey,
+          settings.openaiModel || DEFAULT_OPENAI_MODEL
+        )
+        analyze = (pageContent) => analyzeWithCompletion(complete, pageContent, 'OpenAI', settings.redactionLevel)
+      }
+      break
+
+    case 'anthropic':
+      if (settings.anthropicApiKey) {
+        const complete = createAnthropicCompletion(
+          settings.anthropicApiKey,
+          settings.anthropicModel || DEFAULT_ANTHROPIC_MODEL
+        )
+        analyze = (pageContent) => analyzeWithCompletion(complete, pageContent, 'Anthropic', settings.redactionLevel)
+      }
+      break
+
+    case 'local': {
+      const complete = createLocalCompletion(
+        settings.localLlmBaseUrl || DEFAULT_LOCAL_BASE_URL,
+        settings.localLlmModel || DEFAULT_LOCAL_MODEL,
+        settings.localLlmApiKey
+      )
+      analyze = (pageContent) => analyzeWithCompletion(complete, pageContent, 'Local LLM', settings.redactionLevel)
+      break
     }
+
+    case 'edge':
+      analyze = (pageContent, fingerprint) =>
+        analyzeWithEdgeFunction(pageContent, settings.edgeLlmProvider, settings.redactionLevel, fingerprint)
+      break
+
+    case 'none':
+    default:
+      break
   }
+
+  if (!analyze) {
+    return null
+  }
+
+  return {
+    analyzeOrderPage: analyze
+  }
+}
+
+/**
+ * Get the configured LLM provider
+ */
+export async function getLLMProvider(): Promise<LLMProvider | null> {
+  const settings = await getLLMSettings()
+  return createLLMProvider(settings)
 }
@@ -0,0 +1,166 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+
+vi.mock('./supabase', () => ({
+  supabase: {
+    from: vi.fn()
+  }
+}))
+
+import { createLocalBackend, clearLocalData, LOCAL_USER_ID } from './local-backend'
+import {
+  createSubscription,
+  markAsOrdered,
+  getOrderHistory,
+  getPriceHistory,
+  getDueSubscriptions,
+  mergeSubscriptions,
+  updateSubscription
+} from './subscriptions'
+
+describe('Local Backend', () => {
+  let storage: Record<string, unknown>
+
+  beforeEach(() => {
+    storage = { storageBackend: 'local' }
+    vi.mocked(chrome.storage.local.get).mockImplementation((async (keys: string | string[]) => {
+      const result: Record<string, unknown> = {}
+      for (const key of Array.isArray(keys) ? keys : [keys]) {
+        result[key] = storage[key]
+      }
+      return result
+    }) as never)
+    vi.mocked(chrome.storage.local.set).mockImplementation(
+      (async (items: Record<string, unknown>) => { Object.assign(storage, items) }) as never
+    )
+    vi.mocked(chrome.storage.local.remove).mockImplementation((async (keys: string | string[]) => {
+      for (const key of Array.isArray(keys) ? keys : [keys]) {
+        delete storage[key]
+      }
+    }) as never)
+  })
+
+  it('stores subscriptions and their first order without an account', async () => {
+    const subscription = await createSubscription({
+      product_name: 'Dog Food',
+      retailer: 'Amazon',
+      price: 59.99,
+      frequency_days: 30
+    })
+
+    expect(subscription).toMatchObject({ user_id: LOCAL_USER_ID, product_name: 'Dog Food', frequency_locked: false })
+    expect(storage.localSubscriptions).toEqual([subscription])
+    expect(await getOrderHistory(subscription!.id)).toEqual([
+      expect.objectContaining({ subscription_id: subscription!.id, unit_price: 59.99, source: 'manual' })
+    ])
+  })
+
+  it('moves the reminder and logs the order when marked as ordered', async () => {
+    vi.setSystemTime(new Date('2024-01-01T00:00:00Z'))
+    const subscription = await createSubscription({ product_name: 'Dog Food', retailer: 'Amazon', frequency_days: 30 })
+
+    vi.setSystemTime(new Date('2024-02-01T00:00:00Z'))
+    const ordered = await markAsOrdered(subscription!.id, { source: 'notification' })
+
+    expect(ordered?.next_reminder_at).toBe('2024-03-02T00:00:00.000Z')
+    expect(ordered?.updated_at).toBe('2024-02-01T00:00:00.000Z')
+    expect((await getOrderHistory(subscription!.id)).map((o) => o.source)).toEqual(['notification', 'manual'])
+
+    vi.useRealTimers()
+  })
+
+  it('lists due subscriptions soonest first', async () => {
+    const backend = createLocalBackend()
+    await backend.insertSubscription({
+      user_id: LOCAL_USER_ID, product_name: 'Later', product_url: null, retailer: 'Amazon', price: null,
+      frequency_days: 30, last_ordered_at: null, next_reminder_at: '2024-01-20T00:00:00Z',
+      pack_size: 1, quantity: 1, consumption_rate: null, lead_time_days: 0, typical_price: null, sku: null, currency: 'USD'
+    })
+    await backend.insertSubscription({
+      user_id: LOCAL_USER_ID, product_name: 'Sooner', product_url: null, retailer: 'Amazon', price: null,
+      frequency_days: 30, last_ordered_at: null, next_reminder_at: '2024-01-10T00:00:00Z',
+      pack_size: 1, quantity: 1, consumption_rate: null, lead_time_days: 0, typical_price: null, sku: null, currency: 'USD'
+    })
+
+    const due = await getDueSubscriptions(new Date('2024-01-15T00:00:00Z'))
+    expect(due.map((s) => s.product_name)).toEqual(['Sooner'])
+    expect((await backend.listSubscriptions(LOCAL_USER_ID))?.map((s) => s.product_name)).toEqual(['Sooner', 'Later'])
+  })
+
+  it('deletes a subscription with its order history', async () => {
+    const backend = createLocalBackend()
+    const subscription = await createSubscription({ product_name: 'Dog Food', retailer: 'Amazon', frequency_days: 30 })
+
+    expect(await backend.deleteSubscription(subscription!.id)).toBe(true)
+    expect(storage.localSubscriptions).toEqual([])
+    expect(storage.localOrders).toEqual([])
+  })
+
+  it('merges a duplicate into the kept subscription with its history', async () => {
+    vi.setSystemTime(new Date('2024-01-01T00:00:00Z'))
+    const keep = await createSubscription({ product_name: 'Dog Food 10kg', retailer: 'Amazon', price: 50, frequency_days: 30 })
+    vi.setSystemTime(new Date('2024-02-01T00:00:00Z'))
+    const duplicate = await createSubscription({
+      product_name: 'Premium Dog Food - 10 kg Bag', retailer: 'Amazon', price: 60, sku: 'DF-10', frequency_days: 30
+    })
+
+    const merged = await mergeSubscriptions(keep!.id, duplicate!.id)
+
+    expect(storage.localSubscriptions).toEqual([merged])
+    expect(merged).toMatchObject({
+      id: keep!.id,
+      sku: 'DF-10',
+      last_ordered_at: '2024-02-01T00:00:00.000Z',
+      price: 60,
+      typical_price: 55
+    })
+    expect(await getOrderHistory(keep!.id)).toHaveLength(2)
+    expect(await getPriceHistory(keep!.id)).toHaveLength(2)
+
+    vi.useRealTimers()
+  })
+
+  it('only counts prices in the current currency towards the typical price', async () => {
+    vi.setSystemTime(new Date('2024-01-01T00:00:00Z'))
+    const subscription = await createSubscription({ product_name: 'Kaffee 1kg', retailer: 'Amazon', price: 20, frequency_days: 30 })
+    vi.setSystemTime(new Date('2024-02-01T00:00:00Z'))
+    await updateSubscription(subscription!.id, { price: 24 })
+
+    vi.setSystemTime(new Date('2024-03-01T00:00:00Z'))
+    const euros = await updateSubscription(subscription!.id, { currency: 'EUR' })
+    expect(euros?.typical_price).toBeNull()
+
+    vi.setSystemTime(new Date('2024-04-01T00:00:00Z'))
+    const repriced = await updateSubscription(subscription!.id, { price: 18 })
+    expect(repriced?.typical_price).toBe(18)
+    expect((await getPriceHistory(subscription!.id)).map((o) => [o.price, o.currency])).toEqual([
+      [18, 'EUR'], [24, 'USD'], [20, 'USD']
+    ])
+
+    vi.useRealTimers()
+  })
+
+  it('keeps the kept subscription\'s currency when merging', async () => {
+    const keep = await createSubscription({ product_name: 'Dog Food 10kg', retailer: 'Amazon', price: 50, frequency_days: 30 })
+    const duplicate = await createSubscription({
+      product_name: 'Dog Food 10 kg', retailer: 'Amazon', price: 8000, currency: 'JPY', frequency_days: 30
+    })
+
+    const merged = await mergeSubscriptions(keep!.id, duplicate!.id)
+
+    expect(merged).toMatchObject({ price: 50, typical_price: 50, currency: 'USD' })
+    expect(await getPriceHistory(keep!.id)).toHaveLength(2)
+  })
+
+  it('keeps concurrent writes', async () => {
+    await Promise.all([
+      createSubscription({ product_name: 'Dog Food', retailer: 'Amazon', frequency_days: 30 }),
+      createSubscription({ product_name: 'Coffee', retailer: 'Target', frequency_days: 14 })
+    ])
+
+    expect(storage.localSubscriptions).toHaveLength(2)
+    expect(storage.localOrders).toHaveLength(2)
+
+    await clearLocalData()
+    expect(storage.localSubscriptions).toBeUndefined()
+  })
+})
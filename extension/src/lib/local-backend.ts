@@ -0,0 +1,190 @@
+import { sortSubscriptions } from './subscription-cache'
+import type { StorageBackend, Subscription, Order, PriceObservation } from '@/types'
+
+/**
+ * Subscriptions with their order and price history kept in
+ * chrome.storage.local, for using the extension without an account. Nothing
+ * leaves this browser.
+ */
+
+const SUBSCRIPTIONS_KEY = 'localSubscriptions'
+const ORDERS_KEY = 'localOrders'
+const PRICES_KEY = 'localPriceObservations'
+
+// Owner of every local row; replaced with the real user id when moved to an account
+export const LOCAL_USER_ID = 'local'
+
+interface LocalData {
+  subscriptions: Subscription[]
+  orders: Order[]
+  prices: PriceObservation[]
+}
+
+/**
+ * Everything stored locally
+ */
+export async function readLocalData(): Promise<LocalData> {
+  const result = await chrome.storage.local.get([SUBSCRIPTIONS_KEY, ORDERS_KEY, PRICES_KEY])
+  return {
+    subscriptions: (result[SUBSCRIPTIONS_KEY] as Subscription[] | undefined) || [],
+    orders: (result[ORDERS_KEY] as Order[] | undefined) || [],
+    prices: (result[PRICES_KEY] as PriceObservation[] | undefined) || []
+  }
+}
+
+// Read-modify-writes are chained so concurrent changes don't overwrite each other
+let pending: Promise<unknown> = Promise.resolve()
+
+function mutateLocalData<T>(mutate: (data: LocalData) => { data: LocalData; result: T }): Promise<T> {
+  const run = pending.then(async () => {
+    const { data, result } = mutate(await readLocalData())
+    await chrome.storage.local.set({
+      [SUBSCRIPTIONS_KEY]: data.subscriptions,
+      [ORDERS_KEY]: data.orders,
+      [PRICES_KEY]: data.prices
+    })
+    return result
+  })
+  pending = run.catch(() => undefined)
+  return run
+}
+
+export async function clearLocalData(): Promise<void> {
+  await pending
+  await chrome.storage.local.remove([SUBSCRIPTIONS_KEY, ORDERS_KEY, PRICES_KEY])
+}
+
+export function createLocalBackend(): StorageBackend {
+  return {
+    id: 'local',
+
+    async getUserId() {
+      return LOCAL_USER_ID
+    },
+
+    async listSubscriptions() {
+      await pending
+      return sortSubscriptions((await readLocalData()).subscriptions)
+    },
+
+    async listDueSubscriptions(_userId, before) {
+      const due = (await this.listSubscriptions(LOCAL_USER_ID)) || []
+      const cutoff = new Date(before).getTime()
+      return due.filter((s) => s.next_reminder_at && new Date(s.next_reminder_at).getTime() <= cutoff)
+    },
+
+    async getSubscription(id) {
+      await pending
+      const subscription = (await readLocalData()).subscriptions.find((s) => s.id === id)
+      if (!subscription) {
+        console.error('Error fetching subscription: not found', id)
+        return null
+      }
+      return subscription
+    },
+
+    insertSubscription(row) {
+      return mutateLocalData((data) => {
+        const now = new Date().toISOString()
+        const subscription: Subscription = {
+          frequency_locked: false,
+          estimated_frequency_days: null,
+          cadence_confidence: null,
+          created_at: now,
+          ...row,
+          id: row.id || crypto.randomUUID(),
+          updated_at: now
+        }
+        return {
+          data: { ...data, subscriptions: [...data.subscriptions, subscription] },
+          result: subscription
+        }
+      })
+    },
+
+    updateSubscription(id, changes) {
+      return mutateLocalData((data) => {
+        const current = data.subscriptions.find((s) => s.id === id)
+        if (!current) {
+          console.error('Error updating subscription: not found', id)
+          return { data, result: null }
+        }
+
+        const subscription = { ...current, ...changes, updated_at: new Date().toISOString() }
+        return {
+          data: { ...data, subscriptions: data.subscriptions.map((s) => (s.id === id ? subscription : s)) },
+          result: subscription
+        }
+      })
+    },
+
+    deleteSubscription(id) {
+      // History goes with its subscription, as with the cascade in Postgres
+      return mutateLocalData((data) => ({
+        data: {
+          subscriptions: data.subscriptions.filter((s) => s.id !== id),
+          orders: data.orders.filter((o) => o.subscription_id !== id),
+          prices: data.prices.filter((p) => p.subscription_id !== id)
+        },
+        result: true
+      }))
+    },
+
+    insertOrder(row) {
+      return mutateLocalData((data) => {
+        const order: Order = {
+          created_at: new Date().toISOString(),
+          ...row,
+          id: crypto.randomUUID()
+        }
+        return { data: { ...data, orders: [...data.orders, order] }, result: order }
+      })
+    },
+
+    async listOrders(subscriptionId) {
+      await pending
+      return (await readLocalData()).orders
+        .filter((o) => o.subscription_id === subscriptionId)
+        .sort((a, b) => b.ordered_at.localeCompare(a.ordered_at))
+    },
+
+    insertPriceObservation(row) {
+      return mutateLocalData((data) => {
+        const observation: PriceObservation = { ...row, id: crypto.randomUUID() }
+        return { data: { ...data, prices: [...data.prices, observation] }, result: observation }
+      })
+    },
+
+    async listPriceObservations(subscriptionId) {
+      await pending
+      return (await readLocalData()).prices
+        .filter((p) => p.subscription_id === subscriptionId)
+        .sort((a, b) => b.observed_at.localeCompare(a.observed_at))
+    },
+
+    mergeSubscriptions(keepId, duplicateId) {
+      return mutateLocalData((data) => {
+        const keep = data.subscriptions.find((s) => s.id === keepId)
+        const duplicate = data.subscriptions.find((s) => s.id === duplicateId)
+        if (!keep || !duplicate || keepId === duplicateId) {
+          console.error('Error merging subscriptions: not found', keepId, duplicateId)
+          return { data, result: false }
+        }
+
+        const moveTo = <T extends { subscription_id: string }>(row: T): T =>
+          row.subscription_id === duplicateId ? { ...row, subscription_id: keepId } : row
+        const kept = { ...keep, sku: keep.sku || duplicate.sku, updated_at: new Date().toISOString() }
+        return {
+          data: {
+            subscriptions: data.subscriptions
+              .filter((s) => s.id !== duplicateId)
+              .map((s) => (s.id === keepId ? kept : s)),
+            orders: data.orders.map(moveTo),
+            prices: data.prices.map(moveTo)
+          },
+          result: true
+        }
+      })
+    }
+  }
+}
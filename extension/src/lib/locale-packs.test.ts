@@ -0,0 +1,26 @@
+import { describe, it, expect } from 'vitest'
+import { getLocalePack, detectLocale, getLocalePacksForPage } from './locale-packs'
+
+describe('Locale Packs', () => {
+  it('picks the pack from a language tag', () => {
+    expect(getLocalePack('de-AT')?.locale).toBe('de')
+    expect(getLocalePack('fr_CA')?.locale).toBe('fr')
+    expect(getLocalePack('JA')?.locale).toBe('ja')
+    expect(getLocalePack('pl')).toBeNull()
+    expect(getLocalePack('')).toBeNull()
+  })
+
+  it('guesses the language from common words', () => {
+    expect(detectLocale('Vielen Dank für Ihre Bestellung, die wir mit DHL versenden')).toBe('de')
+    expect(detectLocale('Merci pour votre commande, nous la préparons avec soin')).toBe('fr')
+    expect(detectLocale('Gracias por tu pedido, lo enviaremos con cuidado para ti')).toBe('es')
+    expect(detectLocale('ご注文ありがとうございました')).toBe('ja')
+    expect(detectLocale('12345 SKU-991')).toBeNull()
+  })
+
+  it('always includes English', () => {
+    expect(getLocalePacksForPage('es', '').map((pack) => pack.locale)).toEqual(['en', 'es'])
+    expect(getLocalePacksForPage('en-GB', 'Vielen Dank für Ihre Bestellung und die').map((pack) => pack.locale)).toEqual(['en'])
+    expect(getLocalePacksForPage(null, 'nothing here').map((pack) => pack.locale)).toEqual(['en'])
+  })
+})
@@ -0,0 +1,249 @@
+import type { LocalePack } from '@/types'
+
+/**
+ * Order confirmation wording by language. English always applies (stores in
+ * any language tend to use English URLs and platform text); the page's own
+ * language is added on top, from <html lang> or guessed from its text.
+ */
+
+const english: LocalePack = {
+  locale: 'en',
+  detect: /\b(the|and|your|order|thank|you|for|with|has|been)\b/gi,
+  // Generic URL patterns that indicate order confirmation pages (works for ANY store)
+  urlPatterns: [
+    { pattern: /\/checkout\/order-confirmation/i, trigger: 'checkout-order-confirmation', confidence: 0.9 },
+    { pattern: /\/order-confirmation/i, trigger: 'url-order-confirmation', confidence: 0.85 },
+    { pattern: /\/order\/confirm/i, trigger: 'url-order-confirm', confidence: 0.8 },
+    { pattern: /\/order\/success/i, trigger: 'url-order-success', confidence: 0.8 },
+    { pattern: /\/checkout\/complete/i, trigger: 'url-checkout-complete', confidence: 0.8 },
+    { pattern: /\/checkout\/thank-?you/i, trigger: 'url-checkout-thank-you', confidence: 0.75 },
+    { pattern: /\/order\/thank-?you/i, trigger: 'url-order-thank-you', confidence: 0.85 },
+    { pattern: /\/thank-?you.*order/i, trigger: 'url-thank-you-order', confidence: 0.75 },
+    { pattern: /\/purchase\/complete/i, trigger: 'url-purchase-complete', confidence: 0.8 },
+    { pattern: /\/receipt/i, trigger: 'url-receipt', confidence: 0.7 },
+    { pattern: /\/confirmation\/?$/i, trigger: 'url-confirmation', confidence: 0.6 },
+    // Generic order view patterns (Shopify, WooCommerce, etc.)
+    { pattern: /\/orders\/\d+/i, trigger: 'url-order-view', confidence: 0.7 },
+    { pattern: /\/order\/\d+/i, trigger: 'url-order-id', confidence: 0.7 }
+  ],
+  orderDetailsPatterns: [
+    // Specific order detail pages (high confidence)
+    { pattern: /\/order-details/i, trigger: 'order-details', confidence: 0.9 },
+    { pattern: /\/order\/details/i, trigger: 'order-slash-details', confidence: 0.9 },
+    { pattern: /\/previous-orders.*order/i, trigger: 'previous-order-details', confidence: 0.9 },
+    { pattern: /\/my-account.*order/i, trigger: 'account-order', confidence: 0.85 },
+    { pattern: /\/account.*order-details/i, trigger: 'account-order-details', confidence: 0.9 },
+    { pattern: /\/orders\/\d+/i, trigger: 'order-details-id', confidence: 0.85 },
+    { pattern: /\/order\/\d+/i, trigger: 'order-detailed-id', confidence: 0.85 },
+    { pattern: /orderId=/i, trigger: 'order-id-param', confidence: 0.85 },
+    { pattern: /order_id=/i, trigger: 'order-id-param-underscore', confidence: 0.85 },
+    { pattern: /\/order\/view/i, trigger: 'order-view', confidence: 0.85 },
+    { pattern: /\/view-order/i, trigger: 'view-order', confidence: 0.85 },
+    // Order history pages (lower confidence - might be list not detail)
+    { pattern: /\/order-history/i, trigger: 'order-history', confidence: 0.7 },
+    { pattern: /\/your-orders/i, trigger: 'your-orders', confidence: 0.7 },
+    { pattern: /\/purchase-history/i, trigger: 'purchase-history', confidence: 0.7 }
+  ],
+  excludePatterns: [
+    /\/cart\/?$/i,
+    /\/cart\?/i,
+    /\/checkout\/?$/i,
+    /\/dp\//i,  // Amazon product pages
+    /\/product\/[^\/]+\/?$/i,  // Product detail pages (but not /product/order)
+    /\/login/i,
+    /\/signin/i,
+    /\/register/i,
+    /\/password/i
+  ],
+  titlePatterns: [
+    { pattern: /order\s*confirm/i, trigger: 'title-order-confirmation', confidence: 0.8 },
+    { pattern: /thank\s*you.*order/i, trigger: 'title-thank-you-order', confidence: 0.8 },
+    { pattern: /order\s*placed/i, trigger: 'title-order-placed', confidence: 0.85 },
+    { pattern: /purchase\s*confirm/i, trigger: 'title-purchase-confirm', confidence: 0.8 },
+    { pattern: /order\s*complete/i, trigger: 'title-order-complete', confidence: 0.85 }
+  ],
+  contentPatterns: [
+    { pattern: /order\s*(#|number|no\.?)\s*[:\s]?\s*[\w-]+/i, trigger: 'content-order-number', confidence: 0.7 },
+    { pattern: /confirmation\s*(#|number|no\.?)\s*[:\s]?\s*[\w-]+/i, trigger: 'content-confirmation-number', confidence: 0.7 },
+    { pattern: /your\s*order\s*(has\s*been\s*)?(confirmed|placed|received)/i, trigger: 'content-order-confirmed', confidence: 0.75 },
+    { pattern: /thank\s*you\s*for\s*(your\s*)?(order|purchase)/i, trigger: 'content-thank-you', confidence: 0.65 },
+    { pattern: /confirmation\s*email\s*(has\s*been\s*)?sent/i, trigger: 'content-email-sent', confidence: 0.6 },
+    { pattern: /we('ve|.*have)\s*received\s*your\s*order/i, trigger: 'content-order-received', confidence: 0.75 }
+  ]
+}
+
+const german: LocalePack = {
+  locale: 'de',
+  detect: /\b(und|der|die|das|ihre|deine|bestellung|vielen|dank|für|mit|wir|wurde)\b/gi,
+  urlPatterns: [
+    { pattern: /bestell-?best(ae|ä|%c3%a4)tigung/i, trigger: 'url-de-order-confirmation', confidence: 0.85 },
+    { pattern: /\/bestellung\/(abgeschlossen|erfolgreich|danke)/i, trigger: 'url-de-order-complete', confidence: 0.8 },
+    { pattern: /\/(kasse|checkout)\/danke/i, trigger: 'url-de-checkout-thank-you', confidence: 0.75 },
+    { pattern: /\/danke\/?(\?|$)/i, trigger: 'url-de-thank-you', confidence: 0.6 }
+  ],
+  orderDetailsPatterns: [
+    { pattern: /\/bestelldetails/i, trigger: 'de-order-details', confidence: 0.9 },
+    { pattern: /\/bestellungen\/\d+/i, trigger: 'de-order-details-id', confidence: 0.85 },
+    { pattern: /\/meine-bestellungen/i, trigger: 'de-order-history', confidence: 0.7 }
+  ],
+  excludePatterns: [/\/warenkorb/i, /\/anmelden/i, /\/registrieren/i],
+  titlePatterns: [
+    { pattern: /bestell-?\s*best(ä|ae)tigung/i, trigger: 'title-de-order-confirmation', confidence: 0.8 },
+    { pattern: /danke.*bestellung/i, trigger: 'title-de-thank-you-order', confidence: 0.8 },
+    { pattern: /bestellung\s*(abgeschlossen|aufgegeben|erfolgreich)/i, trigger: 'title-de-order-complete', confidence: 0.85 }
+  ],
+  contentPatterns: [
+    { pattern: /bestell(nummer|-?nr\.?)\s*[:#]?\s*[\w-]+/i, trigger: 'content-de-order-number', confidence: 0.7 },
+    { pattern: /(ihre|deine)\s*bestellung\s*(ist\s*eingegangen|wurde\s*(aufgegeben|bestätigt|erhalten|angenommen))/i, trigger: 'content-de-order-confirmed', confidence: 0.75 },
+    { pattern: /dank\s*für\s*(ihre|deine)\s*(bestellung|einkauf)/i, trigger: 'content-de-thank-you', confidence: 0.65 },
+    { pattern: /bestätigungs-?\s*e-?mail/i, trigger: 'content-de-email-sent', confidence: 0.6 }
+  ]
+}
+
+const french: LocalePack = {
+  locale: 'fr',
+  detect: /\b(le|la|les|et|votre|commande|merci|pour|avec|nous|vous)\b/gi,
+  urlPatterns: [
+    { pattern: /confirmation-(de-)?commande/i, trigger: 'url-fr-order-confirmation', confidence: 0.85 },
+    { pattern: /\/commande\/(confirmation|merci|validee)/i, trigger: 'url-fr-order-complete', confidence: 0.8 },
+    { pattern: /\/merci\/?(\?|$)/i, trigger: 'url-fr-thank-you', confidence: 0.6 }
+  ],
+  orderDetailsPatterns: [
+    { pattern: /\/detail-commande/i, trigger: 'fr-order-details', confidence: 0.9 },
+    { pattern: /\/commandes\/\d+/i, trigger: 'fr-order-details-id', confidence: 0.85 },
+    { pattern: /\/mes-commandes/i, trigger: 'fr-order-history', confidence: 0.7 }
+  ],
+  excludePatterns: [/\/panier/i, /\/connexion/i, /\/inscription/i],
+  titlePatterns: [
+    { pattern: /confirmation\s*de\s*(la\s*|votre\s*)?commande/i, trigger: 'title-fr-order-confirmation', confidence: 0.8 },
+    { pattern: /merci.*commande/i, trigger: 'title-fr-thank-you-order', confidence: 0.8 },
+    { pattern: /commande\s*(confirmée|validée|passée|enregistrée)/i, trigger: 'title-fr-order-complete', confidence: 0.85 }
+  ],
+  contentPatterns: [
+    { pattern: /(commande\s*(n°|no\.?|#|numéro)|(numéro|n°)\s*de\s*commande)\s*[:\s]?\s*[\w-]+/i, trigger: 'content-fr-order-number', confidence: 0.7 },
+    { pattern: /votre\s*commande\s*(a\s*été|est)\s*(confirmée|validée|enregistrée|reçue|passée)/i, trigger: 'content-fr-order-confirmed', confidence: 0.75 },
+    { pattern: /merci\s*(pour|de)\s*votre\s*(commande|achat)/i, trigger: 'content-fr-thank-you', confidence: 0.65 },
+    { pattern: /e-?mail\s*de\s*confirmation/i, trigger: 'content-fr-email-sent', confidence: 0.6 }
+  ]
+}
+
+const spanish: LocalePack = {
+  locale: 'es',
+  detect: /\b(el|los|las|y|tu|su|pedido|gracias|por|con|para|ha\s+sido)\b/gi,
+  urlPatterns: [
+    { pattern: /confirmacion-(del?-)?pedido/i, trigger: 'url-es-order-confirmation', confidence: 0.85 },
+    { pattern: /\/pedido\/(confirmado|completado|gracias)/i, trigger: 'url-es-order-complete', confidence: 0.8 },
+    { pattern: /\/gracias\/?(\?|$)/i, trigger: 'url-es-thank-you', confidence: 0.6 }
+  ],
+  orderDetailsPatterns: [
+    { pattern: /\/detalle-pedido/i, trigger: 'es-order-details', confidence: 0.9 },
+    { pattern: /\/pedidos\/\d+/i, trigger: 'es-order-details-id', confidence: 0.85 },
+    { pattern: /\/mis-pedidos/i, trigger: 'es-order-history', confidence: 0.7 }
+  ],
+  excludePatterns: [/\/carrito/i, /\/iniciar-sesion/i, /\/registro/i],
+  titlePatterns: [
+    { pattern: /confirmaci[oó]n\s*(del?\s*)?pedido/i, trigger: 'title-es-order-confirmation', confidence: 0.8 },
+    { pattern: /gracias.*(pedido|compra)/i, trigger: 'title-es-thank-you-order', confidence: 0.8 },
+    { pattern: /pedido\s*(confirmado|realizado|completado)/i, trigger: 'title-es-order-complete', confidence: 0.85 }
+  ],
+  contentPatterns: [
+    { pattern: /(n[uú]mero|n\.?º)\s*de\s*pedido\s*[:\s]?\s*[\w-]+/i, trigger: 'content-es-order-number', confidence: 0.7 },
+    { pattern: /(tu|su)\s*pedido\s*(ha\s*sido|fue|est[aá])\s*(confirmado|realizado|recibido)/i, trigger: 'content-es-order-confirmed', confidence: 0.75 },
+    { pattern: /gracias\s*por\s*(tu|su)\s*(pedido|compra)/i, trigger: 'content-es-thank-you', confidence: 0.65 },
+    { pattern: /correo\s*(electr[oó]nico\s*)?de\s*confirmaci[oó]n/i, trigger: 'content-es-email-sent', confidence: 0.6 }
+  ]
+}
+
+const italian: LocalePack = {
+  locale: 'it',
+  detect: /\b(il|lo|gli|e|tuo|suo|ordine|grazie|per|con|di|stato)\b/gi,
+  urlPatterns: [
+    { pattern: /conferma-ordine/i, trigger: 'url-it-order-confirmation', confidence: 0.85 },
+    { pattern: /\/ordine\/(confermato|completato|grazie)/i, trigger: 'url-it-order-complete', confidence: 0.8 },
+    { pattern: /\/grazie\/?(\?|$)/i, trigger: 'url-it-thank-you', confidence: 0.6 }
+  ],
+  orderDetailsPatterns: [
+    { pattern: /\/dettaglio-ordine/i, trigger: 'it-order-details', confidence: 0.9 },
+    { pattern: /\/ordini\/\d+/i, trigger: 'it-order-details-id', confidence: 0.85 },
+    { pattern: /\/i-miei-ordini/i, trigger: 'it-order-history', confidence: 0.7 }
+  ],
+  excludePatterns: [/\/carrello/i, /\/accedi/i, /\/registrati/i],
+  titlePatterns: [
+    { pattern: /conferma\s*(dell'?\s*)?ordine/i, trigger: 'title-it-order-confirmation', confidence: 0.8 },
+    { pattern: /grazie.*(ordine|acquisto)/i, trigger: 'title-it-thank-you-order', confidence: 0.8 },
+    { pattern: /ordine\s*(confermato|completato|effettuato)/i, trigger: 'title-it-order-complete', confidence: 0.85 }
+  ],
+  contentPatterns: [
+    { pattern: /(numero\s*(d'|di\s*)?ordine|ordine\s*(n\.?|#))\s*[:\s]?\s*[\w-]+/i, trigger: 'content-it-order-number', confidence: 0.7 },
+    { pattern: /ordine\s*è\s*stato\s*(confermato|ricevuto|effettuato)/i, trigger: 'content-it-order-confirmed', confidence: 0.75 },
+    { pattern: /grazie\s*per\s*(il\s*tuo\s*|l'?)(ordine|acquisto)/i, trigger: 'content-it-thank-you', confidence: 0.65 },
+    { pattern: /e-?mail\s*di\s*conferma/i, trigger: 'content-it-email-sent', confidence: 0.6 }
+  ]
+}
+
+const japanese: LocalePack = {
+  locale: 'ja',
+  // Hiragana and katakana only appear in Japanese
+  detect: /[\u3040-\u30ff]/g,
+  urlPatterns: [
+    { pattern: /\/(order|checkout)\/(thanks|kanryo)/i, trigger: 'url-ja-order-complete', confidence: 0.8 }
+  ],
+  orderDetailsPatterns: [],
+  excludePatterns: [],
+  // Not "ご注文内容の確認": that's the review step before paying
+  titlePatterns: [
+    { pattern: /(ご)?注文(が)?完了/, trigger: 'title-ja-order-complete', confidence: 0.85 },
+    { pattern: /ご(注文|購入)ありがとうございま/, trigger: 'title-ja-thank-you-order', confidence: 0.8 },
+    { pattern: /購入完了/, trigger: 'title-ja-purchase-complete', confidence: 0.85 }
+  ],
+  contentPatterns: [
+    { pattern: /(ご)?注文番号\s*[:：]?\s*[\w-]+/, trigger: 'content-ja-order-number', confidence: 0.7 },
+    { pattern: /ご注文を(承り|受け付け)ました|注文が確定しました/, trigger: 'content-ja-order-confirmed', confidence: 0.75 },
+    { pattern: /ご(注文|購入)(いただき)?(、)?(誠に)?ありがとうございま/, trigger: 'content-ja-thank-you', confidence: 0.65 },
+    { pattern: /確認メール(を|が)(送信|お送り)/, trigger: 'content-ja-email-sent', confidence: 0.6 }
+  ]
+}
+
+export const LOCALE_PACKS: readonly LocalePack[] = [english, german, french, spanish, italian, japanese]
+
+// Guessing needs a few hits so a stray word doesn't switch language
+const MIN_DETECTION_HITS = 3
+// The start of a page is plenty to tell its language
+const DETECTION_SAMPLE_LENGTH = 5000
+
+/**
+ * Pack for a language tag ("de", "de-AT", "fr_CA"), or null if there isn't one
+ */
+export function getLocalePack(lang: string | null | undefined): LocalePack | null {
+  const primary = lang?.trim().toLowerCase().split(/[-_]/)[0]
+  return LOCALE_PACKS.find((pack) => pack.locale === primary) || null
+}
+
+/**
+ * Guess the language of page text from its most common words. Returns the
+ * locale with the most hits, or null when nothing stands out.
+ */
+export function detectLocale(text: string): string | null {
+  const sample = text.slice(0, DETECTION_SAMPLE_LENGTH)
+  let best: string | null = null
+  let bestHits = MIN_DETECTION_HITS - 1
+
+  for (const pack of LOCALE_PACKS) {
+    const hits = sample.match(pack.detect)?.length || 0
+    if (hits > bestHits) {
+      best = pack.locale
+      bestHits = hits
+    }
+  }
+
+  return best
+}
+
+/**
+ * Packs to check a page against: English, plus the page's language from
+ * <html lang>, or guessed from `text` when lang is missing or unsupported
+ */
+export function getLocalePacksForPage(lang: string | null | undefined, text: string): LocalePack[] {
+  const pack = getLocalePack(lang) || getLocalePack(detectLocale(text))
+  return pack && pack !== english ? [english, pack] : [english]
+}
@@ -0,0 +1,74 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import type { NotificationContext } from '@/types'
+import {
+  registerNotification,
+  unregisterNotification,
+  getNotificationContext,
+  findNotificationsFor
+} from './notification-registry'
+
+function reminder(subscriptionId: string): NotificationContext {
+  return {
+    kind: 'reminder',
+    subscriptionId,
+    productUrl: null,
+    createdAt: new Date().toISOString()
+  }
+}
+
+describe('Notification Registry', () => {
+  let storage: Record<string, unknown>
+
+  beforeEach(() => {
+    storage = {}
+    // Yield between read and write, as chrome.storage does
+    vi.mocked(chrome.storage.session.get).mockImplementation(
+      (async (key: string) => {
+        await new Promise((resolve) => setTimeout(resolve, 0))
+        return { [key]: structuredClone(storage[key]) }
+      }) as never
+    )
+    vi.mocked(chrome.storage.session.set).mockImplementation(
+      (async (items: Record<string, unknown>) => {
+        await new Promise((resolve) => setTimeout(resolve, 0))
+        Object.assign(storage, structuredClone(items))
+      }) as never
+    )
+  })
+
+  it('keeps every notification registered at the same time', async () => {
+    await Promise.all(['sub-1', 'sub-2', 'sub-3'].map((id) => registerNotification(`n-${id}`, reminder(id))))
+
+    expect(await getNotificationContext('n-sub-1')).toMatchObject({ subscriptionId: 'sub-1' })
+    expect(await getNotificationContext('n-sub-2')).toMatchObject({ subscriptionId: 'sub-2' })
+    expect(await getNotificationContext('n-sub-3')).toMatchObject({ subscriptionId: 'sub-3' })
+  })
+
+  it('unregisters without losing notifications registered alongside', async () => {
+    await registerNotification('n-sub-1', reminder('sub-1'))
+
+    await Promise.all([
+      unregisterNotification('n-sub-1'),
+      registerNotification('n-sub-2', reminder('sub-2'))
+    ])
+
+    expect(await getNotificationContext('n-sub-1')).toBeNull()
+    expect(await findNotificationsFor('sub-2')).toEqual([['n-sub-2', expect.objectContaining({ kind: 'reminder' })]])
+  })
+
+  it('drops entries older than a week', async () => {
+    await registerNotification('n-old', { ...reminder('sub-1'), createdAt: '2020-01-01T00:00:00Z' })
+    await registerNotification('n-new', reminder('sub-2'))
+
+    expect(await getNotificationContext('n-old')).toBeNull()
+  })
+
+  it('reads the subscription from legacy reminder ids', async () => {
+    expect(await getNotificationContext('reminder-sub-123-1700000000000')).toEqual({
+      kind: 'reminder',
+      subscriptionId: 'sub-123',
+      productUrl: null,
+      createdAt: new Date(1700000000000).toISOString()
+    })
+  })
+})
@@ -0,0 +1,110 @@
+import type { NotificationContext } from '@/types'
+
+/**
+ * Maps notification ids to the subscription and action context they were
+ * created for. Kept in chrome.storage.session so it survives service worker
+ * restarts but not browser restarts (when notifications are gone anyway).
+ */
+
+const REGISTRY_KEY = 'notificationRegistry'
+// Entries older than this are dropped - their notifications have long been dismissed
+const MAX_ENTRY_AGE_MS = 1000 * 60 * 60 * 24 * 7
+
+// Legacy ids: reminder-<subscription uuid>-<timestamp>
+const REMINDER_ID_PATTERN = /^reminder-(.+)-(\d+)$/
+
+type Registry = Record<string, NotificationContext>
+
+async function readRegistry(): Promise<Registry> {
+  const result = await chrome.storage.session.get(REGISTRY_KEY)
+  return (result[REGISTRY_KEY] as Registry | undefined) || {}
+}
+
+// Read-modify-writes are chained so notifications registered back to back
+// don't overwrite each other
+let pending: Promise<unknown> = Promise.resolve()
+
+function mutateRegistry(mutate: (registry: Registry) => boolean): Promise<void> {
+  const run = pending.then(async () => {
+    const registry = await readRegistry()
+    if (mutate(registry)) {
+      await chrome.storage.session.set({ [REGISTRY_KEY]: registry })
+    }
+  })
+  pending = run.catch(() => undefined)
+  return run
+}
+
+/**
+ * Remember what a notification refers to
+ */
+export function registerNotification(
+  notificationId: string,
+  context: NotificationContext
+): Promise<void> {
+  return mutateRegistry((registry) => {
+    const cutoff = Date.now() - MAX_ENTRY_AGE_MS
+
+    for (const [id, entry] of Object.entries(registry)) {
+      if (new Date(entry.createdAt).getTime() < cutoff) {
+        delete registry[id]
+      }
+    }
+
+    registry[notificationId] = context
+    return true
+  })
+}
+
+/**
+ * Look up a notification's context. Falls back to parsing the id for
+ * reminder notifications the registry doesn't know about.
+ */
+export async function getNotificationContext(
+  notificationId: string
+): Promise<NotificationContext | null> {
+  await pending
+  const registry = await readRegistry()
+  if (registry[notificationId]) {
+    return registry[notificationId]
+  }
+
+  const match = notificationId.match(REMINDER_ID_PATTERN)
+  if (!match) {
+    return null
+  }
+
+  return {
+    kind: 'reminder',
+    subscriptionId: match[1],
+    productUrl: null,
+    createdAt: new Date(parseInt(match[2])).toISOString()
+  }
+}
+
+/**
+ * Forget a notification once it has been acted on or dismissed
+ */
+export function unregisterNotification(notificationId: string): Promise<void> {
+  return mutateRegistry((registry) => {
+    if (!(notificationId in registry)) return false
+
+    delete registry[notificationId]
+    return true
+  })
+}
+
+/**
+ * Registered notifications that refer to a subscription
+ */
+export async function findNotificationsFor(
+  subscriptionId: string
+): Promise<Array<[string, NotificationContext]>> {
+  await pending
+  const registry = await readRegistry()
+  return Object.entries(registry).filter(([, context]) =>
+    context.kind === 'reminder'
+      ? context.subscriptionId === subscriptionId
+      : context.subscriptionIds.includes(subscriptionId)
+  )
+}
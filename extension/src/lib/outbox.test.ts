@@ -0,0 +1,238 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import type { Subscription, OutboxEntry } from '@/types'
+
+const backend = {
+  listSubscriptions: vi.fn()
+}
+
+vi.mock('./storage-backend', () => ({
+  getStorageBackend: vi.fn(() => Promise.resolve(backend))
+}))
+
+vi.mock('./subscriptions', () => ({
+  createSubscription: vi.fn(),
+  updateSubscription: vi.fn(),
+  deleteSubscription: vi.fn(),
+  markAsOrdered: vi.fn()
+}))
+
+import { createSubscription, updateSubscription } from './subscriptions'
+import {
+  enqueue,
+  getOutbox,
+  getBackoffMs,
+  shouldApplyUpdate,
+  replayOutbox,
+  OUTBOX_ALARM_NAME
+} from './outbox'
+
+const serverSubscription: Subscription = {
+  id: 'sub-123',
+  user_id: 'user-123',
+  product_name: 'Dog Food',
+  product_url: null,
+  retailer: 'Amazon',
+  price: 59.99,
+  frequency_days: 30,
+  last_ordered_at: '2024-01-01T00:00:00Z',
+  next_reminder_at: '2024-01-31T00:00:00Z',
+  created_at: '2024-01-01T00:00:00Z',
+  frequency_locked: false,
+  estimated_frequency_days: null,
+  cadence_confidence: null,
+  pack_size: 1,
+  quantity: 1,
+  consumption_rate: null,
+  lead_time_days: 0,
+  updated_at: '2024-01-01T00:00:00Z',
+  typical_price: null,
+  sku: null,
+  currency: 'USD'
+}
+
+// The storage backend's list of the user's subscriptions
+function mockServerRows(rows: Subscription[]) {
+  backend.listSubscriptions.mockResolvedValueOnce(rows)
+}
+
+describe('Outbox', () => {
+  let storage: Record<string, unknown>
+
+  beforeEach(() => {
+    storage = {}
+    vi.mocked(chrome.storage.local.get).mockImplementation(
+      (async (key: string) => ({ [key]: storage[key] })) as never
+    )
+    vi.mocked(chrome.storage.local.set).mockImplementation(
+      (async (items: Record<string, unknown>) => { Object.assign(storage, items) }) as never
+    )
+  })
+
+  describe('getBackoffMs', () => {
+    it('doubles from 30 seconds up to an hour', () => {
+      expect(getBackoffMs(1)).toBe(30 * 1000)
+      expect(getBackoffMs(2)).toBe(60 * 1000)
+      expect(getBackoffMs(3)).toBe(120 * 1000)
+      expect(getBackoffMs(20)).toBe(60 * 60 * 1000)
+    })
+  })
+
+  describe('shouldApplyUpdate', () => {
+    const queuedAt = '2024-02-01T00:00:00Z'
+
+    it('applies when the server row is still the version that was edited', () => {
+      expect(shouldApplyUpdate({ baseUpdatedAt: '2024-01-01T00:00:00Z', queuedAt }, '2024-01-01T00:00:00+00:00')).toBe(true)
+    })
+
+    it('discards when the row changed elsewhere after the edit', () => {
+      expect(shouldApplyUpdate({ baseUpdatedAt: '2024-01-01T00:00:00Z', queuedAt }, '2024-02-02T00:00:00Z')).toBe(false)
+    })
+
+    it('applies over an older change made elsewhere', () => {
+      expect(shouldApplyUpdate({ baseUpdatedAt: '2024-01-01T00:00:00Z', queuedAt }, '2024-01-15T00:00:00Z')).toBe(true)
+    })
+  })
+
+  describe('enqueue', () => {
+    it('drops queued changes when an unsynced subscription is deleted', async () => {
+      await enqueue({
+        userId: 'user-123',
+        subscriptionId: 'local-1',
+        operation: { kind: 'create', id: 'sub-123', input: { product_name: 'Dog Food', retailer: 'Amazon', frequency_days: 30 } },
+        baseUpdatedAt: null
+      })
+      await enqueue({ userId: 'user-123', subscriptionId: 'local-1', operation: { kind: 'delete' }, baseUpdatedAt: null })
+
+      expect(await getOutbox()).toEqual([])
+    })
+  })
+
+  describe('replayOutbox', () => {
+    it('replays an offline create and rebases later changes onto the real id', async () => {
+      vi.mocked(createSubscription).mockResolvedValueOnce(serverSubscription)
+      vi.mocked(updateSubscription).mockResolvedValueOnce({ ...serverSubscription, frequency_days: 14 })
+      mockServerRows([])
+      mockServerRows([serverSubscription])
+
+      await enqueue({
+        userId: 'user-123',
+        subscriptionId: 'local-1',
+        operation: { kind: 'create', id: 'sub-123', input: { product_name: 'Dog Food', retailer: 'Amazon', frequency_days: 30 } },
+        baseUpdatedAt: null
+      })
+      await enqueue({
+        userId: 'user-123',
+        subscriptionId: 'local-1',
+        operation: { kind: 'update', updates: { frequency_days: 14 } },
+        baseUpdatedAt: null
+      })
+
+      await replayOutbox('user-123')
+
+      expect(createSubscription).toHaveBeenCalledWith(expect.objectContaining({ product_name: 'Dog Food' }), 'sub-123')
+      expect(updateSubscription).toHaveBeenCalledWith('sub-123', { frequency_days: 14 })
+      expect(await getOutbox()).toEqual([])
+      expect(storage.subscriptionCache).toEqual({
+        userId: 'user-123',
+        subscriptions: [expect.objectContaining({ id: 'sub-123', frequency_days: 14 })]
+      })
+    })
+
+    it('does not create a subscription again when an earlier attempt got through', async () => {
+      mockServerRows([serverSubscription])
+
+      await enqueue({
+        userId: 'user-123',
+        subscriptionId: 'local-1',
+        operation: { kind: 'create', id: 'sub-123', input: { product_name: 'Dog Food', retailer: 'Amazon', frequency_days: 30 } },
+        baseUpdatedAt: null
+      })
+
+      await replayOutbox('user-123')
+
+      expect(createSubscription).not.toHaveBeenCalled()
+      expect(await getOutbox()).toEqual([])
+      expect(storage.subscriptionCache).toEqual({ userId: 'user-123', subscriptions: [serverSubscription] })
+    })
+
+    it('backs off a failing change and holds back later changes to it', async () => {
+      vi.mocked(createSubscription).mockResolvedValueOnce(null)
+      mockServerRows([])
+      const now = new Date('2024-03-01T00:00:00Z')
+
+      await enqueue({
+        userId: 'user-123',
+        subscriptionId: 'local-1',
+        operation: { kind: 'create', id: 'sub-123', input: { product_name: 'Dog Food', retailer: 'Amazon', frequency_days: 30 } },
+        baseUpdatedAt: null
+      })
+      await enqueue({
+        userId: 'user-123',
+        subscriptionId: 'local-1',
+        operation: { kind: 'update', updates: { frequency_days: 14 } },
+        baseUpdatedAt: null
+      })
+
+      await replayOutbox('user-123', now)
+
+      const [create, update] = await getOutbox()
+      expect(create).toMatchObject({ attempts: 1, nextAttemptAt: '2024-03-01T00:00:30.000Z' })
+      expect(update).toMatchObject({ attempts: 0, nextAttemptAt: null })
+      expect(updateSubscription).not.toHaveBeenCalled()
+      expect(chrome.alarms.create).toHaveBeenCalledWith(OUTBOX_ALARM_NAME, {
+        when: new Date('2024-03-01T00:00:30Z').getTime()
+      })
+    })
+
+    it('does not retry before the backoff has passed', async () => {
+      const entry: OutboxEntry = {
+        id: 'entry-1',
+        userId: 'user-123',
+        subscriptionId: 'local-1',
+        operation: { kind: 'create', id: 'sub-123', input: { product_name: 'Dog Food', retailer: 'Amazon', frequency_days: 30 } },
+        baseUpdatedAt: null,
+        queuedAt: '2024-03-01T00:00:00Z',
+        attempts: 1,
+        nextAttemptAt: '2024-03-01T00:00:30Z'
+      }
+      storage.subscriptionOutbox = [entry]
+
+      await replayOutbox('user-123', new Date('2024-03-01T00:00:10Z'))
+
+      expect(createSubscription).not.toHaveBeenCalled()
+      expect(await getOutbox()).toEqual([entry])
+    })
+
+    it('keeps the server version when it changed after the offline edit', async () => {
+      const newer = { ...serverSubscription, product_name: 'Renamed elsewhere', updated_at: '2099-01-01T00:00:00Z' }
+      mockServerRows([newer])
+
+      await enqueue({
+        userId: 'user-123',
+        subscriptionId: 'sub-123',
+        operation: { kind: 'update', updates: { product_name: 'Renamed offline' } },
+        baseUpdatedAt: serverSubscription.updated_at
+      })
+
+      await replayOutbox('user-123')
+
+      expect(updateSubscription).not.toHaveBeenCalled()
+      expect(await getOutbox()).toEqual([])
+      expect(storage.subscriptionCache).toEqual({ userId: 'user-123', subscriptions: [newer] })
+    })
+
+    it('only replays the given user\'s changes', async () => {
+      await enqueue({
+        userId: 'someone-else',
+        subscriptionId: 'local-1',
+        operation: { kind: 'create', id: 'sub-123', input: { product_name: 'Dog Food', retailer: 'Amazon', frequency_days: 30 } },
+        baseUpdatedAt: null
+      })
+
+      await replayOutbox('user-123')
+
+      expect(createSubscription).not.toHaveBeenCalled()
+      expect(await getOutbox()).toHaveLength(1)
+    })
+  })
+})
@@ -0,0 +1,279 @@
+import {
+  createSubscription,
+  updateSubscription,
+  deleteSubscription,
+  markAsOrdered
+} from './subscriptions'
+import { getStorageBackend } from './storage-backend'
+import { isLocalId, putCachedSubscription, removeCachedSubscription } from './subscription-cache'
+import type { OutboxEntry, Subscription } from '@/types'
+
+/**
+ * Durable queue of subscription changes made through the local cache. Entries
+ * are replayed against Supabase in order; a failing entry backs off
+ * exponentially and holds back later changes to the same subscription.
+ */
+
+const OUTBOX_KEY = 'subscriptionOutbox'
+export const OUTBOX_ALARM_NAME = 'replay-outbox'
+
+const BASE_BACKOFF_MS = 1000 * 30
+const MAX_BACKOFF_MS = 1000 * 60 * 60
+// Attempts made while online before an entry is given up on
+const MAX_ATTEMPTS = 20
+
+type ReplayResult =
+  | { status: 'done'; subscription: Subscription | null }
+  | { status: 'failed' }
+
+async function readOutbox(): Promise<OutboxEntry[]> {
+  const result = await chrome.storage.local.get(OUTBOX_KEY)
+  return (result[OUTBOX_KEY] as OutboxEntry[] | undefined) || []
+}
+
+// Read-modify-writes are chained so concurrent changes don't overwrite each other
+let pending: Promise<unknown> = Promise.resolve()
+
+function mutateOutbox<T>(mutate: (entries: OutboxEntry[]) => { entries: OutboxEntry[]; result: T }): Promise<T> {
+  const run = pending.then(async () => {
+    const { entries, result } = mutate(await readOutbox())
+    await chrome.storage.local.set({ [OUTBOX_KEY]: entries })
+    return result
+  })
+  pending = run.catch(() => undefined)
+  return run
+}
+
+/**
+ * Queued changes, oldest first (optionally only a user's)
+ */
+export async function getOutbox(userId?: string): Promise<OutboxEntry[]> {
+  await pending
+  const entries = await readOutbox()
+  return userId ? entries.filter((e) => e.userId === userId) : entries
+}
+
+/**
+ * Add a change to the queue. Deleting a subscription whose creation hasn't
+ * reached the server yet just drops its queued changes.
+ */
+export function enqueue(
+  change: Pick<OutboxEntry, 'userId' | 'subscriptionId' | 'operation' | 'baseUpdatedAt'>
+): Promise<OutboxEntry | null> {
+  return mutateOutbox((entries) => {
+    if (change.operation.kind === 'delete' && isLocalId(change.subscriptionId)) {
+      return {
+        entries: entries.filter((e) => e.subscriptionId !== change.subscriptionId),
+        result: null
+      }
+    }
+
+    const entry: OutboxEntry = {
+      ...change,
+      id: crypto.randomUUID(),
+      queuedAt: new Date().toISOString(),
+      attempts: 0,
+      nextAttemptAt: null
+    }
+    return { entries: [...entries, entry], result: entry }
+  })
+}
+
+/**
+ * Delay before retrying an entry that has failed `attempts` times
+ */
+export function getBackoffMs(attempts: number): number {
+  return Math.min(BASE_BACKOFF_MS * 2 ** Math.max(attempts - 1, 0), MAX_BACKOFF_MS)
+}
+
+/**
+ * Whether a queued update should overwrite the server row. If the row hasn't
+ * changed since the update was made it applies; if it has, the newer change
+ * wins (last writer wins on updated_at).
+ */
+export function shouldApplyUpdate(
+  entry: Pick<OutboxEntry, 'baseUpdatedAt' | 'queuedAt'>,
+  serverUpdatedAt: string
+): boolean {
+  if (entry.baseUpdatedAt && new Date(entry.baseUpdatedAt).getTime() === new Date(serverUpdatedAt).getTime()) {
+    return true
+  }
+  return new Date(entry.queuedAt) > new Date(serverUpdatedAt)
+}
+
+/**
+ * The stored copy of a subscription (null inside when there is none), or
+ * null when the storage backend couldn't be read
+ */
+async function fetchStoredSubscription(
+  userId: string,
+  id: string
+): Promise<{ subscription: Subscription | null } | null> {
+  const subscriptions = await (await getStorageBackend()).listSubscriptions(userId)
+  if (!subscriptions) {
+    return null
+  }
+  return { subscription: subscriptions.find((s) => s.id === id) || null }
+}
+
+async function replayEntry(entry: OutboxEntry): Promise<ReplayResult> {
+  const { operation, subscriptionId } = entry
+
+  switch (operation.kind) {
+    case 'create': {
+      // The row keeps the id queued with it, so a create whose response was
+      // lost isn't inserted twice
+      const stored = await fetchStoredSubscription(entry.userId, operation.id)
+      if (!stored) {
+        return { status: 'failed' }
+      }
+      if (stored.subscription) {
+        return { status: 'done', subscription: stored.subscription }
+      }
+
+      const subscription = await createSubscription(operation.input, operation.id)
+      return subscription ? { status: 'done', subscription } : { status: 'failed' }
+    }
+
+    case 'update': {
+      const stored = await fetchStoredSubscription(entry.userId, subscriptionId)
+      if (!stored) {
+        return { status: 'failed' }
+      }
+
+      const server = stored.subscription
+      if (!server) {
+        // Deleted on another device - nothing left to update
+        await removeCachedSubscription(entry.userId, subscriptionId)
+        return { status: 'done', subscription: null }
+      }
+      if (!shouldApplyUpdate(entry, server.updated_at)) {
+        console.log('[Subscribe Any] Discarding offline edit superseded by a newer change:', subscriptionId)
+        return { status: 'done', subscription: server }
+      }
+
+      const subscription = await updateSubscription(subscriptionId, operation.updates)
+      return subscription ? { status: 'done', subscription } : { status: 'failed' }
+    }
+
+    case 'delete': {
+      const success = await deleteSubscription(subscriptionId)
+      return success ? { status: 'done', subscription: null } : { status: 'failed' }
+    }
+
+    case 'mark-ordered': {
+      const subscription = await markAsOrdered(subscriptionId, operation.order)
+      return subscription ? { status: 'done', subscription } : { status: 'failed' }
+    }
+  }
+}
+
+/**
+ * Remove a replayed entry. Later entries for the same subscription are
+ * rebased onto the server's version (and its real id, for offline creates).
+ */
+function completeEntry(entry: OutboxEntry, subscription: Subscription | null): Promise<void> {
+  return mutateOutbox((entries) => ({
+    entries: entries
+      .filter((e) => e.id !== entry.id)
+      .map((e) => e.subscriptionId === entry.subscriptionId && subscription
+        ? { ...e, subscriptionId: subscription.id, baseUpdatedAt: subscription.updated_at }
+        : e),
+    result: undefined
+  }))
+}
+
+function failEntry(entry: OutboxEntry, now: Date): Promise<void> {
+  return mutateOutbox((entries) => {
+    const attempts = entry.attempts + 1
+    if (attempts >= MAX_ATTEMPTS) {
+      console.error('[Subscribe Any] Giving up on queued change after repeated failures:', entry)
+      return { entries: entries.filter((e) => e.id !== entry.id), result: undefined }
+    }
+
+    const nextAttemptAt = new Date(now.getTime() + getBackoffMs(attempts)).toISOString()
+    return {
+      entries: entries.map((e) => e.id === entry.id ? { ...e, attempts, nextAttemptAt } : e),
+      result: undefined
+    }
+  })
+}
+
+let replaying: Promise<void> | null = null
+let replayAgain = false
+
+/**
+ * Replay a user's queued changes that are due, in order. Calls made during a
+ * replay share it, and it goes round again to pick up anything they queued.
+ * Schedules an alarm for the next retry if any are left.
+ */
+export function replayOutbox(userId: string, now: Date = new Date()): Promise<void> {
+  if (replaying) {
+    replayAgain = true
+    return replaying
+  }
+
+  replaying = (async () => {
+    do {
+      replayAgain = false
+      await runReplay(userId, now)
+    } while (replayAgain)
+  })().finally(() => {
+    replaying = null
+  })
+  return replaying
+}
+
+async function runReplay(userId: string, now: Date): Promise<void> {
+  if (!navigator.onLine) {
+    // Retried from the service worker's online event
+    return
+  }
+
+  // Subscriptions with a failed change - their later changes must wait
+  const blocked = new Set<string>()
+  const snapshot = await getOutbox(userId)
+
+  for (const { id } of snapshot) {
+    // Re-read: earlier replays may have rewritten ids and versions
+    const entry = (await getOutbox(userId)).find((e) => e.id === id)
+    if (!entry || blocked.has(entry.subscriptionId)) continue
+
+    if (entry.nextAttemptAt && new Date(entry.nextAttemptAt) > now) {
+      blocked.add(entry.subscriptionId)
+      continue
+    }
+
+    let result: ReplayResult
+    try {
+      result = await replayEntry(entry)
+    } catch (error) {
+      console.error('[Subscribe Any] Error replaying queued change:', error)
+      result = { status: 'failed' }
+    }
+
+    if (result.status === 'failed') {
+      blocked.add(entry.subscriptionId)
+      await failEntry(entry, now)
+      continue
+    }
+
+    if (result.subscription) {
+      await putCachedSubscription(userId, result.subscription, entry.subscriptionId)
+    }
+    await completeEntry(entry, result.subscription)
+  }
+
+  await scheduleNextReplay(userId)
+}
+
+async function scheduleNextReplay(userId: string): Promise<void> {
+  // Entries without a retry time are waiting behind one that has
+  const retries = (await getOutbox(userId))
+    .filter((e) => e.nextAttemptAt)
+    .map((e) => new Date(e.nextAttemptAt!).getTime())
+
+  if (retries.length > 0) {
+    chrome.alarms.create(OUTBOX_ALARM_NAME, { when: Math.min(...retries) })
+  }
+}
@@ -0,0 +1,41 @@
+import { describe, it, expect, vi } from 'vitest'
+import { getPageKey, createPageNavigator, delay } from './page-navigation'
+
+describe('Page Navigation', () => {
+  it('treats URLs differing only by fragment as the same page', () => {
+    expect(getPageKey('https://shop.com/checkouts/abc/thank_you#details')).toBe(
+      'https://shop.com/checkouts/abc/thank_you'
+    )
+    expect(getPageKey('https://shop.com/products?page=2')).not.toBe(getPageKey('https://shop.com/products?page=3'))
+  })
+
+  it('starts each logical page once and cancels the previous one', () => {
+    const onPage = vi.fn()
+    const navigator = createPageNavigator(onPage)
+
+    expect(navigator.navigate('https://shop.com/checkouts/abc/payment')).toBe(true)
+    expect(navigator.navigate('https://shop.com/checkouts/abc/payment#top')).toBe(false)
+    expect(navigator.navigate('https://shop.com/checkouts/abc/thank_you')).toBe(true)
+
+    expect(onPage).toHaveBeenCalledTimes(2)
+    const [[, firstSignal], [, secondSignal]] = onPage.mock.calls
+    expect(firstSignal.aborted).toBe(true)
+    expect(secondSignal.aborted).toBe(false)
+  })
+
+  it('ends a delay early when the page is left', async () => {
+    vi.useFakeTimers()
+    const controller = new AbortController()
+    const done = vi.fn()
+
+    delay(3000, controller.signal).then(done)
+    await vi.advanceTimersByTimeAsync(100)
+    expect(done).not.toHaveBeenCalled()
+
+    controller.abort()
+    await vi.advanceTimersByTimeAsync(0)
+    expect(done).toHaveBeenCalled()
+
+    vi.useRealTimers()
+  })
+})
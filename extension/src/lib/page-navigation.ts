@@ -0,0 +1,70 @@
+import type { PageNavigator } from '@/types'
+
+/**
+ * Logical pages for the content script. Single-page stores (Shopify checkout,
+ * React storefronts) change the URL with history.pushState instead of loading
+ * a new document, so every URL change starts a new page and cancels whatever
+ * is still running for the previous one.
+ */
+
+/**
+ * Identity of a logical page: the URL without its fragment
+ */
+export function getPageKey(url: string): string {
+  try {
+    const parsed = new URL(url)
+    parsed.hash = ''
+    return parsed.href
+  } catch {
+    return url
+  }
+}
+
+/**
+ * Calls `onPage` once per logical page with a signal that aborts when the
+ * next page starts. Reports of the page already showing are ignored, so the
+ * same navigation can arrive from several sources.
+ */
+export function createPageNavigator(
+  onPage: (url: string, signal: AbortSignal) => void
+): PageNavigator {
+  let currentKey: string | null = null
+  let controller: AbortController | null = null
+
+  return {
+    navigate(url) {
+      const key = getPageKey(url)
+      if (key === currentKey) {
+        return false
+      }
+
+      currentKey = key
+      controller?.abort()
+      controller = new AbortController()
+      onPage(url, controller.signal)
+      return true
+    }
+  }
+}
+
+/**
+ * Wait `ms`, finishing early if the signal aborts
+ */
+export function delay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    if (signal?.aborted) {
+      resolve()
+      return
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer)
+      resolve()
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort)
+      resolve()
+    }, ms)
+    signal?.addEventListener('abort', onAbort, { once: true })
+  })
+}
@@ -0,0 +1,190 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import type { UserPreferencesRow } from '@/types'
+
+vi.mock('./supabase', () => ({
+  supabase: {
+    from: vi.fn(),
+    auth: {
+      getUser: vi.fn(() => Promise.resolve({ data: { user: { id: 'user-123' } }, error: null }))
+    }
+  }
+}))
+
+import { supabase } from './supabase'
+import {
+  getPreferences,
+  savePreferences,
+  syncPreferences,
+  rowToPreferences,
+  isPreferenceKey
+} from './preferences'
+
+const remoteRow: UserPreferencesRow = {
+  user_id: 'user-123',
+  email_reminders: true,
+  notification_mode: 'digest',
+  max_notifications_per_check: 5,
+  default_frequency_days: 14,
+  timezone: 'Europe/Berlin',
+  preferred_reminder_time: '08:30:00',
+  quiet_hours_start: '22:00:00',
+  quiet_hours_end: '07:00:00',
+  price_alert_percent: 15,
+  updated_at: '2024-02-01T12:00:00.000Z'
+}
+
+// supabase.from('user_preferences') returning a row for select and recording upserts
+function mockTable(row: UserPreferencesRow | null, error: unknown = null) {
+  const upsert = vi.fn(() => Promise.resolve({ error: null }))
+  vi.mocked(supabase.from).mockReturnValue({
+    select: vi.fn(() => ({
+      eq: vi.fn(() => ({
+        maybeSingle: vi.fn(() => Promise.resolve({ data: row, error }))
+      }))
+    })),
+    upsert
+  } as never)
+  return upsert
+}
+
+describe('User Preferences', () => {
+  beforeEach(() => {
+    vi.mocked(supabase.from).mockReset()
+  })
+
+  it('maps rows to storage keys, trimming Postgres seconds', () => {
+    expect(rowToPreferences(remoteRow)).toMatchObject({
+      emailReminders: true,
+      notificationMode: 'digest',
+      defaultFrequencyDays: 14,
+      timezone: 'Europe/Berlin',
+      preferredReminderTime: '08:30',
+      quietHoursStart: '22:00',
+      priceAlertPercent: 15,
+      preferencesUpdatedAt: '2024-02-01T12:00:00.000Z'
+    })
+  })
+
+  it('fills in defaults for missing storage keys', async () => {
+    vi.mocked(chrome.storage.sync.get).mockResolvedValueOnce({ emailReminders: true } as never)
+
+    const prefs = await getPreferences()
+
+    expect(prefs.emailReminders).toBe(true)
+    expect(prefs.notificationMode).toBe('per-item')
+    expect(prefs.defaultFrequencyDays).toBe(30)
+  })
+
+  it('recognises preference keys', () => {
+    expect(isPreferenceKey('emailReminders')).toBe(true)
+    expect(isPreferenceKey('showOnOrderDetails')).toBe(false)
+  })
+
+  describe('savePreferences', () => {
+    it('stamps the change and writes both storage and the table', async () => {
+      vi.setSystemTime(new Date('2024-03-01T00:00:00Z'))
+      const upsert = mockTable(null)
+
+      await savePreferences({ emailReminders: true })
+
+      expect(chrome.storage.sync.set).toHaveBeenCalledWith(expect.objectContaining({
+        emailReminders: true,
+        preferencesUpdatedAt: '2024-03-01T00:00:00.000Z'
+      }))
+      expect(upsert).toHaveBeenCalledWith(expect.objectContaining({
+        user_id: 'user-123',
+        email_reminders: true,
+        updated_at: '2024-03-01T00:00:00.000Z'
+      }))
+
+      vi.useRealTimers()
+    })
+  })
+
+  describe('syncPreferences', () => {
+    it('pulls newer server preferences into storage', async () => {
+      vi.mocked(chrome.storage.sync.get).mockResolvedValueOnce({
+        emailReminders: false,
+        preferencesUpdatedAt: '2024-01-01T00:00:00.000Z'
+      } as never)
+      const upsert = mockTable(remoteRow)
+
+      const prefs = await syncPreferences()
+
+      expect(prefs.emailReminders).toBe(true)
+      expect(chrome.storage.sync.set).toHaveBeenCalledWith(expect.objectContaining({
+        emailReminders: true,
+        timezone: 'Europe/Berlin'
+      }))
+      expect(upsert).not.toHaveBeenCalled()
+    })
+
+    it('adopts server preferences on a device that never saved any', async () => {
+      vi.mocked(chrome.storage.sync.get).mockResolvedValueOnce({} as never)
+      mockTable(remoteRow)
+
+      const prefs = await syncPreferences()
+
+      expect(prefs.notificationMode).toBe('digest')
+    })
+
+    it('keeps an email opt-out saved before preferences were synced', async () => {
+      vi.setSystemTime(new Date('2024-03-01T00:00:00Z'))
+      vi.mocked(chrome.storage.sync.get).mockResolvedValueOnce({ emailReminders: false } as never)
+      const upsert = mockTable({ ...remoteRow, updated_at: '1970-01-01T00:00:00+00:00' })
+
+      const prefs = await syncPreferences()
+
+      expect(prefs).toMatchObject({ emailReminders: false, timezone: 'Europe/Berlin' })
+      expect(upsert).toHaveBeenCalledWith(expect.objectContaining({
+        email_reminders: false,
+        timezone: 'Europe/Berlin',
+        updated_at: '2024-03-01T00:00:00.000Z'
+      }))
+
+      vi.useRealTimers()
+    })
+
+    it('pushes newer local preferences to the server', async () => {
+      vi.mocked(chrome.storage.sync.get).mockResolvedValueOnce({
+        emailReminders: false,
+        preferencesUpdatedAt: '2024-03-01T00:00:00.000Z'
+      } as never)
+      const upsert = mockTable(remoteRow)
+
+      await syncPreferences()
+
+      expect(upsert).toHaveBeenCalledWith(expect.objectContaining({
+        email_reminders: false,
+        updated_at: '2024-03-01T00:00:00.000Z'
+      }))
+      expect(chrome.storage.sync.set).not.toHaveBeenCalled()
+    })
+
+    it('seeds the server when there is no row', async () => {
+      vi.mocked(chrome.storage.sync.get).mockResolvedValueOnce({ emailReminders: true } as never)
+      const upsert = mockTable(null)
+
+      await syncPreferences()
+
+      expect(upsert).toHaveBeenCalledWith(expect.objectContaining({ email_reminders: true }))
+    })
+
+    it('does not overwrite the server when the fetch fails', async () => {
+      vi.mocked(chrome.storage.sync.get).mockResolvedValueOnce({ emailReminders: true } as never)
+      const upsert = mockTable(null, { message: 'offline' })
+
+      await syncPreferences()
+
+      expect(upsert).not.toHaveBeenCalled()
+    })
+
+    it('does nothing when signed out', async () => {
+      vi.mocked(supabase.auth.getUser).mockResolvedValueOnce({ data: { user: null }, error: null } as never)
+
+      await syncPreferences()
+
+      expect(supabase.from).not.toHaveBeenCalled()
+    })
+  })
+})
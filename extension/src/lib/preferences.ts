@@ -0,0 +1,193 @@
+import { supabase } from './supabase'
+import { getDefaultDeliveryPreferences, isValidTimezone } from './delivery-window'
+import type {
+  DeliveryPreferences,
+  NotificationSettings,
+  UserPreferences,
+  UserPreferencesRow
+} from '@/types'
+
+/**
+ * User preferences live in chrome.storage.sync (read by the extension, works
+ * offline) and in the user_preferences table (read by send-reminders).
+ * Whichever side changed last wins when the two are synced.
+ */
+
+export const DEFAULT_NOTIFICATION_SETTINGS: NotificationSettings = {
+  notificationMode: 'per-item',
+  maxNotificationsPerCheck: 3
+}
+
+export function getDefaultPreferences(): UserPreferences {
+  return {
+    ...DEFAULT_NOTIFICATION_SETTINGS,
+    emailReminders: false,
+    defaultFrequencyDays: 30,
+    timezone: getDefaultDeliveryPreferences().timezone,
+    preferredReminderTime: null,
+    quietHoursStart: null,
+    quietHoursEnd: null,
+    priceAlertPercent: 10,
+    preferencesUpdatedAt: null
+  }
+}
+
+const PREFERENCE_KEYS = Object.keys(getDefaultPreferences()) as Array<keyof UserPreferences>
+
+/**
+ * Whether a chrome.storage change touches synced preferences
+ */
+export function isPreferenceKey(key: string): boolean {
+  return (PREFERENCE_KEYS as string[]).includes(key)
+}
+
+export function preferencesToRow(prefs: UserPreferences, userId: string): UserPreferencesRow {
+  return {
+    user_id: userId,
+    email_reminders: prefs.emailReminders,
+    notification_mode: prefs.notificationMode,
+    max_notifications_per_check: prefs.maxNotificationsPerCheck,
+    default_frequency_days: prefs.defaultFrequencyDays,
+    timezone: prefs.timezone,
+    preferred_reminder_time: prefs.preferredReminderTime,
+    quiet_hours_start: prefs.quietHoursStart,
+    quiet_hours_end: prefs.quietHoursEnd,
+    price_alert_percent: prefs.priceAlertPercent,
+    updated_at: prefs.preferencesUpdatedAt || new Date().toISOString()
+  }
+}
+
+export function rowToPreferences(row: UserPreferencesRow): UserPreferences {
+  const defaults = getDefaultPreferences()
+  return {
+    emailReminders: row.email_reminders,
+    notificationMode: row.notification_mode,
+    maxNotificationsPerCheck: row.max_notifications_per_check,
+    defaultFrequencyDays: row.default_frequency_days,
+    timezone: isValidTimezone(row.timezone) ? row.timezone : defaults.timezone,
+    // Postgres returns time columns as HH:MM:SS
+    preferredReminderTime: row.preferred_reminder_time?.slice(0, 5) ?? null,
+    quietHoursStart: row.quiet_hours_start?.slice(0, 5) ?? null,
+    quietHoursEnd: row.quiet_hours_end?.slice(0, 5) ?? null,
+    priceAlertPercent: row.price_alert_percent ?? defaults.priceAlertPercent,
+    preferencesUpdatedAt: row.updated_at
+  }
+}
+
+/**
+ * Load preferences from extension storage
+ */
+export async function getPreferences(): Promise<UserPreferences> {
+  const result = await chrome.storage.sync.get(PREFERENCE_KEYS)
+  return { ...getDefaultPreferences(), ...result }
+}
+
+/**
+ * Delivery window settings in the shape lib/delivery-window expects
+ */
+export function toDeliveryPreferences(prefs: UserPreferences): DeliveryPreferences {
+  return {
+    timezone: prefs.timezone,
+    preferred_reminder_time: prefs.preferredReminderTime,
+    quiet_hours_start: prefs.quietHoursStart,
+    quiet_hours_end: prefs.quietHoursEnd
+  }
+}
+
+async function pushPreferences(prefs: UserPreferences, userId: string): Promise<boolean> {
+  const { error } = await supabase
+    .from('user_preferences')
+    .upsert(preferencesToRow(prefs, userId))
+
+  if (error) {
+    console.error('Error saving user preferences:', error)
+    return false
+  }
+
+  return true
+}
+
+/**
+ * Save preferences locally and to the server. The local save always
+ * succeeds; the server copy catches up on the next sync if this push fails.
+ */
+export async function savePreferences(updates: Partial<UserPreferences>): Promise<UserPreferences> {
+  const prefs: UserPreferences = {
+    ...(await getPreferences()),
+    ...updates,
+    preferencesUpdatedAt: new Date().toISOString()
+  }
+  await chrome.storage.sync.set(prefs)
+
+  const { data } = await supabase.auth.getUser()
+  if (data.user) {
+    await pushPreferences(prefs, data.user.id)
+  }
+
+  return prefs
+}
+
+/**
+ * Two-way sync between extension storage and the user_preferences table.
+ * The newer side wins; a device that never saved preferences adopts the
+ * server's, and a server with no row is seeded from the device.
+ */
+export async function syncPreferences(): Promise<UserPreferences> {
+  const stored: Partial<UserPreferences> = await chrome.storage.sync.get(PREFERENCE_KEYS)
+  const local: UserPreferences = { ...getDefaultPreferences(), ...stored }
+
+  try {
+    const { data } = await supabase.auth.getUser()
+    if (!data.user) {
+      return local
+    }
+
+    const { data: row, error } = await supabase
+      .from('user_preferences')
+      .select('*')
+      .eq('user_id', data.user.id)
+      .maybeSingle()
+
+    // Don't seed the server from this device unless we know there's no row
+    if (error) {
+      console.error('Error fetching user preferences:', error)
+      return local
+    }
+
+    const remote = row as UserPreferencesRow | null
+    if (!remote) {
+      await pushPreferences(local, data.user.id)
+      return local
+    }
+
+    // Settings saved before preferences were synced have no timestamp. What
+    // this device stored (an email opt-out, say) wins; the rest comes from
+    // the server.
+    if (!local.preferencesUpdatedAt) {
+      const merged: UserPreferences = {
+        ...rowToPreferences(remote),
+        ...stored,
+        preferencesUpdatedAt: new Date().toISOString()
+      }
+      await chrome.storage.sync.set(merged)
+      await pushPreferences(merged, data.user.id)
+      return merged
+    }
+
+    const localTime = new Date(local.preferencesUpdatedAt).getTime()
+    const remoteTime = new Date(remote.updated_at).getTime()
+
+    if (remoteTime > localTime) {
+      const pulled = rowToPreferences(remote)
+      await chrome.storage.sync.set(pulled)
+      return pulled
+    }
+    if (localTime > remoteTime) {
+      await pushPreferences(local, data.user.id)
+    }
+  } catch (error) {
+    console.error('Error syncing user preferences:', error)
+  }
+
+  return local
+}
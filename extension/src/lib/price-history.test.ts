@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest'
+import {
+  getMedianPrice,
+  getPriceIncrease,
+  formatPriceIncrease,
+  shouldLogPagePrice,
+  getSparklinePoints,
+  getPricesInCurrency
+} from './price-history'
+
+describe('Price History', () => {
+  it('keeps observations in the given currency, treating a missing one as dollars', () => {
+    const observations = [
+      { price: 20, currency: 'USD' },
+      { price: 18, currency: 'EUR' },
+      { price: 22, currency: undefined as unknown as string }
+    ]
+    expect(getPricesInCurrency(observations, 'USD').map((o) => o.price)).toEqual([20, 22])
+    expect(getPricesInCurrency(observations, 'eur').map((o) => o.price)).toEqual([18])
+  })
+
+  describe('getMedianPrice', () => {
+    it('takes the middle price, or the mean of the middle two', () => {
+      expect(getMedianPrice([12.99, 9.99, 10.49])).toBe(10.49)
+      expect(getMedianPrice([10, 12, 11, 20])).toBe(11.5)
+      expect(getMedianPrice([])).toBeNull()
+    })
+  })
+
+  describe('getPriceIncrease', () => {
+    it('flags a price at least the threshold above the typical one', () => {
+      expect(getPriceIncrease({ price: 11.5, typical_price: 10 }, 10)).toEqual({
+        price: 11.5,
+        typicalPrice: 10,
+        percent: 15
+      })
+      expect(getPriceIncrease({ price: 10.5, typical_price: 10 }, 10)).toBeNull()
+    })
+
+    it('flags any increase at a threshold of 0', () => {
+      expect(getPriceIncrease({ price: 10.5, typical_price: 10 }, 0)).toMatchObject({ percent: 5 })
+      expect(getPriceIncrease({ price: 10, typical_price: 10 }, 0)).toBeNull()
+    })
+
+    it('ignores price drops and missing prices', () => {
+      expect(getPriceIncrease({ price: 8, typical_price: 10 }, 10)).toBeNull()
+      expect(getPriceIncrease({ price: null, typical_price: 10 }, 10)).toBeNull()
+      expect(getPriceIncrease({ price: 12, typical_price: null }, 10)).toBeNull()
+    })
+
+    it('formats the increase for notifications', () => {
+      expect(formatPriceIncrease({ price: 11.5, typicalPrice: 10, percent: 15 })).toBe(
+        'Price up 15% (usually $10.00)'
+      )
+    })
+  })
+
+  describe('shouldLogPagePrice', () => {
+    const now = new Date('2024-03-10T12:00:00Z')
+
+    it('logs a new or changed price right away', () => {
+      expect(shouldLogPagePrice(undefined, 9.99, now)).toBe(true)
+      expect(shouldLogPagePrice({ price: 8.99, observed_at: '2024-03-10T11:00:00Z' }, 9.99, now)).toBe(true)
+    })
+
+    it('logs an unchanged price at most once a day', () => {
+      expect(shouldLogPagePrice({ price: 9.99, observed_at: '2024-03-10T11:00:00Z' }, 9.99, now)).toBe(false)
+      expect(shouldLogPagePrice({ price: 9.99, observed_at: '2024-03-09T11:00:00Z' }, 9.99, now)).toBe(true)
+    })
+  })
+
+  describe('getSparklinePoints', () => {
+    it('scales prices into the box with the highest at the top', () => {
+      expect(getSparklinePoints([10, 20, 15], 60, 16)).toBe('0,16 30,0 60,8')
+    })
+
+    it('draws a flat history through the middle', () => {
+      expect(getSparklinePoints([5, 5], 60, 16)).toBe('0,8 60,8')
+    })
+
+    it('needs at least two prices', () => {
+      expect(getSparklinePoints([5], 60, 16)).toBe('')
+    })
+  })
+})
@@ -0,0 +1,103 @@
+import { formatPrice, normalizeCurrency } from './currency'
+import type { Subscription, PriceIncrease, PriceObservation } from '@/types'
+
+/**
+ * Price history analysis: the typical (median) price of a subscription and
+ * whether its latest price is notably above it.
+ */
+
+export const DEFAULT_PRICE_ALERT_PERCENT = 10
+
+// A page showing an unchanged price is only logged again after this long
+export const PAGE_OBSERVATION_INTERVAL_MS = 1000 * 60 * 60 * 24
+
+export function getMedianPrice(prices: number[]): number | null {
+  if (prices.length === 0) {
+    return null
+  }
+
+  const sorted = [...prices].sort((a, b) => a - b)
+  const middle = Math.floor(sorted.length / 2)
+  const median = sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2
+  return Math.round(median * 100) / 100
+}
+
+/**
+ * Observations in `currency`. A subscription's currency can be edited and
+ * merged duplicates may have been priced in another one; those prices stay
+ * in its history but don't count towards the typical price or the trend.
+ */
+export function getPricesInCurrency<T extends Pick<PriceObservation, 'price' | 'currency'>>(
+  observations: T[],
+  currency: string | null | undefined
+): T[] {
+  const code = normalizeCurrency(currency)
+  return observations.filter((o) => normalizeCurrency(o.currency) === code)
+}
+
+/**
+ * How far the subscription's latest price is above its typical price,
+ * or null if it isn't at least `thresholdPercent` above (0 flags any increase)
+ */
+export function getPriceIncrease(
+  subscription: Pick<Subscription, 'price' | 'typical_price'>,
+  thresholdPercent = DEFAULT_PRICE_ALERT_PERCENT
+): PriceIncrease | null {
+  const { price, typical_price: typicalPrice } = subscription
+  if (price === null || price === undefined || !typicalPrice || price <= typicalPrice) {
+    return null
+  }
+
+  const percent = Math.round(((price - typicalPrice) / typicalPrice) * 100)
+  if (percent < thresholdPercent) {
+    return null
+  }
+
+  return { price, typicalPrice, percent }
+}
+
+/**
+ * "Price up 15% (usually $52.00)", in the subscription's currency
+ */
+export function formatPriceIncrease(increase: PriceIncrease, currency?: string | null): string {
+  return `Price up ${increase.percent}% (usually ${formatPrice(increase.typicalPrice, currency)})`
+}
+
+/**
+ * Whether a page visit's price is worth logging given the latest observation
+ */
+export function shouldLogPagePrice(
+  latest: Pick<PriceObservation, 'price' | 'observed_at'> | undefined,
+  price: number,
+  now: Date = new Date()
+): boolean {
+  if (!latest || latest.price !== price) {
+    return true
+  }
+  return now.getTime() - new Date(latest.observed_at).getTime() >= PAGE_OBSERVATION_INTERVAL_MS
+}
+
+/**
+ * SVG polyline points for a sparkline of prices (oldest first) in a
+ * width x height box. A flat history draws a line through the middle.
+ */
+export function getSparklinePoints(prices: number[], width: number, height: number): string {
+  if (prices.length < 2) {
+    return ''
+  }
+
+  const min = Math.min(...prices)
+  const range = Math.max(...prices) - min
+  const step = width / (prices.length - 1)
+
+  return prices
+    .map((price, i) => {
+      const y = range ? height - ((price - min) / range) * height : height / 2
+      return `${round(i * step)},${round(y)}`
+    })
+    .join(' ')
+}
+
+function round(value: number): number {
+  return Math.round(value * 10) / 10
+}
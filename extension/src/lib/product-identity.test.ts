@@ -0,0 +1,141 @@
+import { describe, it, expect } from 'vitest'
+import {
+  normalizeProductUrl,
+  getRetailerKey,
+  getNameSimilarity,
+  getProductCodes,
+  scoreProductMatch,
+  findSubscriptionForPage,
+  findPossibleDuplicates,
+  matchOrderedProducts,
+  wasOrderedRecently
+} from './product-identity'
+import type { ProductInfo, Subscription } from '@/types'
+
+const baseSubscription: Subscription = {
+  id: 'sub-1',
+  user_id: 'user-1',
+  product_name: 'Purina Pro Plan Dog Food 10kg',
+  product_url: null,
+  retailer: 'Chewy',
+  price: 59.99,
+  typical_price: 59.99,
+  sku: null,
+  currency: 'USD',
+  frequency_days: 30,
+  frequency_locked: false,
+  estimated_frequency_days: null,
+  cadence_confidence: null,
+  pack_size: 1,
+  quantity: 1,
+  consumption_rate: null,
+  lead_time_days: 0,
+  last_ordered_at: '2024-03-01T00:00:00Z',
+  next_reminder_at: '2024-03-31T00:00:00Z',
+  created_at: '2024-03-01T00:00:00Z',
+  updated_at: '2024-03-01T00:00:00Z'
+}
+
+describe('Product Identity', () => {
+  it('ignores www., query strings, fragments and trailing slashes in product URLs', () => {
+    expect(normalizeProductUrl('https://www.shop.com/p/123/?utm_source=mail#reviews')).toBe('https://shop.com/p/123')
+  })
+
+  it('extracts product codes from SKUs and product URLs', () => {
+    expect([...getProductCodes({ url: 'https://www.amazon.com/Purina-Pro-Plan/dp/B00ABC1234/ref=sr_1_1' })]).toEqual(['b00abc1234'])
+    expect([...getProductCodes({ url: 'https://petshop.com/products/dog-food-10kg?variant=4012' })]).toEqual(['dog-food-10kg', '4012'])
+    expect([...getProductCodes({ sku: ' PUR-35 ', url: null })]).toEqual(['pur-35'])
+  })
+
+  it('scores a shared product code as the same product, whatever the names', () => {
+    const score = scoreProductMatch(
+      { name: 'Pro Plan Large Breed', retailer: 'Amazon', sku: 'B00ABC1234' },
+      { name: 'Purina kibble', retailer: 'https://www.amazon.com/x/dp/B00ABC1234', url: 'https://www.amazon.com/x/dp/B00ABC1234' }
+    )
+    expect(score).toBe(1)
+  })
+
+  it('reduces retailer names, hostnames and URLs to the same key', () => {
+    expect(getRetailerKey('Chemist Warehouse')).toBe('chemistwarehouse')
+    expect(getRetailerKey('www.chemistwarehouse.com.au')).toBe('chemistwarehouse')
+    expect(getRetailerKey('https://www.chemistwarehouse.com.au/buy/123')).toBe('chemistwarehouse')
+  })
+
+  it('ignores subdomains in retailer hostnames', () => {
+    expect(getRetailerKey('www.amazon.com')).toBe('amazon')
+    expect(getRetailerKey('smile.amazon.co.uk')).toBe('amazon')
+    expect(getRetailerKey('https://m.ebay.com/itm/123')).toBe('ebay')
+    expect(getRetailerKey('https://www.amazon.com/dp/B000000001')).toBe(getRetailerKey('Amazon'))
+    expect(getRetailerKey('acme-coffee.myshopify.com')).toBe('acmecoffee')
+  })
+
+  it('scores names by shared words, treating "10 kg" as "10kg"', () => {
+    expect(getNameSimilarity('Dog Food 10kg', 'Dog Food - 10 kg')).toBe(1)
+    expect(getNameSimilarity('Dog Food 10kg', 'Cat Litter 10kg')).toBeLessThan(0.5)
+  })
+
+  describe('findSubscriptionForPage', () => {
+    const page = { url: 'https://www.chewy.com/dp/52083', productName: null }
+
+    it('matches the subscription whose product_url is this page', () => {
+      const sub = { ...baseSubscription, product_url: 'https://www.chewy.com/dp/52083?ref=order' }
+      expect(findSubscriptionForPage([sub], page)?.id).toBe('sub-1')
+    })
+
+    it('falls back to a similar name at the same retailer', () => {
+      const match = findSubscriptionForPage([baseSubscription], {
+        ...page,
+        productName: 'Purina Pro Plan Adult Dog Food, 10 kg'
+      })
+      expect(match?.id).toBe('sub-1')
+    })
+
+    it('does not match the same name at another retailer', () => {
+      const match = findSubscriptionForPage([baseSubscription], {
+        url: 'https://www.petco.com/product/52083',
+        productName: 'Purina Pro Plan Dog Food 10kg'
+      })
+      expect(match).toBeNull()
+    })
+  })
+
+  describe('matchOrderedProducts', () => {
+    const product = (name: string): ProductInfo => ({
+      name,
+      price: 61.99,
+      quantity: 1,
+      isRecurring: true,
+      category: null,
+      suggestedFrequencyDays: null
+    })
+
+    it('pairs each ordered product with at most one subscription', () => {
+      const ordered = [product('Purina Pro Plan Dog Food - 10 kg'), product('Purina Pro Plan Dog Food 10kg'), product('Chew Toy')]
+      const matches = matchOrderedProducts([baseSubscription], ordered, 'https://www.chewy.com/checkout/thank-you')
+
+      expect(matches).toHaveLength(1)
+      expect(matches[0].product).toBe(ordered[0])
+      expect(matches[0].subscription.id).toBe('sub-1')
+    })
+  })
+
+  it('treats an order in the last day as already recorded', () => {
+    const now = new Date('2024-03-01T12:00:00Z')
+    expect(wasOrderedRecently(baseSubscription, now)).toBe(true)
+    expect(wasOrderedRecently(baseSubscription, new Date('2024-03-02T01:00:00Z'))).toBe(false)
+    expect(wasOrderedRecently({ ...baseSubscription, last_ordered_at: null }, now)).toBe(false)
+  })
+
+  it('finds subscriptions that are probably the same product', () => {
+    const short = { ...baseSubscription, id: 'sub-1', product_name: 'Dog Food 10kg' }
+    const long = { ...baseSubscription, id: 'sub-2', product_name: 'Premium Dog Food - 10 kg Bag' }
+    const other = { ...baseSubscription, id: 'sub-3', product_name: 'Cat Litter 10kg' }
+    const elsewhere = { ...baseSubscription, id: 'sub-4', retailer: 'Petco' }
+
+    const candidates = findPossibleDuplicates([short, long, other, elsewhere])
+
+    expect(candidates).toHaveLength(1)
+    expect(candidates[0].subscriptions.map((s) => s.id)).toEqual(['sub-1', 'sub-2'])
+    expect(candidates[0].score).toBe(0.75)
+  })
+})
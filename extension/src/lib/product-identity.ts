@@ -0,0 +1,233 @@
+import type { Subscription, ProductInfo, ProductIdentity, DuplicateCandidate } from '@/types'
+
+/**
+ * Product identity: whether two products (a page, an order line, a
+ * subscription) are the same item. Combines the retailer, product codes
+ * (SKU, ASIN, product handles in URLs) and normalised names into a score.
+ */
+
+// Score from 0 to 1 at which two products count as the same
+export const MATCH_THRESHOLD = 0.6
+
+// A subscription ordered this recently isn't marked ordered again by a
+// confirmation page (e.g. the same page reloaded or revisited)
+export const RECENT_ORDER_WINDOW_MS = 1000 * 60 * 60 * 24
+
+// Labels below the top-level domain that are part of the suffix rather than
+// the store's name (amazon.co.uk, chemistwarehouse.com.au, store.myshopify.com)
+const SUFFIX_LABELS = new Set(['co', 'com', 'net', 'org', 'ac', 'gov', 'edu', 'ne', 'or', 'myshopify'])
+
+// Query parameters stores use for the product or variant id
+const PRODUCT_ID_PARAMS = ['sku', 'variant', 'pid', 'productid', 'product_id', 'itemid']
+
+/**
+ * Compare product pages by host and path (ignoring tracking parameters and www.)
+ */
+export function normalizeProductUrl(url: string): string {
+  try {
+    const { protocol, hostname, pathname } = new URL(url)
+    return `${protocol}//${hostname.replace(/^www\./, '')}${pathname.replace(/\/$/, '')}`
+  } catch {
+    return url
+  }
+}
+
+/**
+ * Comparable key for a retailer given as a name ("Chemist Warehouse"),
+ * a hostname ("www.amazon.com.au") or a URL. Hostnames reduce to the
+ * store's name in their registrable domain, so subdomains (www., smile.,
+ * m.) don't matter.
+ */
+export function getRetailerKey(retailer: string): string {
+  let value = retailer.trim().toLowerCase()
+  try {
+    value = new URL(value).hostname
+  } catch {
+    // Not a URL
+  }
+  if (value.includes('.')) {
+    const labels = value.split('.').slice(0, -1)
+    while (labels.length > 1 && SUFFIX_LABELS.has(labels[labels.length - 1])) {
+      labels.pop()
+    }
+    value = labels[labels.length - 1]
+  }
+  return value.replace(/[^a-z0-9]/g, '')
+}
+
+/**
+ * Codes that identify the product itself: its SKU, an Amazon ASIN, a Shopify
+ * product handle or a product id query parameter in its URL
+ */
+export function getProductCodes(identity: Pick<ProductIdentity, 'url' | 'sku'>): Set<string> {
+  const codes = new Set<string>()
+  if (identity.sku?.trim()) {
+    codes.add(identity.sku.trim().toLowerCase())
+  }
+  if (!identity.url) {
+    return codes
+  }
+
+  try {
+    const { pathname, searchParams } = new URL(identity.url)
+    const asin = pathname.match(/\/(?:dp|gp\/product|gp\/aw\/d)\/([a-z0-9]{10})(?:\/|$)/i)
+    if (asin) codes.add(asin[1].toLowerCase())
+
+    const handle = pathname.match(/\/products\/([^/]+)/)
+    if (handle) codes.add(decodeURIComponent(handle[1]).toLowerCase())
+
+    searchParams.forEach((value, key) => {
+      if (value && PRODUCT_ID_PARAMS.includes(key.toLowerCase())) {
+        codes.add(value.toLowerCase())
+      }
+    })
+  } catch {
+    // Not a URL
+  }
+  return codes
+}
+
+function getNameWords(name: string): Set<string> {
+  const words = name
+    .toLowerCase()
+    // "10 kg" and "10kg" are the same size
+    .replace(/(\d)\s+(kg|g|lb|lbs|oz|ml|l|pk|pack|ct)\b/g, '$1$2')
+    .split(/[^a-z0-9]+/)
+    .filter((word) => word.length > 1 || /\d/.test(word))
+  return new Set(words)
+}
+
+/**
+ * Similarity of two product names from 0 to 1 (shared words over total words)
+ */
+export function getNameSimilarity(a: string, b: string): number {
+  const wordsA = getNameWords(a)
+  const wordsB = getNameWords(b)
+  if (wordsA.size === 0 || wordsB.size === 0) {
+    return 0
+  }
+
+  const shared = [...wordsA].filter((word) => wordsB.has(word)).length
+  return (2 * shared) / (wordsA.size + wordsB.size)
+}
+
+/**
+ * How likely two products are the same, from 0 to 1. Products from
+ * different retailers never match; a shared product code always does.
+ */
+export function scoreProductMatch(a: ProductIdentity, b: ProductIdentity): number {
+  if (getRetailerKey(a.retailer) !== getRetailerKey(b.retailer)) {
+    return 0
+  }
+
+  const codesB = getProductCodes(b)
+  if ([...getProductCodes(a)].some((code) => codesB.has(code))) {
+    return 1
+  }
+
+  return getNameSimilarity(a.name, b.name)
+}
+
+export function getSubscriptionIdentity(subscription: Subscription): ProductIdentity {
+  return {
+    name: subscription.product_name,
+    retailer: subscription.product_url || subscription.retailer,
+    url: subscription.product_url,
+    sku: subscription.sku
+  }
+}
+
+/**
+ * The subscription most likely to be this product, if any scores high enough
+ */
+export function findMatchingSubscription(
+  subscriptions: Subscription[],
+  product: ProductIdentity
+): Subscription | null {
+  let best: Subscription | null = null
+  let bestScore = 0
+  for (const subscription of subscriptions) {
+    const score = scoreProductMatch(getSubscriptionIdentity(subscription), product)
+    if (score >= MATCH_THRESHOLD && score > bestScore) {
+      best = subscription
+      bestScore = score
+    }
+  }
+  return best
+}
+
+/**
+ * The subscription for a product page: one with this page as its product_url,
+ * otherwise the best match for the page's product at the same retailer
+ */
+export function findSubscriptionForPage(
+  subscriptions: Subscription[],
+  page: { url: string; productName: string | null }
+): Subscription | null {
+  const pageUrl = normalizeProductUrl(page.url)
+  const byUrl = subscriptions.find(
+    (s) => s.product_url && normalizeProductUrl(s.product_url) === pageUrl
+  )
+  if (byUrl) {
+    return byUrl
+  }
+
+  return findMatchingSubscription(subscriptions, {
+    name: page.productName || '',
+    retailer: page.url,
+    url: page.url
+  })
+}
+
+/**
+ * Pair products from an order with the subscriptions they're reorders of.
+ * Each subscription is matched at most once.
+ */
+export function matchOrderedProducts(
+  subscriptions: Subscription[],
+  products: ProductInfo[],
+  pageUrl: string
+): Array<{ subscription: Subscription; product: ProductInfo }> {
+  const matches: Array<{ subscription: Subscription; product: ProductInfo }> = []
+  const available = [...subscriptions]
+
+  for (const product of products) {
+    const subscription = findMatchingSubscription(available, {
+      name: product.name,
+      retailer: pageUrl,
+      sku: product.sku
+    })
+    if (subscription) {
+      available.splice(available.indexOf(subscription), 1)
+      matches.push({ subscription, product })
+    }
+  }
+  return matches
+}
+
+/**
+ * Whether a subscription was marked ordered too recently for a confirmation
+ * page to count as a new order
+ */
+export function wasOrderedRecently(subscription: Subscription, now: Date = new Date()): boolean {
+  if (!subscription.last_ordered_at) {
+    return false
+  }
+  return now.getTime() - new Date(subscription.last_ordered_at).getTime() < RECENT_ORDER_WINDOW_MS
+}
+
+/**
+ * Pairs of subscriptions that are probably the same product, most likely first
+ */
+export function findPossibleDuplicates(subscriptions: Subscription[]): DuplicateCandidate[] {
+  const candidates: DuplicateCandidate[] = []
+  subscriptions.forEach((a, i) => {
+    for (const b of subscriptions.slice(i + 1)) {
+      const score = scoreProductMatch(getSubscriptionIdentity(a), getSubscriptionIdentity(b))
+      if (score >= MATCH_THRESHOLD) {
+        candidates.push({ subscriptions: [a, b], score })
+      }
+    }
+  })
+  return candidates.sort((a, b) => b.score - a.score)
+}
@@ -0,0 +1,200 @@
+import { describe, it, expect, vi, beforeEach, type Mock } from 'vitest'
+import type { RealtimePostgresChangesPayload } from '@supabase/supabase-js'
+import type { Subscription, NotificationContext } from '@/types'
+
+const channel = vi.hoisted(() => {
+  const channel: { on: Mock; subscribe: Mock } = { on: vi.fn(), subscribe: vi.fn() }
+  channel.on.mockReturnValue(channel)
+  channel.subscribe.mockReturnValue(channel)
+  return channel
+})
+
+vi.mock('./supabase', () => ({
+  supabase: {
+    from: vi.fn(),
+    channel: vi.fn(() => channel),
+    removeChannel: vi.fn(() => Promise.resolve('ok'))
+  },
+  getSessionUser: vi.fn(() => Promise.resolve({ id: 'user-123' }))
+}))
+
+import { supabase, getSessionUser } from './supabase'
+import { handleSubscriptionChange, isReminderResolved, startRealtimeSync } from './realtime-sync'
+
+const mockSubscription: Subscription = {
+  id: 'sub-123',
+  user_id: 'user-123',
+  product_name: 'Dog Food',
+  product_url: 'https://amazon.com/product/123',
+  retailer: 'Amazon',
+  price: 59.99,
+  frequency_days: 30,
+  last_ordered_at: '2024-01-01T00:00:00Z',
+  next_reminder_at: '2024-01-31T00:00:00Z',
+  created_at: '2024-01-01T00:00:00Z',
+  frequency_locked: false,
+  estimated_frequency_days: null,
+  cadence_confidence: null,
+  pack_size: 1,
+  quantity: 1,
+  consumption_rate: null,
+  lead_time_days: 0,
+  updated_at: '2024-01-01T00:00:00Z',
+  typical_price: null,
+  sku: null,
+  currency: 'USD'
+}
+
+const ordered: Subscription = {
+  ...mockSubscription,
+  last_ordered_at: '2024-02-01T00:00:00Z',
+  next_reminder_at: '2099-03-02T00:00:00Z',
+  updated_at: '2024-02-01T00:00:00Z'
+}
+
+function change(
+  eventType: 'INSERT' | 'UPDATE' | 'DELETE',
+  row: Subscription,
+  old: Partial<Subscription> = {}
+): RealtimePostgresChangesPayload<Subscription> {
+  return {
+    schema: 'public',
+    table: 'subscriptions',
+    commit_timestamp: '2024-02-01T00:00:00Z',
+    errors: [],
+    eventType,
+    new: eventType === 'DELETE' ? {} : row,
+    old: eventType === 'DELETE' ? { id: row.id } : old
+  } as RealtimePostgresChangesPayload<Subscription>
+}
+
+describe('Realtime Sync', () => {
+  let local: Record<string, unknown>
+  let session: Record<string, unknown>
+
+  beforeEach(() => {
+    local = {
+      subscriptionCache: { userId: 'user-123', subscriptions: [mockSubscription] }
+    }
+    session = {
+      notificationRegistry: {
+        'reminder-sub-123-1': {
+          kind: 'reminder',
+          subscriptionId: 'sub-123',
+          productUrl: null,
+          createdAt: new Date().toISOString()
+        },
+        'digest-1': {
+          kind: 'digest',
+          subscriptionIds: ['sub-123', 'sub-456'],
+          productUrls: [],
+          createdAt: new Date().toISOString()
+        }
+      } satisfies Record<string, NotificationContext>
+    }
+
+    vi.mocked(chrome.storage.local.get).mockImplementation(
+      (async (key: string) => ({ [key]: local[key] })) as never
+    )
+    vi.mocked(chrome.storage.local.set).mockImplementation(
+      (async (items: Record<string, unknown>) => { Object.assign(local, items) }) as never
+    )
+    vi.mocked(chrome.storage.session.get).mockImplementation(
+      (async (key: string) => ({ [key]: session[key] })) as never
+    )
+    vi.mocked(chrome.storage.session.set).mockImplementation(
+      (async (items: Record<string, unknown>) => { Object.assign(session, items) }) as never
+    )
+  })
+
+  describe('isReminderResolved', () => {
+    it('treats a moved reminder as resolved', () => {
+      expect(isReminderResolved(mockSubscription, ordered)).toBe(true)
+    })
+
+    it('keeps reminders for other edits to a due subscription', () => {
+      const renamed = { ...mockSubscription, product_name: 'Renamed', next_reminder_at: '2024-01-31T00:00:00+00:00' }
+      expect(isReminderResolved(mockSubscription, renamed)).toBe(false)
+    })
+
+    it('treats deletion as resolved', () => {
+      expect(isReminderResolved(mockSubscription, null)).toBe(true)
+    })
+  })
+
+  describe('handleSubscriptionChange', () => {
+    it('updates the cache and clears reminders ordered elsewhere', async () => {
+      await handleSubscriptionChange('user-123', change('UPDATE', ordered))
+
+      expect(local.subscriptionCache).toEqual({ userId: 'user-123', subscriptions: [ordered] })
+      expect(chrome.notifications.clear).toHaveBeenCalledWith('reminder-sub-123-1')
+      expect(chrome.runtime.sendMessage).toHaveBeenCalledWith({
+        type: 'SUBSCRIPTIONS_UPDATED',
+        payload: { subscriptions: [ordered] }
+      })
+    })
+
+    it('drops the item from digests that list other items', async () => {
+      await handleSubscriptionChange('user-123', change('UPDATE', ordered))
+
+      expect(chrome.notifications.clear).not.toHaveBeenCalledWith('digest-1')
+      expect(session.notificationRegistry).toEqual({
+        'digest-1': expect.objectContaining({ subscriptionIds: ['sub-456'] })
+      })
+    })
+
+    it('removes subscriptions deleted elsewhere', async () => {
+      await handleSubscriptionChange('user-123', change('DELETE', mockSubscription))
+
+      expect(local.subscriptionCache).toEqual({ userId: 'user-123', subscriptions: [] })
+      expect(chrome.notifications.clear).toHaveBeenCalledWith('reminder-sub-123-1')
+    })
+
+    it('ignores deletes of subscriptions it never had', async () => {
+      await handleSubscriptionChange('user-123', change('DELETE', { ...mockSubscription, id: 'someone-elses' }))
+
+      expect(local.subscriptionCache).toEqual({ userId: 'user-123', subscriptions: [mockSubscription] })
+      expect(chrome.runtime.sendMessage).not.toHaveBeenCalled()
+    })
+
+    it('leaves the cache alone while local changes are queued', async () => {
+      local.subscriptionOutbox = [{
+        id: 'entry-1',
+        userId: 'user-123',
+        subscriptionId: 'sub-123',
+        operation: { kind: 'update', updates: { product_name: 'Renamed offline' } },
+        baseUpdatedAt: mockSubscription.updated_at,
+        queuedAt: '2024-01-15T00:00:00Z',
+        attempts: 0,
+        nextAttemptAt: null
+      }]
+
+      await handleSubscriptionChange('user-123', change('UPDATE', ordered))
+
+      expect(local.subscriptionCache).toEqual({ userId: 'user-123', subscriptions: [mockSubscription] })
+    })
+  })
+
+  describe('startRealtimeSync', () => {
+    it('listens for the signed-in user\'s changes once', async () => {
+      await startRealtimeSync()
+      await startRealtimeSync()
+
+      expect(supabase.channel).toHaveBeenCalledTimes(1)
+      expect(channel.on).toHaveBeenCalledWith(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'subscriptions', filter: 'user_id=eq.user-123' },
+        expect.any(Function)
+      )
+    })
+
+    it('unsubscribes on sign-out', async () => {
+      await startRealtimeSync()
+      vi.mocked(getSessionUser).mockResolvedValueOnce(null)
+
+      await startRealtimeSync()
+
+      expect(supabase.removeChannel).toHaveBeenCalledWith(channel)
+    })
+  })
+})
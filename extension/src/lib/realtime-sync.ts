@@ -0,0 +1,133 @@
+import type { RealtimeChannel, RealtimePostgresChangesPayload } from '@supabase/supabase-js'
+import { supabase, getSessionUser } from './supabase'
+import { applyRemoteChange, refreshSubscriptions } from './subscription-store'
+import { clearNotificationsFor, isDueForReminder } from './reminders'
+import { getStorageBackendId, STORAGE_BACKEND_KEY } from './storage-backend'
+import type { Subscription } from '@/types'
+
+/**
+ * Live updates from other devices: the service worker listens for Postgres
+ * changes to the user's subscriptions, keeps the local cache current and
+ * clears reminders that were dealt with elsewhere.
+ */
+
+let channel: RealtimeChannel | null = null
+let channelUserId: string | null = null
+// Starts and stops run one at a time so a burst of auth changes opens one channel
+let switching: Promise<void> = Promise.resolve()
+
+/**
+ * Whether a change means the subscription's reminder no longer stands
+ * (ordered, snoozed or rescheduled elsewhere, or deleted)
+ */
+export function isReminderResolved(
+  previous: Subscription | null,
+  subscription: Subscription | null
+): boolean {
+  if (!subscription) {
+    return true
+  }
+  // Compare instants - Realtime and PostgREST format timestamps differently
+  const reminderTime = (s: Subscription) => s.next_reminder_at ? new Date(s.next_reminder_at).getTime() : null
+  if (previous && reminderTime(previous) !== reminderTime(subscription)) {
+    return true
+  }
+  return !isDueForReminder(subscription)
+}
+
+/**
+ * Apply one change event to the cache and notifications
+ */
+export async function handleSubscriptionChange(
+  userId: string,
+  payload: RealtimePostgresChangesPayload<Subscription>
+): Promise<void> {
+  const subscription = payload.eventType === 'DELETE' ? null : payload.new
+  const id = subscription?.id || (payload.old as Partial<Subscription>).id
+  if (!id) return
+
+  const previous = await applyRemoteChange(userId, id, subscription)
+
+  if (isReminderResolved(previous, subscription)) {
+    await clearNotificationsFor(id)
+  }
+}
+
+/**
+ * Subscribe to the signed-in user's changes (or unsubscribe when signed out)
+ */
+export function startRealtimeSync(): Promise<void> {
+  switching = switching.then(connect).catch((error) => {
+    console.error('[Subscribe Any] Error starting realtime sync:', error)
+  })
+  return switching
+}
+
+async function connect(): Promise<void> {
+  // Signed in but still local-only (e.g. mid-move to the account): nothing to follow yet
+  const user = (await getStorageBackendId()) === 'supabase' ? await getSessionUser() : null
+  if (channel && channelUserId === user?.id) {
+    return
+  }
+
+  await disconnect()
+  if (!user) {
+    return
+  }
+
+  const userId = user.id
+  channelUserId = userId
+  channel = supabase
+    .channel(`subscriptions:${userId}`)
+    .on<Subscription>(
+      'postgres_changes',
+      { event: '*', schema: 'public', table: 'subscriptions', filter: `user_id=eq.${userId}` },
+      (payload) => {
+        handleSubscriptionChange(userId, payload).catch((error) => {
+          console.error('[Subscribe Any] Error applying realtime change:', error)
+        })
+      }
+    )
+    // Delete events can't be filtered; ids that aren't cached are ignored
+    .on<Subscription>(
+      'postgres_changes',
+      { event: 'DELETE', schema: 'public', table: 'subscriptions' },
+      (payload) => {
+        handleSubscriptionChange(userId, payload).catch((error) => {
+          console.error('[Subscribe Any] Error applying realtime change:', error)
+        })
+      }
+    )
+    .subscribe((status) => {
+      if (status === 'SUBSCRIBED') {
+        // Catch up on anything missed while disconnected
+        refreshSubscriptions()
+      } else if (status === 'CHANNEL_ERROR' || status === 'TIMED_OUT') {
+        console.error('[Subscribe Any] Realtime subscription failed:', status)
+      }
+    })
+}
+
+async function disconnect(): Promise<void> {
+  if (channel) {
+    await supabase.removeChannel(channel)
+  }
+  channel = null
+  channelUserId = null
+}
+
+/**
+ * Start syncing and follow sign-in/out and storage mode changes, which
+ * happen in the popup
+ */
+export function initializeRealtimeSync(): void {
+  startRealtimeSync()
+
+  // The popup and service worker share the session through chrome.storage.local
+  chrome.storage.onChanged.addListener((changes, areaName) => {
+    const keys = Object.keys(changes)
+    if (areaName === 'local' && keys.some((key) => key.endsWith('-auth-token') || key === STORAGE_BACKEND_KEY)) {
+      startRealtimeSync()
+    }
+  })
+}
@@ -0,0 +1,129 @@
+import { describe, it, expect } from 'vitest'
+import { redactText, countRedactions } from './redaction'
+
+// Plain text as extractPageContent produces it (tags removed, whitespace collapsed)
+const AMAZON_US = 'Order placed, thanks! Confirmation will be sent to jane.doe@gmail.com. ' +
+  'Order #112-3456789-1234567 Shipping to: Jane Doe 742 Evergreen Terrace, Apt 2 Springfield, IL 62704 ' +
+  'Estimated delivery: Friday, March 8 Purina Pro Plan Adult Dog Food 30 lb $59.99 Qty: 1 ' +
+  'Payment method Visa ending in 4242 Order total $64.79'
+
+const SHOPIFY_UK = 'Thank you, Oliver! Order #1042 is confirmed. Contact information oliver.smith@example.co.uk ' +
+  'Shipping address Oliver Smith 221B Baker Street London NW1 6XE United Kingdom Phone +44 20 7946 0958 ' +
+  'Billing address Oliver Smith 221B Baker Street London NW1 6XE Payment •••• 1881 ' +
+  'Organic Coffee Beans 1kg × 2 £24.00 Subtotal £48.00'
+
+const TARGET = 'Thanks for your order! Order number 902001234567 Hi Maria, we got your order. ' +
+  'Bill to Maria Garcia 55 Ocean Ave San Diego, CA 92101 (619) 555-0147 ' +
+  'Card: 4111 1111 1111 1111 Tide Pods Laundry Detergent 81 ct $21.99 Bounty Paper Towels 12 Rolls $28.49'
+
+const GERMAN = 'Vielen Dank für Ihre Bestellung! Bestellnummer: 305-1234567-7654321 ' +
+  'Lieferadresse: Max Mustermann Hauptstraße 12 10115 Berlin Telefon: 030 12345678 ' +
+  'Rechnung an max@mustermann.de Kaffeebohnen 1 kg 1 × 19,99 € Gesamt 24,98 €'
+
+const AUSTRALIAN = 'Your order has been received. Order No. 60001234 Deliver to: Sam Taylor ' +
+  '14 Wattle Crescent Sydney NSW 2000 Mobile: 0412 345 678 Paid with Mastercard 5454 ' +
+  'Pedigree Dry Dog Food 20kg $89.00 Total $89.00'
+
+describe('Redaction', () => {
+  describe('standard', () => {
+    it('masks an Amazon receipt but keeps the order and products', () => {
+      const { text, counts } = redactText(AMAZON_US)
+
+      expect(text).not.toContain('jane.doe@gmail.com')
+      expect(text).not.toContain('Jane Doe')
+      expect(text).not.toContain('Evergreen')
+      expect(text).not.toContain('62704')
+      expect(text).not.toContain('4242')
+      expect(text).toContain('Shipping to: [NAME]')
+      expect(text).toContain('#112-3456789-1234567')
+      expect(text).toContain('Purina Pro Plan Adult Dog Food 30 lb $59.99')
+      expect(text).toContain('Order total $64.79')
+      expect(counts).toMatchObject({ email: 1, card: 1, name: 1 })
+    })
+
+    it('masks a Shopify receipt with UK address and phone', () => {
+      const { text, counts } = redactText(SHOPIFY_UK)
+
+      expect(text).not.toContain('oliver.smith@example.co.uk')
+      expect(text).not.toContain('Oliver Smith')
+      expect(text).not.toContain('Baker Street')
+      expect(text).not.toContain('NW1 6XE')
+      expect(text).not.toContain('7946')
+      expect(text).not.toContain('1881')
+      expect(text).toContain('Order #1042')
+      expect(text).toContain('Organic Coffee Beans 1kg × 2 £24.00')
+      expect(counts.name).toBe(2)
+      expect(counts.phone).toBe(1)
+    })
+
+    it('masks full card numbers and US phone numbers', () => {
+      const { text } = redactText(TARGET)
+
+      expect(text).not.toContain('4111')
+      expect(text).not.toContain('555-0147')
+      expect(text).not.toContain('Maria Garcia')
+      expect(text).not.toContain('Ocean Ave')
+      expect(text).not.toContain('92101')
+      expect(text).toContain('Order number 902001234567')
+      expect(text).toContain('Tide Pods Laundry Detergent 81 ct $21.99')
+      expect(text).toContain('Bounty Paper Towels 12 Rolls $28.49')
+    })
+
+    it('masks a German receipt', () => {
+      const { text } = redactText(GERMAN)
+
+      expect(text).not.toContain('Max Mustermann')
+      expect(text).not.toContain('Hauptstraße 12')
+      expect(text).not.toContain('10115 Berlin')
+      expect(text).toContain('Lieferadresse: [NAME] [ADDRESS]')
+      expect(text).not.toContain('12345678')
+      expect(text).not.toContain('max@mustermann.de')
+      expect(text).toContain('Bestellnummer: 305-1234567-7654321')
+      expect(text).toContain('Kaffeebohnen 1 kg 1 × 19,99 €')
+    })
+
+    it('masks an Australian receipt', () => {
+      const { text } = redactText(AUSTRALIAN)
+
+      expect(text).not.toContain('Sam Taylor')
+      expect(text).not.toContain('Wattle Crescent')
+      expect(text).not.toContain('NSW 2000')
+      expect(text).not.toContain('0412 345 678')
+      expect(text).not.toContain('5454')
+      expect(text).toContain('Order No. 60001234')
+      expect(text).toContain('Pedigree Dry Dog Food 20kg $89.00')
+    })
+
+    it('leaves cards that fail the checksum alone', () => {
+      expect(redactText('Gift card 1234 5678 9012 3456 applied').text).toContain('1234 5678 9012 3456')
+    })
+  })
+
+  it('only masks contact and card details at minimal', () => {
+    const { text } = redactText(AMAZON_US, 'minimal')
+
+    expect(text).not.toContain('jane.doe@gmail.com')
+    expect(text).not.toContain('4242')
+    expect(text).toContain('Jane Doe')
+    expect(text).toContain('742 Evergreen Terrace')
+  })
+
+  it('masks whole address blocks and greetings at strict', () => {
+    const { text } = redactText(GERMAN, 'strict')
+    expect(text).toContain('Lieferadresse: [ADDRESS]')
+    expect(text).not.toContain('Berlin')
+    expect(text).toContain('Kaffeebohnen 1 kg')
+
+    const target = redactText(TARGET, 'strict').text
+    expect(target).toContain('Hi [NAME],')
+    expect(target).toContain('Tide Pods Laundry Detergent 81 ct $21.99')
+
+    const amazon = redactText(AMAZON_US, 'strict').text
+    expect(amazon).toContain('Shipping to: [ADDRESS] Estimated delivery')
+  })
+
+  it('counts everything it masked', () => {
+    expect(countRedactions(redactText('No personal details here, just Dog Food $59.99'))).toBe(0)
+    expect(countRedactions(redactText(SHOPIFY_UK))).toBeGreaterThanOrEqual(7)
+  })
+})
@@ -0,0 +1,175 @@
+import type { RedactionKind, RedactionLevel, RedactionResult } from '@/types'
+
+/**
+ * Masks personal details in order page text before it's sent to an LLM:
+ * emails, phone numbers, card numbers, postal addresses and the names on
+ * shipping and billing details. Products, prices and order numbers are kept.
+ */
+
+export const DEFAULT_REDACTION_LEVEL: RedactionLevel = 'standard'
+
+export const REDACTION_LEVEL_OPTIONS: Array<{ value: RedactionLevel; label: string }> = [
+  { value: 'minimal', label: 'Minimal: emails, phone and card numbers' },
+  { value: 'standard', label: 'Standard: also addresses and shipping/billing names' },
+  { value: 'strict', label: 'Strict: also whole address blocks and greetings' }
+]
+
+const MASKS: Record<RedactionKind, string> = {
+  email: '[EMAIL]',
+  phone: '[PHONE]',
+  card: '[CARD]',
+  address: '[ADDRESS]',
+  name: '[NAME]'
+}
+
+const EMAIL_PATTERN = /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g
+
+// Full card numbers in groups of four ("4111 1111 1111 1111"), checked with Luhn
+const CARD_NUMBER_PATTERN = /(?<!\d)\d{4}([ -]?)\d{4}\1\d{4}\1\d{1,7}(?![ -]?\d)/g
+// "**** 1234", "xxxx-xxxx-1234", "•••• 1234"
+const MASKED_CARD_PATTERN = /(?:[*•xX]{2,}[ -]?)+\d{2,4}(?!\d)/g
+// "ending in 1234", "Visa 1234", "Mastercard ending with: 1234"
+const CARD_SUFFIX_PATTERN = /\b((?:ending|ends)\s+(?:in|with)|visa|mastercard|amex|american\s+express|discover|maestro)(\s*[:\-–]?\s*(?:ending\s+(?:in|with)\s*:?\s*)?)(\d{4})(?![\d.,])/gi
+
+// A phone label and the number after it
+const LABELLED_PHONE_PATTERN = /\b(phone|tel|telephone|mobile|cell|telefon|téléphone|teléfono|telefono)(\.?\s*(?:no\.?|number)?\s*:?\s*)(\+?[\d(][\d\s().-]{5,20}\d)/gi
+// Digit groups separated by spaces, dots or dashes, optionally with a country code
+const PHONE_PATTERN = /(?<![\w+])(?:\+\d{8,15}|(?:\+\d{1,3}[\s.-]?)?(?:\(\d{1,5}\)[\s.-]?)?\d{2,5}(?:[\s.-]\d{2,8}){1,4})(?!\w)/g
+const MIN_PHONE_DIGITS = 9
+const MAX_PHONE_DIGITS = 15
+// Numbers after these are order, invoice or tracking numbers, not phones
+const ORDER_NUMBER_CONTEXT = /(order|bestell\w*|commande|pedido|ordine|invoice|tracking|confirmation|reference|ref|#|no\.?|nr\.?|n°)\s*[:#]?\s*$/i
+
+// Shipping and billing labels, followed by the recipient's name and address
+const RECIPIENT_LABEL = '(?:ship(?:ping)?\\s+to|bill(?:ing)?\\s+to|deliver(?:y|ing)?\\s+to|sold\\s+to|recipient|(?:shipping|billing|delivery|postal)\\s+address|lieferadresse|rechnungsadresse|adresse\\s+de\\s+(?:livraison|facturation)|direcci[oó]n\\s+de\\s+(?:env[ií]o|facturaci[oó]n)|indirizzo\\s+di\\s+(?:spedizione|fatturazione))\\s*:?\\s*'
+const NAME_WORD = "[A-ZÀ-ÖØ-Þ][A-Za-zÀ-ÖØ-öø-ÿ'’.-]*"
+const RECIPIENT_NAME_PATTERN = new RegExp(`(\\b${RECIPIENT_LABEL})(${NAME_WORD}(?: ${NAME_WORD}){0,3})`, 'gi')
+const RECIPIENT_BLOCK_PATTERN = new RegExp(`\\b${RECIPIENT_LABEL}`, 'gi')
+// Where an address block ends when masking the whole thing
+const BLOCK_END_PATTERN = /\b(?:order|items?|payment|subtotal|total|shipping\s+method|delivery\s+(?:date|method|option)|summary|qty|quantity|arriving|estimated|ship(?:ping)?\s+to|bill(?:ing)?\s+to|billing\s+address|phone|tel|mobile|rechnung|zahlung|artikel|gesamt|telefon|commande|paiement|articles|pedido|pago|ordine|pagamento|articoli)\b|\[(?:PHONE|EMAIL|CARD)\]/i
+const MAX_BLOCK_LENGTH = 160
+const GREETING_PATTERN = new RegExp(`\\b(hi|hello|hey|dear|hallo|bonjour|hola|ciao)(,?\\s+)(${NAME_WORD}(?: ${NAME_WORD})?)(?=\\s*[,!])`, 'gi')
+
+// "123 Main Street", "12B Smith St, Apt 4"
+const STREET_PATTERN = /\b\d{1,5}[A-Za-z]?\s+(?:[A-Z][\w'.-]*\s+){1,4}(?:Street|St|Avenue|Ave|Road|Rd|Boulevard|Blvd|Lane|Ln|Drive|Dr|Court|Ct|Place|Pl|Way|Terrace|Tce|Parade|Pde|Highway|Hwy|Crescent|Cres|Close|Circle|Cir|Square|Sq)\b\.?(?:,?\s*(?:Apt|Apartment|Unit|Suite|Ste|Flat|#)\.?\s*[\w-]+)?/g
+// "Hauptstraße 12", "Musterstr. 5a"
+const GERMAN_STREET_PATTERN = /\b[A-ZÄÖÜ][a-zäöüß-]*(?:straße|strasse|str\.|weg|allee|platz|gasse|ring|damm)\s+\d{1,4}[a-z]?\b/g
+// "12 rue de la Paix", "5 avenue Foch"
+const LATIN_STREET_PATTERN = /\b\d{1,4}(?:\s*(?:bis|ter))?,?\s+(?:rue|avenue|boulevard|bd|chemin|place|allée|impasse)\s+(?:[\wÀ-ÿ'’-]+\s?){1,5}/gi
+// "Calle Mayor 5", "Via Roma 12"
+const NUMBER_LAST_STREET_PATTERN = /\b(?:calle|avenida|plaza|carrer|via|viale|piazza|corso)\s+(?:[\wÀ-ÿ'’-]+\s){1,4}\d{1,4}\b/gi
+const POSTCODE_PATTERNS = [
+  // US "Springfield, IL 62704"
+  /\b[A-Z][A-Za-z.' -]{1,30},\s*[A-Z]{2}\s+\d{5}(?:-\d{4})?\b/g,
+  // UK "SW1A 1AA"
+  /\b[A-Z]{1,2}\d[A-Z\d]?\s*\d[A-Z]{2}\b/g,
+  // Canada "K1A 0B1"
+  /\b[A-Z]\d[A-Z]\s?\d[A-Z]\d\b/g,
+  // Australia "Sydney NSW 2000"
+  /\b(?:[A-Z][a-z]+\s+)?(?:NSW|VIC|QLD|SA|WA|TAS|ACT|NT)\s+\d{4}\b/g
+]
+// "10115 Berlin", "75008 Paris". Only right after a street unless strict,
+// since five digits and a word can be a SKU or quantity
+const EUROPEAN_POSTCODE_PATTERN = /\b\d{5}\s+[A-ZÄÖÜÀ-Ý][a-zäöüßà-ÿ-]+(?:\s[A-Z][a-z]+)?/g
+const STREET_POSTCODE_PATTERN = /(\[ADDRESS\],?\s+)\d{4,5}\s+[A-ZÄÖÜÀ-Ý][a-zäöüßà-ÿ-]+/g
+
+function emptyCounts(): Record<RedactionKind, number> {
+  return { email: 0, phone: 0, card: 0, address: 0, name: 0 }
+}
+
+function countDigits(text: string): number {
+  return text.replace(/\D/g, '').length
+}
+
+function passesLuhn(digits: string): boolean {
+  let sum = 0
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i])
+    if (i % 2 === 1) {
+      digit *= 2
+      if (digit > 9) digit -= 9
+    }
+    sum += digit
+  }
+  return sum % 10 === 0
+}
+
+/**
+ * Mask personal details in `text`. Returns the masked text and how many of
+ * each kind were found, for the "what will be sent" preview.
+ */
+export function redactText(text: string, level: RedactionLevel = DEFAULT_REDACTION_LEVEL): RedactionResult {
+  const counts = emptyCounts()
+  const mask = (kind: RedactionKind): string => {
+    counts[kind]++
+    return MASKS[kind]
+  }
+
+  let result = text.replace(EMAIL_PATTERN, () => mask('email'))
+
+  result = result
+    .replace(CARD_NUMBER_PATTERN, (match) => (passesLuhn(match.replace(/\D/g, '')) ? mask('card') : match))
+    .replace(MASKED_CARD_PATTERN, () => mask('card'))
+    .replace(CARD_SUFFIX_PATTERN, (_match, label, separator) => `${label}${separator}${mask('card')}`)
+
+  result = result
+    .replace(LABELLED_PHONE_PATTERN, (_match, label, separator) => `${label}${separator}${mask('phone')}`)
+    .replace(PHONE_PATTERN, (match, offset: number, whole: string) => {
+      const digits = countDigits(match)
+      if (digits < MIN_PHONE_DIGITS || digits > MAX_PHONE_DIGITS) return match
+      if (ORDER_NUMBER_CONTEXT.test(whole.slice(Math.max(0, offset - 25), offset))) return match
+      return mask('phone')
+    })
+
+  if (level === 'minimal') {
+    return { text: result, counts }
+  }
+
+  if (level === 'strict') {
+    result = maskRecipientBlocks(result, () => mask('address'))
+    result = result
+      .replace(GREETING_PATTERN, (_match, greeting, separator) => `${greeting}${separator}${mask('name')}`)
+      .replace(EUROPEAN_POSTCODE_PATTERN, () => mask('address'))
+  }
+
+  // Streets first, so a name followed by "Hauptstraße 12" stops at the street
+  for (const pattern of [STREET_PATTERN, GERMAN_STREET_PATTERN, LATIN_STREET_PATTERN, NUMBER_LAST_STREET_PATTERN, ...POSTCODE_PATTERNS]) {
+    result = result.replace(pattern, () => mask('address'))
+  }
+  result = result
+    .replace(STREET_POSTCODE_PATTERN, (_match, street) => `${street}${mask('address')}`)
+    .replace(RECIPIENT_NAME_PATTERN, (_match, label) => `${label}${mask('name')}`)
+
+  return { text: result, counts }
+}
+
+/**
+ * Replace everything after each shipping/billing label up to the next
+ * section ("Order summary", "Payment", ...) or MAX_BLOCK_LENGTH characters
+ */
+function maskRecipientBlocks(text: string, mask: () => string): string {
+  let result = ''
+  let position = 0
+
+  for (const match of text.matchAll(RECIPIENT_BLOCK_PATTERN)) {
+    const start = match.index! + match[0].length
+    if (start <= position) continue
+
+    const block = text.slice(start, start + MAX_BLOCK_LENGTH)
+    const end = block.search(BLOCK_END_PATTERN)
+    const details = block.slice(0, end === -1 ? block.length : end).trimEnd()
+    if (!details) continue
+
+    result += `${text.slice(position, start)}${mask()}`
+    position = start + details.length
+  }
+
+  return result + text.slice(position)
+}
+
+/**
+ * Total number of details masked
+ */
+export function countRedactions(result: RedactionResult): number {
+  return Object.values(result.counts).reduce((sum, count) => sum + count, 0)
+}
@@ -25,15 +25,24 @@ vi.mock('./supabase', () => ({
     auth: {
       getUser: vi.fn(() => Promise.resolve({ data: { user: { id: 'user-123' } }, error: null }))
     }
-  }
+  },
+  getSessionUser: vi.fn(() => Promise.resolve({ id: 'user-123' }))
 }))
 
 import {
   sendBrowserNotification,
   scheduleReminderCheck,
   formatReminderMessage,
-  isDueForReminder
+  isDueForReminder,
+  handleNotificationClick,
+  handleNotificationBodyClick,
+  handleNotificationClosed,
+  checkDueReminders,
+  sendDigestNotification,
+  groupByRetailer
 } from './reminders'
+import { supabase } from './supabase'
+import { getOutbox } from './outbox'
 
 // Mock chrome APIs are set up in test-setup.ts
 
@@ -47,7 +56,32 @@ const mockSubscription: Subscription = {
   frequency_days: 30,
   last_ordered_at: '2024-01-01T00:00:00Z',
   next_reminder_at: '2024-01-31T00:00:00Z',
-  created_at: '2024-01-01T00:00:00Z'
+  created_at: '2024-01-01T00:00:00Z',
+  frequency_locked: false,
+  estimated_frequency_days: null,
+  cadence_confidence: null,
+  pack_size: 1,
+  quantity: 1,
+  consumption_rate: null,
+  lead_time_days: 0,
+  updated_at: '2024-01-01T00:00:00Z',
+  typical_price: null,
+  sku: null,
+  currency: 'USD'
+}
+
+// chrome.storage.local backed by a plain object, with a cached subscription list
+function mockLocalStorage(subscriptions: Subscription[]): Record<string, unknown> {
+  const storage: Record<string, unknown> = {
+    subscriptionCache: { userId: 'user-123', subscriptions }
+  }
+  vi.mocked(chrome.storage.local.get).mockImplementation(
+    (async (key: string) => ({ [key]: storage[key] })) as never
+  )
+  vi.mocked(chrome.storage.local.set).mockImplementation(
+    (async (items: Record<string, unknown>) => { Object.assign(storage, items) }) as never
+  )
+  return storage
 }
 
 describe('Reminder Logic', () => {
@@ -102,6 +136,11 @@ describe('Reminder Logic', () => {
       expect(message).toContain('$59.99')
     })
 
+    it('formats the price in the subscription currency', () => {
+      const message = formatReminderMessage({ ...mockSubscription, currency: 'EUR' })
+      expect(message).toContain('€59.99')
+    })
+
     it('handles missing price gracefully', () => {
       const subWithoutPrice = { ...mockSubscription, price: null }
       const message = formatReminderMessage(subWithoutPrice)
@@ -109,6 +148,13 @@ describe('Reminder Logic', () => {
       expect(message).toContain('Dog Food')
       expect(message).not.toContain('$')
     })
+
+    it('flags a price well above the typical one', () => {
+      const pricier = { ...mockSubscription, price: 69.99, typical_price: 59.99 }
+
+      expect(formatReminderMessage(pricier)).toContain('Price up 17% (usually $59.99)')
+      expect(formatReminderMessage(pricier, 20)).not.toContain('Price up')
+    })
   })
 
   describe('sendBrowserNotification', () => {
@@ -204,4 +250,248 @@ describe('Reminder Logic', () => {
       expect(due).toHaveLength(1)
     })
   })
+
+  describe('notification routing', () => {
+    const uuid = '3f2b8c1e-9a4d-4e6f-8b7a-1c2d3e4f5a6b'
+    const uuidSubscription = { ...mockSubscription, id: uuid }
+    let session: Record<string, unknown>
+    let storage: Record<string, unknown>
+    let onLine: { mockRestore: () => void }
+
+    beforeEach(() => {
+      session = {}
+      storage = mockLocalStorage([uuidSubscription])
+      // Offline, so queued changes stay in the outbox
+      onLine = vi.spyOn(navigator, 'onLine', 'get').mockReturnValue(false)
+      vi.mocked(chrome.storage.session.get).mockImplementation(
+        (async (key: string) => ({ [key]: session[key] })) as never
+      )
+      vi.mocked(chrome.storage.session.set).mockImplementation(
+        (async (items: Record<string, unknown>) => { Object.assign(session, items) }) as never
+      )
+    })
+
+    afterEach(() => {
+      onLine.mockRestore()
+    })
+
+    it('registers notifications with their subscription', async () => {
+      const id = await sendBrowserNotification(uuidSubscription)
+
+      expect(session.notificationRegistry).toEqual({
+        [id]: expect.objectContaining({
+          kind: 'reminder',
+          subscriptionId: uuid,
+          productUrl: 'https://amazon.com/product/123'
+        })
+      })
+    })
+
+    it('routes "Reorder Now" to the full subscription UUID', async () => {
+      const id = await sendBrowserNotification(uuidSubscription)
+
+      await handleNotificationClick(id, 0)
+
+      expect(await getOutbox()).toEqual([
+        expect.objectContaining({ subscriptionId: uuid, operation: expect.objectContaining({ kind: 'mark-ordered' }) })
+      ])
+      expect(chrome.tabs.create).toHaveBeenCalledWith({ url: 'https://amazon.com/product/123' })
+      expect(chrome.notifications.clear).toHaveBeenCalledWith(id)
+      expect(session.notificationRegistry).toEqual({})
+    })
+
+    it('routes "Snooze" to the full subscription UUID', async () => {
+      const id = await sendBrowserNotification(uuidSubscription)
+
+      await handleNotificationClick(id, 1)
+
+      expect(await getOutbox()).toEqual([
+        expect.objectContaining({ subscriptionId: uuid, operation: expect.objectContaining({ kind: 'update' }) })
+      ])
+      expect(chrome.tabs.create).not.toHaveBeenCalled()
+    })
+
+    it('falls back to parsing unregistered reminder ids', async () => {
+      await handleNotificationClick(`reminder-${uuid}-1706745600000`, 1)
+
+      expect(await getOutbox()).toEqual([expect.objectContaining({ subscriptionId: uuid })])
+    })
+
+    it('records "Reorder Now" and "Snooze" offline in the cached list', async () => {
+      vi.setSystemTime(new Date('2024-02-01T12:00:00Z'))
+
+      await handleNotificationClick(await sendBrowserNotification(uuidSubscription), 0)
+      let [cached] = (storage.subscriptionCache as { subscriptions: Subscription[] }).subscriptions
+      expect(cached.last_ordered_at).toBe('2024-02-01T12:00:00.000Z')
+      expect(cached.next_reminder_at).toBe('2024-03-02T12:00:00.000Z')
+
+      await handleNotificationClick(await sendBrowserNotification(cached), 1)
+      ;[cached] = (storage.subscriptionCache as { subscriptions: Subscription[] }).subscriptions
+      expect(cached.next_reminder_at).toBe('2024-03-03T12:00:00.000Z')
+
+      expect(supabase.from).not.toHaveBeenCalled()
+      expect((await getOutbox()).map((entry) => entry.operation.kind)).toEqual(['mark-ordered', 'update'])
+    })
+
+    it('ignores notifications it did not create', async () => {
+      await handleNotificationClick('some-other-notification', 0)
+
+      expect(supabase.from).not.toHaveBeenCalled()
+      expect(chrome.notifications.clear).not.toHaveBeenCalled()
+    })
+
+    it('opens the product page on body click without recording an order', async () => {
+      const id = await sendBrowserNotification(uuidSubscription)
+
+      await handleNotificationBodyClick(id)
+
+      expect(chrome.tabs.create).toHaveBeenCalledWith({ url: 'https://amazon.com/product/123' })
+      expect(supabase.from).not.toHaveBeenCalled()
+      expect(session.notificationRegistry).toEqual({})
+    })
+
+    it('opens the popup on body click when there is no product URL', async () => {
+      const id = await sendBrowserNotification({ ...uuidSubscription, product_url: null })
+
+      await handleNotificationBodyClick(id)
+
+      expect(chrome.tabs.create).toHaveBeenCalledWith({ url: 'chrome-extension://test-id/popup.html' })
+    })
+
+    it('forgets dismissed notifications', async () => {
+      const id = await sendBrowserNotification(uuidSubscription)
+
+      await handleNotificationClosed(id)
+
+      expect(session.notificationRegistry).toEqual({})
+    })
+  })
+
+  describe('digest notifications', () => {
+    const due = [
+      mockSubscription,
+      { ...mockSubscription, id: 'sub-2', product_name: 'Cat Litter' },
+      { ...mockSubscription, id: 'sub-3', product_name: 'Coffee Beans', retailer: 'Costco', product_url: null },
+      { ...mockSubscription, id: 'sub-4', product_name: 'Paper Towels', retailer: 'Target' }
+    ]
+    let session: Record<string, unknown>
+    let onLine: { mockRestore: () => void }
+
+    function mockDueSubscriptions(subscriptions: Subscription[]) {
+      vi.mocked(supabase.from).mockReturnValueOnce({
+        select: vi.fn(() => ({
+          eq: vi.fn(() => ({
+            lte: vi.fn(() => ({
+              order: vi.fn(() => Promise.resolve({ data: subscriptions, error: null }))
+            }))
+          }))
+        }))
+      } as never)
+    }
+
+    beforeEach(() => {
+      session = {}
+      vi.mocked(chrome.storage.session.get).mockImplementation(
+        (async (key: string) => ({ [key]: session[key] })) as never
+      )
+      vi.mocked(chrome.storage.session.set).mockImplementation(
+        (async (items: Record<string, unknown>) => { Object.assign(session, items) }) as never
+      )
+      mockLocalStorage(due)
+      onLine = vi.spyOn(navigator, 'onLine', 'get').mockReturnValue(false)
+    })
+
+    afterEach(() => {
+      onLine.mockRestore()
+    })
+
+    it('groups subscriptions by retailer', () => {
+      const groups = groupByRetailer(due)
+
+      expect(Array.from(groups.keys())).toEqual(['Amazon', 'Costco', 'Target'])
+      expect(groups.get('Amazon')).toHaveLength(2)
+    })
+
+    it('sends one list notification grouped by retailer', async () => {
+      await sendDigestNotification(due)
+
+      expect(chrome.notifications.create).toHaveBeenCalledTimes(1)
+      expect(chrome.notifications.create).toHaveBeenCalledWith(
+        expect.stringMatching(/^digest-/),
+        expect.objectContaining({
+          type: 'list',
+          title: '4 items due for reorder',
+          message: 'From 3 stores',
+          items: [
+            { title: 'Amazon (2)', message: 'Dog Food, Cat Litter' },
+            { title: 'Costco (1)', message: 'Coffee Beans' },
+            { title: 'Target (1)', message: 'Paper Towels' }
+          ],
+          buttons: [{ title: 'Open all' }, { title: 'Snooze all' }]
+        }),
+        expect.any(Function)
+      )
+    })
+
+    it('uses a digest when enabled in settings', async () => {
+      vi.mocked(chrome.storage.sync.get).mockResolvedValueOnce({ notificationMode: 'digest' } as never)
+      mockDueSubscriptions(due)
+
+      await checkDueReminders()
+
+      expect(chrome.notifications.create).toHaveBeenCalledTimes(1)
+      expect(chrome.notifications.create).toHaveBeenCalledWith(
+        expect.stringMatching(/^digest-/),
+        expect.objectContaining({ type: 'list' }),
+        expect.any(Function)
+      )
+    })
+
+    it('limits per-item notifications per check', async () => {
+      vi.mocked(chrome.storage.sync.get).mockResolvedValueOnce({ maxNotificationsPerCheck: 2 } as never)
+      mockDueSubscriptions(due)
+
+      await checkDueReminders()
+
+      expect(chrome.notifications.create).toHaveBeenCalledTimes(2)
+    })
+
+    it('holds reminders until the preferred time and schedules a delivery alarm', async () => {
+      vi.setSystemTime(new Date('2024-02-01T12:00:00Z')) // 07:00 in New York
+      mockDueSubscriptions([{ ...mockSubscription, next_reminder_at: '2024-02-01T15:00:00Z' }])
+      vi.mocked(chrome.storage.sync.get).mockResolvedValueOnce({
+        timezone: 'America/New_York',
+        preferredReminderTime: '09:00'
+      } as never)
+
+      await checkDueReminders()
+
+      // Due today, delivered at 09:00 local (14:00 UTC)
+      expect(chrome.notifications.create).not.toHaveBeenCalled()
+      expect(chrome.alarms.create).toHaveBeenCalledWith('deliver-reminders', {
+        when: new Date('2024-02-01T14:00:00Z').getTime()
+      })
+
+      vi.useRealTimers()
+    })
+
+    it('"Open all" opens every product page', async () => {
+      const id = await sendDigestNotification(due)
+
+      await handleNotificationClick(id, 0)
+
+      expect(chrome.tabs.create).toHaveBeenCalledTimes(3)
+      expect(chrome.tabs.create).toHaveBeenCalledWith({ url: 'https://amazon.com/product/123' })
+      expect(supabase.from).not.toHaveBeenCalled()
+    })
+
+    it('"Snooze all" snoozes every item', async () => {
+      const id = await sendDigestNotification(due)
+
+      await handleNotificationClick(id, 1)
+
+      expect((await getOutbox()).map((entry) => entry.subscriptionId)).toEqual(['sub-123', 'sub-2', 'sub-3', 'sub-4'])
+      expect(session.notificationRegistry).toEqual({})
+    })
+  })
 })
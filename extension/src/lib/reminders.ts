@@ -1,8 +1,28 @@
 import type { Subscription } from '@/types'
-import { getDueSubscriptions, markAsOrdered, snoozeReminder } from './subscriptions'
+import { getDueSubscriptions } from './subscriptions'
+import { markAsOrderedLocally, snoozeReminderLocally } from './subscription-store'
+import { getPreferences, syncPreferences, toDeliveryPreferences } from './preferences'
+import { getNextDeliveryTime, getLocalDateKey } from './delivery-window'
+import { getPriceIncrease, formatPriceIncrease, DEFAULT_PRICE_ALERT_PERCENT } from './price-history'
+import { formatPrice } from './currency'
+import {
+  registerNotification,
+  getNotificationContext,
+  unregisterNotification,
+  findNotificationsFor
+} from './notification-registry'
 
 const REMINDER_ALARM_NAME = 'check-reminders'
+// One-shot alarm for the next preferred delivery time, so reminders
+// don't wait for the next hourly poll
+const DELIVERY_ALARM_NAME = 'deliver-reminders'
 const DEFAULT_CHECK_INTERVAL_MINUTES = 60
+// Fetch reminders due up to a day ahead - with a preferred time, items due
+// later today (in the user's timezone) are delivered at that time
+const DUE_LOOKAHEAD_MS = 1000 * 60 * 60 * 24
+
+// Chrome only renders the first few items of a list notification
+const MAX_DIGEST_ITEMS = 5
 
 /**
  * Check if a subscription is due for a reminder
@@ -20,13 +40,22 @@ export function isDueForReminder(subscription: Subscription): boolean {
 }
 
 /**
- * Format the reminder notification message
+ * Format the reminder notification message, flagging a price that is at
+ * least `priceAlertPercent` above the typical one
  */
-export function formatReminderMessage(subscription: Subscription): string {
+export function formatReminderMessage(
+  subscription: Subscription,
+  priceAlertPercent = DEFAULT_PRICE_ALERT_PERCENT
+): string {
   let message = `Time to reorder ${subscription.product_name} from ${subscription.retailer}`
 
   if (subscription.price) {
-    message += ` ($${subscription.price.toFixed(2)})`
+    message += ` (${formatPrice(subscription.price, subscription.currency)})`
+  }
+
+  const increase = getPriceIncrease(subscription, priceAlertPercent)
+  if (increase) {
+    message += `. ${formatPriceIncrease(increase, subscription.currency)}`
   }
 
   return message
@@ -35,14 +64,17 @@ export function formatReminderMessage(subscription: Subscription): string {
 /**
  * Send a browser notification for a subscription reminder
  */
-export async function sendBrowserNotification(subscription: Subscription): Promise<string> {
+export async function sendBrowserNotification(
+  subscription: Subscription,
+  priceAlertPercent = DEFAULT_PRICE_ALERT_PERCENT
+): Promise<string> {
   const notificationId = `reminder-${subscription.id}-${Date.now()}`
 
-  return new Promise((resolve) => {
+  const createdId = await new Promise<string>((resolve) => {
     chrome.notifications.create(notificationId, {
       type: 'basic',
       title: `Reorder Reminder: ${subscription.product_name}`,
-      message: formatReminderMessage(subscription),
+      message: formatReminderMessage(subscription, priceAlertPercent),
       iconUrl: chrome.runtime.getURL('icons/icon128.png'),
       requireInteraction: true,
       buttons: [
@@ -53,6 +85,15 @@ export async function sendBrowserNotification(subscription: Subscription): Promi
       resolve(id || notificationId)
     })
   })
+
+  await registerNotification(createdId, {
+    kind: 'reminder',
+    subscriptionId: subscription.id,
+    productUrl: subscription.product_url,
+    createdAt: new Date().toISOString()
+  })
+
+  return createdId
 }
 
 /**
@@ -73,21 +114,130 @@ export async function cancelReminderCheck(): Promise<void> {
 }
 
 /**
- * Check for due reminders and send notifications
+ * Group subscriptions by retailer, keeping the retailer order of first appearance
+ */
+export function groupByRetailer(subscriptions: Subscription[]): Map<string, Subscription[]> {
+  const groups = new Map<string, Subscription[]>()
+  for (const subscription of subscriptions) {
+    const group = groups.get(subscription.retailer) || []
+    group.push(subscription)
+    groups.set(subscription.retailer, group)
+  }
+  return groups
+}
+
+/**
+ * Send one list notification covering several due subscriptions
+ */
+export async function sendDigestNotification(
+  subscriptions: Subscription[],
+  priceAlertPercent = DEFAULT_PRICE_ALERT_PERCENT
+): Promise<string> {
+  const notificationId = `digest-${Date.now()}`
+  const groups = groupByRetailer(subscriptions)
+
+  const entries = Array.from(groups)
+  const shown = entries.length > MAX_DIGEST_ITEMS ? entries.slice(0, MAX_DIGEST_ITEMS - 1) : entries
+  const items = shown.map(([retailer, group]) => ({
+    title: `${retailer} (${group.length})`,
+    message: group.map((s) => {
+      const increase = getPriceIncrease(s, priceAlertPercent)
+      return increase ? `${s.product_name} (price up ${increase.percent}%)` : s.product_name
+    }).join(', ')
+  }))
+
+  const hidden = entries.slice(shown.length)
+  if (hidden.length > 0) {
+    const hiddenCount = hidden.reduce((sum, [, group]) => sum + group.length, 0)
+    items.push({ title: `+${hiddenCount} more`, message: `from ${hidden.length} other stores` })
+  }
+
+  const count = subscriptions.length
+  const storeCount = groups.size
+
+  const createdId = await new Promise<string>((resolve) => {
+    chrome.notifications.create(notificationId, {
+      type: 'list',
+      title: `${count} item${count > 1 ? 's' : ''} due for reorder`,
+      message: `From ${storeCount} store${storeCount > 1 ? 's' : ''}`,
+      items,
+      iconUrl: chrome.runtime.getURL('icons/icon128.png'),
+      requireInteraction: true,
+      buttons: [
+        { title: 'Open all' },
+        { title: 'Snooze all' }
+      ]
+    }, (id) => {
+      resolve(id || notificationId)
+    })
+  })
+
+  await registerNotification(createdId, {
+    kind: 'digest',
+    subscriptionIds: subscriptions.map((s) => s.id),
+    productUrls: subscriptions.map((s) => s.product_url).filter((url): url is string => !!url),
+    createdAt: new Date().toISOString()
+  })
+
+  return createdId
+}
+
+/**
+ * Schedule a one-shot check for the next pending delivery time
+ */
+function scheduleDelivery(when: Date | null): void {
+  if (when) {
+    chrome.alarms.create(DELIVERY_ALARM_NAME, { when: when.getTime() })
+  } else {
+    chrome.alarms.clear(DELIVERY_ALARM_NAME)
+  }
+}
+
+/**
+ * Check for due reminders and send notifications, honouring the user's
+ * preferred delivery time and quiet hours
  */
 export async function checkDueReminders(): Promise<void> {
   try {
-    const dueSubscriptions = await getDueSubscriptions()
+    const now = new Date()
+    const dueSubscriptions = await getDueSubscriptions(new Date(now.getTime() + DUE_LOOKAHEAD_MS))
+    const settings = await getPreferences()
+    const prefs = toDeliveryPreferences(settings)
 
     // Track which subscriptions we've already notified about today
     // to avoid duplicate notifications
-    const notifiedToday = await getNotifiedToday()
+    const today = getLocalDateKey(now, prefs.timezone)
+    const notifiedToday = await getNotifiedToday(today)
+    const pending: Subscription[] = []
+    let nextDelivery: Date | null = null
 
     for (const subscription of dueSubscriptions) {
-      if (!notifiedToday.has(subscription.id)) {
-        await sendBrowserNotification(subscription)
-        await recordNotification(subscription.id)
+      if (notifiedToday.has(subscription.id) || !subscription.next_reminder_at) continue
+
+      const deliverAt = getNextDeliveryTime(subscription.next_reminder_at, now, prefs)
+      if (deliverAt <= now) {
+        pending.push(subscription)
+      } else if (!nextDelivery || deliverAt < nextDelivery) {
+        nextDelivery = deliverAt
+      }
+    }
+
+    scheduleDelivery(nextDelivery)
+    if (pending.length === 0) return
+
+    if (settings.notificationMode === 'digest' && pending.length > 1) {
+      await sendDigestNotification(pending, settings.priceAlertPercent)
+      for (const subscription of pending) {
+        await recordNotification(subscription.id, today)
       }
+      return
+    }
+
+    // Anything over the limit is picked up by the next check
+    const limit = Math.max(1, settings.maxNotificationsPerCheck)
+    for (const subscription of pending.slice(0, limit)) {
+      await sendBrowserNotification(subscription, settings.priceAlertPercent)
+      await recordNotification(subscription.id, today)
     }
   } catch (error) {
     console.error('Error checking due reminders:', error)
@@ -95,10 +245,9 @@ export async function checkDueReminders(): Promise<void> {
 }
 
 /**
- * Get IDs of subscriptions that were notified today
+ * Get IDs of subscriptions that were notified today (a local "YYYY-MM-DD")
  */
-async function getNotifiedToday(): Promise<Set<string>> {
-  const today = new Date().toISOString().split('T')[0]
+async function getNotifiedToday(today: string): Promise<Set<string>> {
   const result = await chrome.storage.local.get(['notifiedSubscriptions', 'notifiedDate'])
 
   // Reset if it's a new day
@@ -113,8 +262,7 @@ async function getNotifiedToday(): Promise<Set<string>> {
 /**
  * Record that a notification was sent for a subscription
  */
-async function recordNotification(subscriptionId: string): Promise<void> {
-  const today = new Date().toISOString().split('T')[0]
+async function recordNotification(subscriptionId: string, today: string): Promise<void> {
   const result = await chrome.storage.local.get(['notifiedSubscriptions', 'notifiedDate'])
 
   let notified = result.notifiedSubscriptions || []
@@ -133,33 +281,78 @@ export async function handleNotificationClick(
   notificationId: string,
   buttonIndex: number
 ): Promise<void> {
-  // Extract subscription ID from notification ID
-  const match = notificationId.match(/reminder-([^-]+)/)
-  if (!match) return
-
-  const subscriptionId = match[1]
+  const context = await getNotificationContext(notificationId)
+  if (!context) return
 
-  if (buttonIndex === 0) {
+  if (context.kind === 'digest') {
+    if (buttonIndex === 0) {
+      // "Open all" - open every product page; orders are recorded when confirmed
+      for (const url of context.productUrls) {
+        chrome.tabs.create({ url })
+      }
+    } else if (buttonIndex === 1) {
+      // "Snooze all" - snooze every item in the digest for 1 day
+      for (const subscriptionId of context.subscriptionIds) {
+        await snoozeReminderLocally(subscriptionId, 1)
+      }
+    }
+  } else if (buttonIndex === 0) {
     // "Reorder Now" - mark as ordered and open product URL
-    const subscription = await markAsOrdered(subscriptionId)
-    if (subscription?.product_url) {
-      chrome.tabs.create({ url: subscription.product_url })
+    const subscription = await markAsOrderedLocally(context.subscriptionId, { source: 'notification' })
+    const productUrl = subscription?.product_url || context.productUrl
+    if (productUrl) {
+      chrome.tabs.create({ url: productUrl })
     }
   } else if (buttonIndex === 1) {
     // "Snooze" - snooze for 1 day
-    await snoozeReminder(subscriptionId, 1)
+    await snoozeReminderLocally(context.subscriptionId, 1)
   }
 
   // Clear the notification
   chrome.notifications.clear(notificationId)
+  await unregisterNotification(notificationId)
+}
+
+/**
+ * Handle a click on the notification body - open the product page (or the
+ * popup for digests) without recording an order, since the user may not buy it
+ */
+export async function handleNotificationBodyClick(notificationId: string): Promise<void> {
+  const context = await getNotificationContext(notificationId)
+  if (!context) return
+
+  const productUrl = context.kind === 'reminder' ? context.productUrl : null
+  chrome.tabs.create({ url: productUrl || chrome.runtime.getURL('popup.html') })
+
+  chrome.notifications.clear(notificationId)
+  await unregisterNotification(notificationId)
 }
 
 /**
  * Handle notification close/dismiss
  */
 export async function handleNotificationClosed(notificationId: string): Promise<void> {
-  // Could log dismissal for analytics
   console.log(`Notification ${notificationId} was closed`)
+  await unregisterNotification(notificationId)
+}
+
+/**
+ * Clear notifications about a subscription that was dealt with on another
+ * device. Digests that also list other items stay, minus this one.
+ */
+export async function clearNotificationsFor(subscriptionId: string): Promise<void> {
+  for (const [notificationId, context] of await findNotificationsFor(subscriptionId)) {
+    if (context.kind === 'digest' && context.subscriptionIds.length > 1) {
+      await registerNotification(notificationId, {
+        ...context,
+        subscriptionIds: context.subscriptionIds.filter((id) => id !== subscriptionId)
+      })
+      continue
+    }
+
+    chrome.notifications.clear(notificationId)
+    await unregisterNotification(notificationId)
+  }
 }
 
 /**
@@ -172,12 +365,16 @@ export function initializeReminderSystem(): void {
   // Set up alarm listener
   chrome.alarms.onAlarm.addListener((alarm) => {
     if (alarm.name === REMINDER_ALARM_NAME) {
+      // Pick up preference changes made on other devices before checking
+      syncPreferences().then(checkDueReminders)
+    } else if (alarm.name === DELIVERY_ALARM_NAME) {
       checkDueReminders()
     }
   })
 
-  // Set up notification button click listener
+  // Set up notification button and body click listeners
   chrome.notifications.onButtonClicked.addListener(handleNotificationClick)
+  chrome.notifications.onClicked.addListener(handleNotificationBodyClick)
 
   // Set up notification close listener
   chrome.notifications.onClosed.addListener(handleNotificationClosed)
@@ -0,0 +1,129 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import type { Subscription, Order, StorageBackend } from '@/types'
+
+const remote = vi.hoisted(() => ({
+  getUserId: vi.fn(),
+  insertSubscription: vi.fn(),
+  insertOrder: vi.fn()
+}))
+
+vi.mock('./supabase-backend', () => ({
+  createSupabaseBackend: () => ({ id: 'supabase', ...remote }) as unknown as StorageBackend
+}))
+
+import { getStorageBackendId, getStorageBackend, migrateLocalData } from './storage-backend'
+
+const localSubscription: Subscription = {
+  id: 'local-sub',
+  user_id: 'local',
+  product_name: 'Dog Food',
+  product_url: null,
+  retailer: 'Amazon',
+  price: 59.99,
+  frequency_days: 30,
+  last_ordered_at: '2024-01-01T00:00:00Z',
+  next_reminder_at: '2024-01-31T00:00:00Z',
+  created_at: '2023-06-01T00:00:00Z',
+  frequency_locked: true,
+  estimated_frequency_days: 28,
+  cadence_confidence: 0.8,
+  pack_size: 1,
+  quantity: 1,
+  consumption_rate: null,
+  lead_time_days: 0,
+  updated_at: '2024-01-01T00:00:00Z',
+  typical_price: null,
+  sku: null,
+  currency: 'USD'
+}
+
+const localOrder: Order = {
+  id: 'local-order',
+  subscription_id: 'local-sub',
+  user_id: 'local',
+  ordered_at: '2024-01-01T00:00:00Z',
+  quantity: 1,
+  unit_price: 59.99,
+  currency: 'USD',
+  order_number: '123',
+  source: 'detected',
+  created_at: '2024-01-01T00:00:00Z'
+}
+
+describe('Storage Backend', () => {
+  let storage: Record<string, unknown>
+
+  beforeEach(() => {
+    storage = {
+      storageBackend: 'local',
+      localSubscriptions: [localSubscription],
+      localOrders: [localOrder]
+    }
+    vi.mocked(chrome.storage.local.get).mockImplementation((async (keys: string | string[]) => {
+      const result: Record<string, unknown> = {}
+      for (const key of Array.isArray(keys) ? keys : [keys]) {
+        result[key] = storage[key]
+      }
+      return result
+    }) as never)
+    vi.mocked(chrome.storage.local.set).mockImplementation(
+      (async (items: Record<string, unknown>) => { Object.assign(storage, items) }) as never
+    )
+    vi.mocked(chrome.storage.local.remove).mockImplementation((async (keys: string | string[]) => {
+      for (const key of Array.isArray(keys) ? keys : [keys]) {
+        delete storage[key]
+      }
+    }) as never)
+
+    remote.getUserId.mockResolvedValue('user-123')
+    remote.insertSubscription.mockImplementation(async (row) => ({ ...row, id: 'sub-123' }))
+    remote.insertOrder.mockImplementation(async (row) => ({ ...row, id: 'order-123' }))
+  })
+
+  it('defaults to Supabase for existing installs', async () => {
+    delete storage.storageBackend
+    expect(await getStorageBackendId()).toBe('supabase')
+    expect((await getStorageBackend()).id).toBe('supabase')
+  })
+
+  describe('migrateLocalData', () => {
+    it('copies subscriptions and order history to the account, then switches', async () => {
+      expect(await migrateLocalData()).toBe(true)
+
+      const { id: _id, updated_at: _updatedAt, ...fields } = localSubscription
+      expect(remote.insertSubscription).toHaveBeenCalledWith({ ...fields, user_id: 'user-123' })
+      const { id: _orderId, ...orderFields } = localOrder
+      expect(remote.insertOrder).toHaveBeenCalledWith({
+        ...orderFields,
+        subscription_id: 'sub-123',
+        user_id: 'user-123'
+      })
+
+      expect(storage.storageBackend).toBe('supabase')
+      expect(storage.localSubscriptions).toBeUndefined()
+      expect(storage.localOrders).toBeUndefined()
+      expect(storage.localMigration).toBeUndefined()
+    })
+
+    it('keeps local data when a copy fails and resumes without duplicates', async () => {
+      remote.insertOrder.mockResolvedValueOnce(null)
+
+      expect(await migrateLocalData()).toBe(false)
+      expect(storage.storageBackend).toBe('local')
+      expect(storage.localSubscriptions).toEqual([localSubscription])
+
+      expect(await migrateLocalData()).toBe(true)
+      expect(remote.insertSubscription).toHaveBeenCalledTimes(1)
+      expect(remote.insertOrder).toHaveBeenCalledTimes(2)
+      expect(storage.storageBackend).toBe('supabase')
+    })
+
+    it('requires a signed-in user', async () => {
+      remote.getUserId.mockResolvedValueOnce(null)
+
+      expect(await migrateLocalData()).toBe(false)
+      expect(remote.insertSubscription).not.toHaveBeenCalled()
+      expect(storage.storageBackend).toBe('local')
+    })
+  })
+})
@@ -0,0 +1,127 @@
+import { createSupabaseBackend } from './supabase-backend'
+import { createLocalBackend, readLocalData, clearLocalData } from './local-backend'
+import type { StorageBackend, StorageBackendId } from '@/types'
+
+export const STORAGE_BACKEND_KEY = 'storageBackend'
+// Local ids already copied to the account, so an interrupted move can resume
+const MIGRATION_KEY = 'localMigration'
+
+interface MigrationProgress {
+  userId: string
+  ids: Record<string, string>
+}
+
+/**
+ * Which backend holds the user's subscriptions (chosen at setup, stored
+ * locally; installs from before the choice existed use Supabase)
+ */
+export async function getStorageBackendId(): Promise<StorageBackendId> {
+  const result = await chrome.storage.local.get(STORAGE_BACKEND_KEY)
+  return result[STORAGE_BACKEND_KEY] === 'local' ? 'local' : 'supabase'
+}
+
+export async function setStorageBackendId(id: StorageBackendId): Promise<void> {
+  await chrome.storage.local.set({ [STORAGE_BACKEND_KEY]: id })
+}
+
+export function createStorageBackend(id: StorageBackendId): StorageBackend {
+  return id === 'local' ? createLocalBackend() : createSupabaseBackend()
+}
+
+/**
+ * Get the configured storage backend
+ */
+export async function getStorageBackend(): Promise<StorageBackend> {
+  return createStorageBackend(await getStorageBackendId())
+}
+
+async function readMigrationProgress(userId: string): Promise<MigrationProgress> {
+  const result = await chrome.storage.local.get(MIGRATION_KEY)
+  const progress = result[MIGRATION_KEY] as MigrationProgress | undefined
+  return progress && progress.userId === userId ? progress : { userId, ids: {} }
+}
+
+/**
+ * Copy local subscriptions and their order and price history to the account,
+ * skipping anything an earlier attempt already copied. Returns false on the
+ * first failure.
+ */
+async function copyLocalData(remote: StorageBackend, userId: string): Promise<boolean> {
+  const progress = await readMigrationProgress(userId)
+  const { subscriptions, orders, prices } = await readLocalData()
+
+  const saveProgress = () => chrome.storage.local.set({ [MIGRATION_KEY]: progress })
+
+  for (const subscription of subscriptions) {
+    if (progress.ids[subscription.id]) continue
+
+    const { id, user_id: _localUser, updated_at: _updatedAt, ...fields } = subscription
+    const copied = await remote.insertSubscription({ ...fields, user_id: userId })
+    if (!copied) {
+      return false
+    }
+    progress.ids[id] = copied.id
+    await saveProgress()
+  }
+
+  for (const order of orders) {
+    const subscriptionId = progress.ids[order.subscription_id]
+    if (!subscriptionId || progress.ids[order.id]) continue
+
+    const { id, ...fields } = order
+    const copied = await remote.insertOrder({ ...fields, subscription_id: subscriptionId, user_id: userId })
+    if (!copied) {
+      return false
+    }
+    progress.ids[id] = copied.id
+    await saveProgress()
+  }
+
+  for (const observation of prices) {
+    const subscriptionId = progress.ids[observation.subscription_id]
+    if (!subscriptionId || progress.ids[observation.id]) continue
+
+    const { id, ...fields } = observation
+    const copied = await remote.insertPriceObservation({
+      ...fields,
+      subscription_id: subscriptionId,
+      user_id: userId
+    })
+    if (!copied) {
+      return false
+    }
+    progress.ids[id] = copied.id
+    await saveProgress()
+  }
+
+  return true
+}
+
+/**
+ * Move local-only data to the signed-in account and switch to Supabase.
+ * Local data is only cleared once everything is copied; on failure it stays
+ * put and a retry picks up where this attempt stopped.
+ */
+export async function migrateLocalData(): Promise<boolean> {
+  const remote = createSupabaseBackend()
+  const userId = await remote.getUserId()
+  if (!userId) {
+    console.error('[Subscribe Any] Sign in before moving local data to an account')
+    return false
+  }
+
+  if (!(await copyLocalData(remote, userId))) {
+    return false
+  }
+
+  // Switch first, then copy anything saved locally while the first pass ran
+  await setStorageBackendId('supabase')
+  if (!(await copyLocalData(remote, userId))) {
+    await setStorageBackendId('local')
+    return false
+  }
+
+  await clearLocalData()
+  await chrome.storage.local.remove(MIGRATION_KEY)
+  return true
+}
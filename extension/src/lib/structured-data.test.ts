@@ -0,0 +1,240 @@
+import { describe, it, expect } from 'vitest'
+import { extractStructuredOrder, extractProductPrice, extractProductName, extractPriceCurrency } from './structured-data'
+
+function jsonLdPage(data: unknown): string {
+  return `
+    <html>
+      <head>
+        <script type="application/ld+json">${JSON.stringify(data)}</script>
+      </head>
+      <body><h1>Thank you for your order</h1></body>
+    </html>
+  `
+}
+
+describe('Structured Data Extraction', () => {
+  describe('JSON-LD', () => {
+    it('maps acceptedOffer to products and seller to retailer', () => {
+      const result = extractStructuredOrder(jsonLdPage({
+        '@context': 'https://schema.org',
+        '@type': 'Order',
+        orderNumber: 'ORD-1001',
+        seller: { '@type': 'Organization', name: 'Chewy' },
+        acceptedOffer: [
+          {
+            '@type': 'Offer',
+            itemOffered: { '@type': 'Product', name: 'Purina Pro Plan 35lb', sku: 'PUR-35' },
+            price: '59.99',
+            priceCurrency: 'USD',
+            eligibleQuantity: { '@type': 'QuantitativeValue', value: 2 }
+          },
+          {
+            '@type': 'Offer',
+            itemOffered: { '@type': 'Product', name: 'Dog Treats' },
+            price: 12.5
+          }
+        ]
+      }))
+
+      expect(result).not.toBeNull()
+      expect(result?.isOrderConfirmation).toBe(true)
+      expect(result?.retailer).toBe('Chewy')
+      expect(result?.orderNumber).toBe('ORD-1001')
+      expect(result?.products).toHaveLength(2)
+      expect(result?.products[0]).toMatchObject({
+        name: 'Purina Pro Plan 35lb',
+        price: 59.99,
+        quantity: 2,
+        sku: 'PUR-35'
+      })
+      expect(result?.products[1].price).toBe(12.5)
+      expect(result?.products[1].quantity).toBe(1)
+    })
+
+    it('finds orders inside @graph and arrays', () => {
+      const result = extractStructuredOrder(jsonLdPage([
+        { '@type': 'WebPage', name: 'Checkout' },
+        {
+          '@graph': [
+            {
+              '@type': 'Order',
+              seller: 'Acme',
+              acceptedOffer: { itemOffered: { name: 'Coffee Beans 1kg' }, price: 24 }
+            }
+          ]
+        }
+      ]))
+
+      expect(result?.products[0].name).toBe('Coffee Beans 1kg')
+      expect(result?.retailer).toBe('Acme')
+    })
+
+    it('reads orderedItem OrderItems', () => {
+      const result = extractStructuredOrder(jsonLdPage({
+        '@type': 'http://schema.org/Order',
+        orderNumber: 42,
+        orderedItem: [
+          {
+            '@type': 'OrderItem',
+            orderQuantity: 3,
+            orderedItem: {
+              '@type': 'Product',
+              name: 'Paper Towels 6 Pack',
+              gtin: '0123456789012',
+              offers: { price: '9.99' }
+            }
+          }
+        ]
+      }))
+
+      expect(result?.orderNumber).toBe('42')
+      expect(result?.products[0]).toMatchObject({
+        name: 'Paper Towels 6 Pack',
+        price: 9.99,
+        quantity: 3,
+        sku: '0123456789012'
+      })
+    })
+
+    it('follows Invoice.referencesOrder', () => {
+      const result = extractStructuredOrder(jsonLdPage({
+        '@type': 'Invoice',
+        provider: { name: 'Office Depot' },
+        referencesOrder: {
+          '@type': 'Order',
+          acceptedOffer: { itemOffered: { name: 'Printer Ink Black' }, price: 35 }
+        }
+      }))
+
+      expect(result?.products[0].name).toBe('Printer Ink Black')
+      expect(result?.retailer).toBe('Office Depot')
+    })
+
+    it('reads comma-decimal prices', () => {
+      const result = extractStructuredOrder(jsonLdPage({
+        '@type': 'Order',
+        acceptedOffer: [
+          { itemOffered: { name: 'Kaffee 1kg' }, price: '29,99', priceCurrency: 'EUR' },
+          { itemOffered: { name: 'Espressomaschine' }, price: '1.234,56', priceCurrency: 'EUR' },
+          { itemOffered: { name: 'Filter' }, price: '4,50 €' }
+        ]
+      }))
+
+      expect(result?.products.map((p) => p.price)).toEqual([29.99, 1234.56, 4.5])
+    })
+
+    it('ignores malformed JSON-LD and non-order types', () => {
+      const html = `
+        <script type="application/ld+json">{ not json</script>
+        <script type="application/ld+json">${JSON.stringify({ '@type': 'Product', name: 'Widget' })}</script>
+      `
+      expect(extractStructuredOrder(html)).toBeNull()
+    })
+
+    it('returns null for orders without products', () => {
+      expect(extractStructuredOrder(jsonLdPage({ '@type': 'Order', orderNumber: '1' }))).toBeNull()
+    })
+  })
+
+  describe('microdata', () => {
+    it('parses itemprop Order markup', () => {
+      const html = `
+        <div itemscope itemtype="https://schema.org/Order">
+          <span itemprop="orderNumber">WC-5521</span>
+          <div itemprop="seller" itemscope itemtype="https://schema.org/Organization">
+            <span itemprop="name">Green Grocer</span>
+          </div>
+          <div itemprop="acceptedOffer" itemscope itemtype="https://schema.org/Offer">
+            <div itemprop="itemOffered" itemscope itemtype="https://schema.org/Product">
+              <span itemprop="name">Organic Oat Milk 1L</span>
+              <meta itemprop="sku" content="OAT-1L">
+            </div>
+            <meta itemprop="price" content="3.49">
+            <div itemprop="eligibleQuantity" itemscope itemtype="https://schema.org/QuantitativeValue">
+              <meta itemprop="value" content="6">
+            </div>
+          </div>
+        </div>
+      `
+      const result = extractStructuredOrder(html)
+
+      expect(result?.orderNumber).toBe('WC-5521')
+      expect(result?.retailer).toBe('Green Grocer')
+      expect(result?.products).toEqual([
+        expect.objectContaining({ name: 'Organic Oat Milk 1L', price: 3.49, quantity: 6, sku: 'OAT-1L' })
+      ])
+    })
+
+    it('returns null for pages without structured data', () => {
+      expect(extractStructuredOrder('<html><body><p>Order #123</p></body></html>')).toBeNull()
+    })
+  })
+
+  describe('extractProductPrice', () => {
+    const parse = (html: string) => new DOMParser().parseFromString(html, 'text/html')
+
+    it('reads the Product offer price', () => {
+      const doc = parse(jsonLdPage({
+        '@context': 'https://schema.org',
+        '@graph': [{ '@type': 'Product', name: 'Dog Food', offers: { '@type': 'Offer', price: '62.50' } }]
+      }))
+      expect(extractProductPrice(doc)).toBe(62.5)
+    })
+
+    it('reads a comma-decimal offer price', () => {
+      const doc = parse(jsonLdPage({
+        '@type': 'Product',
+        name: 'Hundefutter',
+        offers: { '@type': 'Offer', price: '1 299,00' }
+      }))
+      expect(extractProductPrice(doc)).toBe(1299)
+    })
+
+    it('falls back to Open Graph product tags', () => {
+      const doc = parse('<html><head><meta property="product:price:amount" content="19.99"></head></html>')
+      expect(extractProductPrice(doc)).toBe(19.99)
+    })
+
+    it('returns null when the page states no price', () => {
+      expect(extractProductPrice(parse('<html><body><p>$5 off</p></body></html>'))).toBeNull()
+    })
+  })
+
+  describe('extractPriceCurrency', () => {
+    const parse = (html: string) => new DOMParser().parseFromString(html, 'text/html')
+
+    it('reads priceCurrency from offers nested anywhere', () => {
+      const doc = parse(jsonLdPage({
+        '@context': 'https://schema.org',
+        '@type': 'Order',
+        acceptedOffer: [{ '@type': 'Offer', price: '29,99', priceCurrency: 'eur', itemOffered: { name: 'Kaffee' } }]
+      }))
+      expect(extractPriceCurrency(doc)).toBe('EUR')
+    })
+
+    it('falls back to Open Graph product tags', () => {
+      const doc = parse('<html><head><meta property="product:price:currency" content="GBP"></head></html>')
+      expect(extractPriceCurrency(doc)).toBe('GBP')
+      expect(extractPriceCurrency(parse('<html><body><p>£5 off</p></body></html>'))).toBeNull()
+    })
+  })
+
+  describe('extractProductName', () => {
+    const parse = (html: string) => new DOMParser().parseFromString(html, 'text/html')
+
+    it('reads the Product name', () => {
+      const doc = parse(jsonLdPage({ '@context': 'https://schema.org', '@type': 'Product', name: 'Dog Food 10kg' }))
+      expect(extractProductName(doc)).toBe('Dog Food 10kg')
+    })
+
+    it('only trusts og:title on pages marked as a product', () => {
+      const product = parse(
+        '<html><head><meta property="og:type" content="product"><meta property="og:title" content="Coffee Beans 1kg"></head></html>'
+      )
+      const article = parse('<html><head><meta property="og:title" content="Our Story"></head></html>')
+
+      expect(extractProductName(product)).toBe('Coffee Beans 1kg')
+      expect(extractProductName(article)).toBeNull()
+    })
+  })
+})
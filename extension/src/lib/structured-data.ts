@@ -0,0 +1,345 @@
+import { parseAmount } from './currency'
+import type { OrderAnalysis, ProductInfo } from '@/types'
+
+/**
+ * schema.org Order/Invoice extraction from JSON-LD and microdata.
+ * Stores that embed structured data give exact names, prices and SKUs,
+ * so a hit here lets us skip the LLM entirely.
+ */
+
+type SchemaNode = Record<string, unknown>
+
+const ORDER_TYPES = ['Order', 'Invoice']
+
+/**
+ * Normalize a value that may be a single item or an array into an array
+ */
+function asArray<T>(value: T | T[] | null | undefined): T[] {
+  if (value === null || value === undefined) return []
+  return Array.isArray(value) ? value : [value]
+}
+
+function isNode(value: unknown): value is SchemaNode {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+/**
+ * Check a node's @type against schema.org type names (handles full IRIs)
+ */
+function hasType(node: SchemaNode, types: string[]): boolean {
+  return asArray(node['@type'] as string | string[]).some((t) =>
+    typeof t === 'string' && types.includes(t.replace(/^https?:\/\/schema\.org\//, ''))
+  )
+}
+
+function getText(value: unknown): string | null {
+  const first = asArray(value)[0]
+  if (typeof first === 'string') return first.trim() || null
+  if (typeof first === 'number') return String(first)
+  if (isNode(first)) return getText(first.name ?? first['@value'])
+  return null
+}
+
+function getNumber(value: unknown): number | null {
+  const first = asArray(value)[0]
+  if (typeof first === 'number') return Number.isFinite(first) ? first : null
+  // Either decimal separator ("29,99", "1.234,56"), around any currency marker
+  if (typeof first === 'string') return parseAmount(first.replace(/[^\d.,'\s]/g, '').trim())
+  if (isNode(first)) return getNumber(first.value ?? first['@value'])
+  return null
+}
+
+/**
+ * An ISO 4217 code from a priceCurrency value, or null
+ */
+function getCurrency(value: unknown): string | null {
+  const code = getText(value)?.toUpperCase()
+  return code && /^[A-Z]{3}$/.test(code) ? code : null
+}
+
+/**
+ * Recursively collect Order/Invoice nodes from parsed JSON-LD
+ * (top-level arrays, @graph containers and Invoice.referencesOrder)
+ */
+function collectOrderNodes(value: unknown, found: SchemaNode[]): void {
+  if (Array.isArray(value)) {
+    value.forEach((v) => collectOrderNodes(v, found))
+    return
+  }
+  if (!isNode(value)) return
+
+  if (hasType(value, ORDER_TYPES)) {
+    found.push(value)
+  }
+  if (value['@graph']) {
+    collectOrderNodes(value['@graph'], found)
+  }
+  if (hasType(value, ['Invoice']) && value.referencesOrder) {
+    collectOrderNodes(value.referencesOrder, found)
+  }
+}
+
+/**
+ * Map an Offer (Order.acceptedOffer) to ProductInfo
+ */
+function offerToProduct(offer: SchemaNode): ProductInfo | null {
+  const item = asArray(offer.itemOffered).find(isNode)
+  const name = getText(item?.name ?? offer.name)
+  if (!name) return null
+
+  const priceSpec = asArray(offer.priceSpecification).find(isNode)
+
+  return {
+    name,
+    price: getNumber(offer.price ?? priceSpec?.price),
+    quantity: getNumber(offer.eligibleQuantity) ?? 1,
+    isRecurring: true,
+    category: getText(item?.category ?? offer.category),
+    suggestedFrequencyDays: null,
+    sku: getText(item?.sku ?? offer.sku ?? item?.gtin ?? item?.mpn),
+    currency: getCurrency(offer.priceCurrency ?? priceSpec?.priceCurrency)
+  }
+}
+
+/**
+ * Map an OrderItem (Order.orderedItem) to ProductInfo
+ */
+function orderItemToProduct(orderItem: SchemaNode): ProductInfo | null {
+  // orderedItem may be an OrderItem wrapping a Product, or a Product directly
+  const product = hasType(orderItem, ['OrderItem'])
+    ? asArray(orderItem.orderedItem).find(isNode)
+    : orderItem
+  const name = getText(product?.name)
+  if (!product || !name) return null
+
+  const offer = asArray(product.offers).find(isNode)
+
+  return {
+    name,
+    price: getNumber(offer?.price ?? product.price),
+    quantity: getNumber(orderItem.orderQuantity) ?? 1,
+    isRecurring: true,
+    category: getText(product.category),
+    suggestedFrequencyDays: null,
+    sku: getText(product.sku ?? product.gtin ?? product.mpn),
+    currency: getCurrency(offer?.priceCurrency)
+  }
+}
+
+/**
+ * Convert a schema.org Order node into an OrderAnalysis
+ */
+function orderNodeToAnalysis(order: SchemaNode): OrderAnalysis {
+  const products: ProductInfo[] = []
+  const addProduct = (product: ProductInfo | null) => {
+    if (product && !products.some((p) => p.name === product.name)) {
+      products.push(product)
+    }
+  }
+
+  asArray(order.acceptedOffer).filter(isNode).forEach((offer) => addProduct(offerToProduct(offer)))
+  asArray(order.orderedItem).filter(isNode).forEach((item) => addProduct(orderItemToProduct(item)))
+
+  return {
+    isOrderConfirmation: true,
+    confidence: 0.95,
+    products,
+    retailer: getText(order.seller ?? order.merchant ?? order.provider),
+    orderNumber: getText(order.orderNumber ?? order.confirmationNumber)
+  }
+}
+
+/**
+ * Parse all JSON-LD blocks in a document, ignoring malformed ones
+ */
+function parseJsonLd(doc: Document): unknown[] {
+  const blocks: unknown[] = []
+  doc.querySelectorAll('script[type="application/ld+json"]').forEach((script) => {
+    try {
+      blocks.push(JSON.parse(script.textContent || ''))
+    } catch {
+      // Stores often ship invalid JSON-LD - skip it
+    }
+  })
+  return blocks
+}
+
+/**
+ * Read an itemprop value following the microdata spec
+ */
+function microdataValue(el: Element): unknown {
+  if (el.hasAttribute('itemscope')) {
+    return microdataToNode(el)
+  }
+  if (el.hasAttribute('content')) {
+    return el.getAttribute('content')
+  }
+  const tag = el.tagName.toLowerCase()
+  if (tag === 'a' || tag === 'link') return el.getAttribute('href')
+  if (tag === 'img') return el.getAttribute('src')
+  if (tag === 'time') return el.getAttribute('datetime') || el.textContent?.trim()
+  if (tag === 'data' || tag === 'meter') return el.getAttribute('value')
+  return el.textContent?.trim() || null
+}
+
+/**
+ * Convert an itemscope element into a JSON-LD-shaped node
+ */
+function microdataToNode(scope: Element): SchemaNode {
+  const node: SchemaNode = {}
+  const itemtype = scope.getAttribute('itemtype')
+  if (itemtype) {
+    node['@type'] = itemtype.split(/\s+/).map((t) => t.replace(/^https?:\/\/schema\.org\//, ''))
+  }
+
+  scope.querySelectorAll('[itemprop]').forEach((el) => {
+    // Only direct properties - nested scopes own their own properties
+    const owner = el.parentElement?.closest('[itemscope]')
+    if (owner !== scope) return
+
+    const value = microdataValue(el)
+    for (const prop of (el.getAttribute('itemprop') || '').split(/\s+/).filter(Boolean)) {
+      node[prop] = node[prop] === undefined ? value : [...asArray(node[prop]), value]
+    }
+  })
+
+  return node
+}
+
+/**
+ * Collect top-level microdata Order/Invoice scopes
+ */
+function parseMicrodata(doc: Document): SchemaNode[] {
+  return Array.from(doc.querySelectorAll('[itemscope][itemtype]'))
+    .filter((el) => !el.hasAttribute('itemprop'))
+    .map(microdataToNode)
+}
+
+/**
+ * Extract an order from schema.org structured data (JSON-LD or microdata).
+ * Returns null if the page has no Order with at least one product.
+ */
+export function extractStructuredOrder(html: string): OrderAnalysis | null {
+  let doc: Document
+  try {
+    doc = new DOMParser().parseFromString(html, 'text/html')
+  } catch {
+    return null
+  }
+
+  const orders: SchemaNode[] = []
+  collectOrderNodes(parseJsonLd(doc), orders)
+  collectOrderNodes(parseMicrodata(doc), orders)
+
+  if (orders.length === 0) {
+    return null
+  }
+
+  // Merge multiple Order nodes (split shipments) into one analysis
+  const analyses = orders.map(orderNodeToAnalysis)
+  const products = analyses.flatMap((a) => a.products)
+    .filter((p, i, all) => all.findIndex((o) => o.name === p.name) === i)
+
+  if (products.length === 0) {
+    return null
+  }
+
+  return {
+    isOrderConfirmation: true,
+    confidence: 0.95,
+    products,
+    retailer: analyses.find((a) => a.retailer)?.retailer ?? null,
+    orderNumber: analyses.find((a) => a.orderNumber)?.orderNumber ?? null
+  }
+}
+
+/**
+ * Recursively collect Product nodes (top-level arrays and @graph containers)
+ */
+function collectProductNodes(value: unknown, found: SchemaNode[]): void {
+  if (Array.isArray(value)) {
+    value.forEach((v) => collectProductNodes(v, found))
+    return
+  }
+  if (!isNode(value)) return
+
+  if (hasType(value, ['Product'])) {
+    found.push(value)
+  }
+  if (value['@graph']) {
+    collectProductNodes(value['@graph'], found)
+  }
+}
+
+/**
+ * Price of the product on a product page, from schema.org Product data or
+ * Open Graph product tags. Returns null if the page doesn't state one.
+ */
+export function extractProductPrice(doc: Document): number | null {
+  const products: SchemaNode[] = []
+  collectProductNodes(parseJsonLd(doc), products)
+  collectProductNodes(parseMicrodata(doc), products)
+
+  for (const product of products) {
+    const offer = asArray(product.offers).find(isNode)
+    // AggregateOffer (several sellers) has a range rather than a price
+    const price = getNumber(offer?.price ?? offer?.lowPrice ?? product.price)
+    if (price !== null && price > 0) return price
+  }
+
+  const meta = doc.querySelector('meta[property="product:price:amount"], meta[property="og:price:amount"]')
+  const price = getNumber(meta?.getAttribute('content'))
+  return price !== null && price > 0 ? price : null
+}
+
+/**
+ * Name of the product on a product page, from schema.org Product data or
+ * Open Graph tags on pages marked as a product. Returns null on other pages.
+ */
+export function extractProductName(doc: Document): string | null {
+  const products: SchemaNode[] = []
+  collectProductNodes(parseJsonLd(doc), products)
+  collectProductNodes(parseMicrodata(doc), products)
+
+  for (const product of products) {
+    const name = getText(product.name)
+    if (name) return name
+  }
+
+  const ogType = doc.querySelector('meta[property="og:type"]')?.getAttribute('content')
+  if (ogType?.toLowerCase().startsWith('product')) {
+    return doc.querySelector('meta[property="og:title"]')?.getAttribute('content')?.trim() || null
+  }
+  return null
+}
+
+/**
+ * First priceCurrency anywhere in the nodes, depth first
+ */
+function findPriceCurrency(value: unknown): string | null {
+  if (Array.isArray(value)) {
+    for (const item of value) {
+      const currency = findPriceCurrency(item)
+      if (currency) return currency
+    }
+    return null
+  }
+  if (!isNode(value)) return null
+
+  const own = getCurrency(value.priceCurrency)
+  if (own) return own
+  return findPriceCurrency(Object.values(value))
+}
+
+/**
+ * Currency the page prices things in, from schema.org priceCurrency (on a
+ * Product, Offer or Order) or Open Graph product tags. Returns null if the
+ * page doesn't say.
+ */
+export function extractPriceCurrency(doc: Document): string | null {
+  const currency = findPriceCurrency([...parseJsonLd(doc), ...parseMicrodata(doc)])
+  if (currency) return currency
+
+  const meta = doc.querySelector('meta[property="product:price:currency"], meta[property="og:price:currency"]')
+  return getCurrency(meta?.getAttribute('content'))
+}
@@ -0,0 +1,93 @@
+import type { Subscription } from '@/types'
+
+/**
+ * Local copy of the signed-in user's subscriptions in chrome.storage.local,
+ * served to the popup and sidebar without waiting for Supabase. Includes
+ * changes still waiting in the outbox.
+ */
+
+const CACHE_KEY = 'subscriptionCache'
+
+// Ids of subscriptions created offline, until the server assigns a real one
+export const LOCAL_ID_PREFIX = 'local-'
+
+interface SubscriptionCache {
+  userId: string
+  subscriptions: Subscription[]
+}
+
+async function readCache(): Promise<SubscriptionCache | null> {
+  const result = await chrome.storage.local.get(CACHE_KEY)
+  return (result[CACHE_KEY] as SubscriptionCache | undefined) || null
+}
+
+// Read-modify-writes are chained so concurrent changes don't overwrite each other
+let pending: Promise<unknown> = Promise.resolve()
+
+export function createLocalId(): string {
+  return `${LOCAL_ID_PREFIX}${crypto.randomUUID()}`
+}
+
+export function isLocalId(id: string): boolean {
+  return id.startsWith(LOCAL_ID_PREFIX)
+}
+
+/**
+ * Sort the way the server does: soonest reminder first, unscheduled last
+ */
+export function sortSubscriptions(subscriptions: Subscription[]): Subscription[] {
+  return [...subscriptions].sort((a, b) => {
+    if (!a.next_reminder_at) return b.next_reminder_at ? 1 : 0
+    if (!b.next_reminder_at) return -1
+    return a.next_reminder_at.localeCompare(b.next_reminder_at)
+  })
+}
+
+/**
+ * Cached subscriptions for a user, or null if there is no cache for them
+ */
+export async function getCachedSubscriptions(userId: string): Promise<Subscription[] | null> {
+  const cache = await readCache()
+  return cache && cache.userId === userId ? cache.subscriptions : null
+}
+
+/**
+ * Replace a user's cached subscriptions with the result of `update`, which
+ * receives the current list (empty if the cache belongs to someone else)
+ */
+export function updateCachedSubscriptions(
+  userId: string,
+  update: (subscriptions: Subscription[]) => Subscription[] | Promise<Subscription[]>
+): Promise<Subscription[]> {
+  const run = pending.then(async () => {
+    const cache = await readCache()
+    const current = cache && cache.userId === userId ? cache.subscriptions : []
+    const subscriptions = sortSubscriptions(await update(current))
+    await chrome.storage.local.set({ [CACHE_KEY]: { userId, subscriptions } })
+    return subscriptions
+  })
+  pending = run.catch(() => undefined)
+  return run
+}
+
+/**
+ * Insert or replace one subscription (matched by `replacesId`, default its own id)
+ */
+export async function putCachedSubscription(
+  userId: string,
+  subscription: Subscription,
+  replacesId: string = subscription.id
+): Promise<void> {
+  await updateCachedSubscriptions(userId, (subscriptions) => [
+    ...subscriptions.filter((s) => s.id !== replacesId && s.id !== subscription.id),
+    subscription
+  ])
+}
+
+export async function removeCachedSubscription(userId: string, id: string): Promise<void> {
+  await updateCachedSubscriptions(userId, (subscriptions) => subscriptions.filter((s) => s.id !== id))
+}
+
+export async function clearSubscriptionCache(): Promise<void> {
+  await chrome.storage.local.remove(CACHE_KEY)
+}
@@ -0,0 +1,198 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import type { Subscription } from '@/types'
+
+vi.mock('./supabase', () => ({
+  supabase: {
+    from: vi.fn()
+  },
+  getSessionUser: vi.fn(() => Promise.resolve({ id: 'user-123' }))
+}))
+
+vi.mock('./subscriptions', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('./subscriptions')>()),
+  fetchSubscriptions: vi.fn(),
+  createSubscription: vi.fn()
+}))
+
+import { getSessionUser } from './supabase'
+import { fetchSubscriptions, createSubscription } from './subscriptions'
+import {
+  listSubscriptions,
+  refreshSubscriptions,
+  createSubscriptionLocally,
+  updateSubscriptionLocally,
+  deleteSubscriptionLocally,
+  markAsOrderedLocally,
+  mergePendingChanges
+} from './subscription-store'
+import { getOutbox } from './outbox'
+
+const mockSubscription: Subscription = {
+  id: 'sub-123',
+  user_id: 'user-123',
+  product_name: 'Dog Food',
+  product_url: 'https://amazon.com/product/123',
+  retailer: 'Amazon',
+  price: 59.99,
+  frequency_days: 30,
+  last_ordered_at: '2024-01-01T00:00:00Z',
+  next_reminder_at: '2024-01-31T00:00:00Z',
+  created_at: '2024-01-01T00:00:00Z',
+  frequency_locked: false,
+  estimated_frequency_days: null,
+  cadence_confidence: null,
+  pack_size: 1,
+  quantity: 1,
+  consumption_rate: null,
+  lead_time_days: 0,
+  updated_at: '2024-01-01T00:00:00Z',
+  typical_price: null,
+  sku: null,
+  currency: 'USD'
+}
+
+describe('Subscription Store', () => {
+  let storage: Record<string, unknown>
+
+  beforeEach(() => {
+    storage = {
+      subscriptionCache: { userId: 'user-123', subscriptions: [mockSubscription] }
+    }
+    vi.mocked(chrome.storage.local.get).mockImplementation(
+      (async (key: string) => ({ [key]: storage[key] })) as never
+    )
+    vi.mocked(chrome.storage.local.set).mockImplementation(
+      (async (items: Record<string, unknown>) => { Object.assign(storage, items) }) as never
+    )
+    vi.mocked(chrome.storage.local.remove).mockImplementation(
+      (async (key: string) => { delete storage[key] }) as never
+    )
+  })
+
+  describe('when offline', () => {
+    let onLine: { mockRestore: () => void }
+
+    beforeEach(() => {
+      onLine = vi.spyOn(navigator, 'onLine', 'get').mockReturnValue(false)
+      vi.mocked(fetchSubscriptions).mockResolvedValue(null)
+    })
+
+    afterEach(() => {
+      onLine.mockRestore()
+    })
+
+    it('serves subscriptions from the cache', async () => {
+      expect(await listSubscriptions()).toEqual([mockSubscription])
+    })
+
+    it('creates subscriptions locally and queues them', async () => {
+      const created = await createSubscriptionLocally({
+        product_name: 'Coffee Beans',
+        retailer: 'Target',
+        frequency_days: 14
+      })
+
+      expect(created?.id).toMatch(/^local-/)
+      expect(createSubscription).not.toHaveBeenCalled()
+      expect(await listSubscriptions()).toContainEqual(created)
+
+      const [entry] = await getOutbox()
+      expect(entry).toMatchObject({
+        userId: 'user-123',
+        subscriptionId: created!.id,
+        operation: { kind: 'create', input: { product_name: 'Coffee Beans', ordered_at: created!.last_ordered_at } }
+      })
+    })
+
+    it('keeps the purchase date it was given', async () => {
+      const created = await createSubscriptionLocally({
+        product_name: 'Coffee Beans',
+        retailer: 'Target',
+        frequency_days: 14,
+        ordered_at: '2024-01-10T00:00:00.000Z'
+      })
+      const ordered = await markAsOrderedLocally('sub-123', { ordered_at: '2024-01-20T00:00:00.000Z' })
+
+      expect(created?.last_ordered_at).toBe('2024-01-10T00:00:00.000Z')
+      expect(ordered?.last_ordered_at).toBe('2024-01-20T00:00:00.000Z')
+
+      const [create, markOrdered] = await getOutbox()
+      expect(create.operation).toMatchObject({ kind: 'create', input: { ordered_at: '2024-01-10T00:00:00.000Z' } })
+      expect(markOrdered.operation).toEqual({ kind: 'mark-ordered', order: { ordered_at: '2024-01-20T00:00:00.000Z' } })
+    })
+
+    it('applies updates locally with the version they were made to', async () => {
+      const updated = await updateSubscriptionLocally('sub-123', { frequency_days: 60 })
+
+      expect(updated?.frequency_days).toBe(60)
+      expect(updated?.next_reminder_at).toBe('2024-03-01T00:00:00.000Z')
+
+      const [entry] = await getOutbox()
+      expect(entry).toMatchObject({
+        subscriptionId: 'sub-123',
+        operation: { kind: 'update', updates: { frequency_days: 60 } },
+        baseUpdatedAt: '2024-01-01T00:00:00Z'
+      })
+    })
+
+    it('removes deleted subscriptions from the cache', async () => {
+      expect(await deleteSubscriptionLocally('sub-123')).toBe(true)
+      expect(await listSubscriptions()).toEqual([])
+    })
+
+    it('keeps the cache when the server is unreachable', async () => {
+      expect(await refreshSubscriptions()).toEqual([mockSubscription])
+    })
+  })
+
+  it('replaces the cache with the server list', async () => {
+    const remote = { ...mockSubscription, product_name: 'Renamed elsewhere' }
+    vi.mocked(fetchSubscriptions).mockResolvedValueOnce([remote])
+
+    expect(await refreshSubscriptions()).toEqual([remote])
+    expect(chrome.runtime.sendMessage).toHaveBeenCalledWith({
+      type: 'SUBSCRIPTIONS_UPDATED',
+      payload: { subscriptions: [remote] }
+    })
+  })
+
+  it('clears the cache when signed out', async () => {
+    vi.mocked(getSessionUser).mockResolvedValueOnce(null)
+
+    expect(await refreshSubscriptions()).toEqual([])
+    expect(storage.subscriptionCache).toBeUndefined()
+  })
+
+  it('skips the cache and outbox in local-only mode', async () => {
+    storage.storageBackend = 'local'
+    vi.mocked(createSubscription).mockResolvedValueOnce(mockSubscription)
+
+    const created = await createSubscriptionLocally({
+      product_name: 'Dog Food',
+      retailer: 'Amazon',
+      frequency_days: 30
+    })
+
+    expect(created).toBe(mockSubscription)
+    expect(await getOutbox()).toEqual([])
+    expect(fetchSubscriptions).not.toHaveBeenCalled()
+  })
+
+  describe('mergePendingChanges', () => {
+    it('prefers local versions of subscriptions with queued changes', () => {
+      const remote = [mockSubscription, { ...mockSubscription, id: 'sub-456' }]
+      const local = [
+        { ...mockSubscription, frequency_days: 60 },
+        { ...mockSubscription, id: 'local-1' }
+      ]
+
+      const merged = mergePendingChanges(remote, local, new Set(['sub-123', 'sub-456', 'local-1']))
+
+      // sub-456 was deleted locally, local-1 created offline
+      expect(merged.map((s) => [s.id, s.frequency_days])).toEqual([
+        ['sub-123', 60],
+        ['local-1', 30]
+      ])
+    })
+  })
+})
@@ -0,0 +1,375 @@
+import { getSessionUser } from './supabase'
+import {
+  fetchSubscriptions,
+  buildNewSubscription,
+  applySubscriptionUpdates,
+  applyOrder,
+  getSnoozedReminderAt,
+  getSubscriptions,
+  createSubscription,
+  updateSubscription,
+  deleteSubscription,
+  markAsOrdered,
+  snoozeReminder,
+  mergeSubscriptions
+} from './subscriptions'
+import {
+  createLocalId,
+  getCachedSubscriptions,
+  updateCachedSubscriptions,
+  putCachedSubscription,
+  removeCachedSubscription,
+  clearSubscriptionCache
+} from './subscription-cache'
+import { enqueue, getOutbox, replayOutbox, OUTBOX_ALARM_NAME } from './outbox'
+import { getStorageBackendId } from './storage-backend'
+import type {
+  Subscription,
+  CreateSubscriptionInput,
+  UpdateSubscriptionInput,
+  RecordOrderInput,
+  OutboxOperation
+} from '@/types'
+
+/**
+ * Offline-first access to subscriptions for the popup and sidebar. Reads come
+ * from the local cache and refresh in the background; writes apply to the
+ * cache at once and reach Supabase through the outbox. In local-only mode
+ * storage is already local, so calls go straight to subscriptions.ts.
+ */
+
+async function isLocalOnly(): Promise<boolean> {
+  return (await getStorageBackendId()) === 'local'
+}
+
+async function getUserId(): Promise<string | null> {
+  const user = await getSessionUser()
+  return user?.id || null
+}
+
+/**
+ * Server list with local versions of subscriptions that still have queued
+ * changes (absent if deleted locally, present if created offline)
+ */
+export function mergePendingChanges(
+  remote: Subscription[],
+  local: Subscription[],
+  pendingIds: Set<string>
+): Subscription[] {
+  return [
+    ...remote.filter((s) => !pendingIds.has(s.id)),
+    ...local.filter((s) => pendingIds.has(s.id))
+  ]
+}
+
+/**
+ * Let an open popup and any open sidebars know the list changed
+ */
+function broadcastSubscriptions(subscriptions: Subscription[]): void {
+  const message = { type: 'SUBSCRIPTIONS_UPDATED', payload: { subscriptions } }
+
+  chrome.runtime.sendMessage(message).catch(() => {
+    // No popup open
+  })
+
+  chrome.tabs.query({}).then((tabs) => {
+    for (const tab of tabs) {
+      if (tab.id === undefined) continue
+      chrome.tabs.sendMessage(tab.id, message).catch(() => {
+        // No content script in this tab
+      })
+    }
+  })
+}
+
+/**
+ * Apply a change in local-only mode and tell open views about it
+ */
+async function writeLocalOnly<T>(write: Promise<T>): Promise<T> {
+  const result = await write
+  broadcastSubscriptions(await getSubscriptions())
+  return result
+}
+
+/**
+ * Replay queued changes, then replace the cache with the server's list.
+ * Offline, returns the cache as it is.
+ */
+export async function refreshSubscriptions(): Promise<Subscription[]> {
+  if (await isLocalOnly()) {
+    return getSubscriptions()
+  }
+
+  const userId = await getUserId()
+  if (!userId) {
+    await clearSubscriptionCache()
+    return []
+  }
+
+  await replayOutbox(userId)
+
+  const remote = await fetchSubscriptions()
+  const cached = await getCachedSubscriptions(userId)
+  if (!remote) {
+    return cached || []
+  }
+
+  const subscriptions = await updateCachedSubscriptions(userId, async (local) => {
+    const pendingIds = new Set((await getOutbox(userId)).map((e) => e.subscriptionId))
+    return mergePendingChanges(remote, local, pendingIds)
+  })
+
+  if (JSON.stringify(subscriptions) !== JSON.stringify(cached)) {
+    broadcastSubscriptions(subscriptions)
+  }
+  return subscriptions
+}
+
+/**
+ * Apply a change made on another device (null = deleted) to the cache.
+ * Ignored while this device has its own changes queued for the subscription;
+ * the next refresh reconciles them. Returns the previously cached version.
+ */
+export async function applyRemoteChange(
+  userId: string,
+  id: string,
+  subscription: Subscription | null
+): Promise<Subscription | null> {
+  const cached = (await getCachedSubscriptions(userId)) || []
+  const previous = cached.find((s) => s.id === id) || null
+  if (!previous && !subscription) {
+    return null
+  }
+
+  if ((await getOutbox(userId)).some((e) => e.subscriptionId === id)) {
+    return previous
+  }
+
+  const subscriptions = await updateCachedSubscriptions(userId, (local) => [
+    ...local.filter((s) => s.id !== id),
+    ...(subscription ? [subscription] : [])
+  ])
+  broadcastSubscriptions(subscriptions)
+  return previous
+}
+
+/**
+ * The user's subscriptions, from the cache when there is one (refreshing it
+ * in the background)
+ */
+export async function listSubscriptions(): Promise<Subscription[]> {
+  if (await isLocalOnly()) {
+    return getSubscriptions()
+  }
+
+  const userId = await getUserId()
+  if (!userId) {
+    return []
+  }
+
+  const cached = await getCachedSubscriptions(userId)
+  if (cached) {
+    refreshSubscriptions().catch((error) => {
+      console.error('[Subscribe Any] Error refreshing subscriptions:', error)
+    })
+    return cached
+  }
+
+  return refreshSubscriptions()
+}
+
+/**
+ * Queue a change to a subscription and store its local result
+ */
+async function applyLocally(
+  userId: string,
+  subscription: Subscription,
+  operation: OutboxOperation,
+  baseUpdatedAt: string | null
+): Promise<void> {
+  // Queue first so a concurrent refresh keeps the local version
+  await enqueue({ userId, subscriptionId: subscription.id, operation, baseUpdatedAt })
+  await putCachedSubscription(userId, subscription)
+
+  replayOutbox(userId).catch((error) => {
+    console.error('[Subscribe Any] Error replaying changes:', error)
+  })
+}
+
+/**
+ * The signed-in user and their cached copy of a subscription
+ */
+async function findCached(id: string): Promise<{ userId: string; current: Subscription } | null> {
+  const userId = await getUserId()
+  if (!userId) {
+    return null
+  }
+
+  const cached = (await getCachedSubscriptions(userId)) || (await refreshSubscriptions())
+  const current = cached.find((s) => s.id === id)
+  return current ? { userId, current } : null
+}
+
+export async function createSubscriptionLocally(
+  input: CreateSubscriptionInput
+): Promise<Subscription | null> {
+  if (await isLocalOnly()) {
+    return writeLocalOnly(createSubscription(input))
+  }
+
+  const userId = await getUserId()
+  if (!userId) {
+    console.error('No authenticated user')
+    return null
+  }
+
+  const now = new Date().toISOString()
+  const orderedAt = input.ordered_at ?? now
+  const subscription: Subscription = {
+    ...buildNewSubscription(input, userId, orderedAt),
+    id: createLocalId(),
+    created_at: now,
+    updated_at: now,
+    frequency_locked: false,
+    estimated_frequency_days: null,
+    cadence_confidence: null
+  } as Subscription
+
+  // Replay with the original purchase time
+  await applyLocally(
+    userId,
+    subscription,
+    { kind: 'create', id: crypto.randomUUID(), input: { ...input, ordered_at: orderedAt } },
+    null
+  )
+  return subscription
+}
+
+export async function updateSubscriptionLocally(
+  id: string,
+  updates: UpdateSubscriptionInput
+): Promise<Subscription | null> {
+  if (await isLocalOnly()) {
+    return writeLocalOnly(updateSubscription(id, updates))
+  }
+
+  const found = await findCached(id)
+  if (!found) {
+    return null
+  }
+
+  const { userId, current } = found
+  const subscription = applySubscriptionUpdates(current, updates)
+  await applyLocally(userId, subscription, { kind: 'update', updates }, current.updated_at)
+  return subscription
+}
+
+export async function deleteSubscriptionLocally(id: string): Promise<boolean> {
+  if (await isLocalOnly()) {
+    return writeLocalOnly(deleteSubscription(id))
+  }
+
+  const userId = await getUserId()
+  if (!userId) {
+    return false
+  }
+
+  await enqueue({ userId, subscriptionId: id, operation: { kind: 'delete' }, baseUpdatedAt: null })
+  await removeCachedSubscription(userId, id)
+
+  replayOutbox(userId).catch((error) => {
+    console.error('[Subscribe Any] Error replaying changes:', error)
+  })
+  return true
+}
+
+export async function markAsOrderedLocally(
+  id: string,
+  order: Partial<RecordOrderInput> = {}
+): Promise<Subscription | null> {
+  if (await isLocalOnly()) {
+    return writeLocalOnly(markAsOrdered(id, order))
+  }
+
+  const found = await findCached(id)
+  if (!found) {
+    return null
+  }
+
+  const { userId, current } = found
+  const orderedAt = order.ordered_at ?? new Date().toISOString()
+  const subscription = applyOrder(current, order.quantity, orderedAt)
+  await applyLocally(
+    userId,
+    subscription,
+    { kind: 'mark-ordered', order: { ...order, ordered_at: orderedAt } },
+    current.updated_at
+  )
+  return subscription
+}
+
+export async function snoozeReminderLocally(id: string, days: number): Promise<Subscription | null> {
+  if (await isLocalOnly()) {
+    return writeLocalOnly(snoozeReminder(id, days))
+  }
+
+  const found = await findCached(id)
+  if (!found) {
+    return null
+  }
+
+  const { userId, current } = found
+  const updates = { next_reminder_at: getSnoozedReminderAt(current, days) }
+  const subscription = { ...current, ...updates }
+  await applyLocally(userId, subscription, { kind: 'update', updates }, current.updated_at)
+  return subscription
+}
+
+/**
+ * Merge a duplicate subscription into another. Unlike other changes this
+ * isn't queued: it needs a connection, and queued changes to either
+ * subscription have to reach the server first.
+ */
+export async function mergeSubscriptionsLocally(
+  keepId: string,
+  duplicateId: string
+): Promise<Subscription | null> {
+  if (await isLocalOnly()) {
+    return writeLocalOnly(mergeSubscriptions(keepId, duplicateId))
+  }
+
+  const userId = await getUserId()
+  if (!userId) {
+    return null
+  }
+
+  await replayOutbox(userId)
+  const outbox = await getOutbox(userId)
+  if (outbox.some((e) => e.subscriptionId === keepId || e.subscriptionId === duplicateId)) {
+    console.warn('[Subscribe Any] Not merging while changes to these subscriptions are queued')
+    return null
+  }
+
+  const merged = await mergeSubscriptions(keepId, duplicateId)
+  if (merged) {
+    await refreshSubscriptions()
+  }
+  return merged
+}
+
+/**
+ * Replay queued changes when a retry is due or connectivity returns
+ */
+export function initializeSubscriptionStore(): void {
+  chrome.alarms.onAlarm.addListener((alarm) => {
+    if (alarm.name === OUTBOX_ALARM_NAME) {
+      refreshSubscriptions()
+    }
+  })
+
+  self.addEventListener('online', () => {
+    refreshSubscriptions()
+  })
+
+  refreshSubscriptions()
+}
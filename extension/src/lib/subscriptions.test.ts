@@ -6,7 +6,9 @@ import {
   getSubscriptions,
   markAsOrdered,
   calculateNextReminderDate,
-  snoozeReminder
+  snoozeReminder,
+  recordOrder,
+  getOrderHistory
 } from './subscriptions'
 import type { Subscription, CreateSubscriptionInput } from '@/types'
 
@@ -53,7 +55,18 @@ const mockSubscription: Subscription = {
   frequency_days: 30,
   last_ordered_at: '2024-01-01T00:00:00Z',
   next_reminder_at: '2024-01-31T00:00:00Z',
-  created_at: '2024-01-01T00:00:00Z'
+  created_at: '2024-01-01T00:00:00Z',
+  frequency_locked: false,
+  estimated_frequency_days: null,
+  cadence_confidence: null,
+  pack_size: 1,
+  quantity: 1,
+  consumption_rate: null,
+  lead_time_days: 0,
+  updated_at: '2024-01-01T00:00:00Z',
+  typical_price: null,
+  sku: null,
+  currency: 'USD'
 }
 
 describe('Subscription Management', () => {
@@ -209,6 +222,140 @@ describe('Subscription Management', () => {
 
       vi.useRealTimers()
     })
+
+    it('records the order in history with its source', async () => {
+      const now = new Date('2024-02-01T12:00:00Z')
+      vi.setSystemTime(now)
+
+      const { supabase } = await import('./supabase')
+      const insert = vi.fn(() => ({
+        select: vi.fn(() => ({
+          single: vi.fn(() => Promise.resolve({ data: { id: 'order-1' }, error: null }))
+        }))
+      }))
+      vi.mocked(supabase.from)
+        .mockReturnValueOnce({
+          select: vi.fn(() => ({
+            eq: vi.fn(() => ({
+              single: vi.fn(() => Promise.resolve({ data: mockSubscription, error: null }))
+            }))
+          }))
+        } as never)
+        .mockReturnValueOnce({
+          update: vi.fn(() => ({
+            eq: vi.fn(() => ({
+              select: vi.fn(() => ({
+                single: vi.fn(() => Promise.resolve({ data: mockSubscription, error: null }))
+              }))
+            }))
+          }))
+        } as never)
+        .mockReturnValueOnce({ insert } as never)
+
+      await markAsOrdered('sub-123', { source: 'notification', quantity: 2 })
+
+      expect(supabase.from).toHaveBeenLastCalledWith('orders')
+      expect(insert).toHaveBeenCalledWith(expect.objectContaining({
+        subscription_id: 'sub-123',
+        user_id: 'user-123',
+        ordered_at: now.toISOString(),
+        quantity: 2,
+        unit_price: 59.99,
+        source: 'notification'
+      }))
+
+      vi.useRealTimers()
+    })
+    it('pushes the reminder out proportionally to the packs bought', async () => {
+      const now = new Date('2024-02-01T12:00:00Z')
+      vi.setSystemTime(now)
+
+      const { supabase } = await import('./supabase')
+      const update = vi.fn(() => ({
+        eq: vi.fn(() => ({
+          select: vi.fn(() => ({
+            single: vi.fn(() => Promise.resolve({ data: mockSubscription, error: null }))
+          }))
+        }))
+      }))
+      vi.mocked(supabase.from)
+        .mockReturnValueOnce({
+          select: vi.fn(() => ({
+            eq: vi.fn(() => ({
+              single: vi.fn(() => Promise.resolve({
+                data: { ...mockSubscription, lead_time_days: 3 },
+                error: null
+              }))
+            }))
+          }))
+        } as never)
+        .mockReturnValueOnce({ update } as never)
+
+      await markAsOrdered('sub-123', { quantity: 2 })
+
+      // Two 30-day packs run out on April 1st, minus 3 days shipping
+      expect(update).toHaveBeenCalledWith({
+        last_ordered_at: now.toISOString(),
+        next_reminder_at: '2024-03-29T12:00:00.000Z',
+        quantity: 2
+      })
+
+      vi.useRealTimers()
+    })
+  })
+
+  describe('recordOrder', () => {
+    it('defaults quantity to 1 and falls back to the subscription price', async () => {
+      const { supabase } = await import('./supabase')
+      const insert = vi.fn(() => ({
+        select: vi.fn(() => ({
+          single: vi.fn(() => Promise.resolve({ data: { id: 'order-1' }, error: null }))
+        }))
+      }))
+      vi.mocked(supabase.from).mockReturnValueOnce({ insert } as never)
+
+      const result = await recordOrder(mockSubscription, { source: 'manual', order_number: 'A-1' })
+
+      expect(result).not.toBeNull()
+      expect(insert).toHaveBeenCalledWith(expect.objectContaining({
+        quantity: 1,
+        unit_price: 59.99,
+        order_number: 'A-1',
+        source: 'manual'
+      }))
+    })
+
+    it('returns null when the insert fails', async () => {
+      const { supabase } = await import('./supabase')
+      vi.mocked(supabase.from).mockReturnValueOnce({
+        insert: vi.fn(() => ({
+          select: vi.fn(() => ({
+            single: vi.fn(() => Promise.resolve({ data: null, error: { message: 'RLS' } }))
+          }))
+        }))
+      } as never)
+
+      const result = await recordOrder(mockSubscription, { source: 'detected' })
+      expect(result).toBeNull()
+    })
+  })
+
+  describe('getOrderHistory', () => {
+    it('returns orders for a subscription', async () => {
+      const { supabase } = await import('./supabase')
+      const orders = [{ id: 'order-2' }, { id: 'order-1' }]
+      vi.mocked(supabase.from).mockReturnValueOnce({
+        select: vi.fn(() => ({
+          eq: vi.fn(() => ({
+            order: vi.fn(() => Promise.resolve({ data: orders, error: null }))
+          }))
+        }))
+      } as never)
+
+      const result = await getOrderHistory('sub-123')
+      expect(result).toHaveLength(2)
+      expect(supabase.from).toHaveBeenCalledWith('orders')
+    })
   })
 
   describe('snoozeReminder', () => {
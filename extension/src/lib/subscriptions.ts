@@ -1,5 +1,18 @@
-import { supabase } from './supabase'
-import type { Subscription, CreateSubscriptionInput, UpdateSubscriptionInput } from '@/types'
+import { getStorageBackend } from './storage-backend'
+import { estimateCadence, shouldAutoApplyCadence } from './cadence'
+import { calculateReminderFromSupply, type ConsumptionFields } from './consumption'
+import { getMedianPrice, getPricesInCurrency, shouldLogPagePrice } from './price-history'
+import { normalizeCurrency } from './currency'
+import type {
+  Subscription,
+  CreateSubscriptionInput,
+  UpdateSubscriptionInput,
+  Order,
+  RecordOrderInput,
+  NewSubscriptionRow,
+  PriceObservation,
+  PriceSource
+} from '@/types'
 
 /**
  * Calculate the next reminder date based on last order date and frequency
@@ -14,23 +27,99 @@ export function calculateNextReminderDate(
   return nextDate.toISOString()
 }
 
+// Fields that move the next reminder when changed
+const REMINDER_FIELDS = ['frequency_days', 'pack_size', 'quantity', 'consumption_rate', 'lead_time_days'] as const
+
 /**
- * Get the current user ID from Supabase auth
+ * Row for a new subscription bought at `now`
  */
-async function getCurrentUserId(): Promise<string | null> {
-  const { data, error } = await supabase.auth.getUser()
-  if (error || !data.user) {
-    console.error('Error getting current user:', error)
-    return null
+export function buildNewSubscription(
+  input: CreateSubscriptionInput,
+  userId: string,
+  now: string
+): NewSubscriptionRow {
+  const consumption: ConsumptionFields = {
+    frequency_days: input.frequency_days,
+    pack_size: input.pack_size && input.pack_size > 0 ? Math.round(input.pack_size) : 1,
+    quantity: normalizeQuantity(input.quantity),
+    consumption_rate: input.consumption_rate || null,
+    lead_time_days: input.lead_time_days || 0
+  }
+
+  return {
+    user_id: userId,
+    product_name: input.product_name,
+    product_url: input.product_url || null,
+    retailer: input.retailer,
+    price: input.price || null,
+    typical_price: input.price || null,
+    currency: normalizeCurrency(input.currency),
+    sku: input.sku || null,
+    ...consumption,
+    last_ordered_at: now,
+    next_reminder_at: calculateReminderFromSupply(now, consumption)
+  }
+}
+
+/**
+ * A subscription with updates applied, recalculating the next reminder when
+ * frequency or the consumption model changes
+ */
+export function applySubscriptionUpdates(
+  current: Subscription,
+  updates: UpdateSubscriptionInput
+): Subscription {
+  const merged = { ...current, ...updates }
+  if (REMINDER_FIELDS.some((field) => updates[field] !== undefined)) {
+    merged.next_reminder_at = calculateReminderFromSupply(merged.last_ordered_at, merged)
+  }
+  return merged
+}
+
+/**
+ * A subscription after reordering `quantity` packs at `orderedAt`. The
+ * reminder moves out proportionally to how many packs were bought.
+ */
+export function applyOrder(
+  current: Subscription,
+  quantity: number | undefined,
+  orderedAt: string
+): Subscription {
+  const packs = normalizeQuantity(quantity)
+  return {
+    ...current,
+    last_ordered_at: orderedAt,
+    next_reminder_at: calculateReminderFromSupply(orderedAt, { ...current, quantity: packs }),
+    quantity: packs
   }
-  return data.user.id
 }
 
 /**
- * Create a new subscription
+ * Reminder date pushed back by `days` from the current one (or from now)
+ */
+export function getSnoozedReminderAt(current: Subscription, days: number): string {
+  const reminder = current.next_reminder_at ? new Date(current.next_reminder_at) : new Date()
+  reminder.setDate(reminder.getDate() + days)
+  return reminder.toISOString()
+}
+
+function normalizeQuantity(quantity: number | undefined): number {
+  return quantity && quantity > 0 ? Math.round(quantity) : 1
+}
+
+/**
+ * Get the current user ID from the storage backend
+ */
+async function getCurrentUserId(): Promise<string | null> {
+  return (await getStorageBackend()).getUserId()
+}
+
+/**
+ * Create a new subscription (with a given id when replaying an offline create)
  */
 export async function createSubscription(
-  input: CreateSubscriptionInput
+  input: CreateSubscriptionInput,
+  id?: string
 ): Promise<Subscription | null> {
   const userId = await getCurrentUserId()
   if (!userId) {
@@ -38,29 +127,131 @@ export async function createSubscription(
     return null
   }
 
-  const nextReminderAt = calculateNextReminderDate(null, input.frequency_days)
+  const now = input.ordered_at || new Date().toISOString()
 
-  const { data, error } = await supabase
-    .from('subscriptions')
-    .insert({
-      user_id: userId,
-      product_name: input.product_name,
-      product_url: input.product_url || null,
-      retailer: input.retailer,
-      price: input.price || null,
-      frequency_days: input.frequency_days,
-      last_ordered_at: new Date().toISOString(),
-      next_reminder_at: nextReminderAt
-    })
-    .select()
-    .single()
+  const subscription = await (await getStorageBackend()).insertSubscription({
+    ...buildNewSubscription(input, userId, now),
+    ...(id && { id })
+  })
+  if (!subscription) {
+    return null
+  }
+
+  // The purchase that created the subscription is the first entry in its history
+  await recordOrder(subscription, {
+    source: input.source || 'manual',
+    ordered_at: now,
+    quantity: input.quantity,
+    unit_price: input.price ?? null,
+    currency: subscription.currency,
+    order_number: input.order_number ?? null
+  })
+
+  if (input.price) {
+    await recordPrice(subscription, input.price, input.source === 'detected' ? 'order' : 'manual', now)
+  }
 
-  if (error) {
-    console.error('Error creating subscription:', error)
+  return subscription
+}
+
+/**
+ * Record a purchase in the subscription's order history.
+ * Failures are logged but don't fail the calling operation.
+ */
+export async function recordOrder(
+  subscription: Pick<Subscription, 'id' | 'user_id' | 'price' | 'currency'>,
+  input: RecordOrderInput
+): Promise<Order | null> {
+  return (await getStorageBackend()).insertOrder({
+    subscription_id: subscription.id,
+    user_id: subscription.user_id,
+    ordered_at: input.ordered_at || new Date().toISOString(),
+    quantity: normalizeQuantity(input.quantity),
+    unit_price: input.unit_price !== undefined ? input.unit_price : subscription.price,
+    currency: normalizeCurrency(input.currency || subscription.currency),
+    order_number: input.order_number || null,
+    source: input.source
+  })
+}
+
+/**
+ * Add a price to the subscription's history and return its new typical
+ * (median) price. Failures are logged and leave the typical price as it was.
+ */
+export async function recordPrice(
+  subscription: Pick<Subscription, 'id' | 'user_id' | 'typical_price' | 'currency'>,
+  price: number,
+  source: PriceSource,
+  observedAt: string = new Date().toISOString()
+): Promise<number | null> {
+  const backend = await getStorageBackend()
+  const observation = await backend.insertPriceObservation({
+    subscription_id: subscription.id,
+    user_id: subscription.user_id,
+    price,
+    currency: normalizeCurrency(subscription.currency),
+    source,
+    observed_at: observedAt
+  })
+  if (!observation) {
+    return subscription.typical_price
+  }
+
+  const history = await backend.listPriceObservations(subscription.id)
+  return getMedianPrice(getPricesInCurrency(history, subscription.currency).map((o) => o.price))
+}
+
+/**
+ * Whether a price in `currency` (unknown = the subscription's own) can join
+ * the subscription's price history
+ */
+export function isSameCurrency(subscription: Pick<Subscription, 'currency'>, currency?: string | null): boolean {
+  return !currency || normalizeCurrency(currency) === normalizeCurrency(subscription.currency)
+}
+
+/**
+ * Log a price seen outside an order or an edit (e.g. on the product page)
+ * and make it the subscription's current price. An unchanged page price is
+ * only logged again once a day; one in another currency is ignored.
+ */
+export async function recordObservedPrice(
+  id: string,
+  price: number,
+  source: PriceSource,
+  currency?: string
+): Promise<Subscription | null> {
+  const current = await getSubscription(id)
+  if (!current) {
     return null
   }
+  if (!isSameCurrency(current, currency)) {
+    return current
+  }
+
+  const backend = await getStorageBackend()
+  if (source === 'page') {
+    const [latest] = await backend.listPriceObservations(id)
+    if (!shouldLogPagePrice(latest, price)) {
+      return current
+    }
+  }
+
+  const typicalPrice = await recordPrice(current, price, source)
+  return backend.updateSubscription(id, { price, typical_price: typicalPrice })
+}
+
+/**
+ * Get the price history for a subscription, newest first
+ */
+export async function getPriceHistory(subscriptionId: string): Promise<PriceObservation[]> {
+  return (await getStorageBackend()).listPriceObservations(subscriptionId)
+}
 
-  return data as Subscription
+/**
+ * Get the order history for a subscription, newest first
+ */
+export async function getOrderHistory(subscriptionId: string): Promise<Order[]> {
+  return (await getStorageBackend()).listOrders(subscriptionId)
 }
 
 /**
@@ -70,124 +261,179 @@ export async function updateSubscription(
   id: string,
   updates: UpdateSubscriptionInput
 ): Promise<Subscription | null> {
-  // If frequency is being updated, recalculate next reminder
-  const updateData: Record<string, unknown> = { ...updates }
-
-  if (updates.frequency_days !== undefined) {
-    // Fetch current subscription to get last_ordered_at
-    const { data: current } = await supabase
-      .from('subscriptions')
-      .select('last_ordered_at')
-      .eq('id', id)
-      .single()
-
-    if (current) {
-      updateData.next_reminder_at = calculateNextReminderDate(
-        (current as { last_ordered_at: string | null }).last_ordered_at,
-        updates.frequency_days
+  const backend = await getStorageBackend()
+
+  // If frequency or the consumption model is being updated, recalculate next reminder
+  const updateData: UpdateSubscriptionInput = { ...updates }
+  const affectsReminder = REMINDER_FIELDS.some((field) => updates[field] !== undefined)
+  const newPrice = updates.price ?? null
+  const newCurrency = updates.currency ? normalizeCurrency(updates.currency) : null
+
+  if (affectsReminder || newPrice !== null || newCurrency !== null) {
+    // Fetch current subscription to get last_ordered_at and unchanged fields
+    const current = await backend.getSubscription(id)
+    if (current && affectsReminder) {
+      updateData.next_reminder_at = applySubscriptionUpdates(current, updates).next_reminder_at
+    }
+    // A price edited in the popup is part of the price history
+    if (current && newPrice !== null && newPrice !== current.price) {
+      updateData.typical_price = await recordPrice(
+        { ...current, currency: newCurrency || current.currency },
+        newPrice,
+        'manual'
       )
+    } else if (current && newCurrency && newCurrency !== normalizeCurrency(current.currency)) {
+      // Prices in the old currency no longer count towards the typical price
+      const history = await backend.listPriceObservations(id)
+      updateData.typical_price = getMedianPrice(getPricesInCurrency(history, newCurrency).map((o) => o.price))
     }
   }
 
-  const { data, error } = await supabase
-    .from('subscriptions')
-    .update(updateData)
-    .eq('id', id)
-    .select()
-    .single()
-
-  if (error) {
-    console.error('Error updating subscription:', error)
-    return null
-  }
-
-  return data as Subscription
+  return backend.updateSubscription(id, updateData)
 }
 
 /**
  * Delete a subscription
  */
 export async function deleteSubscription(id: string): Promise<boolean> {
-  const { error } = await supabase.from('subscriptions').delete().eq('id', id)
-
-  if (error) {
-    console.error('Error deleting subscription:', error)
-    return false
-  }
-
-  return true
+  return (await getStorageBackend()).deleteSubscription(id)
 }
 
 /**
  * Get all subscriptions for the current user
  */
 export async function getSubscriptions(): Promise<Subscription[]> {
+  return (await fetchSubscriptions()) || []
+}
+
+/**
+ * Get all subscriptions for the current user, or null if they couldn't be
+ * fetched (so callers can tell "none" from "offline")
+ */
+export async function fetchSubscriptions(): Promise<Subscription[] | null> {
   const userId = await getCurrentUserId()
   if (!userId) {
-    return []
-  }
-
-  const { data, error } = await supabase
-    .from('subscriptions')
-    .select('*')
-    .eq('user_id', userId)
-    .order('next_reminder_at', { ascending: true })
-
-  if (error) {
-    console.error('Error fetching subscriptions:', error)
-    return []
+    return null
   }
 
-  return (data || []) as Subscription[]
+  return (await getStorageBackend()).listSubscriptions(userId)
 }
 
 /**
  * Get a single subscription by ID
  */
 export async function getSubscription(id: string): Promise<Subscription | null> {
-  const { data, error } = await supabase
-    .from('subscriptions')
-    .select('*')
-    .eq('id', id)
-    .single()
-
-  if (error) {
-    console.error('Error fetching subscription:', error)
-    return null
-  }
-
-  return data as Subscription
+  return (await getStorageBackend()).getSubscription(id)
 }
 
 /**
- * Mark a subscription as ordered (resets the reminder cycle)
+ * Mark a subscription as ordered (resets the reminder cycle and logs the order)
  */
-export async function markAsOrdered(id: string): Promise<Subscription | null> {
+export async function markAsOrdered(
+  id: string,
+  order: Partial<RecordOrderInput> = {}
+): Promise<Subscription | null> {
   // First get the current subscription
   const current = await getSubscription(id)
   if (!current) {
     return null
   }
 
-  const now = new Date().toISOString()
-  const nextReminderAt = calculateNextReminderDate(now, current.frequency_days)
+  const now = order.ordered_at || new Date().toISOString()
+  const ordered = applyOrder(current, order.quantity, now)
+  const changes: UpdateSubscriptionInput = {
+    last_ordered_at: ordered.last_ordered_at,
+    next_reminder_at: ordered.next_reminder_at,
+    quantity: ordered.quantity
+  }
 
-  const { data, error } = await supabase
-    .from('subscriptions')
-    .update({
-      last_ordered_at: now,
-      next_reminder_at: nextReminderAt
-    })
-    .eq('id', id)
-    .select()
-    .single()
+  // The price paid becomes the current price, unless it was in another currency
+  if (typeof order.unit_price === 'number' && isSameCurrency(current, order.currency)) {
+    changes.price = order.unit_price
+    changes.typical_price = await recordPrice(current, order.unit_price, 'order', now)
+  }
+
+  const updated = await (await getStorageBackend()).updateSubscription(id, changes)
+  if (!updated) {
+    return null
+  }
+
+  await recordOrder(current, {
+    ...order,
+    source: order.source || 'manual',
+    ordered_at: now
+  })
 
-  if (error) {
-    console.error('Error marking as ordered:', error)
+  return updateCadence(updated)
+}
+
+/**
+ * Merge a duplicate into the subscription being kept. The duplicate's order
+ * and price history move over and it is deleted; the kept subscription takes
+ * the later of the two last orders and its prices are recomputed.
+ */
+export async function mergeSubscriptions(
+  keepId: string,
+  duplicateId: string
+): Promise<Subscription | null> {
+  const backend = await getStorageBackend()
+  const keep = await getSubscription(keepId)
+  const duplicate = await getSubscription(duplicateId)
+  if (!keep || !duplicate || !(await backend.mergeSubscriptions(keepId, duplicateId))) {
     return null
   }
 
-  return data as Subscription
+  let changes: UpdateSubscriptionInput = {}
+  const lastOrdered = (s: Subscription) => (s.last_ordered_at ? new Date(s.last_ordered_at).getTime() : 0)
+  if (duplicate.last_ordered_at && lastOrdered(duplicate) > lastOrdered(keep)) {
+    const ordered = applyOrder(keep, duplicate.quantity, duplicate.last_ordered_at)
+    changes = {
+      last_ordered_at: ordered.last_ordered_at,
+      next_reminder_at: ordered.next_reminder_at,
+      quantity: ordered.quantity
+    }
+  }
+
+  // Only the kept subscription's currency counts if the duplicate was priced in another
+  const prices = getPricesInCurrency(await backend.listPriceObservations(keepId), keep.currency)
+  if (prices.length > 0) {
+    changes.price = prices[0].price
+    changes.typical_price = getMedianPrice(prices.map((o) => o.price))
+  }
+
+  const updated = Object.keys(changes).length > 0
+    ? await backend.updateSubscription(keepId, changes)
+    : await getSubscription(keepId)
+  // Combined order history may show a clearer cadence
+  return updateCadence(updated || keep)
+}
+
+/**
+ * Re-estimate the reorder cadence from order history. Stores the estimate for
+ * the popup, and applies it to frequency_days when confident and not locked.
+ */
+export async function updateCadence(subscription: Subscription): Promise<Subscription> {
+  const orders = await getOrderHistory(subscription.id)
+  const estimate = estimateCadence(orders)
+  if (!estimate) {
+    return subscription
+  }
+
+  const updates: UpdateSubscriptionInput = {
+    estimated_frequency_days: estimate.intervalDays,
+    cadence_confidence: estimate.confidence
+  }
+
+  if (shouldAutoApplyCadence(estimate, subscription.frequency_days, subscription.frequency_locked)) {
+    updates.frequency_days = estimate.intervalDays
+    updates.next_reminder_at = calculateReminderFromSupply(subscription.last_ordered_at, {
+      ...subscription,
+      frequency_days: estimate.intervalDays
+    })
+  }
+
+  const updated = await (await getStorageBackend()).updateSubscription(subscription.id, updates)
+  return updated || subscription
 }
 
 /**
@@ -203,51 +449,19 @@ export async function snoozeReminder(
     return null
   }
 
-  // Calculate new reminder date
-  const currentReminder = current.next_reminder_at
-    ? new Date(current.next_reminder_at)
-    : new Date()
-  currentReminder.setDate(currentReminder.getDate() + days)
-
-  const { data, error } = await supabase
-    .from('subscriptions')
-    .update({
-      next_reminder_at: currentReminder.toISOString()
-    })
-    .eq('id', id)
-    .select()
-    .single()
-
-  if (error) {
-    console.error('Error snoozing reminder:', error)
-    return null
-  }
-
-  return data as Subscription
+  return (await getStorageBackend()).updateSubscription(id, {
+    next_reminder_at: getSnoozedReminderAt(current, days)
+  })
 }
 
 /**
- * Get subscriptions that are due for reminder
+ * Get subscriptions that are due for reminder (by `before`, default now)
  */
-export async function getDueSubscriptions(): Promise<Subscription[]> {
+export async function getDueSubscriptions(before: Date = new Date()): Promise<Subscription[]> {
   const userId = await getCurrentUserId()
   if (!userId) {
     return []
   }
 
-  const now = new Date().toISOString()
-
-  const { data, error } = await supabase
-    .from('subscriptions')
-    .select('*')
-    .eq('user_id', userId)
-    .lte('next_reminder_at', now)
-    .order('next_reminder_at', { ascending: true })
-
-  if (error) {
-    console.error('Error fetching due subscriptions:', error)
-    return []
-  }
-
-  return (data || []) as Subscription[]
+  return (await getStorageBackend()).listDueSubscriptions(userId, before.toISOString())
 }
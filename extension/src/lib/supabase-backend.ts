@@ -0,0 +1,184 @@
+import { supabase } from './supabase'
+import type { StorageBackend, Subscription, Order, PriceObservation } from '@/types'
+
+/**
+ * Subscriptions stored in Supabase for the signed-in user (row level security
+ * scopes every query to them)
+ */
+export function createSupabaseBackend(): StorageBackend {
+  return {
+    id: 'supabase',
+
+    async getUserId() {
+      const { data, error } = await supabase.auth.getUser()
+      if (error || !data.user) {
+        console.error('Error getting current user:', error)
+        return null
+      }
+      return data.user.id
+    },
+
+    async listSubscriptions(userId) {
+      const { data, error } = await supabase
+        .from('subscriptions')
+        .select('*')
+        .eq('user_id', userId)
+        .order('next_reminder_at', { ascending: true })
+
+      if (error) {
+        console.error('Error fetching subscriptions:', error)
+        return null
+      }
+
+      return (data || []) as Subscription[]
+    },
+
+    async listDueSubscriptions(userId, before) {
+      const { data, error } = await supabase
+        .from('subscriptions')
+        .select('*')
+        .eq('user_id', userId)
+        .lte('next_reminder_at', before)
+        .order('next_reminder_at', { ascending: true })
+
+      if (error) {
+        console.error('Error fetching due subscriptions:', error)
+        return []
+      }
+
+      return (data || []) as Subscription[]
+    },
+
+    async getSubscription(id) {
+      const { data, error } = await supabase
+        .from('subscriptions')
+        .select('*')
+        .eq('id', id)
+        .single()
+
+      if (error) {
+        console.error('Error fetching subscription:', error)
+        return null
+      }
+
+      return data as Subscription
+    },
+
+    async insertSubscription(row) {
+      const { data, error } = await supabase
+        .from('subscriptions')
+        .insert(row)
+        .select()
+        .single()
+
+      if (error) {
+        console.error('Error creating subscription:', error)
+        return null
+      }
+
+      return data as Subscription
+    },
+
+    async updateSubscription(id, changes) {
+      const { data, error } = await supabase
+        .from('subscriptions')
+        .update(changes)
+        .eq('id', id)
+        .select()
+        .single()
+
+      if (error) {
+        console.error('Error updating subscription:', error)
+        return null
+      }
+
+      return data as Subscription
+    },
+
+    async deleteSubscription(id) {
+      const { error } = await supabase.from('subscriptions').delete().eq('id', id)
+
+      if (error) {
+        console.error('Error deleting subscription:', error)
+        return false
+      }
+
+      return true
+    },
+
+    async insertOrder(row) {
+      const { data, error } = await supabase
+        .from('orders')
+        .insert(row)
+        .select()
+        .single()
+
+      if (error) {
+        console.error('Error recording order:', error)
+        return null
+      }
+
+      return data as Order
+    },
+
+    async listOrders(subscriptionId) {
+      const { data, error } = await supabase
+        .from('orders')
+        .select('*')
+        .eq('subscription_id', subscriptionId)
+        .order('ordered_at', { ascending: false })
+
+      if (error) {
+        console.error('Error fetching order history:', error)
+        return []
+      }
+
+      return (data || []) as Order[]
+    },
+
+    async insertPriceObservation(row) {
+      const { data, error } = await supabase
+        .from('price_observations')
+        .insert(row)
+        .select()
+        .single()
+
+      if (error) {
+        console.error('Error recording price:', error)
+        return null
+      }
+
+      return data as PriceObservation
+    },
+
+    async listPriceObservations(subscriptionId) {
+      const { data, error } = await supabase
+        .from('price_observations')
+        .select('*')
+        .eq('subscription_id', subscriptionId)
+        .order('observed_at', { ascending: false })
+
+      if (error) {
+        console.error('Error fetching price history:', error)
+        return []
+      }
+
+      return (data || []) as PriceObservation[]
+    },
+
+    async mergeSubscriptions(keepId, duplicateId) {
+      // One transaction server-side, so history is never left half moved
+      const { error } = await supabase.rpc('merge_subscriptions', {
+        keep_id: keepId,
+        duplicate_id: duplicateId
+      })
+
+      if (error) {
+        console.error('Error merging subscriptions:', error)
+        return false
+      }
+
+      return true
+    }
+  }
+}
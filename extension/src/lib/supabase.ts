@@ -87,6 +87,15 @@ export async function getCurrentUser() {
   return { user: data.user, error: null }
 }
 
+/**
+ * Get the signed-in user from the stored session. Unlike getCurrentUser this
+ * doesn't verify the token with the server, so it also works offline.
+ */
+export async function getSessionUser() {
+  const { data } = await supabase.auth.getSession()
+  return data.session?.user || null
+}
+
 /**
  * Check if user is authenticated
  */
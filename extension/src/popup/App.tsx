@@ -2,21 +2,31 @@ import { useState, useEffect } from 'react'
 import { SubscriptionList } from './components/SubscriptionList'
 import { Settings } from './components/Settings'
 import { AuthScreen } from './components/AuthScreen'
-import { getCurrentUser, onAuthStateChange } from '@/lib/supabase'
-import type { Subscription } from '@/types'
+import { getSessionUser, onAuthStateChange } from '@/lib/supabase'
+import { getStorageBackendId, setStorageBackendId } from '@/lib/storage-backend'
+import type {
+  Subscription,
+  ExtensionMessage,
+  SubscriptionsUpdatedPayload,
+  StorageBackendId
+} from '@/types'
 
 type Tab = 'subscriptions' | 'settings'
 
 export default function App() {
   const [user, setUser] = useState<unknown>(null)
+  const [storageBackend, setStorageBackend] = useState<StorageBackendId>('supabase')
+  // Local-only user signing in to move their data to an account
+  const [signingIn, setSigningIn] = useState(false)
   const [loading, setLoading] = useState(true)
   const [activeTab, setActiveTab] = useState<Tab>('subscriptions')
   const [subscriptions, setSubscriptions] = useState<Subscription[]>([])
 
   useEffect(() => {
-    // Check initial auth state
-    getCurrentUser().then(({ user }) => {
+    // Check initial auth state (from the stored session, so this works offline)
+    Promise.all([getSessionUser(), getStorageBackendId()]).then(([user, backend]) => {
       setUser(user)
+      setStorageBackend(backend)
       setLoading(false)
     })
 
@@ -31,10 +41,21 @@ export default function App() {
   }, [])
 
   useEffect(() => {
-    if (user) {
+    if (user || storageBackend === 'local') {
       loadSubscriptions()
     }
-  }, [user])
+  }, [user, storageBackend])
+
+  // The service worker answers from its cache, then sends the refreshed list
+  useEffect(() => {
+    const listener = (message: ExtensionMessage) => {
+      if (message.type === 'SUBSCRIPTIONS_UPDATED') {
+        setSubscriptions((message.payload as SubscriptionsUpdatedPayload).subscriptions)
+      }
+    }
+    chrome.runtime.onMessage.addListener(listener)
+    return () => chrome.runtime.onMessage.removeListener(listener)
+  }, [])
 
   const loadSubscriptions = async () => {
     try {
@@ -55,8 +76,22 @@ export default function App() {
     )
   }
 
-  if (!user) {
-    return <AuthScreen onAuthSuccess={() => {}} />
+  const continueWithoutAccount = async () => {
+    await setStorageBackendId('local')
+    setStorageBackend('local')
+  }
+
+  if (storageBackend === 'supabase' && !user) {
+    return <AuthScreen onAuthSuccess={() => {}} onContinueWithoutAccount={continueWithoutAccount} />
+  }
+
+  if (signingIn && !user) {
+    return (
+      <AuthScreen
+        onAuthSuccess={() => setSigningIn(false)}
+        onContinueWithoutAccount={() => setSigningIn(false)}
+      />
+    )
   }
 
   return (
@@ -88,7 +123,11 @@ export default function App() {
             onUpdate={loadSubscriptions}
           />
         ) : (
-          <Settings />
+          <Settings
+            storageBackend={storageBackend}
+            onSignIn={() => setSigningIn(true)}
+            onMovedToAccount={() => setStorageBackend('supabase')}
+          />
         )}
       </main>
     </div>
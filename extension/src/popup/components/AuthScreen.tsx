@@ -3,9 +3,11 @@ import { signIn, signUp } from '@/lib/supabase'
 
 interface Props {
   onAuthSuccess: () => void
+  // Keep subscriptions on this browser only instead of signing in
+  onContinueWithoutAccount?: () => void
 }
 
-export function AuthScreen({ onAuthSuccess }: Props) {
+export function AuthScreen({ onAuthSuccess, onContinueWithoutAccount }: Props) {
   const [mode, setMode] = useState<'signin' | 'signup'>('signin')
   const [email, setEmail] = useState('')
   const [password, setPassword] = useState('')
@@ -126,6 +128,16 @@ export function AuthScreen({ onAuthSuccess }: Props) {
           </>
         )}
       </p>
+
+      {onContinueWithoutAccount && (
+        <p className="auth-switch">
+          <a onClick={onContinueWithoutAccount}>Continue without an account</a>
+          <br />
+          <span className="form-hint">
+            Subscriptions stay on this browser only. You can move them to an account later.
+          </span>
+        </p>
+      )}
     </div>
   )
 }
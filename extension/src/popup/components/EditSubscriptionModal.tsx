@@ -1,6 +1,7 @@
 import React, { useState } from 'react'
 import type { Subscription } from '@/types'
 import { FREQUENCY_OPTIONS } from '@/types'
+import { CURRENCY_OPTIONS, normalizeCurrency } from '@/lib/currency'
 
 interface Props {
   subscription: Subscription
@@ -12,7 +13,13 @@ export function EditSubscriptionModal({ subscription, onClose, onSave }: Props)
   const [productName, setProductName] = useState(subscription.product_name)
   const [productUrl, setProductUrl] = useState(subscription.product_url || '')
   const [price, setPrice] = useState(subscription.price?.toString() || '')
+  const [currency, setCurrency] = useState(normalizeCurrency(subscription.currency))
   const [frequencyDays, setFrequencyDays] = useState(subscription.frequency_days)
+  const [frequencyLocked, setFrequencyLocked] = useState(subscription.frequency_locked)
+  const [packSize, setPackSize] = useState(subscription.pack_size.toString())
+  const [quantity, setQuantity] = useState(subscription.quantity.toString())
+  const [consumptionRate, setConsumptionRate] = useState(subscription.consumption_rate?.toString() || '')
+  const [leadTimeDays, setLeadTimeDays] = useState(subscription.lead_time_days.toString())
   const [saving, setSaving] = useState(false)
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -28,7 +35,13 @@ export function EditSubscriptionModal({ subscription, onClose, onSave }: Props)
             product_name: productName,
             product_url: productUrl || null,
             price: price ? parseFloat(price) : null,
-            frequency_days: frequencyDays
+            currency,
+            frequency_days: frequencyDays,
+            frequency_locked: frequencyLocked,
+            pack_size: Math.max(parseInt(packSize) || 1, 1),
+            quantity: Math.max(parseInt(quantity) || 1, 1),
+            consumption_rate: consumptionRate ? parseFloat(consumptionRate) : null,
+            lead_time_days: Math.max(parseInt(leadTimeDays) || 0, 0)
           }
         }
       })
@@ -75,17 +88,35 @@ export function EditSubscriptionModal({ subscription, onClose, onSave }: Props)
               />
             </div>
 
-            <div className="form-group">
-              <label className="form-label">Price (optional)</label>
-              <input
-                type="number"
-                className="form-input"
-                value={price}
-                onChange={(e) => setPrice(e.target.value)}
-                step="0.01"
-                min="0"
-                placeholder="0.00"
-              />
+            <div className="form-row">
+              <div className="form-group">
+                <label className="form-label">Price (optional)</label>
+                <input
+                  type="number"
+                  className="form-input"
+                  value={price}
+                  onChange={(e) => setPrice(e.target.value)}
+                  step="0.01"
+                  min="0"
+                  placeholder="0.00"
+                />
+              </div>
+
+              <div className="form-group">
+                <label className="form-label">Currency</label>
+                <select
+                  className="form-select"
+                  value={currency}
+                  onChange={(e) => setCurrency(e.target.value)}
+                >
+                  {CURRENCY_OPTIONS.map((code) => (
+                    <option key={code} value={code}>
+                      {code}
+                    </option>
+                  ))}
+                  {!CURRENCY_OPTIONS.includes(currency) && <option value={currency}>{currency}</option>}
+                </select>
+              </div>
             </div>
 
             <div className="form-group">
@@ -100,8 +131,84 @@ export function EditSubscriptionModal({ subscription, onClose, onSave }: Props)
                     {option.label}
                   </option>
                 ))}
+                {!FREQUENCY_OPTIONS.some((option) => option.days === frequencyDays) && (
+                  <option value={frequencyDays}>Every {frequencyDays} days</option>
+                )}
               </select>
             </div>
+
+            <div className="form-group">
+              <label style={{ display: 'flex', alignItems: 'center', gap: '8px', cursor: 'pointer' }}>
+                <input
+                  type="checkbox"
+                  checked={frequencyLocked}
+                  onChange={(e) => setFrequencyLocked(e.target.checked)}
+                />
+                <span style={{ fontSize: '14px' }}>Lock frequency</span>
+              </label>
+              <p className="form-hint" style={{ marginTop: '6px' }}>
+                {subscription.estimated_frequency_days !== null
+                  ? `Based on your orders you reorder about every ${subscription.estimated_frequency_days} days. `
+                  : ''}
+                When unlocked, the frequency adapts to how often you actually reorder.
+              </p>
+            </div>
+
+            <div className="form-row">
+              <div className="form-group">
+                <label className="form-label">Units per pack</label>
+                <input
+                  type="number"
+                  className="form-input"
+                  value={packSize}
+                  onChange={(e) => setPackSize(e.target.value)}
+                  min="1"
+                  step="1"
+                />
+              </div>
+
+              <div className="form-group">
+                <label className="form-label">Packs bought</label>
+                <input
+                  type="number"
+                  className="form-input"
+                  value={quantity}
+                  onChange={(e) => setQuantity(e.target.value)}
+                  min="1"
+                  step="1"
+                />
+              </div>
+            </div>
+
+            <div className="form-row">
+              <div className="form-group">
+                <label className="form-label">Units used per day (optional)</label>
+                <input
+                  type="number"
+                  className="form-input"
+                  value={consumptionRate}
+                  onChange={(e) => setConsumptionRate(e.target.value)}
+                  min="0"
+                  step="any"
+                  placeholder="From frequency"
+                />
+              </div>
+
+              <div className="form-group">
+                <label className="form-label">Shipping time (days)</label>
+                <input
+                  type="number"
+                  className="form-input"
+                  value={leadTimeDays}
+                  onChange={(e) => setLeadTimeDays(e.target.value)}
+                  min="0"
+                  step="1"
+                />
+              </div>
+            </div>
+            <p className="form-hint">
+              We remind you this many days before your supply runs out. Without a daily usage, one pack lasts the reminder frequency.
+            </p>
           </div>
 
           <div className="modal-footer">
@@ -0,0 +1,113 @@
+import { useState, useEffect } from 'react'
+import type { DuplicateCandidate, Subscription } from '@/types'
+import { findPossibleDuplicates } from '@/lib/product-identity'
+
+// Pairs the user said aren't duplicates, as "id|id" with the ids sorted
+const DISMISSED_KEY = 'dismissedDuplicates'
+
+function getPairKey(candidate: DuplicateCandidate): string {
+  return candidate.subscriptions.map((s) => s.id).sort().join('|')
+}
+
+interface Props {
+  subscriptions: Subscription[]
+  onUpdate: () => void
+}
+
+export function PossibleDuplicates({ subscriptions, onUpdate }: Props) {
+  const [dismissed, setDismissed] = useState<string[]>([])
+  const [expanded, setExpanded] = useState(false)
+  const [merging, setMerging] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    chrome.storage.local.get(DISMISSED_KEY).then((result) => {
+      setDismissed(result[DISMISSED_KEY] || [])
+    })
+  }, [])
+
+  const candidates = findPossibleDuplicates(subscriptions).filter(
+    (c) => !dismissed.includes(getPairKey(c))
+  )
+  if (candidates.length === 0) {
+    return null
+  }
+
+  const handleDismiss = async (candidate: DuplicateCandidate) => {
+    const next = [...dismissed, getPairKey(candidate)]
+    setDismissed(next)
+    await chrome.storage.local.set({ [DISMISSED_KEY]: next })
+  }
+
+  const handleMerge = async (keep: Subscription, duplicate: Subscription) => {
+    if (!confirm(`Merge "${duplicate.product_name}" into "${keep.product_name}"? Its order and price history will move over.`)) {
+      return
+    }
+
+    setMerging(keep.id)
+    setError(null)
+    try {
+      const response = await chrome.runtime.sendMessage({
+        type: 'MERGE_SUBSCRIPTIONS',
+        payload: { keepId: keep.id, duplicateId: duplicate.id }
+      })
+      if (!response?.success) {
+        setError('Could not merge. Make sure you are online and try again.')
+        return
+      }
+      onUpdate()
+    } catch (err) {
+      console.error('Error merging subscriptions:', err)
+      setError('Could not merge. Make sure you are online and try again.')
+    } finally {
+      setMerging(null)
+    }
+  }
+
+  const formatLastOrdered = (subscription: Subscription) =>
+    subscription.last_ordered_at
+      ? `Last ordered ${new Date(subscription.last_ordered_at).toLocaleDateString()}`
+      : 'Never ordered'
+
+  return (
+    <div className="duplicates">
+      <button className="duplicates-toggle" onClick={() => setExpanded(!expanded)}>
+        {candidates.length} possible duplicate{candidates.length > 1 ? 's' : ''}
+        <span>{expanded ? 'Hide' : 'Review'}</span>
+      </button>
+
+      {expanded && (
+        <div className="duplicates-list">
+          {error && <p className="duplicates-error">{error}</p>}
+          {candidates.map((candidate) => {
+            const [a, b] = candidate.subscriptions
+            return (
+              <div key={getPairKey(candidate)} className="duplicates-pair">
+                {[[a, b], [b, a]].map(([keep, duplicate]) => (
+                  <div key={keep.id} className="duplicates-item">
+                    <div>
+                      <div className="subscription-name">{keep.product_name}</div>
+                      <div className="subscription-retailer">
+                        {keep.retailer} • {formatLastOrdered(keep)}
+                      </div>
+                    </div>
+                    <button
+                      className="btn-link"
+                      onClick={() => handleMerge(keep, duplicate)}
+                      disabled={merging !== null}
+                    >
+                      {merging === keep.id ? 'Merging...' : 'Keep this'}
+                    </button>
+                  </div>
+                ))}
+                <button className="btn-link duplicates-dismiss" onClick={() => handleDismiss(candidate)}>
+                  Not the same product
+                </button>
+              </div>
+            )
+          })}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -1,30 +1,80 @@
 import { useState, useEffect } from 'react'
 import { signOut, getCurrentUser } from '@/lib/supabase'
+import { getLLMSettings, getContentForLLM, DEFAULT_LLM_SETTINGS } from '@/lib/llm'
+import { REDACTION_LEVEL_OPTIONS, countRedactions } from '@/lib/redaction'
+import { listCachedAnalyses, clearAnalysisCache } from '@/lib/analysis-cache'
+import { getDefaultPreferences, savePreferences, syncPreferences } from '@/lib/preferences'
+import { getTimezoneOptions } from '@/lib/delivery-window'
+import { CURRENCY_OPTIONS, DEFAULT_CURRENCY_SETTINGS, getCurrencySettings } from '@/lib/currency'
+import { FREQUENCY_OPTIONS } from '@/types'
+import type {
+  CachedAnalysis,
+  CurrencySettings,
+  LLMProviderId,
+  LLMSettings,
+  NotificationMode,
+  RedactionLevel,
+  RedactionResult,
+  UserPreferences,
+  StorageBackendId
+} from '@/types'
 
+const LLM_PROVIDER_OPTIONS: Array<{ value: LLMProviderId; label: string }> = [
+  { value: 'none', label: 'None (heuristics only)' },
+  { value: 'gemini', label: 'Google Gemini' },
+  { value: 'openai', label: 'OpenAI' },
+  { value: 'anthropic', label: 'Anthropic Claude' },
+  { value: 'local', label: 'Local (Ollama, llama.cpp)' },
+  { value: 'edge', label: 'Subscribe Any server (Supabase)' }
+]
+
+const keyInputStyle = {
+  width: '100%',
+  padding: '8px 12px',
+  border: '1px solid #ddd',
+  borderRadius: '6px',
+  fontSize: '14px',
+  fontFamily: 'monospace'
+}
+
+// Device-only settings; account-wide ones are UserPreferences
 interface Settings {
-  emailReminders: boolean
   showOnOrderDetails: boolean
 }
 
-export function Settings() {
+interface Props {
+  storageBackend: StorageBackendId
+  // Show the sign-in screen so local data can be moved to an account
+  onSignIn: () => void
+  onMovedToAccount: () => void
+}
+
+export function Settings({ storageBackend, onSignIn, onMovedToAccount }: Props) {
   const [settings, setSettings] = useState<Settings>({
-    emailReminders: false,
     showOnOrderDetails: true
   })
+  const [prefs, setPrefs] = useState<UserPreferences>(getDefaultPreferences)
   const [userEmail, setUserEmail] = useState<string | null>(null)
-  const [geminiKey, setGeminiKey] = useState('')
+  const [llmSettings, setLlmSettings] = useState<LLMSettings>(DEFAULT_LLM_SETTINGS)
+  const [currencySettings, setCurrencySettings] = useState<CurrencySettings>(DEFAULT_CURRENCY_SETTINGS)
   const [saving, setSaving] = useState(false)
+  const [moving, setMoving] = useState(false)
+  const [preview, setPreview] = useState<RedactionResult | null>(null)
+  const [previewError, setPreviewError] = useState<string | null>(null)
+  const [cachedAnalyses, setCachedAnalyses] = useState<CachedAnalysis[]>([])
 
   useEffect(() => {
     loadSettings()
     loadUser()
-    loadGeminiKey()
+    loadLlmSettings()
+    loadPreferences()
+    getCurrencySettings().then(setCurrencySettings)
+    listCachedAnalyses().then(setCachedAnalyses)
   }, [])
 
   const loadSettings = async () => {
-    const result = await chrome.storage.sync.get(['emailReminders', 'showOnOrderDetails'])
+    const result = await chrome.storage.sync.get(['showOnOrderDetails'])
     setSettings({
-      emailReminders: result.emailReminders || false,
       showOnOrderDetails: result.showOnOrderDetails !== false // default to true
     })
   }
@@ -34,16 +84,59 @@ export function Settings() {
     setUserEmail((user as { email?: string })?.email || null)
   }
 
-  const loadGeminiKey = async () => {
-    const result = await chrome.storage.local.get('geminiApiKey')
-    setGeminiKey(result.geminiApiKey || '')
+  const loadLlmSettings = async () => {
+    setLlmSettings(await getLLMSettings())
+  }
+
+  const loadPreferences = async () => {
+    // Sync first so changes made on other devices show up here
+    setPrefs(await syncPreferences())
+  }
+
+  const updateLlm = (updates: Partial<LLMSettings>) => {
+    setLlmSettings({ ...llmSettings, ...updates })
+  }
+
+  // Ask the current tab for its page text and mask it as it would be when sent
+  const handlePreview = async () => {
+    setPreview(null)
+    setPreviewError(null)
+    try {
+      const [tab] = await chrome.tabs.query({ active: true, currentWindow: true })
+      const response = tab?.id ? await chrome.tabs.sendMessage(tab.id, { type: 'GET_ANALYSIS_PREVIEW' }) : null
+      if (!response?.textContent) {
+        setPreviewError('Open an order page in this tab to preview it.')
+        return
+      }
+      setPreview(getContentForLLM(response.textContent, llmSettings.redactionLevel))
+    } catch {
+      setPreviewError('Open an order page in this tab to preview it.')
+    }
+  }
+
+  const handleClearAnalysisCache = async () => {
+    await clearAnalysisCache()
+    setCachedAnalyses([])
+  }
+
+  const updateRate = (code: string, value: string) => {
+    const exchangeRates = { ...currencySettings.exchangeRates }
+    const rate = parseFloat(value)
+    if (rate > 0) {
+      exchangeRates[code] = rate
+    } else {
+      delete exchangeRates[code]
+    }
+    setCurrencySettings({ ...currencySettings, exchangeRates })
   }
 
   const handleSave = async () => {
     setSaving(true)
     try {
       await chrome.storage.sync.set(settings)
-      await chrome.storage.local.set({ geminiApiKey: geminiKey })
+      await chrome.storage.local.set(llmSettings)
+      await chrome.storage.local.set(currencySettings)
+      setPrefs(await savePreferences(prefs))
       alert('Settings saved!')
     } catch (error) {
       console.error('Error saving settings:', error)
@@ -53,6 +146,21 @@ export function Settings() {
     }
   }
 
+  const handleMoveToAccount = async () => {
+    if (!confirm(`Move your subscriptions to ${userEmail}?`)) return
+    setMoving(true)
+    try {
+      const response = await chrome.runtime.sendMessage({ type: 'MIGRATE_LOCAL_DATA' })
+      if (!response?.success) {
+        alert('Could not move everything to your account. Your subscriptions are still on this browser; try again.')
+        return
+      }
+      onMovedToAccount()
+    } finally {
+      setMoving(false)
+    }
+  }
+
   const handleSignOut = async () => {
     if (!confirm('Sign out?')) return
     await signOut()
@@ -63,12 +171,34 @@ export function Settings() {
     <div className="settings">
       <div className="settings-section">
         <h3 className="settings-title">Account</h3>
-        <p style={{ marginBottom: '12px', color: '#666' }}>
-          Signed in as: {userEmail}
-        </p>
-        <button className="btn btn-secondary" onClick={handleSignOut}>
-          Sign Out
-        </button>
+        {storageBackend === 'supabase' ? (
+          <>
+            <p style={{ marginBottom: '12px', color: '#666' }}>
+              Signed in as: {userEmail}
+            </p>
+            <button className="btn btn-secondary" onClick={handleSignOut}>
+              Sign Out
+            </button>
+          </>
+        ) : (
+          <>
+            <p style={{ marginBottom: '12px', color: '#666' }}>
+              {userEmail
+                ? `Signed in as ${userEmail}, but your subscriptions are still on this browser only.`
+                : 'Your subscriptions are stored on this browser only.'}
+            </p>
+            <button
+              className="btn btn-primary"
+              onClick={userEmail ? handleMoveToAccount : onSignIn}
+              disabled={moving}
+            >
+              {moving ? 'Moving...' : userEmail ? 'Move Subscriptions to Account' : 'Move to an Account'}
+            </button>
+            <p className="form-hint" style={{ marginTop: '8px' }}>
+              Sync across devices and get email reminders. Your subscriptions and order history come with you.
+            </p>
+          </>
+        )}
       </div>
 
       <div className="settings-section">
@@ -89,6 +219,24 @@ export function Settings() {
         <p className="form-hint" style={{ marginTop: '8px' }}>
           Enable to see the subscription option when viewing past orders. Turn off to only see it on order confirmation pages.
         </p>
+
+        <div className="form-group" style={{ marginTop: '16px' }}>
+          <label className="form-label">Default reminder frequency</label>
+          <select
+            className="form-select"
+            value={prefs.defaultFrequencyDays}
+            onChange={(e) => setPrefs({ ...prefs, defaultFrequencyDays: parseInt(e.target.value) })}
+          >
+            {FREQUENCY_OPTIONS.map((option) => (
+              <option key={option.days} value={option.days}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+          <p className="form-hint">
+            Used when we can't tell how often you'll need a product.
+          </p>
+        </div>
       </div>
 
       <div className="settings-section">
@@ -97,10 +245,8 @@ export function Settings() {
         <label style={{ display: 'flex', alignItems: 'center', gap: '8px', cursor: 'pointer' }}>
           <input
             type="checkbox"
-            checked={settings.emailReminders}
-            onChange={(e) =>
-              setSettings({ ...settings, emailReminders: e.target.checked })
-            }
+            checked={prefs.emailReminders}
+            onChange={(e) => setPrefs({ ...prefs, emailReminders: e.target.checked })}
           />
           <span style={{ fontSize: '14px' }}>
             Send email reminders (in addition to browser notifications)
@@ -109,36 +255,368 @@ export function Settings() {
         <p className="form-hint" style={{ marginTop: '8px' }}>
           Browser notifications are always enabled when reminders are due.
         </p>
+
+        <div className="form-group" style={{ marginTop: '16px' }}>
+          <label className="form-label">Browser notifications</label>
+          <select
+            className="form-select"
+            value={prefs.notificationMode}
+            onChange={(e) =>
+              setPrefs({ ...prefs, notificationMode: e.target.value as NotificationMode })
+            }
+          >
+            <option value="per-item">One notification per item</option>
+            <option value="digest">One summary grouped by store</option>
+          </select>
+        </div>
+
+        {prefs.notificationMode === 'per-item' && (
+          <div className="form-group">
+            <label className="form-label">Max notifications at once</label>
+            <input
+              type="number"
+              className="form-input"
+              value={prefs.maxNotificationsPerCheck}
+              onChange={(e) =>
+                setPrefs({
+                  ...prefs,
+                  maxNotificationsPerCheck: Math.max(parseInt(e.target.value) || 1, 1)
+                })
+              }
+              min="1"
+              max="10"
+            />
+            <p className="form-hint">
+              Extra items are shown at the next hourly check.
+            </p>
+          </div>
+        )}
+
+        <div className="form-group">
+          <label className="form-label">Flag price increases above (%)</label>
+          <input
+            type="number"
+            className="form-input"
+            value={prefs.priceAlertPercent}
+            onChange={(e) =>
+              setPrefs({
+                ...prefs,
+                priceAlertPercent: Math.max(parseInt(e.target.value) || 0, 0)
+              })
+            }
+            min="0"
+            max="100"
+          />
+          <p className="form-hint">
+            Reminders and the shopping sidebar mention when a price is this much above what you usually pay.
+          </p>
+        </div>
       </div>
 
       <div className="settings-section">
-        <h3 className="settings-title">AI Product Detection</h3>
+        <h3 className="settings-title">Reminder Timing</h3>
+
+        <div className="form-group">
+          <label className="form-label">Timezone</label>
+          <select
+            className="form-select"
+            value={prefs.timezone}
+            onChange={(e) => setPrefs({ ...prefs, timezone: e.target.value })}
+          >
+            {getTimezoneOptions(prefs.timezone).map((zone) => (
+              <option key={zone} value={zone}>
+                {zone.replace(/_/g, ' ')}
+              </option>
+            ))}
+          </select>
+        </div>
 
-        <div style={{ marginBottom: '12px' }}>
-          <label style={{ fontSize: '14px', display: 'block', marginBottom: '6px' }}>
-            Gemini API Key
-          </label>
+        <div className="form-group">
+          <label className="form-label">Preferred reminder time (optional)</label>
           <input
-            type="password"
-            value={geminiKey}
-            onChange={(e) => setGeminiKey(e.target.value)}
-            placeholder="AIza..."
-            style={{
-              width: '100%',
-              padding: '8px 12px',
-              border: '1px solid #ddd',
-              borderRadius: '6px',
-              fontSize: '14px',
-              fontFamily: 'monospace'
-            }}
+            type="time"
+            className="form-input"
+            value={prefs.preferredReminderTime || ''}
+            onChange={(e) => setPrefs({ ...prefs, preferredReminderTime: e.target.value || null })}
           />
-          <p className="form-hint" style={{ marginTop: '6px' }}>
-            Required for AI-powered product detection. Get your free API key from{' '}
-            <a href="https://aistudio.google.com/app/apikey" target="_blank" rel="noopener noreferrer">
-              AI Studio (Google)
-            </a>. Stored locally on your device.
+          <p className="form-hint">
+            Reminders due on a given day arrive at this time. Leave empty to be reminded as soon as they're due.
           </p>
         </div>
+
+        <label style={{ display: 'flex', alignItems: 'center', gap: '8px', cursor: 'pointer' }}>
+          <input
+            type="checkbox"
+            checked={prefs.quietHoursStart !== null}
+            onChange={(e) =>
+              setPrefs({
+                ...prefs,
+                quietHoursStart: e.target.checked ? '22:00' : null,
+                quietHoursEnd: e.target.checked ? '08:00' : null
+              })
+            }
+          />
+          <span style={{ fontSize: '14px' }}>Quiet hours</span>
+        </label>
+
+        {prefs.quietHoursStart !== null && (
+          <div className="form-row" style={{ marginTop: '8px' }}>
+            <div className="form-group">
+              <label className="form-label">From</label>
+              <input
+                type="time"
+                className="form-input"
+                value={prefs.quietHoursStart}
+                onChange={(e) => setPrefs({ ...prefs, quietHoursStart: e.target.value || '22:00' })}
+              />
+            </div>
+            <div className="form-group">
+              <label className="form-label">Until</label>
+              <input
+                type="time"
+                className="form-input"
+                value={prefs.quietHoursEnd || ''}
+                onChange={(e) => setPrefs({ ...prefs, quietHoursEnd: e.target.value || '08:00' })}
+              />
+            </div>
+          </div>
+        )}
+      </div>
+
+      <div className="settings-section">
+        <h3 className="settings-title">Currency</h3>
+
+        <div className="form-group">
+          <label className="form-label">Home currency</label>
+          <select
+            className="form-select"
+            value={currencySettings.homeCurrency}
+            onChange={(e) => setCurrencySettings({ ...currencySettings, homeCurrency: e.target.value })}
+          >
+            {CURRENCY_OPTIONS.map((code) => (
+              <option key={code} value={code}>
+                {code}
+              </option>
+            ))}
+          </select>
+          <p className="form-hint">
+            Your monthly spend is totalled in this currency.
+          </p>
+        </div>
+
+        <div className="form-group">
+          <label className="form-label">Exchange rates (optional)</label>
+          {CURRENCY_OPTIONS.filter((code) => code !== currencySettings.homeCurrency).map((code) => (
+            <div key={code} className="exchange-rate">
+              <span>1 {code} =</span>
+              <input
+                type="number"
+                className="form-input"
+                value={currencySettings.exchangeRates[code] ?? ''}
+                onChange={(e) => updateRate(code, e.target.value)}
+                min="0"
+                step="any"
+                placeholder="Not set"
+              />
+              <span>{currencySettings.homeCurrency}</span>
+            </div>
+          ))}
+          <p className="form-hint">
+            Items priced in a currency without a rate are left out of the total. Rates stay on this device.
+          </p>
+        </div>
+      </div>
+
+      <div className="settings-section">
+        <h3 className="settings-title">AI Product Detection</h3>
+
+        <div className="form-group">
+          <label className="form-label">Provider</label>
+          <select
+            className="form-select"
+            value={llmSettings.llmProvider}
+            onChange={(e) => updateLlm({ llmProvider: e.target.value as LLMProviderId })}
+          >
+            {LLM_PROVIDER_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        {llmSettings.llmProvider === 'gemini' && (
+          <div style={{ marginBottom: '12px' }}>
+            <label style={{ fontSize: '14px', display: 'block', marginBottom: '6px' }}>
+              Gemini API Key
+            </label>
+            <input
+              type="password"
+              value={llmSettings.geminiApiKey}
+              onChange={(e) => updateLlm({ geminiApiKey: e.target.value })}
+              placeholder="AIza..."
+              style={keyInputStyle}
+            />
+            <p className="form-hint" style={{ marginTop: '6px' }}>
+              Get your free API key from{' '}
+              <a href="https://aistudio.google.com/app/apikey" target="_blank" rel="noopener noreferrer">
+                AI Studio (Google)
+              </a>. Stored locally on your device.
+            </p>
+          </div>
+        )}
+
+        {llmSettings.llmProvider === 'openai' && (
+          <div style={{ marginBottom: '12px' }}>
+            <label style={{ fontSize: '14px', display: 'block', marginBottom: '6px' }}>
+              OpenAI API Key
+            </label>
+            <input
+              type="password"
+              value={llmSettings.openaiApiKey}
+              onChange={(e) => updateLlm({ openaiApiKey: e.target.value })}
+              placeholder="sk-..."
+              style={keyInputStyle}
+            />
+            <p className="form-hint" style={{ marginTop: '6px' }}>
+              Get an API key from{' '}
+              <a href="https://platform.openai.com/api-keys" target="_blank" rel="noopener noreferrer">
+                platform.openai.com
+              </a>. Stored locally on your device.
+            </p>
+          </div>
+        )}
+
+        {llmSettings.llmProvider === 'anthropic' && (
+          <div style={{ marginBottom: '12px' }}>
+            <label style={{ fontSize: '14px', display: 'block', marginBottom: '6px' }}>
+              Anthropic API Key
+            </label>
+            <input
+              type="password"
+              value={llmSettings.anthropicApiKey}
+              onChange={(e) => updateLlm({ anthropicApiKey: e.target.value })}
+              placeholder="sk-ant-..."
+              style={keyInputStyle}
+            />
+            <p className="form-hint" style={{ marginTop: '6px' }}>
+              Get an API key from{' '}
+              <a href="https://console.anthropic.com/settings/keys" target="_blank" rel="noopener noreferrer">
+                console.anthropic.com
+              </a>. Stored locally on your device.
+            </p>
+          </div>
+        )}
+
+        {llmSettings.llmProvider === 'local' && (
+          <>
+            <div className="form-group">
+              <label className="form-label">Server URL</label>
+              <input
+                type="url"
+                className="form-input"
+                value={llmSettings.localLlmBaseUrl}
+                onChange={(e) => updateLlm({ localLlmBaseUrl: e.target.value })}
+                placeholder="http://localhost:11434/v1"
+              />
+            </div>
+            <div className="form-group">
+              <label className="form-label">Model</label>
+              <input
+                type="text"
+                className="form-input"
+                value={llmSettings.localLlmModel}
+                onChange={(e) => updateLlm({ localLlmModel: e.target.value })}
+                placeholder="llama3.1"
+              />
+              <p className="form-hint" style={{ marginTop: '6px' }}>
+                Any OpenAI-compatible endpoint. Page content never leaves your machine.
+              </p>
+            </div>
+          </>
+        )}
+
+        {llmSettings.llmProvider === 'edge' && (
+          <div className="form-group">
+            <label className="form-label">Server-side model</label>
+            <select
+              className="form-select"
+              value={llmSettings.edgeLlmProvider}
+              onChange={(e) => updateLlm({ edgeLlmProvider: e.target.value as LLMSettings['edgeLlmProvider'] })}
+            >
+              <option value="openai">OpenAI</option>
+              <option value="claude">Claude</option>
+            </select>
+            <p className="form-hint" style={{ marginTop: '6px' }}>
+              Uses the API keys configured on your Supabase project. No key needed here.
+            </p>
+          </div>
+        )}
+
+        {llmSettings.llmProvider !== 'none' && (
+          <div className="form-group">
+            <label className="form-label">Personal details to mask</label>
+            <select
+              className="form-select"
+              value={llmSettings.redactionLevel}
+              onChange={(e) => {
+                updateLlm({ redactionLevel: e.target.value as RedactionLevel })
+                setPreview(null)
+              }}
+            >
+              {REDACTION_LEVEL_OPTIONS.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+            <p className="form-hint">
+              Masked in your browser before the page text is sent.
+            </p>
+            <button className="btn btn-secondary redaction-preview-button" onClick={handlePreview}>
+              Preview what's sent from this tab
+            </button>
+            {previewError && <p className="form-hint">{previewError}</p>}
+            {preview && (
+              <div className="redaction-preview">
+                <p className="form-hint">
+                  {countRedactions(preview)} detail{countRedactions(preview) === 1 ? '' : 's'} masked
+                </p>
+                <pre>{preview.text}</pre>
+              </div>
+            )}
+          </div>
+        )}
+
+        {llmSettings.llmProvider !== 'none' && (
+          <div className="form-group">
+            <label className="form-label">Remembered pages ({cachedAnalyses.length})</label>
+            {cachedAnalyses.length > 0 && (
+              <ul className="analysis-cache-list">
+                {cachedAnalyses.map((entry) => (
+                  <li key={entry.fingerprint} title={entry.url}>
+                    <span className="analysis-cache-url">{entry.url.replace(/^https?:\/\/(www\.)?/, '')}</span>
+                    <span className="analysis-cache-meta">
+                      {entry.analysis.isOrderConfirmation
+                        ? `${entry.analysis.products.length} product${entry.analysis.products.length === 1 ? '' : 's'}`
+                        : 'Not an order'}
+                      {' · '}
+                      {new Date(entry.cachedAt).toLocaleDateString()}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
+            <p className="form-hint">
+              Pages already analyzed aren't sent again for 7 days when you reload or revisit them.
+            </p>
+            {cachedAnalyses.length > 0 && (
+              <button className="btn btn-secondary" onClick={handleClearAnalysisCache}>
+                Clear remembered pages
+              </button>
+            )}
+          </div>
+        )}
       </div>
 
       <button
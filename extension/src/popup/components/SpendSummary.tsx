@@ -0,0 +1,31 @@
+import { useState, useEffect } from 'react'
+import type { CurrencySettings, Subscription } from '@/types'
+import { formatPrice, getCurrencySettings, getMonthlySpend } from '@/lib/currency'
+
+interface Props {
+  subscriptions: Subscription[]
+}
+
+export function SpendSummary({ subscriptions }: Props) {
+  const [settings, setSettings] = useState<CurrencySettings | null>(null)
+
+  useEffect(() => {
+    getCurrencySettings().then(setSettings)
+  }, [])
+
+  if (!settings || !subscriptions.some((s) => s.price)) {
+    return null
+  }
+
+  const spend = getMonthlySpend(subscriptions, settings)
+  return (
+    <div className="spend-summary">
+      About <span className="spend-summary-amount">{formatPrice(spend.amount, spend.currency)}</span> a month
+      {spend.unconverted.length > 0 && (
+        <div className="spend-summary-note">
+          Not counting items in {spend.unconverted.join(', ')}. Add exchange rates in Settings.
+        </div>
+      )}
+    </div>
+  )
+}
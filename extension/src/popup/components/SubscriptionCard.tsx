@@ -1,4 +1,17 @@
-import type { Subscription } from '@/types'
+import { useState, useEffect } from 'react'
+import type { Order, OrderSource, PriceObservation, Subscription } from '@/types'
+import { projectRunOutDate } from '@/lib/consumption'
+import { getPricesInCurrency, getSparklinePoints } from '@/lib/price-history'
+import { formatPrice } from '@/lib/currency'
+
+const SPARKLINE_WIDTH = 60
+const SPARKLINE_HEIGHT = 16
+
+const ORDER_SOURCE_LABELS: Record<OrderSource, string> = {
+  detected: 'Detected',
+  notification: 'From reminder',
+  manual: 'Manual'
+}
 
 interface Props {
   subscription: Subscription
@@ -7,6 +20,30 @@ interface Props {
 }
 
 export function SubscriptionCard({ subscription, onEdit, onUpdate }: Props) {
+  const [showHistory, setShowHistory] = useState(false)
+  const [orders, setOrders] = useState<Order[] | null>(null)
+  const [prices, setPrices] = useState<PriceObservation[]>([])
+
+  // Reload the trend whenever the subscription changes (e.g. a new price)
+  useEffect(() => {
+    chrome.runtime.sendMessage({
+      type: 'GET_PRICE_HISTORY',
+      payload: { subscriptionId: subscription.id }
+    }).then((response) => {
+      setPrices(response?.prices || [])
+    }).catch((error) => {
+      console.error('Error loading price history:', error)
+    })
+  }, [subscription.id, subscription.updated_at])
+
+  // Oldest first, left to right, in the subscription's current currency
+  const trend = getPricesInCurrency(prices, subscription.currency)
+  const sparklinePoints = getSparklinePoints(
+    trend.map((p) => p.price).reverse(),
+    SPARKLINE_WIDTH,
+    SPARKLINE_HEIGHT
+  )
+
   const isDue = subscription.next_reminder_at
     ? new Date(subscription.next_reminder_at) <= new Date()
     : false
@@ -18,6 +55,10 @@ export function SubscriptionCard({ subscription, onEdit, onUpdate }: Props) {
       )
     : null
 
+  const runsOutOn = subscription.last_ordered_at
+    ? new Date(projectRunOutDate(subscription.last_ordered_at, subscription))
+    : null
+
   const getFrequencyLabel = (days: number): string => {
     if (days === 7) return 'Weekly'
     if (days === 14) return 'Bi-weekly'
@@ -65,6 +106,42 @@ export function SubscriptionCard({ subscription, onEdit, onUpdate }: Props) {
     }
   }
 
+  const handleApplyCadence = async () => {
+    if (!subscription.estimated_frequency_days) return
+
+    try {
+      await chrome.runtime.sendMessage({
+        type: 'UPDATE_SUBSCRIPTION',
+        payload: {
+          id: subscription.id,
+          updates: { frequency_days: subscription.estimated_frequency_days }
+        }
+      })
+      onUpdate()
+    } catch (error) {
+      console.error('Error applying cadence:', error)
+    }
+  }
+
+  const handleToggleHistory = async () => {
+    if (showHistory) {
+      setShowHistory(false)
+      return
+    }
+
+    setShowHistory(true)
+    try {
+      const response = await chrome.runtime.sendMessage({
+        type: 'GET_ORDER_HISTORY',
+        payload: { subscriptionId: subscription.id }
+      })
+      setOrders(response?.orders || [])
+    } catch (error) {
+      console.error('Error loading order history:', error)
+      setOrders([])
+    }
+  }
+
   const handleReorder = () => {
     if (subscription.product_url) {
       chrome.tabs.create({ url: subscription.product_url })
@@ -87,14 +164,54 @@ export function SubscriptionCard({ subscription, onEdit, onUpdate }: Props) {
       <div className="subscription-meta">
         {subscription.price && (
           <span className="subscription-price">
-            ${subscription.price.toFixed(2)}
+            {formatPrice(subscription.price, subscription.currency)}
+            {sparklinePoints && (
+              <svg
+                className="subscription-sparkline"
+                width={SPARKLINE_WIDTH}
+                height={SPARKLINE_HEIGHT}
+                viewBox={`-1 -1 ${SPARKLINE_WIDTH + 2} ${SPARKLINE_HEIGHT + 2}`}
+                role="img"
+                aria-label={`Price trend over ${trend.length} observations`}
+              >
+                {subscription.typical_price !== null && (
+                  <title>Usually {formatPrice(subscription.typical_price, subscription.currency)}</title>
+                )}
+                <polyline points={sparklinePoints} fill="none" stroke="currentColor" strokeWidth="1.5" />
+              </svg>
+            )}
           </span>
         )}
         <span className="subscription-frequency">
           {getFrequencyLabel(subscription.frequency_days)}
+          {subscription.frequency_locked && ' (locked)'}
         </span>
+        {(subscription.quantity > 1 || subscription.pack_size > 1) && (
+          <span className="subscription-pack">
+            {subscription.quantity} × {subscription.pack_size > 1 ? `${subscription.pack_size}-pack` : 'pack'}
+          </span>
+        )}
       </div>
 
+      {subscription.estimated_frequency_days !== null && (
+        <div className="subscription-cadence">
+          <span>
+            You usually reorder every {subscription.estimated_frequency_days} days
+            {subscription.cadence_confidence !== null && (
+              <span className="subscription-cadence-confidence">
+                {' '}· {Math.round(subscription.cadence_confidence * 100)}% confidence
+              </span>
+            )}
+          </span>
+          {!subscription.frequency_locked &&
+            subscription.estimated_frequency_days !== subscription.frequency_days && (
+              <button className="btn-link" onClick={handleApplyCadence}>
+                Use this
+              </button>
+            )}
+        </div>
+      )}
+
       {daysUntilReminder !== null && (
         <div className={`subscription-reminder ${isDue ? 'due' : ''}`}>
           {isDue
@@ -104,6 +221,11 @@ export function SubscriptionCard({ subscription, onEdit, onUpdate }: Props) {
             : daysUntilReminder === 1
             ? 'Reminder tomorrow'
             : `Reminder in ${daysUntilReminder} days`}
+          {runsOutOn && !isDue && (
+            <span className="subscription-runout">
+              {' '}· Runs out {runsOutOn.toLocaleDateString(undefined, { month: 'short', day: 'numeric' })}
+            </span>
+          )}
         </div>
       )}
 
@@ -123,10 +245,42 @@ export function SubscriptionCard({ subscription, onEdit, onUpdate }: Props) {
             </button>
           </>
         )}
+        <button className="btn btn-secondary" onClick={handleToggleHistory}>
+          {showHistory ? 'Hide history' : 'History'}
+        </button>
         <button className="btn btn-danger" onClick={handleDelete}>
           Delete
         </button>
       </div>
+
+      {showHistory && (
+        <div className="order-history">
+          <h4 className="order-history-title">Order history</h4>
+          {orders === null ? (
+            <p className="order-history-empty">Loading...</p>
+          ) : orders.length === 0 ? (
+            <p className="order-history-empty">No orders recorded yet</p>
+          ) : (
+            <ul className="order-history-list">
+              {orders.map((order) => (
+                <li key={order.id} className="order-history-item">
+                  <span className="order-history-date">
+                    {new Date(order.ordered_at).toLocaleDateString()}
+                  </span>
+                  <span>&times;{order.quantity}</span>
+                  {order.unit_price !== null && (
+                    <span>{formatPrice(order.unit_price, order.currency)}</span>
+                  )}
+                  {order.order_number && <span>#{order.order_number}</span>}
+                  <span className="order-history-source">
+                    {ORDER_SOURCE_LABELS[order.source]}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
     </div>
   )
 }
@@ -2,6 +2,8 @@ import { useState } from 'react'
 import type { Subscription } from '@/types'
 import { SubscriptionCard } from './SubscriptionCard'
 import { EditSubscriptionModal } from './EditSubscriptionModal'
+import { PossibleDuplicates } from './PossibleDuplicates'
+import { SpendSummary } from './SpendSummary'
 
 interface Props {
   subscriptions: Subscription[]
@@ -26,6 +28,9 @@ export function SubscriptionList({ subscriptions, onUpdate }: Props) {
 
   return (
     <>
+      <PossibleDuplicates subscriptions={subscriptions} onUpdate={onUpdate} />
+      <SpendSummary subscriptions={subscriptions} />
+
       <div className="subscription-list">
         {subscriptions.map((subscription) => (
           <SubscriptionCard
@@ -8,6 +8,11 @@ const mockChrome = {
       set: vi.fn().mockResolvedValue(undefined),
       remove: vi.fn().mockResolvedValue(undefined)
     },
+    session: {
+      get: vi.fn().mockResolvedValue({}),
+      set: vi.fn().mockResolvedValue(undefined),
+      remove: vi.fn().mockResolvedValue(undefined)
+    },
     sync: {
       get: vi.fn().mockResolvedValue({}),
       set: vi.fn().mockResolvedValue(undefined),
@@ -57,7 +62,8 @@ const mockChrome = {
   tabs: {
     query: vi.fn().mockResolvedValue([]),
     create: vi.fn().mockResolvedValue({ id: 1 }),
-    update: vi.fn().mockResolvedValue({})
+    update: vi.fn().mockResolvedValue({}),
+    sendMessage: vi.fn().mockResolvedValue(undefined)
   }
 }
 
@@ -13,6 +13,17 @@ export interface Database {
           last_ordered_at: string | null
           next_reminder_at: string | null
           created_at: string
+          frequency_locked: boolean
+          estimated_frequency_days: number | null
+          cadence_confidence: number | null
+          pack_size: number
+          quantity: number
+          consumption_rate: number | null
+          lead_time_days: number
+          updated_at: string
+          typical_price: number | null
+          sku: string | null
+          currency: string
         }
         Insert: {
           id?: string
@@ -25,6 +36,17 @@ export interface Database {
           last_ordered_at?: string | null
           next_reminder_at?: string | null
           created_at?: string
+          frequency_locked?: boolean
+          estimated_frequency_days?: number | null
+          cadence_confidence?: number | null
+          pack_size?: number
+          quantity?: number
+          consumption_rate?: number | null
+          lead_time_days?: number
+          updated_at?: string
+          typical_price?: number | null
+          sku?: string | null
+          currency?: string
         }
         Update: {
           id?: string
@@ -37,6 +59,17 @@ export interface Database {
           last_ordered_at?: string | null
           next_reminder_at?: string | null
           created_at?: string
+          frequency_locked?: boolean
+          estimated_frequency_days?: number | null
+          cadence_confidence?: number | null
+          pack_size?: number
+          quantity?: number
+          consumption_rate?: number | null
+          lead_time_days?: number
+          updated_at?: string
+          typical_price?: number | null
+          sku?: string | null
+          currency?: string
         }
         Relationships: []
       }
@@ -61,9 +94,125 @@ export interface Database {
         }
         Relationships: []
       }
+      orders: {
+        Row: {
+          id: string
+          subscription_id: string
+          user_id: string
+          ordered_at: string
+          quantity: number
+          unit_price: number | null
+          currency: string
+          order_number: string | null
+          source: 'detected' | 'notification' | 'manual'
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          subscription_id: string
+          user_id: string
+          ordered_at?: string
+          quantity?: number
+          unit_price?: number | null
+          currency?: string
+          order_number?: string | null
+          source: 'detected' | 'notification' | 'manual'
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          subscription_id?: string
+          user_id?: string
+          ordered_at?: string
+          quantity?: number
+          unit_price?: number | null
+          currency?: string
+          order_number?: string | null
+          source?: 'detected' | 'notification' | 'manual'
+          created_at?: string
+        }
+        Relationships: []
+      }
+      price_observations: {
+        Row: {
+          id: string
+          subscription_id: string
+          user_id: string
+          price: number
+          currency: string
+          source: 'order' | 'manual' | 'page'
+          observed_at: string
+        }
+        Insert: {
+          id?: string
+          subscription_id: string
+          user_id: string
+          price: number
+          currency?: string
+          source: 'order' | 'manual' | 'page'
+          observed_at?: string
+        }
+        Update: {
+          id?: string
+          subscription_id?: string
+          user_id?: string
+          price?: number
+          currency?: string
+          source?: 'order' | 'manual' | 'page'
+          observed_at?: string
+        }
+        Relationships: []
+      }
+      user_preferences: {
+        Row: {
+          user_id: string
+          email_reminders: boolean
+          notification_mode: 'per-item' | 'digest'
+          max_notifications_per_check: number
+          default_frequency_days: number
+          timezone: string
+          preferred_reminder_time: string | null
+          quiet_hours_start: string | null
+          quiet_hours_end: string | null
+          price_alert_percent: number
+          updated_at: string
+        }
+        Insert: {
+          user_id: string
+          email_reminders?: boolean
+          notification_mode?: 'per-item' | 'digest'
+          max_notifications_per_check?: number
+          default_frequency_days?: number
+          timezone?: string
+          preferred_reminder_time?: string | null
+          quiet_hours_start?: string | null
+          quiet_hours_end?: string | null
+          price_alert_percent?: number
+          updated_at?: string
+        }
+        Update: {
+          user_id?: string
+          email_reminders?: boolean
+          notification_mode?: 'per-item' | 'digest'
+          max_notifications_per_check?: number
+          default_frequency_days?: number
+          timezone?: string
+          preferred_reminder_time?: string | null
+          quiet_hours_start?: string | null
+          quiet_hours_end?: string | null
+          price_alert_percent?: number
+          updated_at?: string
+        }
+        Relationships: []
+      }
     }
     Views: Record<string, never>
-    Functions: Record<string, never>
+    Functions: {
+      merge_subscriptions: {
+        Args: { keep_id: string; duplicate_id: string }
+        Returns: undefined
+      }
+    }
     Enums: Record<string, never>
     CompositeTypes: Record<string, never>
   }
@@ -10,6 +10,23 @@ export interface Subscription {
   last_ordered_at: string | null
   next_reminder_at: string | null
   created_at: string
+  frequency_locked: boolean
+  estimated_frequency_days: number | null
+  cadence_confidence: number | null
+  // Consumption model: units per pack, packs bought in the last order,
+  // units used per day (null = one pack per frequency_days) and shipping time
+  pack_size: number
+  quantity: number
+  consumption_rate: number | null
+  lead_time_days: number
+  // Bumped by the database on every write; used to detect conflicting offline edits
+  updated_at: string
+  // Median of every observed price (price is the latest), null until one is seen
+  typical_price: number | null
+  // SKU, GTIN or MPN from the order page, when it stated one
+  sku: string | null
+  // ISO 4217 code of price and typical_price
+  currency: string
 }
 
 export interface CreateSubscriptionInput {
@@ -17,7 +34,18 @@ export interface CreateSubscriptionInput {
   product_url?: string | null
   retailer: string
   price?: number | null
+  currency?: string
+  sku?: string | null
   frequency_days: number
+  pack_size?: number
+  consumption_rate?: number | null
+  lead_time_days?: number
+  // Details of the purchase that created the subscription (recorded in order history)
+  quantity?: number
+  order_number?: string | null
+  source?: OrderSource
+  // When the purchase happened (defaults to now; set when replaying offline changes)
+  ordered_at?: string
 }
 
 export interface UpdateSubscriptionInput {
@@ -28,6 +56,159 @@ export interface UpdateSubscriptionInput {
   frequency_days?: number
   last_ordered_at?: string | null
   next_reminder_at?: string | null
+  frequency_locked?: boolean
+  estimated_frequency_days?: number | null
+  cadence_confidence?: number | null
+  pack_size?: number
+  quantity?: number
+  consumption_rate?: number | null
+  lead_time_days?: number
+  typical_price?: number | null
+  sku?: string | null
+  currency?: string
+}
+
+// Order history types
+export type OrderSource = 'detected' | 'notification' | 'manual'
+
+export interface Order {
+  id: string
+  subscription_id: string
+  user_id: string
+  ordered_at: string
+  quantity: number
+  unit_price: number | null
+  // ISO 4217 code of unit_price
+  currency: string
+  order_number: string | null
+  source: OrderSource
+  created_at: string
+}
+
+// Price history: every price seen for a subscription, from order
+// confirmations, edits in the popup and visits to the product page
+export type PriceSource = 'order' | 'manual' | 'page'
+
+export interface PriceObservation {
+  id: string
+  subscription_id: string
+  user_id: string
+  price: number
+  // ISO 4217 code; only prices in the subscription's currency count
+  currency: string
+  source: PriceSource
+  observed_at: string
+}
+
+export type NewPriceObservationRow = Omit<PriceObservation, 'id'>
+
+// Latest price compared with the typical one, when it's notably higher
+export interface PriceIncrease {
+  price: number
+  typicalPrice: number
+  percent: number
+}
+
+// An amount read from page text, e.g. "29,99 €" or "¥1,500"
+export interface ParsedPrice {
+  amount: number
+  currency: string
+}
+
+// Device-only currency settings: totals are shown in homeCurrency, using
+// exchangeRates[code] = value of one unit of `code` in the home currency
+export interface CurrencySettings {
+  homeCurrency: string
+  exchangeRates: Record<string, number>
+}
+
+// Estimated monthly spend in the home currency. Subscriptions priced in a
+// currency without an exchange rate are left out and listed in `unconverted`.
+export interface MonthlySpend {
+  amount: number
+  currency: string
+  unconverted: string[]
+}
+
+export interface RecordOrderInput {
+  source: OrderSource
+  ordered_at?: string
+  quantity?: number
+  unit_price?: number | null
+  // Defaults to the subscription's currency
+  currency?: string
+  order_number?: string | null
+}
+
+// Where subscriptions and order history live: Supabase (requires an account,
+// syncs across devices) or chrome.storage.local on this browser only
+export type StorageBackendId = 'supabase' | 'local'
+
+// Row for a new subscription; the backend fills in timestamps, and the id
+// unless one is given. Moving local data to an account carries created_at
+// and cadence estimates over.
+export type NewSubscriptionRow = Omit<
+  Subscription,
+  'id' | 'created_at' | 'updated_at' | 'frequency_locked' | 'estimated_frequency_days' | 'cadence_confidence'
+> & Partial<Pick<Subscription, 'id' | 'created_at' | 'frequency_locked' | 'estimated_frequency_days' | 'cadence_confidence'>>
+
+export type NewOrderRow = Omit<Order, 'id' | 'created_at'> & Partial<Pick<Order, 'created_at'>>
+
+// Data access for subscriptions.ts. Errors are logged and reported as
+// null/false/[] like the rest of the lib.
+export interface StorageBackend {
+  id: StorageBackendId
+  getUserId(): Promise<string | null>
+  // null when the list couldn't be fetched (as opposed to empty)
+  listSubscriptions(userId: string): Promise<Subscription[] | null>
+  listDueSubscriptions(userId: string, before: string): Promise<Subscription[]>
+  getSubscription(id: string): Promise<Subscription | null>
+  insertSubscription(row: NewSubscriptionRow): Promise<Subscription | null>
+  updateSubscription(id: string, changes: UpdateSubscriptionInput): Promise<Subscription | null>
+  deleteSubscription(id: string): Promise<boolean>
+  insertOrder(row: NewOrderRow): Promise<Order | null>
+  // Newest first
+  listOrders(subscriptionId: string): Promise<Order[]>
+  insertPriceObservation(row: NewPriceObservationRow): Promise<PriceObservation | null>
+  // Newest first
+  listPriceObservations(subscriptionId: string): Promise<PriceObservation[]>
+  // Move the duplicate's history to the kept subscription and delete it
+  mergeSubscriptions(keepId: string, duplicateId: string): Promise<boolean>
+}
+
+// What's known about a product for telling whether two are the same:
+// retailer may be a name, hostname or URL
+export interface ProductIdentity {
+  name: string
+  retailer: string
+  url?: string | null
+  sku?: string | null
+}
+
+// Two subscriptions that are probably the same product (score 0-1)
+export interface DuplicateCandidate {
+  subscriptions: [Subscription, Subscription]
+  score: number
+}
+
+// Offline mutation queue. Changes are applied to the local cache straight
+// away and replayed against Supabase in order once online.
+export type OutboxOperation =
+  // The server id is picked when queued, so a replay can tell if it already ran
+  | { kind: 'create'; id: string; input: CreateSubscriptionInput }
+  | { kind: 'update'; updates: UpdateSubscriptionInput }
+  | { kind: 'delete' }
+  | { kind: 'mark-ordered'; order: Partial<RecordOrderInput> }
+
+export interface OutboxEntry {
+  id: string
+  userId: string
+  subscriptionId: string  // "local-..." until a queued create reaches the server
+  operation: OutboxOperation
+  baseUpdatedAt: string | null  // updated_at of the version the change was made to
+  queuedAt: string
+  attempts: number
+  nextAttemptAt: string | null
 }
 
 // Reminder types
@@ -38,6 +219,67 @@ export interface Reminder {
   channel: 'email' | 'browser'
 }
 
+// When reminders may be delivered, in the user's timezone
+export interface DeliveryPreferences {
+  timezone: string  // IANA name, e.g. "Europe/Berlin"
+  preferred_reminder_time: string | null  // "HH:MM" local time, null = as soon as due
+  quiet_hours_start: string | null  // "HH:MM", may be later than the end (spans midnight)
+  quiet_hours_end: string | null
+}
+
+
+// What a browser notification refers to, so clicks can be routed back
+export type NotificationContext =
+  | {
+      kind: 'reminder'
+      subscriptionId: string
+      productUrl: string | null
+      createdAt: string
+    }
+  | {
+      kind: 'digest'
+      subscriptionIds: string[]
+      productUrls: string[]
+      createdAt: string
+    }
+
+// One notification per due item, or a single list notification per check
+export type NotificationMode = 'per-item' | 'digest'
+
+export interface NotificationSettings {
+  notificationMode: NotificationMode
+  maxNotificationsPerCheck: number
+}
+
+// Preferences synced between chrome.storage.sync and the user_preferences table.
+// Keys are the chrome.storage keys; the table uses snake_case columns.
+export interface UserPreferences extends NotificationSettings {
+  emailReminders: boolean
+  defaultFrequencyDays: number
+  timezone: string
+  preferredReminderTime: string | null
+  quietHoursStart: string | null
+  quietHoursEnd: string | null
+  // Flag reorder prices this many percent above the typical price
+  priceAlertPercent: number
+  // Last local change, compared with the row's updated_at when syncing
+  preferencesUpdatedAt: string | null
+}
+
+export interface UserPreferencesRow {
+  user_id: string
+  email_reminders: boolean
+  notification_mode: NotificationMode
+  max_notifications_per_check: number
+  default_frequency_days: number
+  timezone: string
+  preferred_reminder_time: string | null
+  quiet_hours_start: string | null
+  quiet_hours_end: string | null
+  price_alert_percent: number
+  updated_at: string
+}
+
 // LLM types
 export interface OrderAnalysis {
   isOrderConfirmation: boolean
@@ -45,6 +287,24 @@ export interface OrderAnalysis {
   products: ProductInfo[]
   retailer: string | null
   orderNumber: string | null
+  // Set when heuristics stood in for an LLM call that failed (not cached)
+  fallback?: boolean
+}
+
+// An LLM result kept so reloading or revisiting the same page doesn't call
+// the LLM again. `fingerprint` hashes the normalized URL and page text.
+export interface CachedAnalysis {
+  fingerprint: string
+  url: string
+  analysis: OrderAnalysis
+  cachedAt: string
+}
+
+// An LLM reply checked against the OrderAnalysis schema. `errors` are sent
+// back to the model when asking it to repair the reply.
+export interface AnalysisValidation {
+  analysis: OrderAnalysis | null
+  errors: string[]
 }
 
 export interface ProductInfo {
@@ -54,6 +314,8 @@ export interface ProductInfo {
   isRecurring: boolean
   category: string | null
   suggestedFrequencyDays: number | null  // LLM suggests based on category
+  sku?: string | null  // From structured data (schema.org sku/gtin/mpn)
+  currency?: string | null  // ISO 4217 code, when the page or LLM stated one
 }
 
 export interface PageContent {
@@ -62,7 +324,42 @@ export interface PageContent {
 }
 
 export interface LLMProvider {
-  analyzeOrderPage(pageContent: string | PageContent): Promise<OrderAnalysis>
+  // `fingerprint` lets the analyze-order function reuse a logged result
+  analyzeOrderPage(pageContent: string | PageContent, fingerprint?: string): Promise<OrderAnalysis>
+}
+
+// Which backend analyzes order pages. 'edge' proxies through the analyze-order
+// Supabase function, 'local' is any OpenAI-compatible server (Ollama, llama.cpp)
+export type LLMProviderId = 'none' | 'gemini' | 'openai' | 'anthropic' | 'local' | 'edge'
+
+// Provider the analyze-order edge function should use server-side
+export type EdgeLLMProvider = 'openai' | 'claude'
+
+// How much personal information is masked before page text goes to an LLM.
+// 'minimal' masks emails, phone and card numbers; 'standard' also addresses
+// and names on shipping/billing details; 'strict' whole address blocks too
+export type RedactionLevel = 'minimal' | 'standard' | 'strict'
+
+export type RedactionKind = 'email' | 'phone' | 'card' | 'address' | 'name'
+
+export interface RedactionResult {
+  text: string
+  counts: Record<RedactionKind, number>
+}
+
+export interface LLMSettings {
+  llmProvider: LLMProviderId
+  geminiApiKey: string
+  geminiModel: string
+  openaiApiKey: string
+  openaiModel: string
+  anthropicApiKey: string
+  anthropicModel: string
+  localLlmBaseUrl: string
+  localLlmModel: string
+  localLlmApiKey: string
+  edgeLlmProvider: EdgeLLMProvider
+  redactionLevel: RedactionLevel
 }
 
 // Page detection types
@@ -72,6 +369,59 @@ export interface PageDetectionResult {
   triggers: string[]
 }
 
+export interface UrlPattern {
+  pattern: RegExp
+  trigger: string
+  confidence: number
+}
+
+// Same shape, matched against a page's title or text instead of its URL
+export type TextPattern = UrlPattern
+
+// Order confirmation wording for one language
+export interface LocalePack {
+  // Primary language subtag, as in <html lang="de-DE">
+  locale: string
+  // Common words (or script) that identify the language when lang is missing
+  detect: RegExp
+  urlPatterns: UrlPattern[]
+  orderDetailsPatterns: UrlPattern[]
+  excludePatterns: RegExp[]
+  titlePatterns: TextPattern[]
+  contentPatterns: TextPattern[]
+}
+
+// A piece of content script UI mounted in its own shadow root
+export interface InjectedUI {
+  host: HTMLElement
+  root: ShadowRoot
+  remove(): void
+}
+
+// Tracks the logical page in the content script; navigate() returns false
+// for the page already showing
+export interface PageNavigator {
+  navigate(url: string): boolean
+}
+
+// Retailer adapter types - site/platform specific extraction for the content script
+export interface RetailerAdapter {
+  id: string
+  // Display metadata, used when the page doesn't name the store
+  store: { name: string; logo: string }
+  // Hostnames this adapter owns
+  hostnames: RegExp[]
+  // Order confirmation / order details URL patterns. Only checked on the adapter's
+  // own hostnames, unless it is a platform adapter (has a fingerprint)
+  urlPatterns: UrlPattern[]
+  // Platform fingerprint (Shopify, WooCommerce) for stores on custom domains
+  fingerprint?(doc: Document): boolean
+  extractProducts(doc: Document): ProductInfo[]
+  extractOrderNumber(doc: Document): string | null
+  // Store name as shown on the page, if the adapter can find one
+  extractRetailer?(doc: Document): string | null
+}
+
 // Message types for extension communication
 export type MessageType =
   | 'ANALYZE_PAGE'
@@ -83,6 +433,15 @@ export type MessageType =
   | 'MARK_AS_ORDERED'
   | 'SNOOZE_REMINDER'
   | 'CHECK_REMINDERS'
+  | 'GET_ORDER_HISTORY'
+  | 'SUBSCRIPTIONS_UPDATED'
+  | 'MIGRATE_LOCAL_DATA'
+  | 'PRICE_OBSERVED'
+  | 'GET_PRICE_HISTORY'
+  | 'GET_PAGE_SUBSCRIPTION'
+  | 'MERGE_SUBSCRIPTIONS'
+  | 'PAGE_NAVIGATED'
+  | 'GET_ANALYSIS_PREVIEW'
 
 export interface ExtensionMessage<T = unknown> {
   type: MessageType
@@ -110,6 +469,11 @@ export interface DeleteSubscriptionPayload {
 
 export interface MarkAsOrderedPayload {
   id: string
+  order?: Partial<RecordOrderInput>
+}
+
+export interface GetOrderHistoryPayload {
+  subscriptionId: string
 }
 
 export interface SnoozeReminderPayload {
@@ -117,6 +481,42 @@ export interface SnoozeReminderPayload {
   days: number
 }
 
+// A price seen for a subscription (by id) or on a product page (by URL)
+export interface PriceObservedPayload {
+  price: number
+  // Prices in another currency than the subscription's are ignored
+  currency?: string
+  source: PriceSource
+  subscriptionId?: string
+  productUrl?: string
+  // Matches subscriptions without a product_url to the page
+  productName?: string | null
+}
+
+export interface GetPriceHistoryPayload {
+  subscriptionId: string
+}
+
+export interface MergeSubscriptionsPayload {
+  keepId: string
+  duplicateId: string
+}
+
+// A product page the content script is showing, to look up its subscription
+export interface GetPageSubscriptionPayload {
+  url: string
+  productName: string | null
+}
+
+// Sent to a tab's content script when its page changed URL without reloading
+export interface PageNavigatedPayload {
+  url: string
+}
+
+export interface SubscriptionsUpdatedPayload {
+  subscriptions: Subscription[]
+}
+
 // Frequency options
 export const FREQUENCY_OPTIONS = [
   { label: 'Weekly', days: 7 },
@@ -0,0 +1,332 @@
+/**
+ * Runtime schema for the OrderAnalysis JSON an LLM returns. Values models
+ * commonly get slightly wrong ("29.99" for a price, 1.2 or "90%" for confidence,
+ * "x2" for a quantity) are coerced; missing or unusable required fields are
+ * reported as errors so the caller can ask the model to fix its reply.
+ *
+ * Copy of extension/src/lib/analysis-schema.ts for edge functions - keep in
+ * sync. Prices written as text are read with the simpler helpers below
+ * rather than the extension's currency module.
+ */
+
+export const ORDER_ANALYSIS_SCHEMA_NAME = 'order_analysis'
+
+// JSON Schema for providers with a structured output mode. Every property is
+// required and nullable ones say so, as OpenAI's strict mode expects.
+export const ORDER_ANALYSIS_JSON_SCHEMA: Record<string, unknown> = {
+  type: 'object',
+  properties: {
+    isOrderConfirmation: { type: 'boolean' },
+    confidence: { type: 'number', description: 'Between 0 and 1' },
+    products: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          name: { type: 'string' },
+          price: { type: ['number', 'null'], description: 'Plain number, 1.234,56 € is 1234.56' },
+          currency: { type: ['string', 'null'], description: 'ISO 4217 code' },
+          quantity: { type: 'number' },
+          isRecurring: { type: 'boolean' },
+          category: { type: ['string', 'null'] },
+          suggestedFrequencyDays: { type: ['number', 'null'] }
+        },
+        required: ['name', 'price', 'currency', 'quantity', 'isRecurring', 'category', 'suggestedFrequencyDays'],
+        additionalProperties: false
+      }
+    },
+    retailer: { type: ['string', 'null'] },
+    orderNumber: { type: ['string', 'null'] }
+  },
+  required: ['isOrderConfirmation', 'confidence', 'products', 'retailer', 'orderNumber'],
+  additionalProperties: false
+}
+
+export interface ProductInfo {
+  name: string
+  price: number | null
+  currency: string | null
+  quantity: number
+  isRecurring: boolean
+  category: string | null
+  suggestedFrequencyDays: number | null
+}
+
+export interface OrderAnalysis {
+  isOrderConfirmation: boolean
+  confidence: number
+  products: ProductInfo[]
+  retailer: string | null
+  orderNumber: string | null
+}
+
+export interface AnalysisValidation {
+  analysis: OrderAnalysis | null
+  errors: string[]
+}
+
+function normalizeCurrency(code: string | null | undefined): string {
+  const upper = code?.trim().toUpperCase()
+  return upper && /^[A-Z]{3}$/.test(upper) ? upper : 'USD'
+}
+
+// Either decimal separator: the last "." or "," is the decimal point unless
+// it's the only one and three digits follow ("1.234" is 1234)
+function parseAmount(text: string): number | null {
+  const digits = text.replace(/[\s']/g, '')
+  if (!/^\d[\d.,]*$/.test(digits)) {
+    return null
+  }
+
+  const decimalAt = Math.max(digits.lastIndexOf('.'), digits.lastIndexOf(','))
+  let normalized = digits
+  if (decimalAt !== -1) {
+    const separator = digits[decimalAt]
+    const isDecimal = digits.includes('.') && digits.includes(',')
+      ? true
+      : digits.indexOf(separator) === decimalAt && digits.length - decimalAt - 1 !== 3
+    normalized = isDecimal
+      ? `${digits.slice(0, decimalAt).replace(/[.,]/g, '')}.${digits.slice(decimalAt + 1)}`
+      : digits.replace(/[.,]/g, '')
+  }
+
+  const amount = parseFloat(normalized)
+  return Number.isFinite(amount) ? amount : null
+}
+
+// "$29.99", "29,99 EUR": the amount, and the currency when given as an ISO code
+function parsePrice(text: string): { amount: number; currency: string | null } | null {
+  const amount = parseAmount(text.replace(/[^\d.,'\s]/g, '').trim())
+  if (amount === null) {
+    return null
+  }
+  return { amount, currency: text.match(/\b[A-Z]{3}\b/)?.[0] ?? null }
+}
+
+// How much of a rejected reply, and how many of its errors, go into a repair request
+const MAX_REPAIR_REPLY_LENGTH = 8000
+const MAX_REPAIR_ERRORS = 10
+
+// Suggested reorder intervals outside this range are clamped
+const MIN_SUGGESTED_FREQUENCY_DAYS = 1
+const MAX_SUGGESTED_FREQUENCY_DAYS = 365
+
+// A number in a string, with the units models tend to add ("30 days", "x2", "90%")
+const NUMERIC_STRING_PATTERN = /^(?:x\s*)?(-?\d+(?:\.\d+)?)\s*(%|days?)?$/i
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function readNumber(value: unknown): number | null {
+  if (typeof value === 'number') {
+    return Number.isFinite(value) ? value : null
+  }
+  if (typeof value !== 'string') {
+    return null
+  }
+
+  const match = value.trim().match(NUMERIC_STRING_PATTERN)
+  if (!match) {
+    return null
+  }
+  const number = parseFloat(match[1])
+  return match[2] === '%' ? number / 100 : number
+}
+
+function readBoolean(value: unknown): boolean | null {
+  if (typeof value === 'boolean') {
+    return value
+  }
+  if (typeof value === 'string') {
+    const text = value.trim().toLowerCase()
+    if (text === 'true' || text === 'yes') return true
+    if (text === 'false' || text === 'no') return false
+  }
+  return null
+}
+
+function readString(value: unknown): string | null {
+  if (typeof value === 'number' && Number.isFinite(value)) {
+    return String(value)
+  }
+  return typeof value === 'string' && value.trim() ? value.trim() : null
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(Math.max(value, min), max)
+}
+
+/**
+ * Confidence clamped to 0-1 ("90%" reads as 0.9)
+ */
+function readConfidence(value: unknown): number | null {
+  const number = readNumber(value)
+  return number === null ? null : clamp(number, 0, 1)
+}
+
+/**
+ * A price and the currency it was written in, if any. Prices may come back
+ * as page text ("$29.99", "29,99 €", "1.234,56"). Null when unreadable.
+ */
+function readPrice(value: unknown): { amount: number | null; currency: string | null } | null {
+  if (value === null || value === undefined || value === '') {
+    return { amount: null, currency: null }
+  }
+
+  const number = readNumber(value)
+  if (number !== null) {
+    return { amount: number, currency: null }
+  }
+  if (typeof value !== 'string') {
+    return null
+  }
+
+  const parsed = parsePrice(value)
+  if (parsed && /[^\d\s.,']/.test(value)) {
+    return parsed
+  }
+  const amount = parseAmount(value.trim())
+  return amount === null ? null : { amount, currency: null }
+}
+
+function validateProduct(value: unknown, path: string, errors: string[]): ProductInfo | null {
+  if (!isRecord(value)) {
+    errors.push(`${path}: expected an object`)
+    return null
+  }
+
+  const name = readString(value.name)
+  if (!name) {
+    errors.push(`${path}.name: expected a non-empty string`)
+  }
+
+  const price = readPrice(value.price)
+  if (!price) {
+    errors.push(`${path}.price: expected a number or null`)
+  } else if (price.amount !== null && price.amount < 0) {
+    errors.push(`${path}.price: expected a positive number`)
+  }
+  const currency = readString(value.currency) ?? price?.currency ?? null
+
+  let quantity = 1
+  if (value.quantity !== undefined && value.quantity !== null) {
+    const number = readNumber(value.quantity)
+    if (number === null) {
+      errors.push(`${path}.quantity: expected a number`)
+    } else {
+      quantity = Math.max(Math.round(number), 1)
+    }
+  }
+
+  let isRecurring = false
+  if (value.isRecurring !== undefined && value.isRecurring !== null) {
+    const recurring = readBoolean(value.isRecurring)
+    if (recurring === null) {
+      errors.push(`${path}.isRecurring: expected true or false`)
+    } else {
+      isRecurring = recurring
+    }
+  }
+
+  // Left null when missing or unusable, so the user's default frequency applies
+  const days = readNumber(value.suggestedFrequencyDays)
+  const suggestedFrequencyDays = days !== null && days > 0
+    ? clamp(Math.round(days), MIN_SUGGESTED_FREQUENCY_DAYS, MAX_SUGGESTED_FREQUENCY_DAYS)
+    : null
+
+  if (!name || !price || (price.amount !== null && price.amount < 0)) {
+    return null
+  }
+
+  return {
+    name,
+    price: price.amount,
+    currency: currency ? normalizeCurrency(currency) : null,
+    quantity,
+    isRecurring,
+    category: readString(value.category),
+    suggestedFrequencyDays
+  }
+}
+
+/**
+ * Check a parsed LLM reply against the OrderAnalysis schema, coercing what
+ * can be coerced. `analysis` is null when any error was found.
+ */
+export function validateOrderAnalysis(value: unknown): AnalysisValidation {
+  if (!isRecord(value)) {
+    return { analysis: null, errors: ['Expected a JSON object'] }
+  }
+
+  const errors: string[] = []
+
+  const isOrderConfirmation = readBoolean(value.isOrderConfirmation)
+  if (isOrderConfirmation === null) {
+    errors.push('isOrderConfirmation: expected true or false')
+  }
+
+  const confidence = readConfidence(value.confidence)
+  if (confidence === null) {
+    errors.push('confidence: expected a number between 0 and 1')
+  }
+
+  const products: ProductInfo[] = []
+  if (!Array.isArray(value.products)) {
+    errors.push('products: expected an array')
+  } else {
+    value.products.forEach((item, index) => {
+      const product = validateProduct(item, `products[${index}]`, errors)
+      if (product) products.push(product)
+    })
+  }
+
+  if (errors.length > 0 || isOrderConfirmation === null || confidence === null) {
+    return { analysis: null, errors }
+  }
+
+  const analysis: OrderAnalysis = {
+    isOrderConfirmation,
+    confidence,
+    products,
+    retailer: readString(value.retailer),
+    orderNumber: readString(value.orderNumber)
+  }
+  return { analysis, errors: [] }
+}
+
+/**
+ * Pull the JSON object out of a model reply (bare, in a code block or
+ * surrounded by prose) and validate it
+ */
+export function parseAnalysisResponse(response: string): AnalysisValidation {
+  const codeBlockMatch = response.match(/```(?:json)?\s*([\s\S]*?)```/)
+  const jsonStr = codeBlockMatch ? codeBlockMatch[1].trim() : response
+
+  const jsonMatch = jsonStr.match(/\{[\s\S]*\}/)
+  if (!jsonMatch) {
+    return { analysis: null, errors: ['No JSON object found in the reply (it may have been cut off)'] }
+  }
+
+  try {
+    return validateOrderAnalysis(JSON.parse(jsonMatch[0]))
+  } catch (error) {
+    return { analysis: null, errors: [`Invalid JSON: ${error instanceof Error ? error.message : String(error)}`] }
+  }
+}
+
+/**
+ * Ask the model to fix a reply that failed validation. The page is sent
+ * again since a cut-off reply can't be completed without it.
+ */
+export function buildRepairPrompt(userPrompt: string, reply: string, errors: string[]): string {
+  return `${userPrompt}
+
+Your previous reply could not be used:
+${errors.slice(0, MAX_REPAIR_ERRORS).map((error) => `- ${error}`).join('\n')}
+
+PREVIOUS REPLY:
+${reply.substring(0, MAX_REPAIR_REPLY_LENGTH)}
+
+Return the corrected JSON object only, in the format described. Fix only the problems listed.`
+}
@@ -1,11 +1,18 @@
 import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import {
+  buildRepairPrompt,
+  parseAnalysisResponse,
+  ORDER_ANALYSIS_JSON_SCHEMA,
+  ORDER_ANALYSIS_SCHEMA_NAME,
+  type OrderAnalysis
+} from '../_shared/analysis-schema.ts'
 
 const SYSTEM_PROMPT = `You are an AI assistant that analyzes e-commerce page content to determine if it's an order confirmation page and extract product information.
 
 Your task is to:
 1. Determine if the page content represents an order confirmation/receipt
-2. Extract product names, prices, and quantities if present
+2. Extract product names, prices, and quantities if present. Prices are plain numbers (1.234,56 € is 1234.56), with the ISO 4217 currency code (USD, EUR, GBP, JPY, INR, AUD...) or null if unclear
 3. Identify the retailer name
 4. Determine if each product is likely a recurring purchase (consumables, supplies, etc.) vs one-time purchase (electronics, furniture, etc.)
 
@@ -17,9 +24,11 @@ Respond with a JSON object in this exact format:
     {
       "name": string,
       "price": number | null,
+      "currency": string | null,
       "quantity": number,
       "isRecurring": boolean,
-      "category": string | null
+      "category": string | null,
+      "suggestedFrequencyDays": number | null
     }
   ],
   "retailer": string | null,
@@ -32,21 +41,8 @@ Guidelines for isRecurring:
 
 Only output the JSON object, no additional text.`
 
-interface ProductInfo {
-  name: string
-  price: number | null
-  quantity: number
-  isRecurring: boolean
-  category: string | null
-}
-
-interface OrderAnalysis {
-  isOrderConfirmation: boolean
-  confidence: number
-  products: ProductInfo[]
-  retailer: string | null
-  orderNumber: string | null
-}
+// How long a logged result is reused for the same page (matches the extension's cache)
+const ANALYSIS_CACHE_TTL_MS = 1000 * 60 * 60 * 24 * 7
 
 serve(async (req) => {
   try {
@@ -73,7 +69,7 @@ serve(async (req) => {
       })
     }
 
-    const { pageContent, provider } = await req.json()
+    const { pageContent, provider, fingerprint } = await req.json()
 
     if (!pageContent) {
       return new Response(JSON.stringify({ error: 'pageContent is required' }), {
@@ -82,6 +78,35 @@ serve(async (req) => {
       })
     }
 
+    // Choose AI provider (default to OpenAI)
+    const aiProvider = provider || Deno.env.get('AI_PROVIDER') || 'openai'
+
+    // A page this user had analyzed recently with this provider: return the
+    // logged result instead of paying for the same AI call again. The
+    // extension's fingerprint also covers its redaction level.
+    const pageFingerprint = typeof fingerprint === 'string' && /^[0-9a-f]{64}$/.test(fingerprint)
+      ? fingerprint
+      : null
+    if (pageFingerprint) {
+      const { data: previous } = await supabase
+        .from('ai_analyses')
+        .select('result')
+        .eq('user_id', user.id)
+        .eq('page_fingerprint', pageFingerprint)
+        .eq('provider', aiProvider)
+        .not('result', 'is', null)
+        .gte('created_at', new Date(Date.now() - ANALYSIS_CACHE_TTL_MS).toISOString())
+        .order('created_at', { ascending: false })
+        .limit(1)
+        .maybeSingle()
+
+      if (previous?.result) {
+        return new Response(JSON.stringify(previous.result), {
+          headers: { 'Content-Type': 'application/json' }
+        })
+      }
+    }
+
     const MAX_CONTENT_LENGTH = 40000
     const truncatedContent =
       pageContent.length > MAX_CONTENT_LENGTH
@@ -95,18 +120,73 @@ ${truncatedContent}
 
 Respond with only a JSON object in the specified format.`
 
-    let analysis: OrderAnalysis
+    const complete = getCompletion(aiProvider)
 
-    // Choose AI provider (default to OpenAI)
-    const aiProvider = provider || Deno.env.get('AI_PROVIDER') || 'openai'
+    // A reply that fails schema validation gets one repair round-trip
+    const content = await complete(prompt)
+    let result = parseAnalysisResponse(content)
+    if (!result.analysis) {
+      console.warn('AI response failed validation, asking for a repair:', result.errors)
+      result = parseAnalysisResponse(await complete(buildRepairPrompt(prompt, content, result.errors)))
+    }
+    if (!result.analysis) {
+      throw new Error(`Could not parse the AI response: ${result.errors.join('; ')}`)
+    }
+    const analysis: OrderAnalysis = result.analysis
 
-    if (aiProvider === 'openai') {
-      const apiKey = Deno.env.get('OPENAI_API_KEY')
-      if (!apiKey) {
-        throw new Error('OpenAI API key not configured')
-      }
+    // Log the analysis for monitoring. Users can't write ai_analyses, so
+    // this goes through the service role. Only parsed replies get here, so
+    // a stored result is always one worth reusing.
+    const admin = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    )
+    await admin.from('ai_analyses').insert({
+      user_id: user.id,
+      provider: aiProvider,
+      is_order_confirmation: analysis.isOrderConfirmation,
+      confidence: analysis.confidence,
+      product_count: analysis.products.length,
+      page_fingerprint: pageFingerprint,
+      result: analysis
+    }).catch(console.error)
 
-      const model = Deno.env.get('OPENAI_MODEL') || 'gpt-4o-mini'
+    return new Response(JSON.stringify(analysis), {
+      headers: { 'Content-Type': 'application/json' }
+    })
+
+  } catch (error) {
+    console.error('Error in analyze-order function:', error)
+    // fallback marks this as no real answer, so the extension uses its
+    // heuristics and caches nothing
+    return new Response(JSON.stringify({
+      error: error.message || 'Internal server error',
+      fallback: true,
+      isOrderConfirmation: false,
+      confidence: 0,
+      products: [],
+      retailer: null,
+      orderNumber: null
+    }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' }
+    })
+  }
+})
+
+/**
+ * The provider's chat completion: user prompt in (with SYSTEM_PROMPT), raw
+ * reply out, using its structured output mode for the analysis schema
+ */
+function getCompletion(aiProvider: string): (prompt: string) => Promise<string> {
+  if (aiProvider === 'openai') {
+    const apiKey = Deno.env.get('OPENAI_API_KEY')
+    if (!apiKey) {
+      throw new Error('OpenAI API key not configured')
+    }
+    const model = Deno.env.get('OPENAI_MODEL') || 'gpt-4o-mini'
+
+    return async (prompt) => {
       const response = await fetch('https://api.openai.com/v1/chat/completions', {
         method: 'POST',
         headers: {
@@ -120,7 +200,11 @@ Respond with only a JSON object in the specified format.`
             { role: 'user', content: prompt }
           ],
           temperature: 0.1,
-          max_tokens: 2000
+          max_tokens: 2000,
+          response_format: {
+            type: 'json_schema',
+            json_schema: { name: ORDER_ANALYSIS_SCHEMA_NAME, strict: true, schema: ORDER_ANALYSIS_JSON_SCHEMA }
+          }
         })
       })
 
@@ -131,15 +215,18 @@ Respond with only a JSON object in the specified format.`
       }
 
       const data = await response.json()
-      const content = data.choices?.[0]?.message?.content || ''
-      analysis = parseOrderAnalysis(content)
-    } else if (aiProvider === 'claude') {
-      const apiKey = Deno.env.get('ANTHROPIC_API_KEY')
-      if (!apiKey) {
-        throw new Error('Anthropic API key not configured')
-      }
+      return data.choices?.[0]?.message?.content || ''
+    }
+  }
 
-      const model = Deno.env.get('ANTHROPIC_MODEL') || 'claude-3-haiku-20240307'
+  if (aiProvider === 'claude') {
+    const apiKey = Deno.env.get('ANTHROPIC_API_KEY')
+    if (!apiKey) {
+      throw new Error('Anthropic API key not configured')
+    }
+    const model = Deno.env.get('ANTHROPIC_MODEL') || 'claude-3-haiku-20240307'
+
+    return async (prompt) => {
       const response = await fetch('https://api.anthropic.com/v1/messages', {
         method: 'POST',
         headers: {
@@ -153,7 +240,13 @@ Respond with only a JSON object in the specified format.`
           system: SYSTEM_PROMPT,
           messages: [
             { role: 'user', content: prompt }
-          ]
+          ],
+          tools: [{
+            name: ORDER_ANALYSIS_SCHEMA_NAME,
+            description: 'Record the result in this format',
+            input_schema: ORDER_ANALYSIS_JSON_SCHEMA
+          }],
+          tool_choice: { type: 'tool', name: ORDER_ANALYSIS_SCHEMA_NAME }
         })
       })
 
@@ -164,86 +257,14 @@ Respond with only a JSON object in the specified format.`
       }
 
       const data = await response.json()
-      const content = data.content?.[0]?.text || ''
-      analysis = parseOrderAnalysis(content)
-    } else {
-      throw new Error(`Unsupported AI provider: ${aiProvider}`)
+      const blocks: Array<{ type: string; text?: string; input?: unknown }> = data.content || []
+      const toolUse = blocks.find((block) => block.type === 'tool_use')
+      if (toolUse) {
+        return JSON.stringify(toolUse.input)
+      }
+      return blocks.find((block) => block.type === 'text')?.text || ''
     }
-
-    // Log the analysis for monitoring
-    await supabase.from('ai_analyses').insert({
-      user_id: user.id,
-      provider: aiProvider,
-      is_order_confirmation: analysis.isOrderConfirmation,
-      confidence: analysis.confidence,
-      product_count: analysis.products.length
-    }).catch(console.error)
-
-    return new Response(JSON.stringify(analysis), {
-      headers: { 'Content-Type': 'application/json' }
-    })
-
-  } catch (error) {
-    console.error('Error in analyze-order function:', error)
-    return new Response(JSON.stringify({
-      error: error.message || 'Internal server error',
-      isOrderConfirmation: false,
-      confidence: 0,
-      products: [],
-      retailer: null,
-      orderNumber: null
-    }), {
-      status: 500,
-      headers: { 'Content-Type': 'application/json' }
-    })
-  }
-})
-
-function parseOrderAnalysis(response: string): OrderAnalysis {
-  const defaultResult: OrderAnalysis = {
-    isOrderConfirmation: false,
-    confidence: 0,
-    products: [],
-    retailer: null,
-    orderNumber: null
   }
 
-  try {
-    let jsonStr = response
-    const codeBlockMatch = response.match(/```(?:json)?\s*([\s\S]*?)```/)
-    if (codeBlockMatch) {
-      jsonStr = codeBlockMatch[1].trim()
-    }
-
-    const jsonMatch = jsonStr.match(/\{[\s\S]*\}/)
-    if (!jsonMatch) {
-      return defaultResult
-    }
-
-    const parsed = JSON.parse(jsonMatch[0])
-
-    if (typeof parsed.isOrderConfirmation !== 'boolean') {
-      return defaultResult
-    }
-
-    const products: ProductInfo[] = Array.isArray(parsed.products)
-      ? parsed.products.map((p: Partial<ProductInfo>) => ({
-          name: p.name || 'Unknown Product',
-          price: typeof p.price === 'number' ? p.price : null,
-          quantity: typeof p.quantity === 'number' ? p.quantity : 1,
-          isRecurring: typeof p.isRecurring === 'boolean' ? p.isRecurring : false,
-          category: p.category || null
-        }))
-      : []
-
-    return {
-      isOrderConfirmation: parsed.isOrderConfirmation,
-      confidence: typeof parsed.confidence === 'number' ? parsed.confidence : 0.5,
-      products,
-      retailer: parsed.retailer || null,
-      orderNumber: parsed.orderNumber || null
-    }
-  } catch {
-    return defaultResult
-  }
+  throw new Error(`Unsupported AI provider: ${aiProvider}`)
 }
@@ -1,8 +1,10 @@
 // Supabase Edge Function for sending email reminders
-// This function is triggered by a cron job (daily)
+// This function is triggered by a cron job (hourly) and emails users who opted
+// in at their preferred reminder time, outside quiet hours, in their own timezone
 
 import { serve } from 'https://deno.land/std@0.177.0/http/server.ts'
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.39.0'
+import { isDeliverable, type DeliveryPreferences } from '../_shared/delivery-window.ts'
 
 // Email service configuration (using Resend)
 const RESEND_API_KEY = Deno.env.get('RESEND_API_KEY')
@@ -12,18 +14,26 @@ const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
 interface Subscription {
   id: string
   user_id: string
+  email: string
   product_name: string
   product_url: string | null
   retailer: string
   price: number | null
+  currency: string
   frequency_days: number
   next_reminder_at: string
 }
 
-interface UserProfile {
-  email: string
+interface UserPreferences extends DeliveryPreferences {
+  user_id: string
+  email_reminders: boolean
 }
 
+// Look a day ahead so items due later today (local time) go out at the preferred time
+const DUE_LOOKAHEAD_MS = 1000 * 60 * 60 * 24
+// Don't email about the same subscription more than once in this window
+const RESEND_AFTER_MS = 1000 * 60 * 60 * 20
+
 serve(async (req) => {
   try {
     // Verify this is a cron trigger or authorized request
@@ -35,12 +45,12 @@ serve(async (req) => {
     // Create Supabase client with service role (bypasses RLS)
     const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY)
 
-    // Get all subscriptions due for reminder today
-    const now = new Date().toISOString()
-    const { data: dueSubscriptions, error: fetchError } = await supabase
-      .from('subscriptions')
-      .select('*, auth.users!inner(email)')
-      .lte('next_reminder_at', now)
+    // Get all subscriptions due for reminder by tomorrow
+    const now = new Date()
+    const { data: candidates, error: fetchError } = await supabase
+      .rpc('get_due_reminder_recipients', {
+        due_before: new Date(now.getTime() + DUE_LOOKAHEAD_MS).toISOString()
+      })
 
     if (fetchError) {
       console.error('Error fetching due subscriptions:', fetchError)
@@ -50,7 +60,10 @@ serve(async (req) => {
       })
     }
 
-    if (!dueSubscriptions || dueSubscriptions.length === 0) {
+    // Keep only those of opted-in users, deliverable now in their timezone, not emailed recently
+    const dueSubscriptions = await filterDeliverable(supabase, (candidates || []) as Subscription[], now)
+
+    if (dueSubscriptions.length === 0) {
       console.log('No subscriptions due for reminder')
       return new Response(JSON.stringify({ sent: 0 }), {
         headers: { 'Content-Type': 'application/json' }
@@ -64,7 +77,7 @@ serve(async (req) => {
 
     for (const sub of dueSubscriptions) {
       const userId = sub.user_id
-      const userEmail = (sub as any).auth?.users?.email
+      const userEmail = sub.email
 
       if (!userEmail) continue
 
@@ -114,6 +127,55 @@ serve(async (req) => {
   }
 })
 
+/**
+ * Filter subscriptions to those whose owner opted in to email reminders, whose
+ * preferred time has come (outside quiet hours) and that haven't been emailed
+ * in the last RESEND_AFTER_MS
+ */
+async function filterDeliverable(
+  supabase: ReturnType<typeof createClient>,
+  subscriptions: Subscription[],
+  now: Date
+): Promise<Subscription[]> {
+  if (subscriptions.length === 0) return []
+
+  const userIds = [...new Set(subscriptions.map((s) => s.user_id))]
+  const { data: preferences, error: prefsError } = await supabase
+    .from('user_preferences')
+    .select('*')
+    .in('user_id', userIds)
+    .eq('email_reminders', true)
+
+  if (prefsError) {
+    // Without preferences we can't tell who opted in - send nothing
+    console.error('Error fetching user preferences:', prefsError)
+    return []
+  }
+
+  const prefsByUser = new Map<string, UserPreferences>()
+  for (const prefs of (preferences || []) as UserPreferences[]) {
+    prefsByUser.set(prefs.user_id, prefs)
+  }
+
+  const { data: recent, error: recentError } = await supabase
+    .from('reminders')
+    .select('subscription_id')
+    .eq('channel', 'email')
+    .gte('sent_at', new Date(now.getTime() - RESEND_AFTER_MS).toISOString())
+    .in('subscription_id', subscriptions.map((s) => s.id))
+
+  if (recentError) {
+    console.error('Error fetching recent reminders:', recentError)
+  }
+
+  const recentlySent = new Set((recent || []).map((r: { subscription_id: string }) => r.subscription_id))
+
+  return subscriptions.filter((s) => {
+    const prefs = prefsByUser.get(s.user_id)
+    return !!prefs && !recentlySent.has(s.id) && isDeliverable(s.next_reminder_at, now, prefs)
+  })
+}
+
 async function sendReminderEmail(email: string, subscriptions: Subscription[]): Promise<void> {
   if (!RESEND_API_KEY) {
     console.log('RESEND_API_KEY not configured, skipping email')
@@ -123,7 +185,7 @@ async function sendReminderEmail(email: string, subscriptions: Subscription[]):
   const productList = subscriptions
     .map((s) => {
       let line = `- ${s.product_name} from ${s.retailer}`
-      if (s.price) line += ` ($${s.price.toFixed(2)})`
+      if (s.price) line += ` (${formatPrice(s.price, s.currency)})`
       return line
     })
     .join('\n')
@@ -147,7 +209,7 @@ async function sendReminderEmail(email: string, subscriptions: Subscription[]):
               <div style="font-weight: 600; color: #333;">${escapeHtml(s.product_name)}</div>
               <div style="color: #666; font-size: 14px;">
                 ${escapeHtml(s.retailer)}
-                ${s.price ? ` • $${s.price.toFixed(2)}` : ''}
+                ${s.price ? ` • ${escapeHtml(formatPrice(s.price, s.currency))}` : ''}
               </div>
               ${
                 s.product_url
@@ -191,6 +253,14 @@ async function sendReminderEmail(email: string, subscriptions: Subscription[]):
   }
 }
 
+function formatPrice(amount: number, currency: string): string {
+  try {
+    return new Intl.NumberFormat('en-US', { style: 'currency', currency: currency || 'USD' }).format(amount)
+  } catch {
+    return `${amount.toFixed(2)} ${currency}`
+  }
+}
+
 function escapeHtml(text: string): string {
   return text
     .replace(/&/g, '&amp;')
@@ -0,0 +1,51 @@
+-- Order history: one row per purchase of a subscribed product
+create table if not exists public.orders (
+  id uuid primary key default uuid_generate_v4(),
+  subscription_id uuid not null references public.subscriptions(id) on delete cascade,
+  user_id uuid not null references auth.users(id) on delete cascade,
+  ordered_at timestamp with time zone not null default now(),
+  quantity integer not null default 1 check (quantity > 0),
+  unit_price decimal(10, 2),
+  order_number text,
+  -- Where the order was recorded from: a detected confirmation page,
+  -- a reminder notification button, or a manual action in the popup
+  source text not null check (source in ('detected', 'notification', 'manual')),
+  created_at timestamp with time zone default now()
+);
+
+-- Create indexes
+create index if not exists idx_orders_subscription_id on public.orders(subscription_id, ordered_at desc);
+create index if not exists idx_orders_user_id on public.orders(user_id);
+
+-- Enable RLS
+alter table public.orders enable row level security;
+
+-- Users can only see their own orders
+create policy "Users can view own orders"
+  on public.orders for select
+  using (auth.uid() = user_id);
+
+-- Users can record orders for their own subscriptions
+create policy "Users can create own orders"
+  on public.orders for insert
+  with check (
+    auth.uid() = user_id
+    and exists (
+      select 1 from public.subscriptions
+      where subscriptions.id = orders.subscription_id
+      and subscriptions.user_id = auth.uid()
+    )
+  );
+
+-- Users can delete their own orders
+create policy "Users can delete own orders"
+  on public.orders for delete
+  using (auth.uid() = user_id);
+
+-- Backfill: keep the one purchase we already know about for existing subscriptions
+insert into public.orders (subscription_id, user_id, ordered_at, unit_price, source)
+select id, user_id, last_ordered_at, price, 'manual'
+from public.subscriptions
+where last_ordered_at is not null;
+
+grant select, insert, delete on public.orders to authenticated;
@@ -0,0 +1,7 @@
+-- Adaptive reorder cadence learned from order history
+alter table public.subscriptions
+  -- When true, frequency_days is never changed automatically
+  add column if not exists frequency_locked boolean not null default false,
+  -- Latest estimate of the real reorder interval and how sure we are about it
+  add column if not exists estimated_frequency_days integer check (estimated_frequency_days > 0),
+  add column if not exists cadence_confidence decimal(3, 2) check (cadence_confidence between 0 and 1);
@@ -0,0 +1,9 @@
+-- Quantity-aware consumption model ("runs out on")
+alter table public.subscriptions
+  -- Units in one pack (e.g. 30 capsules) and packs bought in the last order
+  add column if not exists pack_size integer not null default 1 check (pack_size > 0),
+  add column if not exists quantity integer not null default 1 check (quantity > 0),
+  -- Units used per day; null means one pack lasts frequency_days
+  add column if not exists consumption_rate decimal(10, 3) check (consumption_rate > 0),
+  -- Days between reordering and delivery; reminders fire this long before run-out
+  add column if not exists lead_time_days integer not null default 0 check (lead_time_days >= 0);
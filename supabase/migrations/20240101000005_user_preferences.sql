@@ -0,0 +1,34 @@
+-- User preferences: reminder delivery preferences
+create table if not exists public.user_preferences (
+  user_id uuid primary key references auth.users(id) on delete cascade,
+  -- IANA timezone name; reminder times below are wall-clock times in this zone
+  timezone text not null default 'UTC',
+  -- Deliver reminders at this local time on the day they're due (null = as soon as due)
+  preferred_reminder_time time,
+  -- No reminders between these local times; start > end spans midnight
+  quiet_hours_start time,
+  quiet_hours_end time,
+  updated_at timestamp with time zone not null default now(),
+  constraint user_preferences_quiet_hours_complete
+    check ((quiet_hours_start is null) = (quiet_hours_end is null))
+);
+
+-- Enable RLS
+alter table public.user_preferences enable row level security;
+
+-- Users can only see and edit their own preferences
+create policy "Users can view own preferences"
+  on public.user_preferences for select
+  using (auth.uid() = user_id);
+
+create policy "Users can create own preferences"
+  on public.user_preferences for insert
+  with check (auth.uid() = user_id);
+
+create policy "Users can update own preferences"
+  on public.user_preferences for update
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+-- Grant access to authenticated users
+grant select, insert, update on public.user_preferences to authenticated;
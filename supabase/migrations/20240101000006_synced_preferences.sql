@@ -0,0 +1,20 @@
+-- Extension settings kept in user_preferences, synced two-way with the
+-- extension's chrome.storage.sync and read by send-reminders. updated_at
+-- is the last change on any device; the newer side wins when syncing.
+alter table public.user_preferences
+  -- Email reminders used to go to everyone, so existing rows stay opted in
+  add column if not exists email_reminders boolean not null default true,
+  add column if not exists notification_mode text not null default 'per-item' check (notification_mode in ('per-item', 'digest')),
+  add column if not exists max_notifications_per_check integer not null default 3 check (max_notifications_per_check > 0),
+  -- Used when a product's frequency can't be suggested
+  add column if not exists default_frequency_days integer not null default 30 check (default_frequency_days > 0);
+
+-- New users opt in to email reminders
+alter table public.user_preferences alter column email_reminders set default false;
+
+-- Existing users keep getting emails. The epoch timestamp means any setting
+-- already saved in the extension (an email opt-out, say) wins on first sync.
+insert into public.user_preferences (user_id, email_reminders, updated_at)
+select id, true, 'epoch'
+from auth.users
+on conflict (user_id) do nothing;
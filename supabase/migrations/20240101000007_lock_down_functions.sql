@@ -0,0 +1,66 @@
+-- Close cross-tenant leaks in functions and policies.
+--
+-- get_due_subscriptions() was security definer with no user filter and
+-- granted to authenticated, so any signed-in user could read every user's
+-- subscriptions. It is replaced by a caller-scoped version plus a separate
+-- function that only the service role (send-reminders) may execute.
+--
+-- Note: Supabase grants execute on new public functions to anon and
+-- authenticated by default, so every function here revokes explicitly.
+
+drop function if exists public.get_due_subscriptions();
+
+-- Caller's own subscriptions due before a point in time. Runs as the caller,
+-- so RLS applies too; the user_id filter keeps it scoped even if it doesn't.
+create or replace function public.get_due_subscriptions(due_before timestamp with time zone default now())
+returns setof public.subscriptions
+language sql
+stable
+security invoker
+set search_path = ''
+as $$
+  select *
+  from public.subscriptions
+  where user_id = auth.uid()
+  and next_reminder_at <= due_before
+  order by next_reminder_at;
+$$;
+
+revoke execute on function public.get_due_subscriptions(timestamp with time zone) from public, anon;
+grant execute on function public.get_due_subscriptions(timestamp with time zone) to authenticated;
+
+-- Every user's subscriptions due before a point in time, with the owner's
+-- email address. Used by send-reminders; service role only.
+create or replace function public.get_due_reminder_recipients(due_before timestamp with time zone)
+returns table (
+  id uuid,
+  user_id uuid,
+  email text,
+  product_name text,
+  product_url text,
+  retailer text,
+  price decimal(10, 2),
+  frequency_days integer,
+  next_reminder_at timestamp with time zone
+)
+language sql
+stable
+security definer
+set search_path = ''
+as $$
+  select s.id, s.user_id, u.email::text, s.product_name, s.product_url,
+    s.retailer, s.price, s.frequency_days, s.next_reminder_at
+  from public.subscriptions s
+  join auth.users u on u.id = s.user_id
+  where s.next_reminder_at <= due_before
+  order by s.next_reminder_at;
+$$;
+
+revoke execute on function public.get_due_reminder_recipients(timestamp with time zone) from public, anon, authenticated;
+grant execute on function public.get_due_reminder_recipients(timestamp with time zone) to service_role;
+
+-- ai_analyses rows are usage logs written by analyze-order. The old
+-- "with check (true)" policy let any client insert rows for any user;
+-- only the service role (which bypasses RLS) writes them now.
+drop policy if exists "Service can insert ai_analyses" on public.ai_analyses;
+revoke insert, update, delete on public.ai_analyses from anon, authenticated;
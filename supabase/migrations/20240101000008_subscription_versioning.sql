@@ -0,0 +1,25 @@
+-- Row versioning for offline edits. The extension queues changes made while
+-- offline together with the updated_at they were based on; when replaying,
+-- a different updated_at means the row changed elsewhere in the meantime.
+alter table public.subscriptions
+  add column if not exists updated_at timestamp with time zone not null default now();
+
+update public.subscriptions
+set updated_at = coalesce(last_ordered_at, created_at, now());
+
+-- Bump updated_at on every write, whoever makes it
+create or replace function public.set_updated_at()
+returns trigger
+language plpgsql
+set search_path = ''
+as $$
+begin
+  new.updated_at = now();
+  return new;
+end;
+$$;
+
+drop trigger if exists subscriptions_set_updated_at on public.subscriptions;
+create trigger subscriptions_set_updated_at
+  before update on public.subscriptions
+  for each row execute function public.set_updated_at();
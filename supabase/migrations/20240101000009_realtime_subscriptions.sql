@@ -0,0 +1,15 @@
+-- Broadcast subscription changes over Supabase Realtime so other devices can
+-- update their cache and clear reminders straight away. Realtime applies the
+-- table's RLS policies, so users only receive their own rows.
+do $$
+begin
+  if exists (select 1 from pg_publication where pubname = 'supabase_realtime')
+    and not exists (
+      select 1 from pg_publication_tables
+      where pubname = 'supabase_realtime' and schemaname = 'public' and tablename = 'subscriptions'
+    )
+  then
+    alter publication supabase_realtime add table public.subscriptions;
+  end if;
+end;
+$$;
@@ -0,0 +1,67 @@
+-- Price history: every price seen for a subscription. subscriptions.price
+-- stays the latest one and typical_price the median, so reminders and the
+-- sidebar can flag a reorder that costs notably more than usual.
+create table if not exists public.price_observations (
+  id uuid primary key default uuid_generate_v4(),
+  subscription_id uuid not null references public.subscriptions(id) on delete cascade,
+  user_id uuid not null references auth.users(id) on delete cascade,
+  price decimal(10, 2) not null check (price >= 0),
+  -- An order confirmation, an edit in the popup, or a visit to the product page
+  source text not null check (source in ('order', 'manual', 'page')),
+  observed_at timestamp with time zone not null default now()
+);
+
+create index if not exists idx_price_observations_subscription_id
+  on public.price_observations(subscription_id, observed_at desc);
+create index if not exists idx_price_observations_user_id on public.price_observations(user_id);
+
+-- Enable RLS
+alter table public.price_observations enable row level security;
+
+-- Users can only see their own price history
+create policy "Users can view own price observations"
+  on public.price_observations for select
+  using (auth.uid() = user_id);
+
+-- Users can record prices for their own subscriptions
+create policy "Users can create own price observations"
+  on public.price_observations for insert
+  with check (
+    auth.uid() = user_id
+    and exists (
+      select 1 from public.subscriptions
+      where subscriptions.id = price_observations.subscription_id
+      and subscriptions.user_id = auth.uid()
+    )
+  );
+
+grant select, insert on public.price_observations to authenticated;
+
+alter table public.subscriptions
+  add column if not exists typical_price decimal(10, 2);
+
+-- Backfill from order history, and the current price where there is none
+insert into public.price_observations (subscription_id, user_id, price, source, observed_at)
+select subscription_id, user_id, unit_price, 'order', ordered_at
+from public.orders
+where unit_price is not null;
+
+insert into public.price_observations (subscription_id, user_id, price, source, observed_at)
+select id, user_id, price, 'manual', coalesce(created_at, now())
+from public.subscriptions s
+where price is not null
+and not exists (
+  select 1 from public.price_observations p where p.subscription_id = s.id
+);
+
+update public.subscriptions s
+set typical_price = (
+  select percentile_cont(0.5) within group (order by price)
+  from public.price_observations p
+  where p.subscription_id = s.id
+);
+
+-- Threshold for those alerts, synced with the extension's preferences
+alter table public.user_preferences
+  add column if not exists price_alert_percent integer not null default 10
+  check (price_alert_percent >= 0);
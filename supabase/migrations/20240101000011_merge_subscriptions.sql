@@ -0,0 +1,43 @@
+-- Product identity: the SKU (or GTIN/MPN) a store gave for the product, when
+-- the order page stated one. Lets the extension tell that two differently
+-- named subscriptions are the same product.
+alter table public.subscriptions
+  add column if not exists sku text;
+
+-- Merge a duplicate subscription into the one being kept: its order, price
+-- and reminder history move over and the duplicate is deleted, in one
+-- transaction. Security definer because clients can't update history rows;
+-- both subscriptions must belong to the caller.
+create or replace function public.merge_subscriptions(keep_id uuid, duplicate_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = ''
+as $$
+begin
+  if keep_id = duplicate_id then
+    raise exception 'Cannot merge a subscription into itself' using errcode = '22023';
+  end if;
+
+  if (
+    select count(*) from public.subscriptions
+    where id in (keep_id, duplicate_id) and user_id = auth.uid()
+  ) <> 2 then
+    raise exception 'Subscription not found' using errcode = '42501';
+  end if;
+
+  update public.orders set subscription_id = keep_id where subscription_id = duplicate_id;
+  update public.price_observations set subscription_id = keep_id where subscription_id = duplicate_id;
+  update public.reminders set subscription_id = keep_id where subscription_id = duplicate_id;
+
+  -- Keep the SKU if only the duplicate had one
+  update public.subscriptions
+  set sku = coalesce(sku, (select sku from public.subscriptions where id = duplicate_id))
+  where id = keep_id;
+
+  delete from public.subscriptions where id = duplicate_id;
+end;
+$$;
+
+revoke execute on function public.merge_subscriptions(uuid, uuid) from public, anon;
+grant execute on function public.merge_subscriptions(uuid, uuid) to authenticated;
@@ -0,0 +1,59 @@
+-- Multi-currency prices: every price is in its row's currency, an ISO 4217
+-- code. Rows from before this were all recorded in dollars.
+alter table public.subscriptions
+  add column if not exists currency text not null default 'USD'
+    check (currency ~ '^[A-Z]{3}$');
+
+alter table public.orders
+  add column if not exists currency text not null default 'USD'
+    check (currency ~ '^[A-Z]{3}$');
+
+-- Price history keeps prices from before a currency edit or a merge with a
+-- subscription priced in another currency; the typical price only uses the
+-- subscription's current one
+alter table public.price_observations
+  add column if not exists currency text not null default 'USD'
+    check (currency ~ '^[A-Z]{3}$');
+
+-- Two decimal places fit dollars and euros but not three-decimal currencies
+-- (KWD, BHD), and yen or rupee amounts run larger
+alter table public.subscriptions
+  alter column price type decimal(14, 3),
+  alter column typical_price type decimal(14, 3);
+alter table public.orders
+  alter column unit_price type decimal(14, 3);
+alter table public.price_observations
+  alter column price type decimal(14, 3);
+
+-- send-reminders formats prices in the subscription's currency. The return
+-- type changes, so the function is dropped and recreated.
+drop function if exists public.get_due_reminder_recipients(timestamp with time zone);
+
+create function public.get_due_reminder_recipients(due_before timestamp with time zone)
+returns table (
+  id uuid,
+  user_id uuid,
+  email text,
+  product_name text,
+  product_url text,
+  retailer text,
+  price decimal(14, 3),
+  currency text,
+  frequency_days integer,
+  next_reminder_at timestamp with time zone
+)
+language sql
+stable
+security definer
+set search_path = ''
+as $$
+  select s.id, s.user_id, u.email::text, s.product_name, s.product_url,
+    s.retailer, s.price, s.currency, s.frequency_days, s.next_reminder_at
+  from public.subscriptions s
+  join auth.users u on u.id = s.user_id
+  where s.next_reminder_at <= due_before
+  order by s.next_reminder_at;
+$$;
+
+revoke execute on function public.get_due_reminder_recipients(timestamp with time zone) from public, anon, authenticated;
+grant execute on function public.get_due_reminder_recipients(timestamp with time zone) to service_role;
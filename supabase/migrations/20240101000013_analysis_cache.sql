@@ -0,0 +1,12 @@
+-- Let analyze-order reuse its result when the same user sends the same page
+-- again (a reload, or a cache cleared in the extension), instead of paying
+-- for another AI call. page_fingerprint is the extension's SHA-256 of the
+-- page's normalized URL and text; the URL itself is never sent.
+alter table public.ai_analyses
+  add column if not exists page_fingerprint text
+    check (page_fingerprint ~ '^[0-9a-f]{64}$'),
+  add column if not exists result jsonb;
+
+create index if not exists idx_ai_analyses_page_fingerprint
+  on public.ai_analyses(user_id, page_fingerprint, created_at desc)
+  where page_fingerprint is not null;
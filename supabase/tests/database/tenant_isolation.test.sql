@@ -0,0 +1,260 @@
+-- Cross-tenant isolation: a signed-in user can neither read nor write another
+-- user's rows in any table, and service-only functions stay service-only.
+--
+-- Run against the local stack: supabase test db
+
+begin;
+
+create extension if not exists pgtap with schema extensions;
+
+select plan(37);
+
+-- Fixtures (inserted as the owner, bypassing RLS)
+insert into auth.users (id, email) values
+  ('11111111-1111-1111-1111-111111111111', 'alice@example.com'),
+  ('22222222-2222-2222-2222-222222222222', 'bob@example.com');
+
+insert into public.subscriptions (id, user_id, product_name, retailer, next_reminder_at) values
+  ('aaaaaaaa-0000-0000-0000-000000000001', '11111111-1111-1111-1111-111111111111', 'Alice Coffee', 'Amazon', now() - interval '1 day'),
+  ('bbbbbbbb-0000-0000-0000-000000000001', '22222222-2222-2222-2222-222222222222', 'Bob Coffee', 'Amazon', now() - interval '1 day');
+
+insert into public.reminders (subscription_id, channel) values
+  ('aaaaaaaa-0000-0000-0000-000000000001', 'browser'),
+  ('bbbbbbbb-0000-0000-0000-000000000001', 'browser');
+
+insert into public.orders (subscription_id, user_id, source) values
+  ('aaaaaaaa-0000-0000-0000-000000000001', '11111111-1111-1111-1111-111111111111', 'manual'),
+  ('bbbbbbbb-0000-0000-0000-000000000001', '22222222-2222-2222-2222-222222222222', 'manual');
+
+insert into public.ai_analyses (user_id, provider, is_order_confirmation, confidence, product_count) values
+  ('11111111-1111-1111-1111-111111111111', 'openai', true, 0.9, 1),
+  ('22222222-2222-2222-2222-222222222222', 'openai', true, 0.9, 1);
+
+insert into public.price_observations (subscription_id, user_id, price, source) values
+  ('aaaaaaaa-0000-0000-0000-000000000001', '11111111-1111-1111-1111-111111111111', 12.99, 'order'),
+  ('bbbbbbbb-0000-0000-0000-000000000001', '22222222-2222-2222-2222-222222222222', 12.99, 'order');
+
+insert into public.user_preferences (user_id, email_reminders) values
+  ('11111111-1111-1111-1111-111111111111', true),
+  ('22222222-2222-2222-2222-222222222222', true);
+
+select is_empty(
+  $$ select relname from pg_class
+     where relnamespace = 'public'::regnamespace and relkind = 'r' and not relrowsecurity $$,
+  'RLS is enabled on every public table'
+);
+
+-- Act as Alice
+set local role authenticated;
+select set_config('request.jwt.claims', '{"sub": "11111111-1111-1111-1111-111111111111", "role": "authenticated"}', true);
+
+-- subscriptions
+select results_eq(
+  $$ select id from public.subscriptions $$,
+  $$ values ('aaaaaaaa-0000-0000-0000-000000000001'::uuid) $$,
+  'subscriptions: only own rows are visible'
+);
+select throws_ok(
+  $$ insert into public.subscriptions (user_id, product_name, retailer)
+     values ('22222222-2222-2222-2222-222222222222', 'Planted', 'Amazon') $$,
+  '42501', null,
+  'subscriptions: cannot insert for another user'
+);
+select is_empty(
+  $$ update public.subscriptions set product_name = 'Hijacked'
+     where id = 'bbbbbbbb-0000-0000-0000-000000000001' returning id $$,
+  'subscriptions: cannot update another user''s row'
+);
+select throws_ok(
+  $$ update public.subscriptions set user_id = '22222222-2222-2222-2222-222222222222'
+     where id = 'aaaaaaaa-0000-0000-0000-000000000001' $$,
+  '42501', null,
+  'subscriptions: cannot hand a row to another user'
+);
+select is_empty(
+  $$ delete from public.subscriptions
+     where id = 'bbbbbbbb-0000-0000-0000-000000000001' returning id $$,
+  'subscriptions: cannot delete another user''s row'
+);
+
+-- reminders
+select results_eq(
+  $$ select subscription_id from public.reminders $$,
+  $$ values ('aaaaaaaa-0000-0000-0000-000000000001'::uuid) $$,
+  'reminders: only own rows are visible'
+);
+select throws_ok(
+  $$ insert into public.reminders (subscription_id, channel)
+     values ('bbbbbbbb-0000-0000-0000-000000000001', 'browser') $$,
+  '42501', null,
+  'reminders: cannot insert for another user''s subscription'
+);
+select is_empty(
+  $$ delete from public.reminders
+     where subscription_id = 'bbbbbbbb-0000-0000-0000-000000000001' returning id $$,
+  'reminders: cannot delete another user''s row'
+);
+
+-- orders
+select results_eq(
+  $$ select subscription_id from public.orders $$,
+  $$ values ('aaaaaaaa-0000-0000-0000-000000000001'::uuid) $$,
+  'orders: only own rows are visible'
+);
+select throws_ok(
+  $$ insert into public.orders (subscription_id, user_id, source)
+     values ('bbbbbbbb-0000-0000-0000-000000000001', '22222222-2222-2222-2222-222222222222', 'manual') $$,
+  '42501', null,
+  'orders: cannot insert for another user'
+);
+select throws_ok(
+  $$ insert into public.orders (subscription_id, user_id, source)
+     values ('bbbbbbbb-0000-0000-0000-000000000001', '11111111-1111-1111-1111-111111111111', 'manual') $$,
+  '42501', null,
+  'orders: cannot attach an order to another user''s subscription'
+);
+select is_empty(
+  $$ delete from public.orders
+     where user_id = '22222222-2222-2222-2222-222222222222' returning id $$,
+  'orders: cannot delete another user''s row'
+);
+
+-- ai_analyses
+select results_eq(
+  $$ select user_id from public.ai_analyses $$,
+  $$ values ('11111111-1111-1111-1111-111111111111'::uuid) $$,
+  'ai_analyses: only own rows are visible'
+);
+select throws_ok(
+  $$ insert into public.ai_analyses (user_id, provider, is_order_confirmation, confidence, product_count)
+     values ('22222222-2222-2222-2222-222222222222', 'openai', true, 0.9, 1) $$,
+  '42501', null,
+  'ai_analyses: cannot insert for another user'
+);
+select throws_ok(
+  $$ insert into public.ai_analyses (user_id, provider, is_order_confirmation, confidence, product_count)
+     values ('11111111-1111-1111-1111-111111111111', 'openai', true, 0.9, 1) $$,
+  '42501', null,
+  'ai_analyses: cannot insert even for self'
+);
+select throws_ok(
+  $$ delete from public.ai_analyses $$,
+  '42501', null,
+  'ai_analyses: cannot delete'
+);
+
+-- price_observations
+select results_eq(
+  $$ select subscription_id from public.price_observations $$,
+  $$ values ('aaaaaaaa-0000-0000-0000-000000000001'::uuid) $$,
+  'price_observations: only own rows are visible'
+);
+select throws_ok(
+  $$ insert into public.price_observations (subscription_id, user_id, price, source)
+     values ('bbbbbbbb-0000-0000-0000-000000000001', '22222222-2222-2222-2222-222222222222', 0.01, 'manual') $$,
+  '42501', null,
+  'price_observations: cannot insert for another user'
+);
+select throws_ok(
+  $$ insert into public.price_observations (subscription_id, user_id, price, source)
+     values ('bbbbbbbb-0000-0000-0000-000000000001', '11111111-1111-1111-1111-111111111111', 0.01, 'manual') $$,
+  '42501', null,
+  'price_observations: cannot attach a price to another user''s subscription'
+);
+
+-- user_preferences
+select results_eq(
+  $$ select user_id from public.user_preferences $$,
+  $$ values ('11111111-1111-1111-1111-111111111111'::uuid) $$,
+  'user_preferences: only own row is visible'
+);
+select throws_ok(
+  $$ insert into public.user_preferences (user_id)
+     values ('22222222-2222-2222-2222-222222222222') $$,
+  '42501', null,
+  'user_preferences: cannot insert for another user'
+);
+select is_empty(
+  $$ update public.user_preferences set email_reminders = false
+     where user_id = '22222222-2222-2222-2222-222222222222' returning user_id $$,
+  'user_preferences: cannot update another user''s row'
+);
+
+-- Functions
+select results_eq(
+  $$ select id from public.get_due_subscriptions(now() + interval '1 day') $$,
+  $$ values ('aaaaaaaa-0000-0000-0000-000000000001'::uuid) $$,
+  'get_due_subscriptions: returns only the caller''s subscriptions'
+);
+select throws_ok(
+  $$ select * from public.get_due_reminder_recipients(now()) $$,
+  '42501', null,
+  'get_due_reminder_recipients: not executable by users'
+);
+select throws_ok(
+  $$ select public.merge_subscriptions('aaaaaaaa-0000-0000-0000-000000000001', 'bbbbbbbb-0000-0000-0000-000000000001') $$,
+  '42501', null,
+  'merge_subscriptions: cannot merge another user''s subscription into own'
+);
+select throws_ok(
+  $$ select public.merge_subscriptions('bbbbbbbb-0000-0000-0000-000000000001', 'aaaaaaaa-0000-0000-0000-000000000001') $$,
+  '42501', null,
+  'merge_subscriptions: cannot merge own subscription into another user''s'
+);
+
+-- Act as Bob: the same holds the other way round
+select set_config('request.jwt.claims', '{"sub": "22222222-2222-2222-2222-222222222222", "role": "authenticated"}', true);
+
+select results_eq(
+  $$ select id from public.subscriptions $$,
+  $$ values ('bbbbbbbb-0000-0000-0000-000000000001'::uuid) $$,
+  'subscriptions: other user sees only their own rows'
+);
+select results_eq(
+  $$ select product_name from public.subscriptions $$,
+  $$ values ('Bob Coffee'::text) $$,
+  'subscriptions: other user''s row was not modified'
+);
+select results_eq(
+  $$ select id from public.get_due_subscriptions(now() + interval '1 day') $$,
+  $$ values ('bbbbbbbb-0000-0000-0000-000000000001'::uuid) $$,
+  'get_due_subscriptions: scoped for the other user too'
+);
+select results_eq(
+  $$ select email_reminders from public.user_preferences $$,
+  $$ values (true) $$,
+  'user_preferences: other user''s row was not modified'
+);
+
+-- Anonymous clients see nothing
+reset role;
+select set_config('request.jwt.claims', '{"role": "anon"}', true);
+set local role anon;
+
+select is_empty($$ select id from public.subscriptions $$, 'anon: no subscriptions');
+select is_empty($$ select id from public.orders $$, 'anon: no orders');
+select is_empty($$ select user_id from public.user_preferences $$, 'anon: no preferences');
+select throws_ok(
+  $$ select * from public.get_due_subscriptions() $$,
+  '42501', null,
+  'anon: cannot call get_due_subscriptions'
+);
+select throws_ok(
+  $$ select public.merge_subscriptions('aaaaaaaa-0000-0000-0000-000000000001', 'bbbbbbbb-0000-0000-0000-000000000001') $$,
+  '42501', null,
+  'anon: cannot call merge_subscriptions'
+);
+
+-- The service role can read every due subscription with its owner's email
+reset role;
+set local role service_role;
+
+select results_eq(
+  $$ select email from public.get_due_reminder_recipients(now()) order by email $$,
+  $$ values ('alice@example.com'::text), ('bob@example.com'::text) $$,
+  'get_due_reminder_recipients: service role sees all users'
+);
+
+select * from finish();
+
+rollback;